@@ -10,7 +10,7 @@ import type { Job as PgBossJob } from 'pg-boss'
 import { Pool } from 'pg'
 import type { Pool as PgPool } from 'pg'
 import { defineNitroPlugin } from 'nitropack/runtime'
-import { useRuntimeConfig, registerQueueAdapter, useNventLogger } from '#imports'
+import { useRuntimeConfig, registerQueueAdapter, useNventLogger, decodeJobsCursor } from '#imports'
 import defu from 'defu'
 import type {
   QueueAdapter,
@@ -52,6 +52,7 @@ interface QueueCache {
   subscribed: Set<string>
   concurrency: number
   workerStarted: boolean
+  paused: boolean
 }
 
 export class PostgresQueueAdapter implements QueueAdapter {
@@ -153,6 +154,7 @@ export class PostgresQueueAdapter implements QueueAdapter {
       subscribed: new Set<string>(),
       concurrency: 1, // Default concurrency
       workerStarted: false,
+      paused: false,
     }
 
     this.queues.set(name, cached)
@@ -345,15 +347,43 @@ export class PostgresQueueAdapter implements QueueAdapter {
         values.push(stateFilter)
       }
 
+      // Job name is stored in data by the dispatcher
+      if (query?.name) {
+        conditions.push(`data->>'__jobName' = $${values.length + 1}`)
+        values.push(query.name)
+      }
+
+      // Time range and cursor compare at millisecond precision, like Job.timestamp
+      const createdOn = `date_trunc('milliseconds', created_on)`
+      if (query?.from !== undefined) {
+        conditions.push(`${createdOn} >= to_timestamp($${values.length + 1}::double precision / 1000)`)
+        values.push(query.from)
+      }
+      if (query?.to !== undefined) {
+        conditions.push(`${createdOn} <= to_timestamp($${values.length + 1}::double precision / 1000)`)
+        values.push(query.to)
+      }
+
+      const direction = query?.sort === 'asc' ? 'ASC' : 'DESC'
+      const cursor = query?.cursor ? decodeJobsCursor(query.cursor) : null
+      if (cursor) {
+        // Keyset pagination: continue after the cursor job in sort order
+        const operator = direction === 'ASC' ? '>' : '<'
+        conditions.push(
+          `(${createdOn}, id::text) ${operator} (to_timestamp($${values.length + 1}::double precision / 1000), $${values.length + 2})`,
+        )
+        values.push(cursor.timestamp, cursor.id)
+      }
+
       const whereClause = conditions.join(' AND ')
 
       // Use our own pg Pool for queries
       const result = await this.pgPool.query(
         `SELECT * FROM ${schema}.job
          WHERE ${whereClause}
-         ORDER BY created_on DESC
+         ORDER BY ${createdOn} ${direction}, id::text ${direction}
          LIMIT $${values.length + 1} OFFSET $${values.length + 2}`,
-        [...values, limit, offset],
+        [...values, limit, cursor ? 0 : offset],
       )
 
       if (!result || !result.rows) {
@@ -388,10 +418,9 @@ export class PostgresQueueAdapter implements QueueAdapter {
     }
   }
 
-  async isPaused(_queueName: string): Promise<boolean> {
-    // pg-boss doesn't have a direct pause/resume mechanism per queue
-    // This would need to be tracked separately
-    return false
+  async isPaused(queueName: string): Promise<boolean> {
+    // pg-boss doesn't have a pause state, it is tracked per instance (see pause())
+    return this.queues.get(queueName)?.paused || false
   }
 
   async getJobCounts(queueName: string): Promise<JobCounts> {
@@ -488,39 +517,87 @@ export class PostgresQueueAdapter implements QueueAdapter {
     }
 
     try {
-      // jobId is a singletonKey, but pg-boss cancel() expects the actual UUID job id
-      // We need to query for the job first to get its real id
-      const schema = this.options.schema || 'pgboss'
-      const queryResult = await this.pgPool?.query(
-        `SELECT id, state FROM ${schema}.job 
-         WHERE name = $1
-         AND singleton_key = $2
-         AND state IN ('created', 'retry')
-         LIMIT 1`,
-        [queueName, jobId],
-      )
+      // jobId may be a singletonKey, but pg-boss expects the actual UUID job id
+      const job = await this.findJob(queueName, jobId)
 
-      if (!queryResult?.rows?.[0]) {
+      if (!job) {
         this.logger.warn(`Job not found for removal: queue=${queueName}, jobId=${jobId}`)
         return false
       }
 
-      const actualJobId = queryResult.rows[0].id
-      const jobState = queryResult.rows[0].state
+      // Running handlers can't be interrupted
+      if (job.state === 'active') {
+        throw new Error(`Job ${jobId} is active and cannot be removed`)
+      }
 
-      this.logger.info(`Removing job: queue=${queueName}, jobId=${jobId}, actualId=${actualJobId}, state=${jobState}`)
+      this.logger.info(`Removing job: queue=${queueName}, jobId=${jobId}, actualId=${job.id}, state=${job.state}`)
 
-      // Use pg-boss's cancel method for proper stats tracking
-      // cancel() works for jobs in created, retry, or active states
-      // Returns { jobs: [id], requested: 1, affected: N } where N is number of cancelled jobs
-      const cancelResult = await this.boss.cancel(queueName, actualJobId) as any
-      this.logger.info(`Cancel result:`, cancelResult)
-      return cancelResult && cancelResult.affected > 0
+      // Returns { jobs: [id], requested: 1, affected: N } where N is number of deleted jobs
+      const deleteResult = await this.boss.deleteJob(queueName, job.id) as any
+      return deleteResult && deleteResult.affected > 0
     }
     catch (error) {
       this.logger.error('Error removing job:', error)
+      throw error
+    }
+  }
+
+  async retryJob(queueName: string, jobId: string): Promise<boolean> {
+    if (!this.boss) {
+      return false
+    }
+
+    const job = await this.findJob(queueName, jobId)
+
+    // Cancelled jobs are listed as failed, pg-boss brings them back with resume()
+    let result: any
+    if (job?.state === 'failed') {
+      result = await this.boss.retry(queueName, job.id)
+    }
+    else if (job?.state === 'cancelled') {
+      result = await this.boss.resume(queueName, job.id)
+    }
+    else {
       return false
     }
+
+    this.emitEvent(queueName, 'waiting', { jobId: job.id })
+    return !!result && result.affected > 0
+  }
+
+  async promoteJob(queueName: string, jobId: string): Promise<boolean> {
+    if (!this.pgPool) {
+      return false
+    }
+
+    const job = await this.findJob(queueName, jobId)
+    if (!job) {
+      return false
+    }
+
+    // Delayed jobs (and retries waiting for their backoff) only become fetchable after start_after
+    const schema = this.options.schema || 'pgboss'
+    const result = await this.pgPool.query(
+      `UPDATE ${schema}.job SET start_after = now()
+       WHERE name = $1
+       AND id = $2
+       AND state IN ('created', 'retry')
+       AND start_after > now()`,
+      [queueName, job.id],
+    )
+
+    if (!result.rowCount) {
+      return false
+    }
+
+    this.emitEvent(queueName, 'waiting', { jobId: job.id })
+    return true
+  }
+
+  async drain(queueName: string): Promise<void> {
+    const { boss } = this.ensureQueue(queueName)
+    // Deletes created and retry jobs, active and finished jobs are kept
+    await boss.deleteQueuedJobs(queueName)
   }
 
   async getScheduledJobs(queueName: string): Promise<Array<any>> {
@@ -567,15 +644,33 @@ export class PostgresQueueAdapter implements QueueAdapter {
     }
   }
 
-  async pause(_queueName: string): Promise<void> {
-    // pg-boss doesn't have a built-in pause mechanism
-    // Would need to track this state and skip work() calls
-    this.logger.warn('pause() not implemented - pg-boss does not support queue pausing')
+  async pause(queueName: string): Promise<void> {
+    // pg-boss doesn't have a built-in pause mechanism: stop this instance's workers
+    // Other instances keep processing until they are paused as well
+    const queueCache = this.ensureQueue(queueName)
+    queueCache.paused = true
+
+    if (queueCache.workerStarted) {
+      await queueCache.boss.offWork(queueName)
+      queueCache.workerStarted = false
+      queueCache.subscribed.delete(queueName)
+    }
+
+    this.emitEvent(queueName, 'paused', { queueName })
   }
 
-  async resume(_queueName: string): Promise<void> {
-    // pg-boss doesn't have a built-in resume mechanism
-    this.logger.warn('resume() not implemented - pg-boss does not support queue resuming')
+  async resume(queueName: string): Promise<void> {
+    const queueCache = this.ensureQueue(queueName)
+    if (!queueCache.paused) {
+      return
+    }
+
+    queueCache.paused = false
+
+    // Restart workers only if they were registered before
+    if (queueCache.handlers.size > 0) {
+      this.startProcessingQueue(queueName)
+    }
   }
 
   registerWorker(
@@ -607,7 +702,7 @@ export class PostgresQueueAdapter implements QueueAdapter {
       return
     }
 
-    if (queueCache.workerStarted) {
+    if (queueCache.workerStarted || queueCache.paused) {
       return
     }
 
@@ -782,6 +877,27 @@ export class PostgresQueueAdapter implements QueueAdapter {
     this.initialized = false
   }
 
+  /**
+   * Look up a job by its UUID or by the singletonKey used as custom jobId
+   */
+  private async findJob(queueName: string, jobId: string): Promise<{ id: string, state: string } | null> {
+    if (!this.pgPool) {
+      return null
+    }
+
+    const schema = this.options.schema || 'pgboss'
+    const result = await this.pgPool.query(
+      `SELECT id, state FROM ${schema}.job
+       WHERE name = $1
+       AND (id::text = $2 OR singleton_key = $2)
+       ORDER BY created_on DESC
+       LIMIT 1`,
+      [queueName, jobId],
+    )
+
+    return result?.rows?.[0] || null
+  }
+
   private toJob(j: PgBossJob): Job {
     // Cast to any to access pg-boss specific properties
     const pgJob = j as any
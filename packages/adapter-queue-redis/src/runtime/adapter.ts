@@ -8,13 +8,14 @@
 import { Queue, QueueEvents, Worker } from 'bullmq'
 import type { JobsOptions, Job as BullJob } from 'bullmq'
 import { defineNitroPlugin } from 'nitropack/runtime'
-import { useRuntimeConfig, registerQueueAdapter } from '#imports'
+import { useRuntimeConfig, registerQueueAdapter, matchesJobsQuery, compareJobs } from '#imports'
 import defu from 'defu'
 import type {
   QueueAdapter,
   JobInput,
   Job,
   JobsQuery,
+  JobState,
   ScheduleOptions,
   QueueEvent,
   JobCounts,
@@ -46,6 +47,11 @@ interface WorkerInfo {
   handlers: Map<string, WorkerHandler>
 }
 
+const ALL_STATES: JobState[] = ['waiting', 'active', 'completed', 'failed', 'delayed', 'paused']
+
+// Most jobs fetched per round trip when reading a state list
+const SCAN_BATCH_SIZE = 500
+
 export class RedisQueueAdapter implements QueueAdapter {
   private queues = new Map<string, QueueCache>()
   private workers = new Map<string, WorkerInfo>()
@@ -131,17 +137,64 @@ export class RedisQueueAdapter implements QueueAdapter {
     const { queue } = this.ensureQueue(queueName)
 
     // Determine which states to query
-    const states = query?.state && query.state.length > 0
-      ? query.state
-      : ['waiting', 'active', 'completed', 'failed', 'delayed', 'paused']
+    const states = query?.state && query.state.length > 0 ? query.state : ALL_STATES
+    const direction = query?.sort === 'asc' ? 1 : -1
+    const filter = { ...query, state: undefined }
 
-    // Apply offset and limit
-    const start = query?.offset || 0
+    const skip = query?.cursor ? 0 : (query?.offset || 0)
     const limit = query?.limit || 1000
-    const end = start + limit - 1
+    const wanted = skip + limit
+    const batchSize = Math.min(SCAN_BATCH_SIZE, wanted)
+
+    // BullMQ only indexes jobs by state, and not every state list by creation time:
+    // collect the matching jobs of each list and sort them by the cursor key
+    // (creation time, then id), keeping no more than the page needs
+    const jobs: Job[] = []
+    const keep = () => {
+      jobs.sort((a, b) => direction * compareJobs(a, b))
+      if (jobs.length > wanted) jobs.length = wanted
+    }
+    // Whether the jobs after a score can't match the query or make it onto the page
+    const isPast = (score: number) =>
+      (query?.from !== undefined && score < query.from)
+      || (direction < 0 && jobs.length >= wanted && score < (jobs[wanted - 1]!.timestamp || 0))
+
+    for (const state of states) {
+      for await (const job of this.readStateJobs(queue, state, filter, batchSize, isPast)) {
+        jobs.push(job)
+        if (jobs.length >= wanted + batchSize) keep()
+      }
+      keep()
+    }
+
+    return jobs.slice(skip)
+  }
+
+  /**
+   * Jobs of one state list matching a query, read in batches from the end of the list
+   * Completed and failed lists are scored by finish time, never earlier than a job's creation,
+   * so reading stops once isPast() rules out the rest of the list. The other lists are ordered
+   * by insertion (retried and promoted jobs are inserted late) and read in full.
+   */
+  private async* readStateJobs(
+    queue: Queue,
+    state: JobState,
+    query: JobsQuery,
+    batchSize: number,
+    isPast: (score: number) => boolean,
+  ): AsyncGenerator<Job> {
+    for (let start = 0; ; start += batchSize) {
+      const batch = await queue.getJobs([state] as any, start, start + batchSize - 1, false)
+      for (const j of batch.filter(Boolean)) {
+        const job = await this.toJob(j, state)
+        if (matchesJobsQuery(job, query)) yield job
+      }
+      if (batch.length < batchSize) return
 
-    const jobs = await queue.getJobs(states as any, start, end)
-    return await Promise.all(jobs.map(j => this.toJob(j)))
+      const last = batch.at(-1)
+      const score = (state === 'completed' || state === 'failed') ? last?.finishedOn : undefined
+      if (score !== undefined && isPast(score)) return
+    }
   }
 
   on(queueName: string, event: QueueEvent, cb: (p: any) => void): () => void {
@@ -192,6 +245,36 @@ export class RedisQueueAdapter implements QueueAdapter {
     return true
   }
 
+  async retryJob(queueName: string, jobId: string): Promise<boolean> {
+    const { queue } = this.ensureQueue(queueName)
+    const job = await queue.getJob(jobId)
+
+    if (!job || !(await job.isFailed())) {
+      return false
+    }
+
+    await job.retry('failed')
+    return true
+  }
+
+  async promoteJob(queueName: string, jobId: string): Promise<boolean> {
+    const { queue } = this.ensureQueue(queueName)
+    const job = await queue.getJob(jobId)
+
+    if (!job || !(await job.isDelayed())) {
+      return false
+    }
+
+    await job.promote()
+    return true
+  }
+
+  async drain(queueName: string): Promise<void> {
+    const { queue } = this.ensureQueue(queueName)
+    // Also remove delayed jobs, matching the other adapters
+    await queue.drain(true)
+  }
+
   async pause(queueName: string): Promise<void> {
     const { queue } = this.ensureQueue(queueName)
     await queue.pause()
@@ -363,9 +446,9 @@ export class RedisQueueAdapter implements QueueAdapter {
     this.queues.clear()
   }
 
-  private async toJob(j: BullJob): Promise<Job> {
-    // Get the current state of the job
-    const state = await j.getState()
+  private async toJob(j: BullJob, knownState?: JobState): Promise<Job> {
+    // Get the current state of the job (unless it was read from a state list)
+    const state = knownState || await j.getState()
 
     return {
       id: j.id as string,
@@ -585,6 +585,51 @@ export class PostgresStoreAdapter implements StoreAdapter {
         `, [pattern.replace('*', '%')])
         return result.rowCount || 0
       },
+
+      setNX: async <T = any>(key: string, value: T, ttl?: number): Promise<boolean> => {
+        const expiresAt = ttl ? new Date(Date.now() + ttl * 1000) : null
+
+        // The conflicting row is only overwritten if it has expired;
+        // the primary key guarantees a single winner among concurrent inserts
+        const result = await this.pool.query(`
+          INSERT INTO ${this.schema}.${this.prefix}_kv AS kv (key, value, expires_at, updated_at)
+          VALUES ($1, $2, $3, NOW())
+          ON CONFLICT (key) DO UPDATE SET
+            value = EXCLUDED.value,
+            expires_at = EXCLUDED.expires_at,
+            updated_at = NOW()
+          WHERE kv.expires_at IS NOT NULL AND kv.expires_at <= NOW()
+        `, [key, JSON.stringify(value), expiresAt])
+
+        return (result.rowCount || 0) > 0
+      },
+
+      compareAndSwap: async <T = any>(key: string, expected: T | null, value: T | null, ttl?: number): Promise<boolean> => {
+        if (expected === null) {
+          if (value === null) {
+            return (await this.kv.get(key)) === null
+          }
+          return this.kv.setNX(key, value, ttl)
+        }
+
+        // JSONB equality is structural, so key order of `expected` doesn't matter
+        const condition = `key = $1 AND value = $2::jsonb AND (expires_at IS NULL OR expires_at > NOW())`
+
+        if (value === null) {
+          const result = await this.pool.query(`
+            DELETE FROM ${this.schema}.${this.prefix}_kv WHERE ${condition}
+          `, [key, JSON.stringify(expected)])
+          return (result.rowCount || 0) > 0
+        }
+
+        const expiresAt = ttl ? new Date(Date.now() + ttl * 1000) : null
+        const result = await this.pool.query(`
+          UPDATE ${this.schema}.${this.prefix}_kv
+          SET value = $3, expires_at = $4, updated_at = NOW()
+          WHERE ${condition}
+        `, [key, JSON.stringify(expected), JSON.stringify(value), expiresAt])
+        return (result.rowCount || 0) > 0
+      },
     }
 
     // Initialize index methods with intelligent field routing
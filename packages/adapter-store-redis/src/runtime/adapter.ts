@@ -283,6 +283,60 @@ export class RedisStoreAdapter implements StoreAdapter {
         // Fallback to simple INCRBY for string keys
         return await this.redis.incrby(key, by)
       },
+
+      setNX: async <T = any>(key: string, value: T, ttl?: number): Promise<boolean> => {
+        if (!this.redis.status || this.redis.status === 'end') {
+          await this.redis.connect()
+        }
+
+        const serialized = typeof value === 'string' ? value : JSON.stringify(value)
+
+        // SET NX (PX) is atomic: only one client can create the key
+        const result = ttl
+          ? await this.redis.set(key, serialized, 'PX', Math.ceil(ttl * 1000), 'NX')
+          : await this.redis.set(key, serialized, 'NX')
+        return result === 'OK'
+      },
+
+      compareAndSwap: async <T = any>(key: string, expected: T | null, value: T | null, ttl?: number): Promise<boolean> => {
+        if (!this.redis.status || this.redis.status === 'end') {
+          await this.redis.connect()
+        }
+
+        const serialize = (v: any) => typeof v === 'string' ? v : JSON.stringify(v)
+
+        // Compare and write in one Lua script so no other client can interleave
+        // ARGV: [hasExpected, expected, hasValue, value, ttlMs]
+        const script = `
+          local current = redis.call('GET', KEYS[1])
+          if ARGV[1] == '1' then
+            if current ~= ARGV[2] then return 0 end
+          elseif current then
+            return 0
+          end
+
+          if ARGV[3] == '0' then
+            redis.call('DEL', KEYS[1])
+          elseif tonumber(ARGV[5]) > 0 then
+            redis.call('SET', KEYS[1], ARGV[4], 'PX', ARGV[5])
+          else
+            redis.call('SET', KEYS[1], ARGV[4])
+          end
+          return 1
+        `
+
+        const result = await this.redis.eval(
+          script,
+          1,
+          key,
+          expected === null ? '0' : '1',
+          expected === null ? '' : serialize(expected),
+          value === null ? '0' : '1',
+          value === null ? '' : serialize(value),
+          String(ttl ? Math.ceil(ttl * 1000) : 0),
+        ) as number
+        return result === 1
+      },
     }
 
     // Initialize index methods
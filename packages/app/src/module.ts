@@ -6,7 +6,10 @@ import {
   addComponentsDir,
   addServerScanDir,
   addPlugin,
+  addServerTemplate,
+  addTypeTemplate,
   extendPages,
+  resolvePath,
 } from '@nuxt/kit'
 import defu from 'defu'
 import type {} from '@nuxt/schema'
@@ -15,6 +18,42 @@ import { readFileSync } from 'node:fs'
 const resolver = createResolver(import.meta.url)
 const packageJson = JSON.parse(readFileSync(new URL('../package.json', import.meta.url), 'utf-8'))
 
+type NventRole = 'readonly' | 'operator' | 'admin'
+
+interface AuthOptions {
+  /**
+   * Built-in authentication
+   * - 'none': no credentials, every visitor gets `defaultRole`
+   * - 'basic': HTTP basic auth against `users`
+   * - 'token': bearer token (header or cookie) against `tokens`
+   * @default 'none'
+   */
+  mode?: 'none' | 'basic' | 'token'
+  /**
+   * Role given to visitors in 'none' mode
+   * @default 'admin'
+   */
+  defaultRole?: NventRole
+  /**
+   * Users for 'basic' mode (role defaults to 'readonly')
+   */
+  users?: Array<{ username: string, password: string, role?: NventRole }>
+  /**
+   * Tokens for 'token' mode (role defaults to 'readonly')
+   */
+  tokens?: Array<{ token: string, role?: NventRole, name?: string }>
+  /**
+   * Cookie holding the token after logging in on the dashboard
+   * @default 'nvent_token'
+   */
+  cookieName?: string
+  /**
+   * Path to a file default-exporting an `authorize(event, action, resource, user)` hook.
+   * Return true/false to allow/deny, or undefined to fall back to the role check.
+   */
+  authorize?: string
+}
+
 interface ModuleOptions {
   /**
    * Enable the built-in route at /_nvent
@@ -33,6 +72,11 @@ interface ModuleOptions {
    * @default false
    */
   layout?: string | false
+  /**
+   * Access control for the dashboard, its APIs and WebSocket endpoints
+   * Secrets can be overridden at runtime, e.g. NUXT_NVENTAPP_AUTH_TOKENS
+   */
+  auth?: AuthOptions
 }
 
 export default defineNuxtModule<ModuleOptions>({
@@ -45,6 +89,10 @@ export default defineNuxtModule<ModuleOptions>({
     route: true,
     routePath: '/_nvent',
     layout: false,
+    auth: {
+      mode: 'none',
+      defaultRole: 'admin',
+    },
   },
   moduleDependencies: {
     '@nuxt/ui': {
@@ -62,6 +110,39 @@ export default defineNuxtModule<ModuleOptions>({
       },
     )
 
+    // Auth settings stay in the private runtime config (credentials must not reach the client)
+    const { authorize, ...auth } = options.auth || {}
+    nuxt.options.runtimeConfig.nventapp = defu(
+      nuxt.options.runtimeConfig.nventapp as any,
+      {
+        auth: defu(auth, {
+          mode: 'none',
+          defaultRole: 'admin',
+          users: [],
+          tokens: [],
+          cookieName: 'nvent_token',
+        }),
+      },
+    )
+
+    // Custom authorize hook, resolved at build time into a virtual server module
+    const authorizePath = authorize ? await resolvePath(authorize, { alias: nuxt.options.alias }) : undefined
+    addServerTemplate({
+      filename: '#nventapp/authorize',
+      getContents: () => authorizePath
+        ? `export { default } from ${JSON.stringify(authorizePath)}`
+        : 'export default undefined',
+    })
+    addTypeTemplate({
+      filename: 'types/nventapp-authorize.d.ts',
+      getContents: () => [
+        `declare module '#nventapp/authorize' {`,
+        `  const authorize: import(${JSON.stringify(resolve('./runtime/server/utils/auth'))}).NventAuthorizeHook | undefined`,
+        `  export default authorize`,
+        `}`,
+      ].join('\n'),
+    }, { nitro: true })
+
     // Add vueflow CSS
     nuxt.options.css = nuxt.options.css || []
     nuxt.options.css.push(resolve('./runtime/app/assets/vueflow.css'))
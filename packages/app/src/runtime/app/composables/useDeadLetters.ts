@@ -0,0 +1,147 @@
+import { ref, watch, onMounted, useToast, type Ref } from '#imports'
+
+export interface DeadLetterAttempt {
+  attempt: number
+  error: string
+  failedAt: number
+}
+
+export interface DeadLetter {
+  /** `{queue}:{jobId}` */
+  id: string
+  queue: string
+  jobId: string
+  jobName: string
+  flowName?: string
+  runId?: string
+  data: any
+  opts?: Record<string, any>
+  error: string
+  stack?: string
+  attempts: number
+  history: DeadLetterAttempt[]
+  fingerprint: string
+  errorPattern: string
+  failedAt: number
+  requeueCount: number
+  requeuedAt?: number
+  requeuedJobId?: string
+}
+
+export interface DeadLetterGroup {
+  fingerprint: string
+  queue: string
+  jobName: string
+  errorPattern: string
+  error: string
+  count: number
+  firstFailedAt: number
+  lastFailedAt: number
+}
+
+export interface DeadLetterFilters {
+  queue: string | null
+  fingerprint: string | null
+  /** Include entries that were already requeued */
+  showRequeued: boolean
+}
+
+/**
+ * Composable for the dead-letter queue page
+ * Loads the error groups and the entries matching the filters, and wraps requeue/remove with toasts
+ */
+export function useDeadLetters(filters: Ref<DeadLetterFilters>) {
+  const toast = useToast()
+
+  const groups = ref<DeadLetterGroup[]>([])
+  const entries = ref<DeadLetter[]>([])
+  const total = ref(0)
+  const loading = ref(false)
+  const pending = ref(false)
+
+  const query = () => ({
+    queue: filters.value.queue || undefined,
+    requeued: filters.value.showRequeued ? undefined : 'false',
+  })
+
+  const refresh = async () => {
+    loading.value = true
+    try {
+      const [groupsRes, entriesRes] = await Promise.all([
+        $fetch<{ groups: DeadLetterGroup[] }>('/api/_dlq/groups', { query: query() }),
+        $fetch<{ entries: DeadLetter[], total: number }>('/api/_dlq', {
+          query: { ...query(), fingerprint: filters.value.fingerprint || undefined, limit: 200 },
+        }),
+      ])
+      groups.value = groupsRes.groups || []
+      entries.value = entriesRes.entries || []
+      total.value = entriesRes.total || 0
+    }
+    catch (err) {
+      console.error('Error fetching dead letters:', err)
+    }
+    finally {
+      loading.value = false
+    }
+  }
+
+  const run = async <T>(request: () => Promise<T>) => {
+    pending.value = true
+    try {
+      return await request()
+    }
+    catch (err: any) {
+      const description = err?.data?.statusMessage || err?.statusMessage || err?.message || 'Request failed'
+      toast.add({ title: 'Error', description, color: 'error' })
+      return null
+    }
+    finally {
+      pending.value = false
+    }
+  }
+
+  /**
+   * Requeue entries; `data` replaces the job input of a single entry
+   */
+  const requeue = async (ids: string[], data?: any) => {
+    const res = await run(() => $fetch<{ results: Array<{ id: string, jobId?: string, error?: string }> }>('/api/_dlq/requeue', {
+      method: 'POST',
+      body: { ids, data },
+    }))
+    if (!res) return null
+
+    const failed = res.results.filter(r => r.error)
+    const requeued = res.results.length - failed.length
+    if (requeued > 0) {
+      toast.add({ title: 'Success', description: `Requeued ${requeued} job${requeued === 1 ? '' : 's'}`, color: 'success' })
+    }
+    if (failed.length > 0) {
+      toast.add({ title: 'Error', description: `${failed.length} failed: ${failed[0]!.error}`, color: 'error' })
+    }
+    await refresh()
+    return res.results
+  }
+
+  const remove = async (ids: string[]) => {
+    const res = await run(() => $fetch<{ removed: number }>('/api/_dlq', { method: 'DELETE', body: { ids } }))
+    if (!res) return null
+
+    toast.add({ title: 'Success', description: `Removed ${res.removed} entr${res.removed === 1 ? 'y' : 'ies'}`, color: 'success' })
+    await refresh()
+    return res.removed
+  }
+
+  onMounted(refresh)
+  watch(filters, refresh, { deep: true })
+
+  return {
+    groups,
+    entries,
+    total,
+    loading,
+    pending,
+    refresh,
+    requeue,
+    remove,
+  }
+}
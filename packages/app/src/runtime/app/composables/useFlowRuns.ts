@@ -10,6 +10,8 @@ export interface FlowRun {
   completedAt?: string
   stepCount: number
   completedSteps: number
+  /** Flow definition version the run started on */
+  flowVersion?: string
 }
 
 export interface FlowRunsResponse {
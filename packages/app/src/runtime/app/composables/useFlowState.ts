@@ -12,6 +12,8 @@ export interface FlowState {
   completedAt?: string
   steps: Record<string, StepState>
   logs: LogEntry[]
+  /** ctx.state of the run, rebuilt from recorded state changes */
+  values: Record<string, any>
   meta?: Record<string, any>
 }
 
@@ -25,6 +27,17 @@ export interface StepState {
   awaitType?: 'time' | 'event' | 'trigger'
   awaitData?: any
   result?: any
+  items?: { total: number, completed: number, failed: number } // Map steps (flow.map)
+  compensation?: { status: 'running' | 'completed' | 'failed', error?: string } // onCompensate hooks
+  stateChanges?: StateChange[] // ctx.state mutations made by the step
+}
+
+export interface StateChange {
+  ts: string
+  key: string
+  operation: 'set' | 'delete'
+  previous: any
+  value?: any
 }
 
 export interface LogEntry {
@@ -47,6 +60,16 @@ export interface EventRecord {
   data?: any
 }
 
+/**
+ * Remember a sub-flow run started by a step (`meta.children`)
+ */
+function addSubflow(state: FlowState, stepName: string | undefined, subflow: { runId?: string, flowName?: string }) {
+  if (!subflow.runId || !subflow.flowName) return
+  const children = state.meta?.children || []
+  if (children.some((child: any) => child.runId === subflow.runId)) return
+  state.meta = { ...state.meta, children: [...children, { runId: subflow.runId, flowName: subflow.flowName, stepName }] }
+}
+
 /**
  * Reduce an array of events into current flow state
  */
@@ -55,6 +78,7 @@ export function reduceFlowState(events: EventRecord[]): FlowState {
     status: 'running',
     steps: {},
     logs: [],
+    values: {},
   }
 
   for (const e of events) {
@@ -70,6 +94,8 @@ export function reduceFlowState(events: EventRecord[]): FlowState {
         if (e.data?.flowName) state.meta = { ...state.meta, flowName: e.data.flowName }
         if (e.data?.input) state.meta = { ...state.meta, input: e.data.input }
         if (e.data?.stallTimeout) state.meta = { ...state.meta, stallTimeout: e.data.stallTimeout }
+        if (e.data?.parent) state.meta = { ...state.meta, parent: e.data.parent }
+        if (e.data?.flowVersion) state.meta = { ...state.meta, flowVersion: e.data.flowVersion }
         if (e.data?.trigger) {
           state.meta = {
             ...state.meta,
@@ -118,6 +144,34 @@ export function reduceFlowState(events: EventRecord[]): FlowState {
         }
         state.steps[stepKey].startedAt = e.ts
         state.steps[stepKey].attempt = e.attempt || state.steps[stepKey].attempt || 1
+        if (e.data?.map) {
+          state.steps[stepKey].items = { total: e.data.map.total, completed: 0, failed: 0 }
+        }
+        break
+      }
+
+      case 'step.item.completed':
+      case 'step.item.failed': {
+        if (!stepKey) break
+        const items = state.steps[stepKey]?.items
+        if (!items) break
+        if (eventType === 'step.item.completed') items.completed++
+        else items.failed++
+        break
+      }
+
+      // Compensation phase after the run failed or was canceled
+      case 'step.compensating':
+      case 'step.compensated': {
+        if (!stepKey || !state.steps[stepKey]) break
+        state.steps[stepKey].compensation = eventType === 'step.compensating'
+          ? { status: 'running' }
+          : { status: e.data?.error ? 'failed' : 'completed', error: e.data?.error }
+        const compensations = Object.values(state.steps).filter(step => step.compensation)
+        state.meta = {
+          ...state.meta,
+          compensation: compensations.some(step => step.compensation!.status === 'running') ? 'running' : 'completed',
+        }
         break
       }
 
@@ -215,6 +269,7 @@ export function reduceFlowState(events: EventRecord[]): FlowState {
         state.steps[awaitKey].status = 'waiting'
         state.steps[awaitKey].awaitType = e.data?.awaitType
         state.steps[awaitKey].awaitData = e.data
+        if (e.data?.subflow) addSubflow(state, stepKey, e.data.subflow)
         // Capture scheduled trigger time from event data
         const scheduledAt = e.data?.resolveAt || e.data?.nextOccurrence
         if (scheduledAt) {
@@ -255,6 +310,20 @@ export function reduceFlowState(events: EventRecord[]): FlowState {
         break
       }
 
+      // ctx.state mutation with the previous value (state diff per step)
+      case 'state': {
+        const operation = e.data?.operation
+        if (operation !== 'set' && operation !== 'delete') break
+        const key = e.data.key
+        if (operation === 'set') state.values[key] = e.data.value
+        else Reflect.deleteProperty(state.values, key)
+        if (stepKey && state.steps[stepKey]) {
+          const changes = state.steps[stepKey].stateChanges || []
+          state.steps[stepKey].stateChanges = [...changes, { ts: e.ts, key, operation, previous: e.data.previous ?? null, value: e.data.value }]
+        }
+        break
+      }
+
       case 'runner.log':
       case 'log': {
         state.logs.push({
@@ -264,6 +333,8 @@ export function reduceFlowState(events: EventRecord[]): FlowState {
           msg: e.data?.message || e.data?.msg || (typeof e.data === 'string' ? e.data : String(e.data)),
           data: e.data,
         })
+        // ctx.flow.invoke() logs the sub-flow it started
+        if (e.data?.subflow) addSubflow(state, stepKey, e.data.subflow)
         break
       }
 
@@ -22,6 +22,10 @@ export interface StatsSubscription {
   onUpdate?: (data: any) => void
 }
 
+export interface TasksSubscription {
+  onUpdate: (update: { change: 'created' | 'claimed' | 'removed', task: any }) => void
+}
+
 // Singleton state - shared across all instances
 let sharedWs: WebSocket | null = null
 let sharedConnected = false
@@ -34,14 +38,15 @@ let currentStatsSubscription: StatsSubscription | null = null
 let pendingStatsSubscription = false // Track if stats subscription is pending connection
 let isStatsSubscribed = false // Track if stats are actually subscribed on server
 let statsCache: any[] = [] // Cache last received stats for replay
+let currentTasksSubscription: TasksSubscription | null = null
 let pingInterval: ReturnType<typeof setInterval> | null = null
 let isServerRestarting = false
 let refCount = 0 // Track how many components are using the connection
 
 /**
- * WebSocket composable for flow run events and flow stats
+ * WebSocket composable for flow run events, flow stats and task inbox changes
  * Architecture: Client (this) → WebSocket → Server Handler → StreamAdapter.subscribe(StreamTopics.flowEvents)
- * Supports subscribing to specific flow runs and global flow statistics
+ * Supports subscribing to specific flow runs, global flow statistics and the task inbox
  * Uses a singleton connection shared across all instances
  */
 export function useFlowWebSocket() {
@@ -140,6 +145,7 @@ export function useFlowWebSocket() {
     isStatsSubscribed = false
     pendingStatsSubscription = false
     statsCache = []
+    currentTasksSubscription = null
   }
 
   const attemptReconnect = () => {
@@ -169,7 +175,7 @@ export function useFlowWebSocket() {
     clearTimers()
     reconnectTimer = setTimeout(() => {
       // Reconnect with both subscriptions if they existed
-      if (currentSubscription || currentStatsSubscription) {
+      if (currentSubscription || currentStatsSubscription || currentTasksSubscription) {
         connect(currentOptions)
       }
     }, delay)
@@ -204,6 +210,13 @@ export function useFlowWebSocket() {
         pendingStatsSubscription = false
       }
 
+      // Resubscribe to task inbox changes if needed
+      if (currentTasksSubscription) {
+        send({
+          type: 'subscribe.tasks',
+        })
+      }
+
       opts?.onOpen?.()
     }
 
@@ -229,6 +242,14 @@ export function useFlowWebSocket() {
             isStatsSubscribed = false
             break
 
+          case 'tasks.subscribed':
+          case 'tasks.unsubscribed':
+            break
+
+          case 'task.update':
+            currentTasksSubscription?.onUpdate(data.data)
+            break
+
           case 'flow.stats.initial': {
             // Store in cache
             const existingIndex = statsCache.findIndex(s => s.id === data.data.id)
@@ -473,6 +494,34 @@ export function useFlowWebSocket() {
     isStatsSubscribed = false // Reset subscription state immediately
   }
 
+  const subscribeTasks = (subscription: TasksSubscription, opts?: UseFlowWebSocketOptions) => {
+    // Server will subscribe to StreamTopics.awaitTasks() and forward changes
+    currentTasksSubscription = subscription
+
+    if (sharedWs && sharedWs.readyState === WebSocket.OPEN) {
+      send({
+        type: 'subscribe.tasks',
+      })
+      return
+    }
+
+    // Sent when onopen fires
+    if (sharedWs && sharedWs.readyState === WebSocket.CONNECTING) {
+      return
+    }
+
+    connect(opts)
+  }
+
+  const unsubscribeTasks = () => {
+    if (currentTasksSubscription && sharedWs && sharedWs.readyState === WebSocket.OPEN) {
+      send({
+        type: 'unsubscribe.tasks',
+      })
+    }
+    currentTasksSubscription = null
+  }
+
   onBeforeUnmount(() => {
     stop()
   })
@@ -482,6 +531,8 @@ export function useFlowWebSocket() {
     unsubscribe,
     subscribeStats,
     unsubscribeStats,
+    subscribeTasks,
+    unsubscribeTasks,
     stop,
     forceClose, // Exposed for debugging/manual cleanup
     connected,
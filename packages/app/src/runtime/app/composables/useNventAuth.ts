@@ -0,0 +1,95 @@
+import { computed, useState } from '#imports'
+
+export type NventRole = 'readonly' | 'operator' | 'admin'
+
+export type NventAction
+  = | 'read'
+    | 'flow.start'
+    | 'flow.cancel'
+    | 'flow.restart'
+    | 'flow.clear-history'
+    | 'trigger.fire'
+    | 'trigger.create'
+    | 'trigger.update'
+    | 'trigger.delete'
+    | 'queue.pause'
+    | 'queue.resume'
+    | 'queue.retry'
+    | 'queue.drain'
+    | 'job.retry'
+    | 'job.promote'
+    | 'job.remove'
+    | 'task.claim'
+    | 'task.complete'
+    | 'task.reject'
+    | 'sink.redeliver'
+    | 'dlq.requeue'
+    | 'dlq.remove'
+
+interface NventAuthState {
+  loaded: boolean
+  mode: 'none' | 'basic' | 'token' | null
+  user: { name: string, role: NventRole } | null
+  permissions: NventAction[]
+}
+
+/**
+ * Composable for the dashboard's current user and permissions
+ * State is shared across pages and loaded once from /api/_auth/me;
+ * `can(action)` is used to hide controls the role cannot use (the server enforces it regardless)
+ */
+export function useNventAuth() {
+  const state = useState<NventAuthState>('nvent-auth', () => ({
+    loaded: false,
+    mode: null,
+    user: null,
+    permissions: [],
+  }))
+
+  const refresh = async () => {
+    try {
+      const me = await $fetch<Omit<NventAuthState, 'loaded'>>('/api/_auth/me')
+      state.value = { loaded: true, ...me }
+    }
+    catch (err: any) {
+      // 401: not signed in (token mode shows a login prompt)
+      state.value = {
+        loaded: true,
+        mode: err?.data?.data?.mode || state.value.mode,
+        user: null,
+        permissions: [],
+      }
+    }
+  }
+
+  const ensureLoaded = async () => {
+    if (!state.value.loaded) {
+      await refresh()
+    }
+  }
+
+  const login = async (token: string) => {
+    await $fetch('/api/_auth/login', { method: 'POST', body: { token } })
+    await refresh()
+  }
+
+  const logout = async () => {
+    await $fetch('/api/_auth/logout', { method: 'POST' })
+    await refresh()
+  }
+
+  const can = (action: NventAction) => state.value.permissions.includes(action)
+
+  return {
+    user: computed(() => state.value.user),
+    role: computed(() => state.value.user?.role ?? null),
+    mode: computed(() => state.value.mode),
+    loaded: computed(() => state.value.loaded),
+    needsLogin: computed(() => state.value.loaded && !state.value.user && state.value.mode === 'token'),
+    can,
+    refresh,
+    ensureLoaded,
+    login,
+    logout,
+  }
+}
@@ -0,0 +1,79 @@
+import { ref, useToast, type Ref } from '#imports'
+
+export type QueueAction = 'pause' | 'resume' | 'drain' | 'retry-all' | 'retry' | 'promote' | 'remove'
+
+/**
+ * Composable for queue management actions
+ * Pause/resume and drain a queue, retry, promote and remove jobs
+ * Results and errors are reported as toasts, callers refresh their data afterwards
+ */
+export function useQueueActions(queueName: Ref<string>) {
+  const toast = useToast()
+  const pending = ref<QueueAction | null>(null)
+
+  const queuePath = () => `/api/_queues/${encodeURIComponent(queueName.value)}`
+  const jobPath = (jobId: string) => `${queuePath()}/job/${encodeURIComponent(jobId)}`
+
+  const run = async <T>(action: QueueAction, request: () => Promise<T>, message: (result: T) => string) => {
+    pending.value = action
+    try {
+      const result = await request()
+      toast.add({ title: 'Success', description: message(result), color: 'success' })
+      return result
+    }
+    catch (err: any) {
+      const description = err?.data?.statusMessage || err?.statusMessage || err?.message || 'Request failed'
+      toast.add({ title: 'Error', description, color: 'error' })
+      return null
+    }
+    finally {
+      pending.value = null
+    }
+  }
+
+  const pause = () => run('pause',
+    () => $fetch(`${queuePath()}/pause`, { method: 'POST' }),
+    () => `Queue "${queueName.value}" paused`,
+  )
+
+  const resume = () => run('resume',
+    () => $fetch(`${queuePath()}/resume`, { method: 'POST' }),
+    () => `Queue "${queueName.value}" resumed`,
+  )
+
+  const drain = () => run('drain',
+    () => $fetch(`${queuePath()}/drain`, { method: 'POST' }),
+    () => `Removed waiting and delayed jobs from "${queueName.value}"`,
+  )
+
+  const retryAll = (ids?: string[]) => run('retry-all',
+    () => $fetch<{ retried: number }>(`${queuePath()}/retry`, { method: 'POST', body: ids ? { ids } : {} }),
+    result => `Retried ${result.retried} failed job${result.retried === 1 ? '' : 's'}`,
+  )
+
+  const retryJob = (jobId: string) => run('retry',
+    () => $fetch(`${jobPath(jobId)}/retry`, { method: 'POST' }),
+    () => 'Job moved back to waiting',
+  )
+
+  const promoteJob = (jobId: string) => run('promote',
+    () => $fetch(`${jobPath(jobId)}/promote`, { method: 'POST' }),
+    () => 'Job promoted',
+  )
+
+  const removeJob = (jobId: string) => run('remove',
+    () => $fetch(jobPath(jobId), { method: 'DELETE' }),
+    () => 'Job removed',
+  )
+
+  return {
+    pending,
+    pause,
+    resume,
+    drain,
+    retryAll,
+    retryJob,
+    promoteJob,
+    removeJob,
+  }
+}
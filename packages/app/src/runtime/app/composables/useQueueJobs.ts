@@ -16,8 +16,11 @@ export interface Job {
 export interface JobsResponse {
   jobs: Job[]
   count: number
-  total: number
+  /** Jobs in the selected state(s), null when filtered by name or time range */
+  total: number | null
   hasMore: boolean
+  /** Pass as `cursor` to continue after this page */
+  nextCursor?: string
 }
 
 /**
@@ -0,0 +1,132 @@
+import { ref, watch, onMounted, onUnmounted, useToast, type Ref } from '#imports'
+import { useFlowWebSocket } from './useFlowWebSocket'
+
+export interface Task {
+  /** `{runId}:{stepName}:{position}` */
+  id: string
+  flowName: string
+  runId: string
+  stepName: string
+  position: 'before' | 'after'
+  title: string
+  description?: string
+  assignee?: string
+  role?: string
+  /** JSON Schema of the form input */
+  schema?: Record<string, any>
+  claimedBy?: string
+  claimedAt?: number
+  createdAt: number
+  timeoutAt: number
+}
+
+export interface TaskFilters {
+  flow?: string | null
+  assignee?: string | null
+  role?: string | null
+}
+
+export type TaskAction = 'claim' | 'complete' | 'reject'
+
+/**
+ * Composable for the task inbox (open form awaits)
+ * Loads the tasks via REST and keeps them current from task changes on the flows WebSocket;
+ * claim/complete/reject report errors as toasts, validation errors are rethrown for the form
+ */
+export function useTasks(filters: Ref<TaskFilters>) {
+  const toast = useToast()
+  const flowWs = useFlowWebSocket()
+
+  const tasks = ref<Task[]>([])
+  const loading = ref(false)
+  const pending = ref<{ id: string, action: TaskAction } | null>(null)
+
+  const refresh = async () => {
+    const params = new URLSearchParams()
+    if (filters.value.flow) params.append('flow', filters.value.flow)
+    if (filters.value.assignee) params.append('assignee', filters.value.assignee)
+    if (filters.value.role) params.append('role', filters.value.role)
+
+    loading.value = true
+    try {
+      const response = await $fetch<{ tasks: Task[] }>(`/api/_tasks?${params.toString()}`)
+      tasks.value = response.tasks || []
+    }
+    catch (err) {
+      console.error('Failed to load tasks:', err)
+    }
+    finally {
+      loading.value = false
+    }
+  }
+
+  const taskPath = (id: string) => `/api/_tasks/${encodeURIComponent(id)}`
+
+  const run = async <T>(id: string, action: TaskAction, request: () => Promise<T>, message: string, opts: { rethrowValidation?: boolean } = {}) => {
+    pending.value = { id, action }
+    try {
+      const result = await request()
+      toast.add({ title: 'Success', description: message, color: 'success' })
+      return result
+    }
+    catch (err: any) {
+      if (opts.rethrowValidation && err?.statusCode === 422) throw err
+      const description = err?.data?.statusMessage || err?.statusMessage || err?.message || 'Request failed'
+      toast.add({ title: 'Error', description, color: 'error' })
+      return null
+    }
+    finally {
+      pending.value = null
+    }
+  }
+
+  const claim = (task: Task) => run(task.id, 'claim',
+    () => $fetch<Task>(`${taskPath(task.id)}/claim`, { method: 'POST' }),
+    `Claimed "${task.title}"`,
+  )
+
+  const complete = (task: Task, input: Record<string, any>) => run(task.id, 'complete',
+    () => $fetch<Task>(`${taskPath(task.id)}/complete`, { method: 'POST', body: input }),
+    `Completed "${task.title}"`,
+    { rethrowValidation: true },
+  )
+
+  const reject = (task: Task, reason?: string) => run(task.id, 'reject',
+    () => $fetch<Task>(`${taskPath(task.id)}/reject`, { method: 'POST', body: { reason } }),
+    `Rejected "${task.title}"`,
+  )
+
+  onMounted(() => {
+    refresh()
+    flowWs.subscribeTasks({
+      onUpdate: ({ change, task }) => {
+        if (change === 'removed') {
+          tasks.value = tasks.value.filter(t => t.id !== task.id)
+        }
+        else if (change === 'claimed') {
+          tasks.value = tasks.value.map(t => (t.id === task.id ? { ...t, ...task } : t))
+        }
+        else {
+          // New tasks may or may not match the filters - let the server decide
+          refresh()
+        }
+      },
+    }, { autoReconnect: true })
+  })
+
+  onUnmounted(() => {
+    flowWs.unsubscribeTasks()
+  })
+
+  watch(filters, refresh, { deep: true })
+
+  return {
+    tasks,
+    loading,
+    pending,
+    refresh,
+    claim,
+    complete,
+    reject,
+  }
+}
@@ -59,6 +59,8 @@ export interface TriggerDetail {
     enabled?: boolean
   }
   config?: any
+  // JSON Schema of the expected payload (drives the manual fire form)
+  inputSchema?: Record<string, any>
   version?: number
   subscribedFlows: string[]
   subscriptions: Array<{
@@ -0,0 +1,32 @@
+import { defineEventHandler, readBody, createError, setCookie, getRequestProtocol, getNventAuthConfig, findNventTokenUser } from '#imports'
+
+/**
+ * POST /api/_auth/login
+ *
+ * Exchange an access token for an httpOnly session cookie (token mode)
+ * The cookie is also sent on the WebSocket handshakes.
+ */
+export default defineEventHandler(async (event) => {
+  const { mode, cookieName } = getNventAuthConfig()
+
+  if (mode !== 'token') {
+    throw createError({ statusCode: 400, statusMessage: `Login is not available in '${mode}' auth mode` })
+  }
+
+  const body = await readBody<{ token?: string }>(event)
+  const token = body?.token?.trim()
+  const user = token ? findNventTokenUser(token) : null
+
+  if (!token || !user) {
+    throw createError({ statusCode: 401, statusMessage: 'Invalid token' })
+  }
+
+  setCookie(event, cookieName, token, {
+    httpOnly: true,
+    sameSite: 'strict',
+    secure: getRequestProtocol(event) === 'https',
+    path: '/',
+  })
+
+  return { user }
+})
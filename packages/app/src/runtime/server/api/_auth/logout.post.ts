@@ -0,0 +1,12 @@
+import { defineEventHandler, deleteCookie, getNventAuthConfig } from '#imports'
+
+/**
+ * POST /api/_auth/logout
+ *
+ * Clear the session cookie set by /api/_auth/login
+ */
+export default defineEventHandler(async (event) => {
+  const { cookieName } = getNventAuthConfig()
+  deleteCookie(event, cookieName, { path: '/' })
+  return { success: true }
+})
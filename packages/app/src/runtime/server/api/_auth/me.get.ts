@@ -0,0 +1,32 @@
+import { defineEventHandler, createError, setResponseHeader, getNventUser, getNventAuthConfig, checkNventAccess, NVENT_ACTION_ROLES } from '#imports'
+import type { NventAction } from '../../utils/auth'
+
+/**
+ * GET /api/_auth/me
+ *
+ * Current user, role and the actions it may perform (used by the UI to hide controls)
+ */
+export default defineEventHandler(async (event) => {
+  const { mode } = getNventAuthConfig()
+  const user = getNventUser(event)
+
+  if (!user) {
+    if (mode === 'basic') {
+      setResponseHeader(event, 'WWW-Authenticate', 'Basic realm="nvent", charset="UTF-8"')
+    }
+    throw createError({ statusCode: 401, statusMessage: 'Unauthorized', data: { mode } })
+  }
+
+  const actions = Object.keys(NVENT_ACTION_ROLES) as NventAction[]
+  const allowed = await Promise.all(actions.map((action) => {
+    const [type] = action.split('.')
+    const resourceType = type === 'job' ? 'queue' : type === 'read' ? 'flow' : type
+    return checkNventAccess(event, action, { type: resourceType as any }, user)
+  }))
+
+  return {
+    mode,
+    user,
+    permissions: actions.filter((_, index) => allowed[index]),
+  }
+})
@@ -0,0 +1,18 @@
+import { defineEventHandler, getRouterParam, createError, useDeadLetters, requireNventAccess } from '#imports'
+
+/**
+ * GET /api/_dlq/:id
+ *
+ * A dead letter with its input, stack and attempt history
+ */
+export default defineEventHandler(async (event) => {
+  const id = getRouterParam(event, 'id', { decode: true })
+  await requireNventAccess(event, 'read', { type: 'queue', id })
+
+  if (!id) throw createError({ statusCode: 400, statusMessage: 'Dead letter ID is required' })
+
+  const entry = await useDeadLetters().get(id)
+  if (!entry) throw createError({ statusCode: 404, statusMessage: 'Dead letter not found' })
+
+  return entry
+})
@@ -0,0 +1,24 @@
+import { defineEventHandler, getQuery, useDeadLetters, requireNventAccess } from '#imports'
+
+/**
+ * GET /api/_dlq/groups
+ *
+ * Dead letters grouped by error fingerprint (queue, job name and masked error message)
+ *
+ * Query params:
+ * - queue, job, flow: filters
+ * - requeued: 'true' | 'false'
+ */
+export default defineEventHandler(async (event) => {
+  await requireNventAccess(event, 'read', { type: 'queue' })
+
+  const query = getQuery(event)
+  const groups = await useDeadLetters().groups({
+    queue: (query.queue as string) || undefined,
+    jobName: (query.job as string) || undefined,
+    flowName: (query.flow as string) || undefined,
+    requeued: query.requeued === 'true' ? true : query.requeued === 'false' ? false : undefined,
+  })
+
+  return { groups }
+})
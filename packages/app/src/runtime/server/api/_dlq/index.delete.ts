@@ -0,0 +1,20 @@
+import { defineEventHandler, readBody, createError, useDeadLetters, requireNventAccess } from '#imports'
+
+/**
+ * DELETE /api/_dlq
+ *
+ * Remove dead letters
+ * Body: { ids: string[] }
+ */
+export default defineEventHandler(async (event) => {
+  await requireNventAccess(event, 'dlq.remove', { type: 'queue' })
+
+  const body = await readBody(event)
+  const ids = body?.ids
+  if (!Array.isArray(ids) || ids.length === 0 || ids.some(id => typeof id !== 'string')) {
+    throw createError({ statusCode: 400, statusMessage: 'ids must be a non-empty array of dead letter IDs' })
+  }
+
+  const removed = await useDeadLetters().remove(ids)
+  return { removed }
+})
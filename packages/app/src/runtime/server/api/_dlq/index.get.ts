@@ -0,0 +1,27 @@
+import { defineEventHandler, getQuery, useDeadLetters, requireNventAccess } from '#imports'
+
+/**
+ * GET /api/_dlq
+ *
+ * Dead letters (jobs that failed their final attempt), newest first
+ *
+ * Query params:
+ * - queue, job, flow, fingerprint: filters
+ * - requeued: 'true' | 'false'
+ * - limit: page size (default 50)
+ * - offset: entries to skip
+ */
+export default defineEventHandler(async (event) => {
+  await requireNventAccess(event, 'read', { type: 'queue' })
+
+  const query = getQuery(event)
+  return useDeadLetters().list({
+    queue: (query.queue as string) || undefined,
+    jobName: (query.job as string) || undefined,
+    flowName: (query.flow as string) || undefined,
+    fingerprint: (query.fingerprint as string) || undefined,
+    requeued: query.requeued === 'true' ? true : query.requeued === 'false' ? false : undefined,
+    limit: query.limit ? Math.min(Number(query.limit) || 50, 200) : 50,
+    offset: Number(query.offset) || 0,
+  })
+})
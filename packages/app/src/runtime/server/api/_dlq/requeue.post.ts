@@ -0,0 +1,29 @@
+import { defineEventHandler, readBody, createError, useDeadLetters, DeadLetterError, requireNventAccess } from '#imports'
+
+/**
+ * POST /api/_dlq/requeue
+ *
+ * Enqueue dead letters again as new jobs
+ * Body: { ids: string[], data?: any } - `data` replaces the job input (single entry only)
+ * Returns the new job ID or the error for each entry.
+ */
+export default defineEventHandler(async (event) => {
+  await requireNventAccess(event, 'dlq.requeue', { type: 'queue' })
+
+  const body = await readBody(event)
+  const ids = body?.ids
+  if (!Array.isArray(ids) || ids.length === 0 || ids.some(id => typeof id !== 'string')) {
+    throw createError({ statusCode: 400, statusMessage: 'ids must be a non-empty array of dead letter IDs' })
+  }
+
+  try {
+    const results = await useDeadLetters().requeue(ids, { data: body.data })
+    return { results }
+  }
+  catch (err) {
+    if (err instanceof DeadLetterError) {
+      throw createError({ statusCode: err.statusCode, statusMessage: err.message })
+    }
+    throw err
+  }
+})
@@ -1,4 +1,4 @@
-import { defineEventHandler, createError, useStoreAdapter, useStreamTopics } from '#imports'
+import { defineEventHandler, createError, useStoreAdapter, useStreamTopics, requireNventAccess } from '#imports'
 
 /**
  * DELETE /api/_flows/:flowName/clear-history
@@ -10,6 +10,8 @@ import { defineEventHandler, createError, useStoreAdapter, useStreamTopics } fro
  */
 export default defineEventHandler(async (event) => {
   const flowName = event.context.params?.name
+  await requireNventAccess(event, 'flow.clear-history', { type: 'flow', name: flowName })
+
   if (!flowName) {
     throw createError({ statusCode: 400, statusMessage: 'Flow name required' })
   }
@@ -1,4 +1,4 @@
-import { defineEventHandler, getRouterParam, getQuery, useStoreAdapter, useNventLogger, useStreamTopics } from '#imports'
+import { defineEventHandler, getRouterParam, getQuery, useStoreAdapter, useNventLogger, useStreamTopics, requireNventAccess } from '#imports'
 
 /**
  * GET /api/_flows/:flowName/runs
@@ -18,6 +18,8 @@ import { defineEventHandler, getRouterParam, getQuery, useStoreAdapter, useNvent
 export default defineEventHandler(async (event) => {
   const logger = useNventLogger('api-flows-runs')
   const flowName = getRouterParam(event, 'name')
+  await requireNventAccess(event, 'read', { type: 'flow', name: flowName })
+
   const query = getQuery(event)
   const limit = Math.min(Number.parseInt(query.limit as string) || 50, 100)
   const offset = Math.max(Number.parseInt(query.offset as string) || 0, 0)
@@ -86,6 +88,7 @@ export default defineEventHandler(async (event) => {
         : undefined,
       stepCount: entry.metadata?.stepCount || 0,
       completedSteps: entry.metadata?.completedSteps || 0,
+      flowVersion: entry.metadata?.flowVersion,
     }))
 
     return {
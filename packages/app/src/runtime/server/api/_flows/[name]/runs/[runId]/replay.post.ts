@@ -0,0 +1,43 @@
+import { defineEventHandler, getRouterParam, createError, readBody, useFlow, FlowConcurrencyError, requireNventAccess } from '#imports'
+
+/**
+ * POST /api/_flows/:name/runs/:runId/replay
+ *
+ * Start a new run from `fromStep`, taking over the results and state of the earlier steps
+ * Body: { fromStep: string }
+ */
+export default defineEventHandler(async (event) => {
+  const flowName = getRouterParam(event, 'name')
+  const runId = getRouterParam(event, 'runId')
+  await requireNventAccess(event, 'flow.restart', { type: 'flow', name: flowName, id: runId })
+
+  if (!flowName || !runId) {
+    throw createError({
+      statusCode: 400,
+      statusMessage: 'Flow name and run ID are required',
+    })
+  }
+
+  const body = await readBody(event)
+  const fromStep = body?.fromStep
+  if (!fromStep || typeof fromStep !== 'string') {
+    throw createError({
+      statusCode: 400,
+      statusMessage: 'fromStep is required',
+    })
+  }
+
+  try {
+    return await useFlow().replayFlow(flowName, runId, { fromStep })
+  }
+  catch (error: any) {
+    // Refused by the flow's concurrency limit (no run was created)
+    if (error instanceof FlowConcurrencyError) {
+      throw createError({ statusCode: 409, statusMessage: error.message, data: { flowName: error.flowName, key: error.key, active: error.active } })
+    }
+    throw createError({
+      statusCode: 500,
+      statusMessage: `Failed to replay flow: ${error.message}`,
+    })
+  }
+})
@@ -1,8 +1,9 @@
-import { defineEventHandler, getRouterParam, createError, useFlow } from '#imports'
+import { defineEventHandler, getRouterParam, createError, useFlow, requireNventAccess } from '#imports'
 
 export default defineEventHandler(async (event) => {
   const flowName = getRouterParam(event, 'name')
   const runId = getRouterParam(event, 'runId')
+  await requireNventAccess(event, 'flow.restart', { type: 'flow', name: flowName, id: runId })
 
   if (!flowName || !runId) {
     throw createError({
@@ -0,0 +1,43 @@
+import { defineEventHandler, getRouterParam, getQuery, createError, useFlow, requireNventAccess } from '#imports'
+
+/**
+ * GET /api/_flows/:name/runs/:runId/state?at=<eventId>
+ *
+ * Reconstruct the run's state from its recorded state changes
+ * Without `at` the latest state is returned, with `at` the state right after that event
+ */
+export default defineEventHandler(async (event) => {
+  const flowName = getRouterParam(event, 'name')
+  const runId = getRouterParam(event, 'runId')
+  await requireNventAccess(event, 'read', { type: 'flow', name: flowName, id: runId })
+
+  if (!flowName || !runId) {
+    throw createError({
+      statusCode: 400,
+      statusMessage: 'Flow name and run ID are required',
+    })
+  }
+
+  const query = getQuery(event)
+  const at = typeof query.at === 'string' && query.at ? query.at : undefined
+
+  let snapshot
+  try {
+    snapshot = await useFlow().getRunState(runId, { at })
+  }
+  catch (error: any) {
+    throw createError({
+      statusCode: 500,
+      statusMessage: `Failed to load run state: ${error.message}`,
+    })
+  }
+
+  if (at && snapshot.at !== at) {
+    throw createError({
+      statusCode: 404,
+      statusMessage: `Event '${at}' not found in run '${runId}'`,
+    })
+  }
+
+  return { flowName, runId, ...snapshot }
+})
@@ -1,11 +1,28 @@
-import { defineEventHandler, getRouterParam, createError, readBody, useFlow } from '#imports'
+import { defineEventHandler, getRouterParam, getHeader, createError, readBody, useFlow, PayloadValidationError, FlowConcurrencyError, requireNventAccess } from '#imports'
 
 export default defineEventHandler(async (event) => {
   const flowName = getRouterParam(event, 'name')
+  await requireNventAccess(event, 'flow.start', { type: 'flow', name: flowName })
+
   if (!flowName) throw createError({ statusCode: 400, statusMessage: 'Flow name is required' })
 
   const { startFlow } = useFlow()
   const body = await readBody(event)
-  const result = await startFlow(flowName, body || {})
-  return result
+  // Repeated requests with the same key return the run of the first one
+  const idempotencyKey = getHeader(event, 'idempotency-key') || undefined
+  try {
+    const result = await startFlow(flowName, body || {}, { idempotencyKey })
+    return result
+  }
+  catch (err) {
+    // Structured validation errors (no run was created)
+    if (err instanceof PayloadValidationError) {
+      throw createError({ statusCode: 422, statusMessage: 'Validation failed', data: err.toJSON() })
+    }
+    // Refused by the flow's concurrency limit (no run was created)
+    if (err instanceof FlowConcurrencyError) {
+      throw createError({ statusCode: 409, statusMessage: err.message, data: { flowName: err.flowName, key: err.key, active: err.active } })
+    }
+    throw err
+  }
 })
@@ -0,0 +1,29 @@
+import { defineEventHandler, getRouterParam, createError, useFlow, requireNventAccess } from '#imports'
+
+/**
+ * GET /api/_flows/:name/versions/:version
+ *
+ * Analyzed definition of a flow version, used to render runs that started on an older version
+ */
+export default defineEventHandler(async (event) => {
+  const flowName = getRouterParam(event, 'name')
+  const version = getRouterParam(event, 'version')
+  await requireNventAccess(event, 'read', { type: 'flow', name: flowName })
+
+  if (!flowName || !version) {
+    throw createError({
+      statusCode: 400,
+      statusMessage: 'Flow name and version are required',
+    })
+  }
+
+  const definition = await useFlow().getFlowDefinition(flowName, version)
+  if (!definition || definition.version !== version) {
+    throw createError({
+      statusCode: 404,
+      statusMessage: `Version '${version}' of flow '${flowName}' not found`,
+    })
+  }
+
+  return definition
+})
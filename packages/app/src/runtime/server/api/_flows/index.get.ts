@@ -1,11 +1,13 @@
-import { defineEventHandler, $useAnalyzedFlows } from '#imports'
+import { defineEventHandler, $useAnalyzedFlows, requireNventAccess } from '#imports'
 
 /**
  * Returns pre-analyzed flows from the build-time registry.
  * Flows are analyzed during the build process for optimal performance.
  * Runtime statistics are provided via WebSocket (see ws.ts).
  */
-export default defineEventHandler(() => {
+export default defineEventHandler(async (event) => {
+  await requireNventAccess(event, 'read', { type: 'flow' })
+
   const analyzedFlows = $useAnalyzedFlows()
   return analyzedFlows || []
 })
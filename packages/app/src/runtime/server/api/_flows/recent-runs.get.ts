@@ -1,4 +1,4 @@
-import { defineEventHandler, getQuery, useStoreAdapter, useNventLogger, useStreamTopics, $useAnalyzedFlows } from '#imports'
+import { defineEventHandler, getQuery, useStoreAdapter, useNventLogger, useStreamTopics, $useAnalyzedFlows, requireNventAccess } from '#imports'
 
 /**
  * GET /api/_flows/recent-runs
@@ -14,6 +14,8 @@ import { defineEventHandler, getQuery, useStoreAdapter, useNventLogger, useStrea
  * }
  */
 export default defineEventHandler(async (event) => {
+  await requireNventAccess(event, 'read', { type: 'flow' })
+
   const logger = useNventLogger('api-flows-recent-runs')
   const query = getQuery(event)
   const limit = Math.min(Number.parseInt(query.limit as string) || 10, 50)
@@ -2,6 +2,8 @@ import {
   defineWebSocketHandler,
   usePeerManager,
   useNventLogger,
+  authorizeNventUpgrade,
+  canNventPeerRead,
   useStreamAdapter,
   useStoreAdapter,
   useStreamTopics,
@@ -56,6 +58,14 @@ function safeSend(peer: any, data: any): boolean {
  * }
  *
  * {
+ *   "type": "subscribe.tasks"
+ * }
+ *
+ * {
+ *   "type": "unsubscribe.tasks"
+ * }
+ *
+ * {
  *   "type": "ping"
  * }
  *
@@ -104,11 +114,22 @@ function safeSend(peer: any, data: any): boolean {
  * }
  *
  * {
+ *   "type": "task.update",
+ *   "data": { change: "created" | "claimed" | "removed", task: {...} },
+ *   "timestamp": 1234567890
+ * }
+ *
+ * {
  *   "type": "error",
  *   "message": "error description"
  * }
  */
 export default defineWebSocketHandler({
+  async upgrade(request) {
+    // Reject the handshake without read access; the user is kept on peer.context
+    await authorizeNventUpgrade(request, { type: 'flow' })
+  },
+
   async open(peer) {
     const logger = useNventLogger('api-flows-ws')
     logger.info('[ws] client connected:', { peerId: peer.id })
@@ -163,6 +184,14 @@ export default defineWebSocketHandler({
         return
       }
 
+      if (!(await canNventPeerRead(peer, { type: 'flow', name: flowName, id: runId }))) {
+        safeSend(peer, {
+          type: 'error',
+          message: 'Forbidden',
+        })
+        return
+      }
+
       // Check if adapters are initialized
       let stream: any
       let store: any
@@ -297,6 +326,14 @@ export default defineWebSocketHandler({
       }
     }
     else if (type === 'subscribe.stats') {
+      if (!(await canNventPeerRead(peer, { type: 'flow' }))) {
+        safeSend(peer, {
+          type: 'error',
+          message: 'Forbidden',
+        })
+        return
+      }
+
       // Subscribe to flow stats updates (flow index changes)
       const statsKey = 'stats'
 
@@ -409,6 +446,73 @@ export default defineWebSocketHandler({
         }
       }
     }
+    else if (type === 'subscribe.tasks') {
+      if (!(await canNventPeerRead(peer, { type: 'task' }))) {
+        safeSend(peer, {
+          type: 'error',
+          message: 'Forbidden',
+        })
+        return
+      }
+
+      // Subscribe to task inbox changes (form awaits); the inbox loads the open tasks via REST
+      const tasksKey = 'tasks'
+      if (context.subscriptions.has(tasksKey)) {
+        safeSend(peer, {
+          type: 'tasks.subscribed',
+          timestamp: Date.now(),
+        })
+        return
+      }
+
+      try {
+        const stream = useStreamAdapter()
+        const { StreamTopics } = useStreamTopics()
+
+        const handle = await stream.subscribe(StreamTopics.awaitTasks(), (message: any) => {
+          safeSend(peer, {
+            type: 'task.update',
+            data: message.data,
+            timestamp: Date.now(),
+          })
+        })
+
+        context.subscriptions.set(tasksKey, async () => {
+          try {
+            await handle.unsubscribe()
+          }
+          catch (err) {
+            logger.error('[ws] error in tasks unsub:', { error: err })
+          }
+        })
+
+        safeSend(peer, {
+          type: 'tasks.subscribed',
+          timestamp: Date.now(),
+        })
+      }
+      catch (err) {
+        logger.error('[ws] error subscribing to tasks:', { error: err })
+        safeSend(peer, {
+          type: 'error',
+          message: 'Failed to subscribe to tasks',
+        })
+      }
+    }
+    else if (type === 'unsubscribe.tasks') {
+      const tasksKey = 'tasks'
+      const unsub = context.subscriptions.get(tasksKey)
+
+      if (unsub) {
+        await unsub()
+        context.subscriptions.delete(tasksKey)
+
+        safeSend(peer, {
+          type: 'tasks.unsubscribed',
+          timestamp: Date.now(),
+        })
+      }
+    }
     else if (type === 'ping') {
       safeSend(peer, {
         type: 'pong',
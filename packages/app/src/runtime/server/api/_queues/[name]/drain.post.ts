@@ -0,0 +1,44 @@
+import { defineEventHandler, getRouterParam, createError, useQueueAdapter, requireNventAccess } from '#imports'
+
+/**
+ * POST /api/_queues/:name/drain
+ *
+ * Remove all waiting and delayed jobs of a queue
+ * Active jobs keep running and finished jobs are kept
+ */
+export default defineEventHandler(async (event) => {
+  const name = getRouterParam(event, 'name')
+  await requireNventAccess(event, 'queue.drain', { type: 'queue', name })
+
+  if (!name) {
+    throw createError({ statusCode: 400, statusMessage: 'Missing queue name' })
+  }
+
+  // Check if adapters are initialized
+  let queue: any
+  try {
+    queue = useQueueAdapter()
+  }
+  catch {
+    throw createError({
+      statusCode: 503,
+      statusMessage: 'Server initializing',
+      data: 'Queue adapter not ready yet, please retry',
+    })
+  }
+
+  if (!queue.drain) {
+    throw createError({ statusCode: 501, statusMessage: 'Queue adapter does not support draining' })
+  }
+
+  try {
+    await queue.drain(name)
+    return { success: true }
+  }
+  catch (error: any) {
+    throw createError({
+      statusCode: 500,
+      statusMessage: `Failed to drain queue: ${error.message}`,
+    })
+  }
+})
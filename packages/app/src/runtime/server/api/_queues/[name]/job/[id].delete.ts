@@ -0,0 +1,59 @@
+import { defineEventHandler, getRouterParam, createError, useQueueAdapter, requireNventAccess } from '#imports'
+
+/**
+ * DELETE /api/_queues/:name/job/:id
+ *
+ * Remove a job from the queue (active jobs can't be removed)
+ */
+export default defineEventHandler(async (event) => {
+  const name = getRouterParam(event, 'name')
+  const id = getRouterParam(event, 'id')
+  await requireNventAccess(event, 'job.remove', { type: 'queue', name, id })
+
+  if (!name || !id) {
+    throw createError({ statusCode: 400, statusMessage: 'Queue name and job ID are required' })
+  }
+
+  // Check if adapters are initialized
+  let queue: any
+  try {
+    queue = useQueueAdapter()
+  }
+  catch {
+    throw createError({
+      statusCode: 503,
+      statusMessage: 'Server initializing',
+      data: 'Queue adapter not ready yet, please retry',
+    })
+  }
+
+  if (!queue.removeJob) {
+    throw createError({ statusCode: 501, statusMessage: 'Queue adapter does not support removing jobs' })
+  }
+
+  // Running handlers can't be interrupted: a conflict, not a server error
+  const job = await queue.getJob(name, id)
+  if (!job) {
+    throw createError({ statusCode: 404, statusMessage: 'Job not found' })
+  }
+  if (job.state === 'active') {
+    throw createError({ statusCode: 409, statusMessage: 'Active jobs cannot be removed' })
+  }
+
+  let removed: boolean
+  try {
+    removed = await queue.removeJob(name, id)
+  }
+  catch (error: any) {
+    throw createError({
+      statusCode: 500,
+      statusMessage: `Failed to remove job: ${error.message}`,
+    })
+  }
+
+  if (!removed) {
+    throw createError({ statusCode: 404, statusMessage: 'Job not found' })
+  }
+
+  return { success: true, id }
+})
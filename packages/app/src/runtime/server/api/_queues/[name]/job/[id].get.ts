@@ -1,8 +1,9 @@
-import { defineEventHandler, getRouterParam, useQueueAdapter } from '#imports'
+import { defineEventHandler, getRouterParam, useQueueAdapter, requireNventAccess } from '#imports'
 
 export default defineEventHandler(async (event) => {
   const name = getRouterParam(event, 'name') || ''
   const id = getRouterParam(event, 'id') || ''
+  await requireNventAccess(event, 'read', { type: 'queue', name, id })
 
   // Check if adapters are initialized
   let queue: any
@@ -0,0 +1,50 @@
+import { defineEventHandler, getRouterParam, createError, useQueueAdapter, requireNventAccess } from '#imports'
+
+/**
+ * POST /api/_queues/:name/job/:id/promote
+ *
+ * Promote a delayed job so it is processed right away
+ */
+export default defineEventHandler(async (event) => {
+  const name = getRouterParam(event, 'name')
+  const id = getRouterParam(event, 'id')
+  await requireNventAccess(event, 'job.promote', { type: 'queue', name, id })
+
+  if (!name || !id) {
+    throw createError({ statusCode: 400, statusMessage: 'Queue name and job ID are required' })
+  }
+
+  // Check if adapters are initialized
+  let queue: any
+  try {
+    queue = useQueueAdapter()
+  }
+  catch {
+    throw createError({
+      statusCode: 503,
+      statusMessage: 'Server initializing',
+      data: 'Queue adapter not ready yet, please retry',
+    })
+  }
+
+  if (!queue.promoteJob) {
+    throw createError({ statusCode: 501, statusMessage: 'Queue adapter does not support promoting jobs' })
+  }
+
+  let promoted: boolean
+  try {
+    promoted = await queue.promoteJob(name, id)
+  }
+  catch (error: any) {
+    throw createError({
+      statusCode: 500,
+      statusMessage: `Failed to promote job: ${error.message}`,
+    })
+  }
+
+  if (!promoted) {
+    throw createError({ statusCode: 404, statusMessage: 'Job not found or not delayed' })
+  }
+
+  return { success: true, id }
+})
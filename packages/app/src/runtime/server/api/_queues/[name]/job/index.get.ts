@@ -1,7 +1,15 @@
-import { defineEventHandler, getRouterParam, getQuery, useQueueAdapter, createError } from '#imports'
+import { defineEventHandler, getRouterParam, getQuery, useQueueAdapter, createError, encodeJobsCursor, requireNventAccess } from '#imports'
 
+/**
+ * GET /api/_queues/:name/job
+ *
+ * List jobs of a queue, paginated and filtered by the queue adapter
+ * Query: state, limit, offset | cursor, sort (asc|desc), name, from, to (ms or ISO date)
+ */
 export default defineEventHandler(async (event) => {
   const name = getRouterParam(event, 'name')
+  await requireNventAccess(event, 'read', { type: 'queue', name })
+
   if (!name) {
     throw createError({ statusCode: 400, statusMessage: 'Missing queue name' })
   }
@@ -10,6 +18,11 @@ export default defineEventHandler(async (event) => {
   const state = query.state as string | undefined
   const limit = query.limit ? Number.parseInt(query.limit as string, 10) : 50
   const offset = query.offset ? Number.parseInt(query.offset as string, 10) : 0
+  const cursor = query.cursor ? String(query.cursor) : undefined
+  const sort = query.sort === 'asc' ? 'asc' : 'desc'
+  const jobName = query.name ? String(query.name) : undefined
+  const from = parseTime(query.from)
+  const to = parseTime(query.to)
 
   // Check if adapters are initialized
   let queue: any
@@ -24,28 +37,34 @@ export default defineEventHandler(async (event) => {
     })
   }
 
-  // Get total count first
-  const allJobs = await queue.getJobs(name, {
-    state: state ? [state as any] : undefined,
-    limit: 10000, // Large number to get all for counting
-  })
+  const states = state ? [state] : undefined
 
-  const totalCount = allJobs?.length || 0
+  // Fetch one extra job to know whether there is a next page
+  const [jobs, counts] = await Promise.all([
+    queue.getJobs(name, { state: states, limit: limit + 1, offset, cursor, sort, name: jobName, from, to }),
+    queue.getJobCounts(name),
+  ])
 
-  // Sort by timestamp descending (newest first)
-  const sortedJobs = (allJobs || []).sort((a: any, b: any) => {
-    const aTime = a.timestamp || 0
-    const bTime = b.timestamp || 0
-    return bTime - aTime
-  })
+  const hasMore = jobs.length > limit
+  const page = hasMore ? jobs.slice(0, limit) : jobs
 
-  // Apply pagination
-  const paginatedJobs = sortedJobs.slice(offset, offset + limit)
+  // Counts are per state only: with name or time filters the total is unknown
+  const filtered = jobName !== undefined || from !== undefined || to !== undefined
+  const total = filtered
+    ? null
+    : (states || Object.keys(counts)).reduce((sum: number, s: string) => sum + (counts[s] || 0), 0)
 
   return {
-    jobs: paginatedJobs,
-    count: paginatedJobs.length,
-    total: totalCount,
-    hasMore: offset + limit < totalCount,
+    jobs: page,
+    count: page.length,
+    total,
+    hasMore,
+    nextCursor: hasMore ? encodeJobsCursor(page[page.length - 1]) : undefined,
   }
 })
+
+function parseTime(value: unknown): number | undefined {
+  if (value === undefined || value === null || value === '') return undefined
+  const time = Number.isNaN(Number(value)) ? Date.parse(String(value)) : Number(value)
+  return Number.isNaN(time) ? undefined : time
+}
@@ -0,0 +1,39 @@
+import { defineEventHandler, getRouterParam, createError, useQueueAdapter, requireNventAccess } from '#imports'
+
+/**
+ * POST /api/_queues/:name/pause
+ *
+ * Pause processing of a queue (jobs can still be added)
+ */
+export default defineEventHandler(async (event) => {
+  const name = getRouterParam(event, 'name')
+  await requireNventAccess(event, 'queue.pause', { type: 'queue', name })
+
+  if (!name) {
+    throw createError({ statusCode: 400, statusMessage: 'Missing queue name' })
+  }
+
+  // Check if adapters are initialized
+  let queue: any
+  try {
+    queue = useQueueAdapter()
+  }
+  catch {
+    throw createError({
+      statusCode: 503,
+      statusMessage: 'Server initializing',
+      data: 'Queue adapter not ready yet, please retry',
+    })
+  }
+
+  try {
+    await queue.pause(name)
+    return { success: true, isPaused: await queue.isPaused(name) }
+  }
+  catch (error: any) {
+    throw createError({
+      statusCode: 500,
+      statusMessage: `Failed to pause queue: ${error.message}`,
+    })
+  }
+})
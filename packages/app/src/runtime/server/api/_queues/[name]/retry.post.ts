@@ -0,0 +1,73 @@
+import { defineEventHandler, getRouterParam, readBody, createError, useQueueAdapter, requireNventAccess } from '#imports'
+
+/**
+ * POST /api/_queues/:name/retry
+ *
+ * Retry failed jobs of a queue
+ * Body: { ids?: string[] } - retries all failed jobs when no ids are given
+ */
+export default defineEventHandler(async (event) => {
+  const name = getRouterParam(event, 'name')
+  await requireNventAccess(event, 'queue.retry', { type: 'queue', name })
+
+  if (!name) {
+    throw createError({ statusCode: 400, statusMessage: 'Missing queue name' })
+  }
+
+  const body = await readBody(event).catch(() => null)
+  if (body?.ids !== undefined && !Array.isArray(body.ids)) {
+    throw createError({ statusCode: 400, statusMessage: 'ids must be an array of job IDs' })
+  }
+
+  // Check if adapters are initialized
+  let queue: any
+  try {
+    queue = useQueueAdapter()
+  }
+  catch {
+    throw createError({
+      statusCode: 503,
+      statusMessage: 'Server initializing',
+      data: 'Queue adapter not ready yet, please retry',
+    })
+  }
+
+  if (!queue.retryJob) {
+    throw createError({ statusCode: 501, statusMessage: 'Queue adapter does not support retrying jobs' })
+  }
+
+  try {
+    // Collect IDs first: retried jobs leave the failed state while we iterate
+    const ids: string[] = body?.ids || await getFailedJobIds(queue, name)
+
+    const retried: string[] = []
+    for (const id of ids) {
+      if (await queue.retryJob(name, String(id))) {
+        retried.push(String(id))
+      }
+    }
+
+    return {
+      success: true,
+      retried: retried.length,
+      skipped: ids.length - retried.length,
+      ids: retried,
+    }
+  }
+  catch (error: any) {
+    throw createError({
+      statusCode: 500,
+      statusMessage: `Failed to retry jobs: ${error.message}`,
+    })
+  }
+})
+
+async function getFailedJobIds(queue: any, name: string): Promise<string[]> {
+  const ids: string[] = []
+  // Retrying only starts once all IDs are collected, so offsets stay stable
+  for (let offset = 0; ; offset += 1000) {
+    const jobs = await queue.getJobs(name, { state: ['failed'], limit: 1000, offset })
+    ids.push(...jobs.map((job: any) => job.id))
+    if (jobs.length < 1000) return ids
+  }
+}
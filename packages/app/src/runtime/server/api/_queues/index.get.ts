@@ -1,8 +1,10 @@
-import { defineEventHandler, useRuntimeConfig, $useFunctionRegistry, useQueueAdapter, useNventLogger } from '#imports'
+import { defineEventHandler, useRuntimeConfig, $useFunctionRegistry, useQueueAdapter, useNventLogger, requireNventAccess } from '#imports'
 
 const logger = useNventLogger('api-queues-index')
 
-export default defineEventHandler(async () => {
+export default defineEventHandler(async (event) => {
+  await requireNventAccess(event, 'read', { type: 'queue' })
+
   const rc: any = useRuntimeConfig()
   const registry = $useFunctionRegistry() as any
 
@@ -3,6 +3,8 @@ import {
   useQueueAdapter,
   usePeerManager,
   useNventLogger,
+  authorizeNventUpgrade,
+  canNventPeerRead,
 } from '#imports'
 
 interface PeerContext {
@@ -72,6 +74,11 @@ function safeSend(peer: any, data: any): boolean {
  * }
  */
 export default defineWebSocketHandler({
+  async upgrade(request) {
+    // Reject the handshake without read access; the user is kept on peer.context
+    await authorizeNventUpgrade(request, { type: 'queue' })
+  },
+
   open(peer) {
     const logger = useNventLogger('api-queues-ws')
     logger.info('[ws:queues] client connected:', peer.id)
@@ -123,6 +130,14 @@ export default defineWebSocketHandler({
         return
       }
 
+      if (!(await canNventPeerRead(peer, { type: 'queue', name: queueName }))) {
+        safeSend(peer, {
+          type: 'error',
+          message: 'Forbidden',
+        })
+        return
+      }
+
       // Check if adapters are initialized
       let queue: any
       try {
@@ -1,11 +1,13 @@
 import { defineEventHandler } from 'h3'
-import { useScheduler } from '#imports'
+import { useScheduler, requireNventAccess } from '#imports'
 
 /**
  * Get all scheduled jobs
  * Returns list of jobs with their metadata and execution info
  */
-export default defineEventHandler(async () => {
+export default defineEventHandler(async (event) => {
+  await requireNventAccess(event, 'read', { type: 'scheduler' })
+
   try {
     const scheduler = useScheduler()
 
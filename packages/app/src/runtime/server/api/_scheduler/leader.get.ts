@@ -0,0 +1,29 @@
+import { defineEventHandler } from 'h3'
+import { useLeader, requireNventAccess } from '#imports'
+
+/**
+ * Get the current cluster leader
+ * Returns the lease holder and whether it is the instance serving this request
+ */
+export default defineEventHandler(async (event) => {
+  await requireNventAccess(event, 'read', { type: 'scheduler' })
+
+  try {
+    const leader = useLeader()
+    const lease = await leader.getLeader()
+
+    return {
+      instanceId: leader.instanceId,
+      isLeader: leader.isLeader(),
+      leader: lease,
+    }
+  }
+  catch (error) {
+    console.error('Failed to get leader:', error)
+    return {
+      instanceId: null,
+      isLeader: false,
+      leader: null,
+    }
+  }
+})
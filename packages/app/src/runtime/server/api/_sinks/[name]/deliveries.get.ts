@@ -0,0 +1,30 @@
+import { defineEventHandler, getRouterParam, getQuery, createError, useEventSinks, requireNventAccess } from '#imports'
+
+/**
+ * GET /api/_sinks/:name/deliveries
+ *
+ * Delivery history of a sink, newest first
+ *
+ * Query params:
+ * - status: pending | delivered | retrying | dead
+ * - limit: page size (default 50)
+ * - offset: entries to skip
+ */
+export default defineEventHandler(async (event) => {
+  const name = getRouterParam(event, 'name', { decode: true })
+  await requireNventAccess(event, 'read', { type: 'sink', name })
+
+  if (!name) throw createError({ statusCode: 400, statusMessage: 'Sink name is required' })
+
+  const query = getQuery(event)
+  const status = query.status as any
+  if (status && !['pending', 'delivered', 'retrying', 'dead'].includes(status)) {
+    throw createError({ statusCode: 400, statusMessage: `Invalid status '${status}'` })
+  }
+
+  return useEventSinks().deliveries(name, {
+    status: status || undefined,
+    limit: query.limit ? Math.min(Number(query.limit) || 50, 200) : 50,
+    offset: Number(query.offset) || 0,
+  })
+})
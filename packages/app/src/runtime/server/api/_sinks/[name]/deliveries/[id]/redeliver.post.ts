@@ -0,0 +1,20 @@
+import { defineEventHandler, getRouterParam, createError, useEventSinks, requireNventAccess } from '#imports'
+
+/**
+ * POST /api/_sinks/:name/deliveries/:id/redeliver
+ *
+ * Deliver an event again right away, with a fresh set of retries (e.g. a dead letter)
+ * Returns the delivery after the attempt.
+ */
+export default defineEventHandler(async (event) => {
+  const name = getRouterParam(event, 'name', { decode: true })
+  const id = getRouterParam(event, 'id', { decode: true })
+  await requireNventAccess(event, 'sink.redeliver', { type: 'sink', name, id })
+
+  if (!name || !id) throw createError({ statusCode: 400, statusMessage: 'Sink name and delivery ID are required' })
+
+  const delivery = await useEventSinks().redeliver(name, id)
+  if (!delivery) throw createError({ statusCode: 404, statusMessage: 'Delivery not found' })
+
+  return delivery
+})
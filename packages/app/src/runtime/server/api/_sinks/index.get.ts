@@ -0,0 +1,13 @@
+import { defineEventHandler, useEventSinks, requireNventAccess } from '#imports'
+
+/**
+ * GET /api/_sinks
+ *
+ * Configured outbound event sinks (`nvent.sinks`) with the status counts of their delivery history
+ */
+export default defineEventHandler(async (event) => {
+  await requireNventAccess(event, 'read', { type: 'sink' })
+
+  const sinks = await useEventSinks().list()
+  return { sinks }
+})
@@ -0,0 +1,29 @@
+import { defineEventHandler, getRouterParam, createError, useAwait, AwaitTaskError, requireNventAccess, checkNventAccess } from '#imports'
+
+/**
+ * POST /api/_tasks/:id/claim
+ *
+ * Claim a task for the current user, so nobody else completes or rejects it
+ * Admins can take over tasks assigned to or claimed by someone else.
+ */
+export default defineEventHandler(async (event) => {
+  const taskId = getRouterParam(event, 'id', { decode: true })
+  if (!taskId) throw createError({ statusCode: 400, statusMessage: 'Task ID is required' })
+
+  // Access is checked against the task's flow
+  const task = await useAwait().form.getTask(taskId)
+  const resource = { type: 'task' as const, name: task?.flowName, id: taskId }
+  const user = await requireNventAccess(event, 'task.claim', resource)
+  if (!task) throw createError({ statusCode: 404, statusMessage: `Task '${taskId}' is no longer open` })
+  const authorizeRole = (role: string) => checkNventAccess(event, 'task.claim', { ...resource, role }, user)
+
+  try {
+    return await useAwait().form.claimTask(taskId, user?.name || 'anonymous', { override: user?.role === 'admin', authorizeRole })
+  }
+  catch (err) {
+    if (err instanceof AwaitTaskError) {
+      throw createError({ statusCode: err.statusCode, statusMessage: err.message })
+    }
+    throw err
+  }
+})
@@ -0,0 +1,35 @@
+import { defineEventHandler, getRouterParam, createError, readBody, useAwait, AwaitTaskError, PayloadValidationError, requireNventAccess, checkNventAccess } from '#imports'
+
+/**
+ * POST /api/_tasks/:id/complete
+ *
+ * Complete a task with the input of its form; resumes the run with
+ * `{ outcome: 'completed', data, user }` as the await's trigger data
+ * Body: the form input (validated against the form schema)
+ */
+export default defineEventHandler(async (event) => {
+  const taskId = getRouterParam(event, 'id', { decode: true })
+  if (!taskId) throw createError({ statusCode: 400, statusMessage: 'Task ID is required' })
+
+  // Access is checked against the task's flow
+  const task = await useAwait().form.getTask(taskId)
+  const resource = { type: 'task' as const, name: task?.flowName, id: taskId }
+  const user = await requireNventAccess(event, 'task.complete', resource)
+  if (!task) throw createError({ statusCode: 404, statusMessage: `Task '${taskId}' is no longer open` })
+  const authorizeRole = (role: string) => checkNventAccess(event, 'task.complete', { ...resource, role }, user)
+
+  const body = await readBody(event)
+  try {
+    return await useAwait().form.completeTask(taskId, body || {}, user?.name || 'anonymous', { override: user?.role === 'admin', authorizeRole })
+  }
+  catch (err) {
+    // Structured validation errors (the task stays open)
+    if (err instanceof PayloadValidationError) {
+      throw createError({ statusCode: 422, statusMessage: 'Validation failed', data: err.toJSON() })
+    }
+    if (err instanceof AwaitTaskError) {
+      throw createError({ statusCode: err.statusCode, statusMessage: err.message })
+    }
+    throw err
+  }
+})
@@ -0,0 +1,32 @@
+import { defineEventHandler, getRouterParam, createError, readBody, useAwait, AwaitTaskError, requireNventAccess, checkNventAccess } from '#imports'
+
+/**
+ * POST /api/_tasks/:id/reject
+ *
+ * Reject a task; resumes the run with `{ outcome: 'rejected', reason, user }`
+ * as the await's trigger data
+ * Body: { reason?: string }
+ */
+export default defineEventHandler(async (event) => {
+  const taskId = getRouterParam(event, 'id', { decode: true })
+  if (!taskId) throw createError({ statusCode: 400, statusMessage: 'Task ID is required' })
+
+  // Access is checked against the task's flow
+  const task = await useAwait().form.getTask(taskId)
+  const resource = { type: 'task' as const, name: task?.flowName, id: taskId }
+  const user = await requireNventAccess(event, 'task.reject', resource)
+  if (!task) throw createError({ statusCode: 404, statusMessage: `Task '${taskId}' is no longer open` })
+  const authorizeRole = (role: string) => checkNventAccess(event, 'task.reject', { ...resource, role }, user)
+
+  const body = await readBody(event)
+  const reason = typeof body?.reason === 'string' && body.reason ? body.reason : undefined
+  try {
+    return await useAwait().form.rejectTask(taskId, reason, user?.name || 'anonymous', { override: user?.role === 'admin', authorizeRole })
+  }
+  catch (err) {
+    if (err instanceof AwaitTaskError) {
+      throw createError({ statusCode: err.statusCode, statusMessage: err.message })
+    }
+    throw err
+  }
+})
@@ -0,0 +1,24 @@
+import { defineEventHandler, getQuery, useAwait, requireNventAccess } from '#imports'
+
+/**
+ * GET /api/_tasks
+ *
+ * Open tasks of form awaits (task inbox), newest first
+ *
+ * Query params:
+ * - flow: only tasks of this flow
+ * - assignee: only tasks assigned to this user
+ * - role: only tasks for this role
+ */
+export default defineEventHandler(async (event) => {
+  await requireNventAccess(event, 'read', { type: 'task' })
+
+  const query = getQuery(event)
+  const tasks = await useAwait().form.listTasks({
+    flowName: (query.flow as string) || undefined,
+    assignee: (query.assignee as string) || undefined,
+    role: (query.role as string) || undefined,
+  })
+
+  return { tasks }
+})
@@ -1,4 +1,4 @@
-import { defineEventHandler, getRouterParam, useTrigger } from '#imports'
+import { defineEventHandler, getRouterParam, useTrigger, requireNventAccess } from '#imports'
 
 /**
  * DELETE /api/_triggers/:name
@@ -12,6 +12,7 @@ export default defineEventHandler(async (event) => {
   }
   const trigger = useTrigger()
   const name = getRouterParam(event, 'name')
+  await requireNventAccess(event, 'trigger.delete', { type: 'trigger', name })
 
   if (!name) {
     return {
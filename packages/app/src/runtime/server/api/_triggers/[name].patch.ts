@@ -1,4 +1,4 @@
-import { defineEventHandler, getRouterParam, readBody, useTrigger } from '#imports'
+import { defineEventHandler, getRouterParam, readBody, useTrigger, requireNventAccess } from '#imports'
 
 /**
  * PATCH /api/_triggers/:name
@@ -12,6 +12,7 @@ export default defineEventHandler(async (event) => {
   }
   const trigger = useTrigger()
   const name = getRouterParam(event, 'name')
+  await requireNventAccess(event, 'trigger.update', { type: 'trigger', name })
 
   if (!name) {
     return {
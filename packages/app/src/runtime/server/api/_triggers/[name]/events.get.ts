@@ -1,4 +1,4 @@
-import { defineEventHandler, getRouterParam, getQuery, useTrigger, createError } from '#imports'
+import { defineEventHandler, getRouterParam, getQuery, useTrigger, createError, requireNventAccess } from '#imports'
 
 /**
  * Get trigger event history
@@ -6,6 +6,8 @@ import { defineEventHandler, getRouterParam, getQuery, useTrigger, createError }
  */
 export default defineEventHandler(async (event: any) => {
   const name = getRouterParam(event, 'name')
+  await requireNventAccess(event, 'read', { type: 'trigger', name })
+
   const query = getQuery(event)
 
   if (!name) {
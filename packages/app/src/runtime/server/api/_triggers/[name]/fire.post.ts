@@ -0,0 +1,55 @@
+import { defineEventHandler, getRouterParam, readBody, createError, useTrigger, PayloadValidationError, requireNventAccess } from '#imports'
+
+/**
+ * POST /api/_triggers/:name/fire
+ *
+ * Fire a trigger manually with the given payload (manual-trigger form)
+ * Invalid payloads are rejected with 422 and structured issues before any run is created
+ */
+export default defineEventHandler(async (event) => {
+  const name = getRouterParam(event, 'name')
+  await requireNventAccess(event, 'trigger.fire', { type: 'trigger', name })
+
+  if (!name) {
+    throw createError({
+      statusCode: 400,
+      statusMessage: 'Trigger name is required',
+    })
+  }
+
+  const trigger = useTrigger()
+  const triggerEntry = trigger.getTrigger(name)
+
+  if (!triggerEntry) {
+    throw createError({
+      statusCode: 404,
+      statusMessage: `Trigger '${name}' not found`,
+    })
+  }
+
+  if (triggerEntry.status !== 'active') {
+    throw createError({
+      statusCode: 409,
+      statusMessage: `Trigger '${name}' is ${triggerEntry.status}`,
+    })
+  }
+
+  const body = await readBody(event)
+
+  try {
+    await trigger.emitTrigger(name, body ?? {})
+  }
+  catch (err) {
+    if (err instanceof PayloadValidationError) {
+      throw createError({ statusCode: 422, statusMessage: 'Validation failed', data: err.toJSON() })
+    }
+    throw err
+  }
+
+  return {
+    success: true,
+    triggerName: name,
+    subscribedFlows: trigger.getSubscribedFlows(name),
+    timestamp: new Date().toISOString(),
+  }
+})
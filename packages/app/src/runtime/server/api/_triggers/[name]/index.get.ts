@@ -1,4 +1,4 @@
-import { defineEventHandler, getRouterParam, useTrigger, createError, getRequestURL } from '#imports'
+import { defineEventHandler, getRouterParam, useTrigger, useSchemaRegistry, createError, getRequestURL, requireNventAccess } from '#imports'
 
 /**
  * Get detailed information about a specific trigger
@@ -6,6 +6,7 @@ import { defineEventHandler, getRouterParam, useTrigger, createError, getRequest
  */
 export default defineEventHandler(async (event: any) => {
   const name = getRouterParam(event, 'name')
+  await requireNventAccess(event, 'read', { type: 'trigger', name })
 
   if (!name) {
     throw createError({
@@ -67,6 +68,13 @@ export default defineEventHandler(async (event: any) => {
       }
     : undefined
 
+  // JSON Schema for the manual-trigger form: the trigger's own schema,
+  // or the input schema of the flow it starts when there is exactly one
+  const schemaRegistry = useSchemaRegistry()
+  const autoFlows = subscriptions.filter((sub: any) => sub.mode !== 'manual').map((sub: any) => sub.flowName)
+  const inputSchema = schemaRegistry.getTriggerJsonSchema(name)
+    || (autoFlows.length === 1 ? schemaRegistry.getFlowJsonSchema(autoFlows[0]) : undefined)
+
   return {
     name: trigger.name,
     type: trigger.type,
@@ -81,6 +89,7 @@ export default defineEventHandler(async (event: any) => {
     webhook: webhookConfig,
     schedule: trigger.schedule,
     config: trigger.config,
+    inputSchema,
     version: trigger.version,
     subscribedFlows,
     subscriptions,
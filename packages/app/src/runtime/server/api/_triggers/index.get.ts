@@ -1,10 +1,12 @@
-import { defineEventHandler, useTrigger } from '#imports'
+import { defineEventHandler, useTrigger, requireNventAccess } from '#imports'
 
 /**
  * Get all triggers with their subscriptions and stats
  * Returns comprehensive trigger data for the UI
  */
-export default defineEventHandler(async () => {
+export default defineEventHandler(async (event) => {
+  await requireNventAccess(event, 'read', { type: 'trigger' })
+
   const { getAllTriggers, getSubscribedFlows, getTriggerStats } = useTrigger()
 
   // Get all triggers sorted by registeredAt (newest first)
@@ -1,4 +1,4 @@
-import { defineEventHandler, readBody, useTrigger } from '#imports'
+import { defineEventHandler, readBody, useTrigger, requireNventAccess } from '#imports'
 
 /**
  * POST /api/_triggers
@@ -6,6 +6,8 @@ import { defineEventHandler, readBody, useTrigger } from '#imports'
  * Register a new trigger with subscriptions
  */
 export default defineEventHandler(async (event) => {
+  await requireNventAccess(event, 'trigger.create', { type: 'trigger' })
+
   const logger = {
     info: console.log,
     error: console.error,
@@ -1,10 +1,12 @@
-import { defineEventHandler, useTrigger } from '#imports'
+import { defineEventHandler, useTrigger, requireNventAccess } from '#imports'
 
 /**
  * Get aggregate trigger statistics
  * Returns overview stats for the triggers page
  */
-export default defineEventHandler(async () => {
+export default defineEventHandler(async (event) => {
+  await requireNventAccess(event, 'read', { type: 'trigger' })
+
   const { getAllTriggers, getAllSubscriptions } = useTrigger()
 
   const triggers = getAllTriggers()
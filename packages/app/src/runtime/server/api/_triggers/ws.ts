@@ -2,6 +2,8 @@ import {
   defineWebSocketHandler,
   usePeerManager,
   useNventLogger,
+  authorizeNventUpgrade,
+  canNventPeerRead,
   useStreamAdapter,
   useStoreAdapter,
   useStreamTopics,
@@ -105,6 +107,11 @@ function safeSend(peer: any, data: any): boolean {
  * }
  */
 export default defineWebSocketHandler({
+  async upgrade(request) {
+    // Reject the handshake without read access; the user is kept on peer.context
+    await authorizeNventUpgrade(request, { type: 'trigger' })
+  },
+
   async open(peer) {
     const logger = useNventLogger('api-triggers-ws')
     logger.info('[ws] client connected:', { peerId: peer.id })
@@ -158,6 +165,14 @@ export default defineWebSocketHandler({
         return
       }
 
+      if (!(await canNventPeerRead(peer, { type: 'trigger', name: triggerName }))) {
+        safeSend(peer, {
+          type: 'error',
+          message: 'Forbidden',
+        })
+        return
+      }
+
       // Check if adapters are initialized
       let stream: any
       let store: any
@@ -276,6 +291,14 @@ export default defineWebSocketHandler({
       }
     }
     else if (type === 'subscribe.stats') {
+      if (!(await canNventPeerRead(peer, { type: 'trigger' }))) {
+        safeSend(peer, {
+          type: 'error',
+          message: 'Forbidden',
+        })
+        return
+      }
+
       // Subscribe to trigger stats updates (trigger index changes)
       const statsKey = 'stats'
 
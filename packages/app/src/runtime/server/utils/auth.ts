@@ -0,0 +1,281 @@
+import { createHash, timingSafeEqual } from 'node:crypto'
+import type { H3Event } from 'h3'
+import { createError, setResponseHeader, useRuntimeConfig } from '#imports'
+import authorizeHook from '#nventapp/authorize'
+
+/**
+ * Dashboard roles, from least to most privileged
+ * - readonly: view flows, queues, triggers and the scheduler
+ * - operator: start/cancel/restart runs, fire triggers, pause/resume/retry queues, work on tasks,
+ *   redeliver sink events, requeue dead letters
+ * - admin: everything, including destructive and configuration changes
+ */
+export type NventRole = 'readonly' | 'operator' | 'admin'
+
+export type NventAction
+  = | 'read'
+    | 'flow.start'
+    | 'flow.cancel'
+    | 'flow.restart'
+    | 'flow.clear-history'
+    | 'trigger.fire'
+    | 'trigger.create'
+    | 'trigger.update'
+    | 'trigger.delete'
+    | 'queue.pause'
+    | 'queue.resume'
+    | 'queue.retry'
+    | 'queue.drain'
+    | 'job.retry'
+    | 'job.promote'
+    | 'job.remove'
+    | 'task.claim'
+    | 'task.complete'
+    | 'task.reject'
+    | 'sink.redeliver'
+    | 'dlq.requeue'
+    | 'dlq.remove'
+
+export interface NventResource {
+  type: 'flow' | 'queue' | 'trigger' | 'scheduler' | 'task' | 'sink'
+  /** Flow, queue, trigger or sink name (the task's flow for tasks) */
+  name?: string
+  /** Run, job or task id */
+  id?: string
+  /** Role (group) a task is meant for (`role` of the form await) */
+  role?: string
+}
+
+export interface NventUser {
+  name: string
+  role: NventRole
+}
+
+/**
+ * Request the check runs against: the H3 event for REST handlers,
+ * the upgrade request for WebSocket handshakes
+ */
+export type NventAuthSource = H3Event | { url: string, headers: Headers }
+
+/**
+ * Custom authorization hook (module option `nventapp.auth.authorize`)
+ * Return true/false to allow/deny, or undefined to fall back to the role check.
+ */
+export type NventAuthorizeHook = (
+  event: NventAuthSource,
+  action: NventAction,
+  resource: NventResource,
+  user: NventUser | null,
+) => boolean | undefined | Promise<boolean | undefined>
+
+interface NventAuthConfig {
+  mode: 'none' | 'basic' | 'token'
+  defaultRole: NventRole
+  users: Array<{ username: string, password: string, role?: NventRole }>
+  tokens: Array<{ token: string, role?: NventRole, name?: string }>
+  cookieName: string
+}
+
+const ROLE_RANK: Record<NventRole, number> = {
+  readonly: 0,
+  operator: 1,
+  admin: 2,
+}
+
+/**
+ * Minimum role required for each action
+ */
+export const NVENT_ACTION_ROLES: Record<NventAction, NventRole> = {
+  'read': 'readonly',
+  'flow.start': 'operator',
+  'flow.cancel': 'operator',
+  'flow.restart': 'operator',
+  'trigger.fire': 'operator',
+  'queue.pause': 'operator',
+  'queue.resume': 'operator',
+  'queue.retry': 'operator',
+  'job.retry': 'operator',
+  'job.promote': 'operator',
+  'task.claim': 'operator',
+  'task.complete': 'operator',
+  'task.reject': 'operator',
+  'sink.redeliver': 'operator',
+  'dlq.requeue': 'operator',
+  'flow.clear-history': 'admin',
+  'trigger.create': 'admin',
+  'trigger.update': 'admin',
+  'trigger.delete': 'admin',
+  'queue.drain': 'admin',
+  'job.remove': 'admin',
+  'dlq.remove': 'admin',
+}
+
+/**
+ * Whether a role may perform an action (built-in check, without the custom hook)
+ */
+export function hasNventRole(role: NventRole, action: NventAction): boolean {
+  return (ROLE_RANK[role] ?? -1) >= ROLE_RANK[NVENT_ACTION_ROLES[action]]
+}
+
+export function getNventAuthConfig(): NventAuthConfig {
+  const auth = (useRuntimeConfig() as any).nventapp?.auth || {}
+  return {
+    mode: auth.mode || 'none',
+    defaultRole: auth.defaultRole || 'admin',
+    users: auth.users || [],
+    tokens: auth.tokens || [],
+    cookieName: auth.cookieName || 'nvent_token',
+  }
+}
+
+/**
+ * Constant-time string comparison (hashing first so lengths don't leak)
+ */
+function safeEqual(a: string, b: string): boolean {
+  const hashA = createHash('sha256').update(a).digest()
+  const hashB = createHash('sha256').update(b).digest()
+  return timingSafeEqual(hashA, hashB)
+}
+
+function readCookie(headers: Headers, name: string): string | undefined {
+  const header = headers.get('cookie')
+  if (!header) return undefined
+
+  for (const part of header.split(';')) {
+    const [key, ...rest] = part.trim().split('=')
+    if (key === name) {
+      try {
+        return decodeURIComponent(rest.join('='))
+      }
+      catch {
+        return undefined
+      }
+    }
+  }
+  return undefined
+}
+
+/**
+ * Look up the user for a bearer token
+ */
+export function findNventTokenUser(token: string): NventUser | null {
+  const config = getNventAuthConfig()
+  const entry = config.tokens.find(t => safeEqual(t.token, token))
+  if (!entry) return null
+  return { name: entry.name || 'token', role: entry.role || 'readonly' }
+}
+
+/**
+ * Resolve the current user from the request headers
+ * Returns null when credentials are missing or invalid.
+ */
+export function getNventUser(source: NventAuthSource): NventUser | null {
+  const config = getNventAuthConfig()
+
+  if (config.mode === 'none') {
+    return { name: 'anonymous', role: config.defaultRole }
+  }
+
+  const headers = source.headers
+  const authorization = headers.get('authorization') || ''
+
+  if (config.mode === 'basic') {
+    if (!authorization.startsWith('Basic ')) return null
+
+    const decoded = Buffer.from(authorization.slice(6), 'base64').toString('utf-8')
+    const separator = decoded.indexOf(':')
+    if (separator === -1) return null
+
+    const username = decoded.slice(0, separator)
+    const password = decoded.slice(separator + 1)
+    const entry = config.users.find(u => safeEqual(u.username, username) && safeEqual(u.password, password))
+    if (!entry) return null
+    return { name: entry.username, role: entry.role || 'readonly' }
+  }
+
+  // Token mode: Authorization header (API clients) or cookie (dashboard, WebSockets)
+  const token = authorization.startsWith('Bearer ')
+    ? authorization.slice(7)
+    : readCookie(headers, config.cookieName)
+  if (!token) return null
+
+  return findNventTokenUser(token)
+}
+
+/**
+ * Check whether a user may perform an action on a resource
+ * The custom hook decides first; the role check applies if it returns undefined.
+ * Without the hook, tasks meant for a role are left to users of that dashboard role and admins.
+ */
+export async function checkNventAccess(
+  source: NventAuthSource,
+  action: NventAction,
+  resource: NventResource,
+  user: NventUser | null,
+): Promise<boolean> {
+  if (authorizeHook) {
+    const decision = await authorizeHook(source, action, resource, user)
+    if (typeof decision === 'boolean') return decision
+  }
+
+  if (!user) return false
+  if (resource.role && user.role !== 'admin' && user.role !== resource.role) return false
+  return hasNventRole(user.role, action)
+}
+
+/**
+ * Require access in a REST handler
+ * Throws 401 without valid credentials and 403 when the role is insufficient.
+ *
+ * @example
+ * await requireNventAccess(event, 'flow.cancel', { type: 'flow', name, id: runId })
+ */
+export async function requireNventAccess(
+  event: H3Event,
+  action: NventAction,
+  resource: NventResource,
+): Promise<NventUser | null> {
+  const user = getNventUser(event)
+
+  if (await checkNventAccess(event, action, resource, user)) {
+    return user
+  }
+
+  if (!user) {
+    if (getNventAuthConfig().mode === 'basic') {
+      setResponseHeader(event, 'WWW-Authenticate', 'Basic realm="nvent", charset="UTF-8"')
+    }
+    throw createError({ statusCode: 401, statusMessage: 'Unauthorized' })
+  }
+
+  throw createError({ statusCode: 403, statusMessage: `Forbidden: '${user.name}' (${user.role}) may not perform '${action}'` })
+}
+
+/**
+ * Authorize a WebSocket handshake (crossws `upgrade` hook)
+ * Rejects the upgrade with a 401/403 response and stores the user on the peer context.
+ */
+export async function authorizeNventUpgrade(
+  request: { url: string, headers: Headers, context: Record<string, unknown> },
+  resource: NventResource,
+): Promise<void> {
+  const user = getNventUser(request)
+
+  if (!(await checkNventAccess(request, 'read', resource, user))) {
+    throw new Response(user ? 'Forbidden' : 'Unauthorized', { status: user ? 403 : 401 })
+  }
+
+  request.context.nventUser = user
+}
+
+/**
+ * Check read access for a WebSocket subscription, using the user resolved at upgrade
+ */
+export function canNventPeerRead(
+  peer: { request?: { url: string, headers: Headers }, context: Record<string, unknown> },
+  resource: NventResource,
+): Promise<boolean> {
+  const user = (peer.context.nventUser as NventUser | null | undefined) ?? null
+  const source = peer.request ?? { url: '', headers: new Headers() }
+  return checkNventAccess(source, 'read', resource, user)
+}
@@ -71,6 +71,12 @@ export default defineNuxtModule<ModuleOptions>().with({
     if (!runtimeConfig.nvent) runtimeConfig.nvent = {} as any
     ;(runtimeConfig.nvent as any).rootDir = nuxt.options.rootDir
 
+    // Python functions and isolated TS tasks are executed by scripts shipped with the module
+    ;(runtimeConfig.nvent as any).runner = defu((runtimeConfig.nvent as any).runner || {}, {
+      ts: { taskEntry: resolve('./runtime/worker/node/task-entry.mjs') },
+      py: { script: resolve('./runtime/worker/python/runner.py') },
+    })
+
     // Build real registry snapshot from disk
     const layerInfos: LayerInfo[] = nuxt.options._layers.map(l => ({
       rootDir: l.config.rootDir,
@@ -92,7 +98,7 @@ export default defineNuxtModule<ModuleOptions>().with({
       compiledAt: new Date().toISOString(),
       provider: { name: config.queue.adapter === 'postgres' ? 'pgboss' : 'bullmq' },
       logger: { name: 'console', level: 'info' },
-      runner: { ts: { isolate: 'inprocess' }, py: { enabled: false, cmd: 'python3', importMode: 'file' } },
+      runner: config.runner,
       flows: {},
       eventIndex: {},
       config: {
@@ -155,6 +161,7 @@ export default defineNuxtModule<ModuleOptions>().with({
     addServerPlugin(resolve('./runtime/nitro/plugins/01.ws-lifecycle'))
     addServerPlugin(resolve('./runtime/nitro/plugins/02.workers'))
     addServerPlugin(resolve('./runtime/nitro/plugins/03.triggers'))
+    addServerPlugin(resolve('./runtime/nitro/plugins/04.awaits'))
 
     // add webhook handler
     addServerHandler({
@@ -179,7 +186,7 @@ export default defineNuxtModule<ModuleOptions>().with({
         compiledAt: new Date().toISOString(),
         provider: { name: config.queue.adapter === 'postgres' ? 'pgboss' : 'bullmq' },
         logger: { name: 'console', level: 'info' },
-        runner: { ts: { isolate: 'inprocess' }, py: { enabled: false, cmd: 'python3', importMode: 'file' } },
+        runner: config.runner,
         flows: {},
         eventIndex: {},
         config: {
@@ -3,7 +3,11 @@
  * to determine the execution order and relationships between steps
  */
 
+import { createHash } from 'node:crypto'
 import type { AwaitConfig } from './types'
+import type { FlowMapConfig, FlowRoutes } from '../runtime/nitro/utils/defineFunctionConfig'
+import { describeAwaitMatcher } from '../runtime/nitro/utils/awaitMatcher'
+import { getRouteTargets, toStepList } from '../runtime/events/utils/flowRoutes'
 
 interface FlowEntry {
   step: string
@@ -15,6 +19,7 @@ interface FlowEntry {
   stepTimeout?: number
   awaitBefore?: AwaitConfig
   awaitAfter?: AwaitConfig
+  routes?: FlowRoutes
 }
 
 interface FlowStep {
@@ -27,6 +32,8 @@ interface FlowStep {
   stepTimeout?: number
   awaitBefore?: AwaitConfig
   awaitAfter?: AwaitConfig
+  routes?: FlowRoutes
+  map?: FlowMapConfig
 }
 
 interface FlowMeta {
@@ -42,10 +49,18 @@ interface AnalyzedStep extends FlowStep {
   level: number // Execution level (0 = entry, 1 = first level, etc.)
   hasAwaitPattern?: boolean // Quick flag for runtime checks
   stepTimeout?: number // Step execution timeout in ms (from queue config), undefined = use global default
+  branches?: FlowBranch[] // Labelled route edges (steps with flow.routes)
+}
+
+interface FlowBranch {
+  to: string
+  label: string
+  default?: boolean
 }
 
 interface AnalyzedFlow {
   id: string
+  version: string // Hash of the flow definition (see getFlowVersion)
   entry?: FlowEntry
   steps: Record<string, AnalyzedStep>
   levels: string[][] // Steps grouped by execution level
@@ -147,6 +162,16 @@ function buildDependencyGraph(
     dependencies[stepName] = Array.from(deps)
   }
 
+  // Route targets depend on the steps routing to them
+  const routers: Array<[string, FlowRoutes | undefined]> = Object.entries(steps).map(([name, step]) => [name, step.routes])
+  if (entryStep && entry?.routes) routers.push([entryStep, entry.routes])
+  for (const [router, routes] of routers) {
+    for (const target of getRouteTargets(routes)) {
+      const deps = dependencies[target]
+      if (deps && target !== router && !deps.includes(router)) deps.push(router)
+    }
+  }
+
   return dependencies
 }
 
@@ -249,9 +274,29 @@ function findTriggeredSteps(
     }
   }
 
+  for (const target of getRouteTargets(step.routes)) {
+    if (target !== stepName && allSteps[target]) triggered.add(target)
+  }
+
   return Array.from(triggered)
 }
 
+/**
+ * Build labelled edges for a step's routes (branch label or its condition, then the default)
+ */
+function buildBranches(routes?: FlowRoutes): FlowBranch[] | undefined {
+  if (!routes) return undefined
+  const branches: FlowBranch[] = []
+  for (const branch of routes.branches || []) {
+    const label = branch.label || describeAwaitMatcher(branch.when)
+    for (const to of toStepList(branch.to)) branches.push({ to, label })
+  }
+  for (const to of toStepList(routes.default)) {
+    branches.push({ to, label: 'default', default: true })
+  }
+  return branches
+}
+
 /**
  * Get default timeout for an await pattern based on its type
  * These must match the defaults configured in flow.awaitDefaults
@@ -276,6 +321,10 @@ function getAwaitDefaultTimeout(awaitConfig?: AwaitConfig): number {
       return 0 // No timeout for time awaits by default
     case 'schedule':
       return 0 // No timeout for schedule awaits by default
+    case 'flow':
+      return 24 * 60 * 60 * 1000 // 24 hours (matches flow.awaitDefaults.flowTimeout)
+    case 'form':
+      return 7 * 24 * 60 * 60 * 1000 // 7 days (matches flow.awaitDefaults.formTimeout)
     default:
       return 0
   }
@@ -331,6 +380,8 @@ function getStepExecutionTimeout(step: AnalyzedStep, config?: AnalyzerConfig): n
  * Strategy:
  * - Within same level (parallel): use MAX (step timeout + await timeout)
  * - Across different levels (sequential): SUM timeouts
+ * - Map steps: the item count is only known at runtime, but every item event extends
+ *   the deadline, so the window has to cover one item running plus one waiting for a slot
  * - Add buffer for processing time
  */
 function calculateFlowStallTimeout(steps: Record<string, AnalyzedStep>, levels: string[][]): number {
@@ -349,8 +400,9 @@ function calculateFlowStallTimeout(steps: Record<string, AnalyzedStep>, levels:
       const step = steps[stepName]
       if (!step) continue
 
-      // Step execution timeout
-      const stepExecTimeout = step.stepTimeout ?? DEFAULT_STEP_TIMEOUT
+      // Step execution timeout (per item for map steps)
+      const itemTimeout = step.stepTimeout ?? DEFAULT_STEP_TIMEOUT
+      const stepExecTimeout = step.map ? itemTimeout * 2 : itemTimeout
 
       // Await timeouts (for waiting periods)
       const awaitTimeout = getStepAwaitTimeout(step)
@@ -401,6 +453,8 @@ interface AnalyzerConfig {
     awaitDefaults?: {
       webhookTimeout?: number
       eventTimeout?: number
+      formTimeout?: number
+      flowTimeout?: number
       timeTimeout?: number
       scheduleTimeout?: number
     }
@@ -412,6 +466,32 @@ interface AnalyzerConfig {
   }
 }
 
+/**
+ * JSON with sorted object keys, so equal definitions always serialize the same
+ */
+function stableStringify(value: any): string {
+  if (Array.isArray(value)) return `[${value.map(v => stableStringify(v ?? null)).join(',')}]`
+  if (value && typeof value === 'object') {
+    const entries = Object.keys(value)
+      .filter(key => value[key] !== undefined)
+      .sort()
+      .map(key => `${JSON.stringify(key)}:${stableStringify(value[key])}`)
+    return `{${entries.join(',')}}`
+  }
+  return JSON.stringify(value)
+}
+
+/**
+ * Version of a flow definition: short hash of its entry and steps
+ * Only changes when the step graph or step configuration changes.
+ */
+export function getFlowVersion(flow: FlowMeta): string {
+  return createHash('sha256')
+    .update(stableStringify({ entry: flow.entry, steps: flow.steps || {} }))
+    .digest('hex')
+    .slice(0, 12)
+}
+
 /**
  * Analyze flow structure and relationships
  */
@@ -438,11 +518,13 @@ export function analyzeFlow(flow: FlowMeta, config?: AnalyzerConfig): AnalyzedFl
       stepTimeout: flow.entry.stepTimeout, // Include stepTimeout from flow metadata
       awaitBefore: flow.entry.awaitBefore,
       awaitAfter: flow.entry.awaitAfter,
+      routes: flow.entry.routes,
       name: entryStepName,
       dependsOn: [],
       triggers: findTriggeredSteps(entryStepName, flow.entry as any, steps),
       level: 0,
       hasAwaitPattern,
+      branches: buildBranches(flow.entry.routes),
     }
     entryStep.stepTimeout = getStepExecutionTimeout(entryStep, config)
     analyzedSteps[entryStepName] = entryStep
@@ -458,6 +540,7 @@ export function analyzeFlow(flow: FlowMeta, config?: AnalyzerConfig): AnalyzedFl
       triggers: findTriggeredSteps(stepName, step, steps),
       level: levels[stepName] ?? 1,
       hasAwaitPattern,
+      branches: buildBranches(step.routes),
       // stepTimeout from ...step spread above (per-function config)
     }
     // Apply config priority: defineFunctionConfig > flow.stepTimeout > queue.defaultJobOptions.timeout
@@ -508,6 +591,7 @@ export function analyzeFlow(flow: FlowMeta, config?: AnalyzerConfig): AnalyzedFl
 
   return {
     id: flow.id,
+    version: getFlowVersion(flow),
     entry: flow.entry,
     steps: analyzedSteps,
     levels: levelGroups,
@@ -1,4 +1,13 @@
-import type { EventIndex, FlowSource, FlowsIndex } from './types'
+import type { AwaitConfig, EventIndex, FlowSource, FlowsIndex } from './types'
+import type { FlowSubflowConfig } from '../runtime/nitro/utils/defineFunctionConfig'
+
+/**
+ * `flow.subflow` is a `flow` await registered before the step runs
+ * (not supported on entry steps, which are enqueued directly when the flow starts)
+ */
+function subflowAwait(subflow?: FlowSubflowConfig): AwaitConfig | undefined {
+  return subflow ? { type: 'flow', ...subflow } : undefined
+}
 
 export function buildFlows(flowSources: FlowSource[]) {
   const flows: FlowsIndex = {}
@@ -29,6 +38,8 @@ export function buildFlows(flowSources: FlowSource[]) {
             stepTimeout: f.stepTimeout,
             awaitBefore: f.awaitBefore,
             awaitAfter: f.awaitAfter,
+            routes: f.routes,
+            concurrency: f.concurrency,
           }
         }
         for (const s of steps.slice(1)) {
@@ -41,8 +52,11 @@ export function buildFlows(flowSources: FlowSource[]) {
             subscribes: f.subscribes,
             emits: f.emits,
             stepTimeout: f.stepTimeout,
-            awaitBefore: f.awaitBefore,
+            awaitBefore: f.awaitBefore ?? subflowAwait(f.subflow),
             awaitAfter: f.awaitAfter,
+            routes: f.routes,
+            map: f.map,
+            subflow: f.subflow,
           }
         }
       }
@@ -57,8 +71,11 @@ export function buildFlows(flowSources: FlowSource[]) {
             subscribes: f.subscribes,
             emits: f.emits,
             stepTimeout: f.stepTimeout,
-            awaitBefore: f.awaitBefore,
+            awaitBefore: f.awaitBefore ?? subflowAwait(f.subflow),
             awaitAfter: f.awaitAfter,
+            routes: f.routes,
+            map: f.map,
+            subflow: f.subflow,
           }
         }
       }
@@ -21,6 +21,8 @@ export async function loadJsConfig(absPath: string): Promise<ConfigMeta> {
     const names = Array.isArray((flowCfg as any).name)
       ? (flowCfg as any).name.filter((s: any) => typeof s === 'string' && s.length > 0)
       : (typeof (flowCfg as any).name === 'string' && (flowCfg as any).name.length > 0 ? [(flowCfg as any).name] : [])
+    // Form schemas are runtime objects (collected from the module at startup), not config data
+    const stripSchema = (awaitCfg: any) => (awaitCfg?.schema ? { ...awaitCfg, schema: undefined } : awaitCfg)
     if (names.length) {
       flow = {
         names,
@@ -30,8 +32,12 @@ export async function loadJsConfig(absPath: string): Promise<ConfigMeta> {
         subscribes,
         triggers: flowCfg.triggers,
         stepTimeout: flowCfg.stepTimeout,
-        awaitBefore: flowCfg.awaitBefore,
-        awaitAfter: flowCfg.awaitAfter,
+        awaitBefore: stripSchema(flowCfg.awaitBefore),
+        awaitAfter: stripSchema(flowCfg.awaitAfter),
+        routes: flowCfg.routes,
+        map: flowCfg.map,
+        subflow: flowCfg.subflow,
+        concurrency: flowCfg.concurrency,
       }
     }
   }
@@ -52,11 +58,12 @@ export async function loadJsConfig(absPath: string): Promise<ConfigMeta> {
   const hasDefaultExport = !!(mod && mod.default)
 
   // Check for lifecycle hooks
-  // Hooks can be plain functions or wrapped with defineAwaitRegisterHook/defineAwaitResolveHook/defineAwaitTimeoutHook
+  // Hooks can be plain functions or wrapped with defineAwaitRegisterHook/defineAwaitResolveHook/defineAwaitTimeoutHook/defineCompensateHook
   const hasHooks = !!(
     (mod && typeof mod.onAwaitRegister === 'function')
     || (mod && typeof mod.onAwaitResolve === 'function')
     || (mod && typeof mod.onAwaitTimeout === 'function')
+    || (mod && typeof mod.onCompensate === 'function')
   )
 
   return { queueName, flow, runtype, queue: queueCfg, worker: workerCfg, hasDefaultExport, hasHooks }
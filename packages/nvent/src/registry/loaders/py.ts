@@ -70,10 +70,27 @@ export async function loadPyConfig(absPath: string, logger?: NuxtQueueLogger): P
           stepTimeout: flowCfg.stepTimeout,
           awaitBefore: flowCfg.awaitBefore,
           awaitAfter: flowCfg.awaitAfter,
+          routes: flowCfg.routes,
+          map: flowCfg.map,
+          subflow: flowCfg.subflow,
+          concurrency: flowCfg.concurrency,
         }
       }
     }
   }
 
-  return { queueName, flow, hasDefaultExport: true }
+  const queueCfg = (pyConfig?.queue && typeof pyConfig.queue === 'object')
+    ? {
+        name: pyConfig.queue.name,
+        defaultJobOptions: pyConfig.queue.defaultJobOptions,
+        prefix: pyConfig.queue.prefix,
+        limiter: pyConfig.queue.limiter,
+      }
+    : undefined
+
+  const workerCfg = (pyConfig?.worker && typeof pyConfig.worker === 'object')
+    ? { ...pyConfig.worker }
+    : undefined
+
+  return { queueName, flow, queue: queueCfg, worker: workerCfg, hasDefaultExport: true }
 }
@@ -34,6 +34,11 @@ export async function loadTsConfig(absPath: string): Promise<ConfigMeta> {
       const names = Array.isArray((flowCfg as any).name)
         ? (flowCfg as any).name.filter((s: any) => typeof s === 'string' && s.length > 0)
         : (typeof (flowCfg as any).name === 'string' && (flowCfg as any).name.length > 0 ? [(flowCfg as any).name] : [])
+      // Payload schemas are runtime objects (collected from the module at startup), not config data
+      const triggers = flowCfg.triggers?.define
+        ? { ...flowCfg.triggers, define: { ...flowCfg.triggers.define, schema: undefined } }
+        : flowCfg.triggers
+      const stripSchema = (awaitCfg: any) => (awaitCfg?.schema ? { ...awaitCfg, schema: undefined } : awaitCfg)
       if (names.length) {
         flow = {
           names,
@@ -41,10 +46,14 @@ export async function loadTsConfig(absPath: string): Promise<ConfigMeta> {
           step: flowCfg.step,
           emits: flowCfg.emits,
           subscribes,
-          triggers: flowCfg.triggers,
+          triggers,
           stepTimeout: flowCfg.stepTimeout,
-          awaitBefore: flowCfg.awaitBefore,
-          awaitAfter: flowCfg.awaitAfter,
+          awaitBefore: stripSchema(flowCfg.awaitBefore),
+          awaitAfter: stripSchema(flowCfg.awaitAfter),
+          routes: flowCfg.routes,
+          map: flowCfg.map,
+          subflow: flowCfg.subflow,
+          concurrency: flowCfg.concurrency,
         }
       }
     }
@@ -64,11 +73,12 @@ export async function loadTsConfig(absPath: string): Promise<ConfigMeta> {
 
     // Check for lifecycle hooks exports
     // We can detect these by looking for exported functions with these names
-    // They can be plain functions or wrapped with defineAwaitRegisterHook/defineAwaitResolveHook/defineAwaitTimeoutHook
+    // They can be plain functions or wrapped with defineAwaitRegisterHook/defineAwaitResolveHook/defineAwaitTimeoutHook/defineCompensateHook
     const hasHooks = !!(
       mod.exports.onAwaitRegister
       || mod.exports.onAwaitResolve
       || mod.exports.onAwaitTimeout
+      || mod.exports.onCompensate
     )
 
     return { queueName, flow, runtype, queue: queueCfg, worker: workerCfg, hasDefaultExport, hasHooks }
@@ -85,6 +85,7 @@ export async function scanWorkers(layers: LayerInfo[], functionsDir = 'functions
               prefix: meta.queue?.prefix,
               limiter: meta.queue?.limiter,
             },
+            worker: meta.worker,
             flow,
           })
         }
@@ -1,3 +1,6 @@
+import type { FlowConcurrencyConfig, FlowMapConfig, FlowRoutes, FlowSubflowConfig, WebhookAuthConfig } from '../runtime/nitro/utils/defineFunctionConfig'
+import type { AwaitMatcher } from '../runtime/nitro/utils/awaitMatcher'
+
 export type LayerInfo = {
   rootDir: string
   serverDir: string
@@ -34,6 +37,10 @@ export type WorkerEntry = {
     stepTimeout?: number
     awaitBefore?: AwaitConfig
     awaitAfter?: AwaitConfig
+    routes?: FlowRoutes
+    map?: FlowMapConfig
+    subflow?: FlowSubflowConfig
+    concurrency?: FlowConcurrencyConfig
   }
 }
 
@@ -50,7 +57,7 @@ export type TriggerDefinition = {
   webhook?: {
     path: string
     method?: 'GET' | 'POST' | 'PUT' | 'DELETE'
-    auth?: any
+    auth?: WebhookAuthConfig
   }
   schedule?: {
     cron: string
@@ -64,14 +71,22 @@ export type TriggerDefinition = {
  * Await configuration (v0.5)
  */
 export type AwaitConfig = {
-  type: 'webhook' | 'event' | 'schedule' | 'time'
+  type: 'webhook' | 'event' | 'schedule' | 'time' | 'flow' | 'form'
   method?: string
+  outcomes?: string[]
   event?: string
   filterKey?: string
+  match?: AwaitMatcher
   cron?: string
   nextAfterHours?: number
   timezone?: string
   delay?: number
+  flow?: string
+  input?: string
+  title?: string
+  description?: string
+  assignee?: string
+  role?: string
   timeout?: number
   timeoutAction?: 'fail' | 'continue' | 'retry'
 }
@@ -112,13 +127,15 @@ export type TriggerEntry = {
     totalFlowsStarted: number
     lastFiredAt?: string
     activeSubscribers: number
+    totalRejected?: number
+    lastRejectedAt?: string
   }
 
   // Type-specific config
   webhook?: {
     path: string
     method?: string
-    auth?: any
+    auth?: WebhookAuthConfig
   }
   schedule?: {
     cron: string
@@ -161,6 +178,8 @@ export type FlowEntry = {
   stepTimeout?: number
   awaitBefore?: AwaitConfig
   awaitAfter?: AwaitConfig
+  routes?: FlowRoutes
+  concurrency?: FlowConcurrencyConfig
 }
 
 export type FlowStep = {
@@ -171,6 +190,9 @@ export type FlowStep = {
   stepTimeout?: number
   awaitBefore?: AwaitConfig
   awaitAfter?: AwaitConfig
+  routes?: FlowRoutes
+  map?: FlowMapConfig
+  subflow?: FlowSubflowConfig
 }
 
 export type FlowsIndex = Record<string, {
@@ -3,5 +3,6 @@
  * Exported for use by external adapter packages
  */
 
-export { StoreValidator, createStoreValidator } from './store-validator'
-export type { StoreValidatorOptions } from './store-validator'
+export { StoreValidator, createStoreValidator, verifyAtomicKv } from './store-validator'
+export type { StoreValidatorOptions, AtomicKvCheckResult } from './store-validator'
+export { encodeJobsCursor, decodeJobsCursor, compareJobs, matchesJobsQuery, applyJobsQuery } from './jobs-query'
@@ -0,0 +1,74 @@
+/**
+ * JobsQuery helpers
+ *
+ * Cursor encoding and in-memory filtering/sorting/pagination of jobs, shared by
+ * queue adapters without a native query engine (memory, file) and by adapters
+ * that have to scan for filters their backend can't index (e.g. job name on BullMQ).
+ */
+
+import type { Job, JobsQuery } from '../interfaces/queue'
+
+/**
+ * Create a cursor pointing after the given job (pass it as `JobsQuery.cursor`)
+ */
+export function encodeJobsCursor(job: Pick<Job, 'id' | 'timestamp'>): string {
+  return `${job.timestamp || 0}:${job.id}`
+}
+
+export function decodeJobsCursor(cursor: string): { timestamp: number, id: string } | null {
+  const separator = cursor.indexOf(':')
+  if (separator < 1) return null
+
+  const timestamp = Number(cursor.slice(0, separator))
+  if (!Number.isFinite(timestamp)) return null
+
+  return { timestamp, id: cursor.slice(separator + 1) }
+}
+
+/**
+ * Ascending order by creation time, ties broken by ID so cursors are unambiguous
+ */
+export function compareJobs(a: Pick<Job, 'id' | 'timestamp'>, b: Pick<Job, 'id' | 'timestamp'>): number {
+  const diff = (a.timestamp || 0) - (b.timestamp || 0)
+  if (diff !== 0) return diff
+  return a.id < b.id ? -1 : a.id > b.id ? 1 : 0
+}
+
+/**
+ * Check a job against the filters of a query (state, name, time range and cursor)
+ */
+export function matchesJobsQuery(job: Job, query?: JobsQuery): boolean {
+  if (!query) return true
+
+  if (query.state?.length && !query.state.includes(job.state)) return false
+  if (query.name && job.name !== query.name) return false
+
+  const timestamp = job.timestamp || 0
+  if (query.from !== undefined && timestamp < query.from) return false
+  if (query.to !== undefined && timestamp > query.to) return false
+
+  if (query.cursor) {
+    const cursor = decodeJobsCursor(query.cursor)
+    if (cursor) {
+      const order = compareJobs(job, { id: cursor.id, timestamp: cursor.timestamp })
+      if (query.sort === 'asc' ? order <= 0 : order >= 0) return false
+    }
+  }
+
+  return true
+}
+
+/**
+ * Filter, sort and paginate jobs according to a query
+ */
+export function applyJobsQuery(jobs: Job[], query?: JobsQuery): Job[] {
+  const direction = query?.sort === 'asc' ? 1 : -1
+  const matching = jobs
+    .filter(job => matchesJobsQuery(job, query))
+    .sort((a, b) => direction * compareJobs(a, b))
+
+  const start = query?.cursor ? 0 : (query?.offset || 0)
+  return query?.limit
+    ? matching.slice(start, start + query.limit)
+    : matching.slice(start)
+}
@@ -2,9 +2,12 @@
  * Store Adapter Validation
  *
  * Centralized validation logic for index updates to ensure correct usage
- * across all store adapter implementations.
+ * across all store adapter implementations, plus a conformance check for
+ * the atomic KV primitives (setNX / compareAndSwap).
  */
 
+import type { StoreAdapter } from '../interfaces/store'
+
 export interface StoreValidatorOptions {
   /** Adapter name for error messages */
   adapterName: string
@@ -184,3 +187,74 @@ export function createStoreValidator(adapterName: string, options?: Partial<Stor
     ...options,
   })
 }
+
+export interface AtomicKvCheckResult {
+  ok: boolean
+  /** Descriptions of the guarantees the adapter violated */
+  violations: string[]
+}
+
+/**
+ * Verify that an adapter's kv.setNX() and kv.compareAndSwap() behave atomically
+ * Runs against temporary keys (removed afterwards), including concurrent calls
+ * where exactly one caller must win.
+ *
+ * @param store - Store adapter to check
+ * @param options - Check options
+ * @param options.concurrency - Number of concurrent callers per race (default: 10)
+ * @param options.checkTtl - Also check that expired keys count as absent (waits ~1s)
+ */
+export async function verifyAtomicKv(
+  store: StoreAdapter,
+  options: { concurrency?: number, checkTtl?: boolean } = {},
+): Promise<AtomicKvCheckResult> {
+  const concurrency = options.concurrency ?? 10
+  const base = `__nvent:kv-check:${Date.now()}-${Math.random().toString(36).slice(2, 8)}`
+  const keys = ['nx', 'nx-race', 'cas', 'cas-race', 'ttl'].map(name => `${base}:${name}`)
+  const [nxKey, nxRaceKey, casKey, casRaceKey, ttlKey] = keys as [string, string, string, string, string]
+  const violations: string[] = []
+  const expect = (condition: boolean, message: string) => {
+    if (!condition) violations.push(message)
+  }
+
+  try {
+    // setNX
+    expect(await store.kv.setNX(nxKey, { owner: 'a' }, 60), 'setNX must set a missing key')
+    expect(!(await store.kv.setNX(nxKey, { owner: 'b' }, 60)), 'setNX must not overwrite an existing key')
+    expect((await store.kv.get(nxKey))?.owner === 'a', 'setNX must keep the existing value')
+
+    const nxWins = await Promise.all(
+      Array.from({ length: concurrency }, (_, i) => store.kv.setNX(nxRaceKey, { owner: i }, 60)),
+    )
+    expect(nxWins.filter(Boolean).length === 1, `concurrent setNX must have exactly one winner (got ${nxWins.filter(Boolean).length})`)
+
+    // compareAndSwap
+    await store.kv.set(casKey, { version: 1 })
+    expect(!(await store.kv.compareAndSwap(casKey, { version: 0 }, { version: 2 })), 'compareAndSwap must fail on a stale expected value')
+    expect(await store.kv.compareAndSwap(casKey, { version: 1 }, { version: 2 }), 'compareAndSwap must succeed on a matching expected value')
+    expect((await store.kv.get(casKey))?.version === 2, 'compareAndSwap must store the new value')
+    expect(!(await store.kv.compareAndSwap(casKey, null, { version: 3 })), 'compareAndSwap with expected null must fail if the key exists')
+    expect(await store.kv.compareAndSwap(casKey, { version: 2 }, null), 'compareAndSwap with value null must delete a matching key')
+    expect((await store.kv.get(casKey)) === null, 'compareAndSwap with value null must remove the key')
+
+    await store.kv.set(casRaceKey, { version: 1 })
+    const casWins = await Promise.all(
+      Array.from({ length: concurrency }, (_, i) => store.kv.compareAndSwap(casRaceKey, { version: 1 }, { version: 2, owner: i })),
+    )
+    expect(casWins.filter(Boolean).length === 1, `concurrent compareAndSwap must have exactly one winner (got ${casWins.filter(Boolean).length})`)
+
+    // Expired keys count as absent
+    if (options.checkTtl) {
+      await store.kv.setNX(ttlKey, { owner: 'a' }, 1)
+      await new Promise(resolve => setTimeout(resolve, 1100))
+      expect(await store.kv.setNX(ttlKey, { owner: 'b' }, 60), 'setNX must treat an expired key as missing')
+    }
+  }
+  finally {
+    for (const key of keys) {
+      await store.kv.delete(key).catch(() => {})
+    }
+  }
+
+  return { ok: violations.length === 0, violations }
+}
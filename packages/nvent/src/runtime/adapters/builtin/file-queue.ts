@@ -28,6 +28,7 @@ import type {
   WorkerHandler,
   WorkerOptions,
 } from '../interfaces/queue'
+import { applyJobsQuery } from '../base/jobs-query'
 
 export interface FileQueueAdapterOptions {
   dataDir: string
@@ -70,6 +71,7 @@ export class FileQueueAdapter implements QueueAdapter {
   private eventListeners = new Map<string, Array<(payload: any) => void>>()
   private workers = new Map<string, QueueWorkerInfo>()
   private scheduledJobs = new Map<string, ScheduledJob>()
+  private delayTimers = new Map<string, NodeJS.Timeout>()
   private options: FileQueueAdapterOptions
   private initialized = false
 
@@ -194,12 +196,14 @@ export class FileQueueAdapter implements QueueAdapter {
     if (opts?.delay) {
       const jobId = this.generateId()
 
-      const internalJob: Job = {
+      const internalJob: JobWithOpts = {
         id: jobId,
         name: job.name,
         data: { ...job.data, __queueName: queueName },
         state: 'delayed',
         timestamp: Date.now(),
+        attemptsMade: 0,
+        opts: job.opts,
       }
 
       this.jobs.set(jobId, internalJob)
@@ -208,10 +212,10 @@ export class FileQueueAdapter implements QueueAdapter {
       // Emit delayed event
       this.emitEvent(queueName, 'delayed', { jobId, job: internalJob, delay: opts.delay })
 
-      // Schedule with setTimeout
-      setTimeout(() => {
-        this.enqueue(queueName, job)
-      }, opts.delay)
+      // Schedule with setTimeout, the delayed job itself becomes waiting
+      this.delayTimers.set(jobId, setTimeout(() => {
+        this.promoteJob(queueName, jobId)
+      }, opts.delay))
 
       return jobId
     }
@@ -251,25 +255,9 @@ export class FileQueueAdapter implements QueueAdapter {
   }
 
   async getJobs(queueName: string, query?: JobsQuery): Promise<Job[]> {
-    // Filter jobs by queue name first
-    let jobs = Array.from(this.jobs.values()).filter(j => j.data?.__queueName === queueName)
-
-    // Filter by state if specified
-    if (query?.state && query.state.length > 0) {
-      jobs = jobs.filter(j => query.state!.includes(j.state))
-    }
-
-    // Apply offset
-    if (query?.offset) {
-      jobs = jobs.slice(query.offset)
-    }
-
-    // Apply limit
-    if (query?.limit) {
-      jobs = jobs.slice(0, query.limit)
-    }
-
-    return jobs
+    // Filter jobs by queue name first, then apply filters, sort order and pagination
+    const jobs = Array.from(this.jobs.values()).filter(j => j.data?.__queueName === queueName)
+    return applyJobsQuery(jobs, query)
   }
 
   on(queueName: string, event: QueueEvent, callback: (payload: any) => void): () => void {
@@ -367,6 +355,59 @@ export class FileQueueAdapter implements QueueAdapter {
     return true
   }
 
+  async removeJob(queueName: string, jobId: string): Promise<boolean> {
+    const job = this.getQueueJob(queueName, jobId)
+    if (!job) return false
+
+    // Running handlers can't be interrupted
+    if (job.state === 'active') {
+      throw new Error(`Job ${jobId} is active and cannot be removed`)
+    }
+
+    this.clearDelayTimer(jobId)
+    this.jobs.delete(jobId)
+    await this.deleteJobFile(queueName, jobId)
+    return true
+  }
+
+  async retryJob(queueName: string, jobId: string): Promise<boolean> {
+    const job = this.getQueueJob(queueName, jobId)
+    if (!job || job.state !== 'failed') return false
+
+    // A manual retry starts over with the full number of attempts
+    await this.updateJobState(queueName, jobId, 'waiting', {
+      attemptsMade: 0,
+      failedReason: undefined,
+      processedOn: undefined,
+      finishedOn: undefined,
+    })
+    this.emitEvent(queueName, 'waiting', { jobId, job })
+    this.dispatch(queueName, job)
+    return true
+  }
+
+  async promoteJob(queueName: string, jobId: string): Promise<boolean> {
+    const job = this.getQueueJob(queueName, jobId)
+    if (!job || job.state !== 'delayed') return false
+
+    this.clearDelayTimer(jobId)
+    await this.updateJobState(queueName, jobId, 'waiting')
+    this.emitEvent(queueName, 'waiting', { jobId, job })
+    this.dispatch(queueName, job)
+    return true
+  }
+
+  async drain(queueName: string): Promise<void> {
+    for (const job of Array.from(this.jobs.values())) {
+      if (job.data?.__queueName !== queueName) continue
+      if (job.state === 'waiting' || job.state === 'delayed') {
+        this.clearDelayTimer(job.id)
+        this.jobs.delete(job.id)
+        await this.deleteJobFile(queueName, job.id)
+      }
+    }
+  }
+
   async pause(queueName: string): Promise<void> {
     const workerInfo = this.workers.get(queueName)
     if (workerInfo) {
@@ -380,6 +421,8 @@ export class FileQueueAdapter implements QueueAdapter {
     if (workerInfo) {
       workerInfo.paused = false
       workerInfo.queue.resume()
+      // Jobs enqueued, retried or promoted while paused were not handed to the worker
+      this.startProcessingQueue(queueName)
     }
   }
 
@@ -393,6 +436,9 @@ export class FileQueueAdapter implements QueueAdapter {
     }
     this.scheduledJobs.clear()
 
+    for (const timer of this.delayTimers.values()) clearTimeout(timer)
+    this.delayTimers.clear()
+
     // Drain all worker queues
     const drainPromises = Array.from(this.workers.values()).map(w => w.queue.drained())
     await Promise.all(drainPromises)
@@ -455,9 +501,10 @@ export class FileQueueAdapter implements QueueAdapter {
       }
 
       // Get the stored job to access opts and attemptsMade
+      // Skip jobs removed (or already picked up) since they were pushed
       const storedJob = this.jobs.get(task.jobId)
-      if (!storedJob) {
-        throw new Error(`Job ${task.jobId} not found`)
+      if (!storedJob || storedJob.state !== 'waiting') {
+        return
       }
 
       const currentAttempts = storedJob.attemptsMade || 0
@@ -640,6 +687,31 @@ export class FileQueueAdapter implements QueueAdapter {
     }
   }
 
+  private getQueueJob(queueName: string, jobId: string): JobWithOpts | undefined {
+    const job = this.jobs.get(jobId)
+    return job?.data?.__queueName === queueName ? job : undefined
+  }
+
+  /**
+   * Hand a waiting job to the queue's worker (no-op without worker or while paused)
+   */
+  private dispatch(queueName: string, job: Job): void {
+    const workerInfo = this.workers.get(queueName)
+    if (!workerInfo || workerInfo.paused) return
+
+    workerInfo.queue.push({ jobId: job.id, jobName: job.name, data: job.data }).catch(() => {
+      // Errors are handled by dispatcher's retry logic
+    })
+  }
+
+  private clearDelayTimer(jobId: string): void {
+    const timer = this.delayTimers.get(jobId)
+    if (timer) {
+      clearTimeout(timer)
+      this.delayTimers.delete(jobId)
+    }
+  }
+
   private emitEvent(queueName: string, event: QueueEvent, payload: any) {
     const key = `${queueName}:${event}`
     const listeners = this.eventListeners.get(key) || []
@@ -11,6 +11,8 @@
  * - {dataDir}/streams/{subject}.ndjson - Event streams (append-only NDJSON)
  * - {dataDir}/indices/{key}.json - Sorted indices (JSON arrays)
  * - {dataDir}/kv/{key}.json - KV store (individual JSON files)
+ * - {dataDir}/kv/{key}.expires - Expiry timestamp of KV entries set with a TTL
+ * - {dataDir}/kv/{key}.lock - Lockfile held during setNX/compareAndSwap
  */
 
 import { promises as fs } from 'node:fs'
@@ -32,6 +34,10 @@ async function ensureDir(path: string) {
   catch { /* ignore */ }
 }
 
+// Lockfiles older than this are left over from a crashed process
+const KV_LOCK_STALE_MS = 10000
+const KV_LOCK_TIMEOUT_MS = 5000
+
 /**
  * File-backed store adapter
  * Extends memory store and persists on every write using same format as existing file adapter
@@ -56,22 +62,14 @@ export class FileStoreAdapter extends MemoryStoreAdapter {
         await parentKv.set(key, value, ttl)
 
         // Persist to individual JSON file
-        const path = this.kvPath(key)
-        await ensureDir(dirname(path))
-        await fs.writeFile(path, JSON.stringify(value), 'utf-8')
+        await this.persistKv(key)
       },
 
       delete: async (key: string) => {
         await parentKv.delete(key)
 
         // Delete KV file
-        const path = this.kvPath(key)
-        try {
-          await fs.unlink(path)
-        }
-        catch {
-          // File might not exist
-        }
+        await this.persistKv(key)
       },
 
       clear: async (pattern: string) => {
@@ -88,6 +86,7 @@ export class FileStoreAdapter extends MemoryStoreAdapter {
             const key = file.replace('.json', '').replace(/_/g, ':')
             if (regex.test(key)) {
               await fs.unlink(join(kvDir, file))
+              await fs.unlink(join(kvDir, file.replace('.json', '.expires'))).catch(() => {})
             }
           }
         }
@@ -102,12 +101,30 @@ export class FileStoreAdapter extends MemoryStoreAdapter {
         const result = await parentKv.increment!(key, by)
 
         // Persist updated value
-        const path = this.kvPath(key)
-        await ensureDir(dirname(path))
-        await fs.writeFile(path, JSON.stringify(result), 'utf-8')
+        await this.persistKv(key)
 
         return result
       },
+
+      // Other processes may share the data dir: under the lockfile, reload the
+      // entry from disk, let the memory store decide, then persist the outcome
+      setNX: async <T = any>(key: string, value: T, ttl?: number) => {
+        return this.withKvLock(key, async () => {
+          await this.reloadKv(key)
+          const set = await parentKv.setNX(key, value, ttl)
+          if (set) await this.persistKv(key)
+          return set
+        })
+      },
+
+      compareAndSwap: async <T = any>(key: string, expected: T | null, value: T | null, ttl?: number) => {
+        return this.withKvLock(key, async () => {
+          await this.reloadKv(key)
+          const swapped = await parentKv.compareAndSwap(key, expected, value, ttl)
+          if (swapped) await this.persistKv(key)
+          return swapped
+        })
+      },
     }
 
     // Override stream methods with persistence
@@ -238,8 +255,97 @@ export class FileStoreAdapter extends MemoryStoreAdapter {
     return join(this.options.dataDir, 'indices', sanitize(key) + '.json')
   }
 
-  private kvPath(key: string) {
-    return join(this.options.dataDir, 'kv', `${sanitize(key)}.json`)
+  private kvPath(key: string, ext = 'json') {
+    return join(this.options.dataDir, 'kv', `${sanitize(key)}.${ext}`)
+  }
+
+  /**
+   * Write the in-memory state of a KV entry (value and expiry) to disk,
+   * removing the files if the entry no longer exists
+   */
+  private async persistKv(key: string): Promise<void> {
+    const value = this.readKv(key)
+    const expiresAt = this.kvExpiry.get(key)
+
+    if (value === undefined) {
+      await fs.unlink(this.kvPath(key)).catch(() => {})
+      await fs.unlink(this.kvPath(key, 'expires')).catch(() => {})
+      return
+    }
+
+    await ensureDir(dirname(this.kvPath(key)))
+    await fs.writeFile(this.kvPath(key), JSON.stringify(value), 'utf-8')
+    if (expiresAt !== undefined) {
+      await fs.writeFile(this.kvPath(key, 'expires'), String(expiresAt), 'utf-8')
+    }
+    else {
+      await fs.unlink(this.kvPath(key, 'expires')).catch(() => {})
+    }
+  }
+
+  /**
+   * Replace the in-memory KV entry with what is currently on disk
+   */
+  private async reloadKv(key: string): Promise<void> {
+    try {
+      const value = JSON.parse(await fs.readFile(this.kvPath(key), 'utf-8'))
+      const expiresAt = await this.readKvExpiry(key)
+      this.writeKv(key, value)
+      if (expiresAt !== undefined) this.kvExpiry.set(key, expiresAt)
+    }
+    catch {
+      this.removeKv(key)
+    }
+  }
+
+  private async readKvExpiry(key: string): Promise<number | undefined> {
+    try {
+      const expiresAt = Number(await fs.readFile(this.kvPath(key, 'expires'), 'utf-8'))
+      return Number.isFinite(expiresAt) ? expiresAt : undefined
+    }
+    catch {
+      return undefined
+    }
+  }
+
+  /**
+   * Run fn while holding the lockfile of a KV key
+   * The lockfile is created exclusively ('wx'), so only one process holds it at a time
+   */
+  private async withKvLock<T>(key: string, fn: () => Promise<T>): Promise<T> {
+    const lockPath = this.kvPath(key, 'lock')
+    await ensureDir(dirname(lockPath))
+    const deadline = Date.now() + KV_LOCK_TIMEOUT_MS
+
+    while (true) {
+      try {
+        const handle = await fs.open(lockPath, 'wx')
+        await handle.close()
+        break
+      }
+      catch (err: any) {
+        if (err?.code !== 'EEXIST') throw err
+
+        // Break lockfiles left behind by a crashed process
+        const stat = await fs.stat(lockPath).catch(() => null)
+        if (stat && Date.now() - stat.mtimeMs > KV_LOCK_STALE_MS) {
+          await fs.unlink(lockPath).catch(() => {})
+          continue
+        }
+
+        if (Date.now() > deadline) {
+          throw new Error(`[FileStoreAdapter] Timed out waiting for KV lock on "${key}"`)
+        }
+        await new Promise(resolve => setTimeout(resolve, 5 + Math.random() * 10))
+      }
+    }
+
+    try {
+      return await fn()
+    }
+    finally {
+      await fs.unlink(lockPath).catch(() => {})
+    }
   }
 
   async init(): Promise<void> {
@@ -310,6 +416,9 @@ export class FileStoreAdapter extends MemoryStoreAdapter {
 
         if (!self.kvStore) self.kvStore = new Map()
         self.kvStore.set(key, value)
+
+        const expiresAt = await this.readKvExpiry(key)
+        if (expiresAt !== undefined) this.kvExpiry.set(key, expiresAt)
       }
     }
     catch {
@@ -19,6 +19,7 @@ import type {
   QueueAdapter,
   JobInput,
   Job,
+  JobOptions,
   JobsQuery,
   ScheduleOptions,
   JobCounts,
@@ -26,11 +27,19 @@ import type {
   WorkerHandler,
   WorkerOptions,
 } from '../interfaces/queue'
+import { applyJobsQuery } from '../base/jobs-query'
 
 export interface MemoryQueueAdapterOptions {
   maxQueueSize?: number
 }
 
+/**
+ * Job as kept in memory, with the options it was enqueued with
+ */
+interface MemoryJob extends Job {
+  opts?: JobOptions
+}
+
 interface QueueWorkerInfo {
   queue: queueAsPromised
   handlers: Map<string, WorkerHandler>
@@ -39,9 +48,10 @@ interface QueueWorkerInfo {
 }
 
 export class MemoryQueueAdapter implements QueueAdapter {
-  private jobs = new Map<string, Job>()
+  private jobs = new Map<string, MemoryJob>()
   private eventListeners = new Map<string, Array<(payload: any) => void>>()
   private workers = new Map<string, QueueWorkerInfo>()
+  private delayTimers = new Map<string, NodeJS.Timeout>()
   private options: MemoryQueueAdapterOptions
 
   constructor(options: MemoryQueueAdapterOptions = {}) {
@@ -70,12 +80,13 @@ export class MemoryQueueAdapter implements QueueAdapter {
     }
 
     // Create job with queueName stored in data for filtering
-    const internalJob: Job = {
+    const internalJob: MemoryJob = {
       id: jobId,
       name: job.name,
       data: { ...job.data, __queueName: queueName },
       state: 'waiting',
       timestamp: Date.now(),
+      opts: job.opts,
     }
 
     this.jobs.set(jobId, internalJob)
@@ -99,12 +110,13 @@ export class MemoryQueueAdapter implements QueueAdapter {
     if (opts?.delay) {
       const jobId = this.generateId()
 
-      const internalJob: Job = {
+      const internalJob: MemoryJob = {
         id: jobId,
         name: job.name,
         data: { ...job.data, __queueName: queueName },
         state: 'delayed',
         timestamp: Date.now(),
+        opts: job.opts,
       }
 
       this.jobs.set(jobId, internalJob)
@@ -112,10 +124,10 @@ export class MemoryQueueAdapter implements QueueAdapter {
       // Emit delayed event
       this.emitEvent(queueName, 'delayed', { jobId, job: internalJob, delay: opts.delay })
 
-      // Schedule with setTimeout
-      setTimeout(() => {
-        this.enqueue(queueName, job)
-      }, opts.delay)
+      // Schedule with setTimeout, the delayed job itself becomes waiting
+      this.delayTimers.set(jobId, setTimeout(() => {
+        this.promoteJob(queueName, jobId)
+      }, opts.delay))
 
       return jobId
     }
@@ -133,25 +145,9 @@ export class MemoryQueueAdapter implements QueueAdapter {
   }
 
   async getJobs(queueName: string, query?: JobsQuery): Promise<Job[]> {
-    // Filter jobs by queue name first
-    let jobs = Array.from(this.jobs.values()).filter(j => j.data?.__queueName === queueName)
-
-    // Filter by state if specified
-    if (query?.state && query.state.length > 0) {
-      jobs = jobs.filter(j => query.state!.includes(j.state))
-    }
-
-    // Apply offset
-    if (query?.offset) {
-      jobs = jobs.slice(query.offset)
-    }
-
-    // Apply limit
-    if (query?.limit) {
-      jobs = jobs.slice(0, query.limit)
-    }
-
-    return jobs
+    // Filter jobs by queue name first, then apply filters, sort order and pagination
+    const jobs = Array.from(this.jobs.values()).filter(j => j.data?.__queueName === queueName)
+    return applyJobsQuery(jobs, query)
   }
 
   on(queueName: string, event: QueueEvent, callback: (payload: any) => void): () => void {
@@ -194,6 +190,57 @@ export class MemoryQueueAdapter implements QueueAdapter {
     }
   }
 
+  async removeJob(queueName: string, jobId: string): Promise<boolean> {
+    const job = this.getQueueJob(queueName, jobId)
+    if (!job) return false
+
+    // Running handlers can't be interrupted
+    if (job.state === 'active') {
+      throw new Error(`Job ${jobId} is active and cannot be removed`)
+    }
+
+    this.clearDelayTimer(jobId)
+    this.jobs.delete(jobId)
+    return true
+  }
+
+  async retryJob(queueName: string, jobId: string): Promise<boolean> {
+    const job = this.getQueueJob(queueName, jobId)
+    if (!job || job.state !== 'failed') return false
+
+    // A manual retry starts over with the full number of attempts
+    this.updateJobState(jobId, 'waiting', {
+      attemptsMade: 0,
+      failedReason: undefined,
+      processedOn: undefined,
+      finishedOn: undefined,
+    })
+    this.emitEvent(queueName, 'waiting', { jobId, job })
+    this.dispatch(queueName, job)
+    return true
+  }
+
+  async promoteJob(queueName: string, jobId: string): Promise<boolean> {
+    const job = this.getQueueJob(queueName, jobId)
+    if (!job || job.state !== 'delayed') return false
+
+    this.clearDelayTimer(jobId)
+    this.updateJobState(jobId, 'waiting')
+    this.emitEvent(queueName, 'waiting', { jobId, job })
+    this.dispatch(queueName, job)
+    return true
+  }
+
+  async drain(queueName: string): Promise<void> {
+    for (const job of Array.from(this.jobs.values())) {
+      if (job.data?.__queueName !== queueName) continue
+      if (job.state === 'waiting' || job.state === 'delayed') {
+        this.clearDelayTimer(job.id)
+        this.jobs.delete(job.id)
+      }
+    }
+  }
+
   async pause(queueName: string): Promise<void> {
     const workerInfo = this.workers.get(queueName)
     if (workerInfo) {
@@ -207,10 +254,15 @@ export class MemoryQueueAdapter implements QueueAdapter {
     if (workerInfo) {
       workerInfo.paused = false
       workerInfo.queue.resume()
+      // Jobs enqueued, retried or promoted while paused were not handed to the worker
+      this.startProcessingQueue(queueName)
     }
   }
 
   async close(): Promise<void> {
+    for (const timer of this.delayTimers.values()) clearTimeout(timer)
+    this.delayTimers.clear()
+
     // Drain all worker queues
     const drainPromises = Array.from(this.workers.values()).map(w => w.queue.drained())
     await Promise.all(drainPromises)
@@ -251,6 +303,10 @@ export class MemoryQueueAdapter implements QueueAdapter {
 
     // Dispatcher routes to correct handler (same pattern as BullMQ adapter)
     const dispatcher = async (task: { jobId: string, jobName: string, data: any }) => {
+      // Skip jobs removed (or already picked up) since they were pushed
+      const storedJob = this.jobs.get(task.jobId)
+      if (storedJob?.state !== 'waiting') return
+
       const handler = handlers.get(task.jobName)
       if (!handler) {
         const error = `No handler for job "${task.jobName}" on queue "${queueName}". `
@@ -270,7 +326,9 @@ export class MemoryQueueAdapter implements QueueAdapter {
         const result = await handler(task.data, {
           jobId: task.jobId,
           queueName,
-          // Add more context as needed
+          // Lets createJobProcessor rebuild the job around the payload
+          jobName: task.jobName,
+          jobOpts: storedJob.opts,
         })
 
         // Check if job is awaiting (awaitBefore pattern)
@@ -368,6 +426,31 @@ export class MemoryQueueAdapter implements QueueAdapter {
     }
   }
 
+  private getQueueJob(queueName: string, jobId: string): Job | undefined {
+    const job = this.jobs.get(jobId)
+    return job?.data?.__queueName === queueName ? job : undefined
+  }
+
+  /**
+   * Hand a waiting job to the queue's worker (no-op without worker or while paused)
+   */
+  private dispatch(queueName: string, job: Job): void {
+    const workerInfo = this.workers.get(queueName)
+    if (!workerInfo || workerInfo.paused) return
+
+    workerInfo.queue.push({ jobId: job.id, jobName: job.name, data: job.data }).catch((error) => {
+      console.error(`[MemoryQueueAdapter] Error processing job ${job.id}:`, error)
+    })
+  }
+
+  private clearDelayTimer(jobId: string): void {
+    const timer = this.delayTimers.get(jobId)
+    if (timer) {
+      clearTimeout(timer)
+      this.delayTimers.delete(jobId)
+    }
+  }
+
   private emitEvent(queueName: string, event: QueueEvent, payload: any) {
     const key = `${queueName}:${event}`
     const listeners = this.eventListeners.get(key) || []
@@ -28,6 +28,9 @@ export class MemoryStoreAdapter implements StoreAdapter {
   // Key-Value Store storage: key -> value
   private kvStore = new Map<string, any>()
 
+  // Key-Value expiry: key -> expiresAt (ms), evicted lazily on read
+  protected kvExpiry = new Map<string, number>()
+
   // Sorted index storage: key -> sorted array of {id, score, metadata}
   private sortedIndices = new Map<string, Array<{ id: string, score: number, metadata?: any }>>()
 
@@ -41,6 +44,7 @@ export class MemoryStoreAdapter implements StoreAdapter {
     this.eventStreams.clear()
     this.eventSubscriptions.clear()
     this.kvStore.clear()
+    this.kvExpiry.clear()
     this.sortedIndices.clear()
   }
 
@@ -175,16 +179,15 @@ export class MemoryStoreAdapter implements StoreAdapter {
 
   kv = {
     get: async <T = any>(key: string): Promise<T | null> => {
-      return this.kvStore.get(key) || null
+      return this.readKv(key) || null
     },
 
-    set: async <T = any>(key: string, value: T, _ttl?: number): Promise<void> => {
-      // TTL not supported in memory adapter (would need setTimeout)
-      this.kvStore.set(key, value)
+    set: async <T = any>(key: string, value: T, ttl?: number): Promise<void> => {
+      this.writeKv(key, value, ttl)
     },
 
     delete: async (key: string): Promise<void> => {
-      this.kvStore.delete(key)
+      this.removeKv(key)
     },
 
     clear: async (pattern: string): Promise<number> => {
@@ -195,7 +198,7 @@ export class MemoryStoreAdapter implements StoreAdapter {
       let count = 0
       for (const key of keys) {
         if (regex.test(key)) {
-          this.kvStore.delete(key)
+          this.removeKv(key)
           count++
         }
       }
@@ -204,11 +207,62 @@ export class MemoryStoreAdapter implements StoreAdapter {
     },
 
     increment: async (key: string, by: number = 1): Promise<number> => {
-      const current = this.kvStore.get(key) || 0
+      const current = this.readKv(key) || 0
       const newValue = (typeof current === 'number' ? current : 0) + by
       this.kvStore.set(key, newValue)
       return newValue
     },
+
+    // Check and write happen synchronously, so no other call can interleave
+    setNX: async <T = any>(key: string, value: T, ttl?: number): Promise<boolean> => {
+      if (this.readKv(key) !== undefined) return false
+      this.writeKv(key, value, ttl)
+      return true
+    },
+
+    compareAndSwap: async <T = any>(key: string, expected: T | null, value: T | null, ttl?: number): Promise<boolean> => {
+      const current = this.readKv(key)
+      const matches = expected === null
+        ? current === undefined
+        : current !== undefined && JSON.stringify(current) === JSON.stringify(expected)
+      if (!matches) return false
+
+      if (value === null) {
+        this.removeKv(key)
+      }
+      else {
+        this.writeKv(key, value, ttl)
+      }
+      return true
+    },
+  }
+
+  /**
+   * Read a KV entry, evicting it if its TTL has passed
+   * Returns undefined for missing keys (null is a valid stored value)
+   */
+  protected readKv(key: string): any {
+    const expiresAt = this.kvExpiry.get(key)
+    if (expiresAt !== undefined && expiresAt <= Date.now()) {
+      this.removeKv(key)
+      return undefined
+    }
+    return this.kvStore.get(key)
+  }
+
+  protected writeKv(key: string, value: any, ttl?: number): void {
+    this.kvStore.set(key, value)
+    if (ttl) {
+      this.kvExpiry.set(key, Date.now() + ttl * 1000)
+    }
+    else {
+      this.kvExpiry.delete(key)
+    }
+  }
+
+  protected removeKv(key: string): void {
+    this.kvStore.delete(key)
+    this.kvExpiry.delete(key)
   }
 
   // ============================================================
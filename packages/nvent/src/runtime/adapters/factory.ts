@@ -14,6 +14,7 @@ import type { StoreAdapter } from './interfaces/store'
 import type { QueueConfig, StreamConfig, StoreConfig } from '../config/types'
 import { useAdapterRegistry } from './registry'
 import { useStreamTopics, $useAnalyzedFlows } from '#imports'
+import { saveFlowVersions } from '../events/utils/flowVersions'
 
 import {
   MemoryQueueAdapter,
@@ -153,9 +154,16 @@ async function createStoreAdapter(
               awaiting: 0,
             },
             version: 1,
+            flowVersion: flow.version,
           })
         }
+        else {
+          await adapter.index.updateWithRetry(flowIndexKey, flow.id, { flowVersion: flow.version })
+        }
       }
+
+      // Keep every deployed definition loadable for runs that started on it
+      await saveFlowVersions(adapter, analyzedFlows)
     }
   }
   catch (err) {
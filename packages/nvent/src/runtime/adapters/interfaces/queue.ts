@@ -66,6 +66,23 @@ export interface QueueAdapter {
    */
   removeJob?(queueName: string, jobId: string): Promise<boolean>
 
+  /**
+   * Move a failed job back to waiting so it is processed again
+   * @returns true if retried, false if not found or not failed
+   */
+  retryJob?(queueName: string, jobId: string): Promise<boolean>
+
+  /**
+   * Move a delayed job to waiting so it is processed right away
+   * @returns true if promoted, false if not found or not delayed
+   */
+  promoteJob?(queueName: string, jobId: string): Promise<boolean>
+
+  /**
+   * Remove all waiting and delayed jobs (active and finished jobs are kept)
+   */
+  drain?(queueName: string): Promise<void>
+
   /**
    * Pause the queue
    */
@@ -138,7 +155,21 @@ export interface Job {
 export interface JobsQuery {
   state?: JobState[]
   limit?: number
+  /** Skip this many jobs (ignored when `cursor` is set) */
   offset?: number
+  /**
+   * Continue after the job the cursor was created from (see `encodeJobsCursor`)
+   * Stable while jobs are added, unlike `offset`
+   */
+  cursor?: string
+  /** Order by creation time (default: 'desc', newest first) */
+  sort?: 'asc' | 'desc'
+  /** Only jobs created at or after this time (ms) */
+  from?: number
+  /** Only jobs created at or before this time (ms) */
+  to?: number
+  /** Only jobs with this job name */
+  name?: string
 }
 
 export type JobState = 'waiting' | 'active' | 'completed' | 'failed' | 'delayed' | 'paused'
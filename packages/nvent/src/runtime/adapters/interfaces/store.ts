@@ -66,6 +66,11 @@
  * - Updates must NOT overwrite each other
  * - Use optimistic locking (version field) + retries
  *
+ * Cross-instance coordination (scheduler locks, trigger updates) relies on
+ * kv.setNX() and kv.compareAndSwap(). These MUST be atomic in the backend
+ * (e.g. SET NX / Lua in Redis, INSERT ... ON CONFLICT in PostgreSQL), never
+ * a get() followed by a set(). Use `verifyAtomicKv()` to check an adapter.
+ *
  * ### 4. Testing Deep Merge
  *
  * Test that your adapter correctly handles:
@@ -161,6 +166,27 @@ export interface StoreAdapter {
      * @returns New value after increment
      */
     increment?(key: string, by?: number): Promise<number>
+
+    /**
+     * Atomically set a value only if the key does not exist (or has expired)
+     * Building block for distributed locks: exactly one concurrent caller wins
+     * @param key - Key
+     * @param value - Value to store
+     * @param ttl - Time to live in seconds (optional)
+     * @returns True if the value was set, false if the key already exists
+     */
+    setNX<T = any>(key: string, value: T, ttl?: number): Promise<boolean>
+
+    /**
+     * Atomically replace a value only if it still equals `expected`
+     * Values are compared by their JSON representation.
+     * @param key - Key
+     * @param expected - Value the key must currently hold, or null if it must not exist
+     * @param value - New value, or null to delete the key
+     * @param ttl - Time to live in seconds for the new value (optional)
+     * @returns True if the value was swapped, false if the current value differs
+     */
+    compareAndSwap<T = any>(key: string, expected: T | null, value: T | null, ttl?: number): Promise<boolean>
   }
 
   // ============================================================
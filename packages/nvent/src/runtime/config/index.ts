@@ -23,10 +23,17 @@ export function normalizeModuleOptions(options: ModuleOptions): Required<ModuleO
         autorun: true,
         pollingIntervalMs: 1000,
       },
+      deadLetter: {
+        enabled: true,
+        maxEntries: 1000,
+      },
     },
     stream: {
       adapter: 'memory',
       prefix: 'nvent',
+      bus: {
+        mode: 'local',
+      },
     },
     store: {
       adapter: 'file',
@@ -52,17 +59,33 @@ export function normalizeModuleOptions(options: ModuleOptions): Required<ModuleO
       awaitDefaults: {
         webhookTimeout: 24 * 60 * 60 * 1000, // 24 hours
         eventTimeout: 24 * 60 * 60 * 1000, // 24 hours
+        formTimeout: 7 * 24 * 60 * 60 * 1000, // 7 days
+        flowTimeout: 24 * 60 * 60 * 1000, // 24 hours
         timeTimeout: undefined, // No default timeout for time awaits
         scheduleTimeout: undefined, // No default timeout for schedule awaits
         timeoutAction: 'fail',
       },
       stepTimeout: 5 * 60 * 1000, // 5 minutes default step execution timeout
+      idempotencyWindow: 24 * 60 * 60 * 1000, // 24 hours
     },
     webhooks: {
       // baseUrl will be determined at runtime from Nitro context
       // Users can override via NUXT_PUBLIC_SITE_URL or explicit config
       baseUrl: process.env.NUXT_PUBLIC_SITE_URL || undefined,
     },
+    sinks: [],
+    runner: {
+      ts: {
+        isolate: 'inprocess',
+        maxMemoryMb: 512,
+      },
+      py: {
+        enabled: true,
+        cmd: 'python3',
+        importMode: 'file',
+        poolSize: 2,
+      },
+    },
   }
 
   // Merge user options with defaults
@@ -219,6 +242,8 @@ export function toRuntimeConfig(normalizedOptions: Required<ModuleOptions>): Mod
     connections: normalizedOptions.connections as Required<typeof normalizedOptions.connections>,
     flow: normalizedOptions.flow as Required<typeof normalizedOptions.flow>,
     webhooks: normalizedOptions.webhooks as Required<typeof normalizedOptions.webhooks>,
+    runner: normalizedOptions.runner as Required<typeof normalizedOptions.runner>,
+    sinks: normalizedOptions.sinks,
   }
 }
 
@@ -181,6 +181,22 @@ export interface QueueConfig {
    * Worker configuration
    */
   worker?: WorkerConfig
+
+  /**
+   * Dead-letter queue: jobs that fail their final attempt are kept with their input,
+   * error and attempt history for inspection and requeueing (store-backed, all adapters)
+   */
+  deadLetter?: {
+    /**
+     * @default true
+     */
+    enabled?: boolean
+    /**
+     * Entries kept, the oldest are removed first
+     * @default 1000
+     */
+    maxEntries?: number
+  }
 }
 
 /**
@@ -220,6 +236,90 @@ export interface StreamConfig {
   prefix?: string
   retryAttempts?: number
   retryDelay?: number
+
+  /**
+   * Internal event bus across instances
+   */
+  bus?: {
+    /**
+     * - 'local': events reach the subscribers of the publishing instance only
+     * - 'cluster': events are published through this stream adapter and reach every instance;
+     *   orchestration (flow/trigger wiring) runs on one instance per event.
+     *   Use with a shared stream and store adapter (e.g. Redis or Postgres) when running several instances
+     * @default 'local'
+     */
+    mode?: 'local' | 'cluster'
+  }
+}
+
+/**
+ * Outbound event sink (`nvent.sinks`)
+ * Delivers flow and trigger lifecycle events to external systems
+ */
+export interface SinkConfig {
+  /**
+   * Unique sink name (delivery history is kept per sink)
+   */
+  name: string
+
+  /**
+   * 'webhook' POSTs the event as JSON; other types refer to sinks registered with registerEventSink()
+   * (e.g. to format the body for Slack or Teams)
+   * @default 'webhook'
+   */
+  type?: string
+
+  /**
+   * Target URL
+   */
+  url?: string
+
+  /**
+   * Reference to the HMAC-SHA256 signing secret, resolved from `webhooks.secrets` or environment variables
+   * Requests are signed like the 'standard' webhook auth scheme: `X-Webhook-Signature: sha256=<hex>`
+   * over `${timestamp}.${body}`, with the timestamp (seconds) in `X-Webhook-Timestamp`
+   */
+  secret?: string
+
+  /**
+   * Additional request headers
+   */
+  headers?: Record<string, string>
+
+  /**
+   * Event types to deliver, `*` matches any suffix (e.g. 'step.*')
+   * @default ['flow.completed', 'flow.failed', 'step.failed', 'await.timeout']
+   */
+  events?: string[]
+
+  /**
+   * Only deliver events of these flows (or triggers)
+   * @default all
+   */
+  flows?: string[]
+
+  /**
+   * Attempts before a delivery is dead-lettered
+   * @default 5
+   */
+  maxAttempts?: number
+
+  /**
+   * Delay before the first retry in ms, doubled after every failed attempt
+   * @default 10000
+   */
+  backoffMs?: number
+
+  /**
+   * Request timeout in ms
+   * @default 10000
+   */
+  timeoutMs?: number
+
+  /**
+   * @default true
+   */
+  enabled?: boolean
 }
 
 /**
@@ -233,6 +333,19 @@ export interface WebhooksConfig {
    * @default Auto-detected from NUXT_PUBLIC_SITE_URL, NITRO_URL, or dev server (http://localhost:3000 fallback)
    */
   baseUrl?: string
+
+  /**
+   * Secrets referenced by webhook trigger auth configs (`auth.secret`, `auth.token`, `auth.password`)
+   * References not found here fall back to environment variables of the same name
+   * @example { STRIPE_WEBHOOK_SECRET: process.env.STRIPE_WEBHOOK_SECRET }
+   */
+  secrets?: Record<string, string>
+
+  /**
+   * Secret signing await webhook URLs (`?token=`), shared by all instances
+   * When not set, a random secret is generated once and kept in the store
+   */
+  awaitSecret?: string
 }
 
 /**
@@ -288,6 +401,18 @@ export interface FlowConfig {
      */
     eventTimeout?: number
 
+    /**
+     * Default timeout for form await patterns (human tasks) in milliseconds
+     * @default 604800000 (7 days)
+     */
+    formTimeout?: number
+
+    /**
+     * Default timeout for flow await patterns (sub-flows) in milliseconds
+     * @default 86400000 (24 hours)
+     */
+    flowTimeout?: number
+
     /**
      * Default timeout for time await patterns in milliseconds
      * Time awaits typically don't need a timeout since they resolve based on delay
@@ -317,6 +442,14 @@ export interface FlowConfig {
    * @since v0.5.0
    */
   stepTimeout?: number
+
+  /**
+   * How long idempotency keys of flow starts are remembered, in milliseconds
+   * A start with a key already used within this window returns the earlier run instead of
+   * starting a new one (`startFlow` option `idempotencyKey`, `Idempotency-Key` header)
+   * @default 86400000 (24 hours)
+   */
+  idempotencyWindow?: number
 }
 
 /**
@@ -426,6 +559,81 @@ export interface StoreConfig {
   compression?: boolean
 }
 
+/**
+ * Python runner configuration
+ */
+export interface PythonRunnerConfig {
+  /**
+   * Execute `.py` functions through the Python process pool
+   * @default true
+   */
+  enabled?: boolean
+
+  /**
+   * Python executable
+   * @default 'python3'
+   */
+  cmd?: string
+
+  /**
+   * How Python modules are loaded
+   * @default 'file'
+   */
+  importMode?: 'file'
+
+  /**
+   * Maximum number of Python child processes
+   * @default 2
+   */
+  poolSize?: number
+
+  /**
+   * Extra environment variables for Python child processes
+   */
+  env?: Record<string, string>
+
+  /**
+   * Absolute path of the runner script (set by the module)
+   * @internal
+   */
+  script?: string
+}
+
+/**
+ * Function runner configuration
+ */
+export interface RunnerConfig {
+  /**
+   * TypeScript function runner
+   */
+  ts?: {
+    /**
+     * Default isolation for TS functions
+     * - 'inprocess': run in the Nitro event loop
+     * - 'task': run each execution in a worker thread (hard killed on stepTimeout)
+     * @default 'inprocess'
+     */
+    isolate?: 'inprocess' | 'task'
+
+    /**
+     * Heap limit in MB for 'task' worker threads
+     * @default 512
+     */
+    maxMemoryMb?: number
+
+    /**
+     * Absolute path of the worker thread entry (set by the module)
+     * @internal
+     */
+    taskEntry?: string
+  }
+
+  /**
+   * Python function runner
+   */
+  py?: PythonRunnerConfig
+}
+
 /**
  * Module options for nvent (v0.4.1+)
  */
@@ -477,6 +685,16 @@ export interface ModuleOptions {
    */
   webhooks?: WebhooksConfig
 
+  /**
+   * Function runner configuration (TS isolation, Python process pool)
+   */
+  runner?: RunnerConfig
+
+  /**
+   * Outbound event sinks (webhooks and registered sink types)
+   */
+  sinks?: SinkConfig[]
+
   /**
    * Shared connection configurations
    * Used as fallback if adapters don't specify their own connections
@@ -495,6 +713,8 @@ export interface ModuleConfig {
   store: Required<StoreConfig>
   flow: Required<FlowConfig>
   webhooks: Required<WebhooksConfig>
+  runner: Required<RunnerConfig>
+  sinks: SinkConfig[]
   connections: Required<ConnectionsConfig>
   rootDir?: string
 }
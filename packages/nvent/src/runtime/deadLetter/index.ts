@@ -0,0 +1,328 @@
+/**
+ * Dead-Letter Queue
+ *
+ * Jobs that fail their final attempt are copied by createJobProcessor into a store-backed index,
+ * together with their input, options, error, stack and the errors of earlier attempts. Capturing
+ * happens in the processor and requeueing goes through `enqueue`, so it works the same with every
+ * queue adapter. Entries are grouped by an error fingerprint for triage.
+ */
+
+import { createHash } from 'node:crypto'
+import { useNventLogger, useQueueAdapter, useRuntimeConfig, useStoreAdapter, useStreamTopics } from '#imports'
+import type { DeadLetter, DeadLetterAttempt, DeadLetterFilter, DeadLetterGroup, DeadLetterRequeueResult } from './types'
+
+export type { DeadLetter, DeadLetterAttempt, DeadLetterFilter, DeadLetterGroup, DeadLetterRequeueResult } from './types'
+
+const DEFAULT_MAX_ENTRIES = 1000
+// Failed attempts of a job still being retried are kept this long (seconds)
+const ATTEMPTS_TTL = 7 * 24 * 60 * 60
+// Job options carried over when requeueing
+const REQUEUE_OPTIONS = ['attempts', 'backoff', 'timeout', 'priority', 'removeOnComplete', 'removeOnFail']
+
+/**
+ * Dead-letter errors mapped to HTTP responses by the API
+ */
+export class DeadLetterError extends Error {
+  constructor(
+    public readonly statusCode: 400,
+    message: string,
+  ) {
+    super(message)
+    this.name = 'DeadLetterError'
+  }
+}
+
+/**
+ * Job as seen by the processor
+ */
+interface FailedJob {
+  id: string
+  name: string
+  data: any
+  opts?: Record<string, any>
+}
+
+function getDeadLetterConfig(): { enabled: boolean, maxEntries: number } {
+  const config = (useRuntimeConfig() as any).nvent?.queue?.deadLetter || {}
+  return {
+    enabled: config.enabled !== false,
+    maxEntries: config.maxEntries || DEFAULT_MAX_ENTRIES,
+  }
+}
+
+/**
+ * Remember a failed attempt of a job that will be retried
+ */
+export async function recordFailedAttempt(queueName: string, job: FailedJob, attempt: number, err: unknown) {
+  if (!getDeadLetterConfig().enabled) return
+
+  const store = useStoreAdapter()
+  const { StoreSubjects } = useStreamTopics()
+  const key = StoreSubjects.deadLetterAttempts(queueName, job.id)
+
+  const history = (await store.kv.get<DeadLetterAttempt[]>(key)) || []
+  history.push({ attempt, error: errorMessage(err), failedAt: Date.now() })
+  await store.kv.set(key, history, ATTEMPTS_TTL)
+}
+
+/**
+ * Forget the failed attempts of a job that succeeded on a retry
+ */
+export async function clearFailedAttempts(queueName: string, jobId: string) {
+  const store = useStoreAdapter()
+  const { StoreSubjects } = useStreamTopics()
+  await store.kv.delete(StoreSubjects.deadLetterAttempts(queueName, jobId))
+}
+
+/**
+ * Copy a job that failed its final attempt into the dead-letter index
+ */
+export async function captureDeadLetter(queueName: string, job: FailedJob, attempt: number, err: unknown): Promise<DeadLetter | null> {
+  const config = getDeadLetterConfig()
+  if (!config.enabled) return null
+
+  const logger = useNventLogger('dead-letter')
+  const store = useStoreAdapter()
+  const { StoreSubjects } = useStreamTopics()
+  const key = StoreSubjects.deadLetters()
+  const attemptsKey = StoreSubjects.deadLetterAttempts(queueName, job.id)
+
+  const now = Date.now()
+  const error = errorMessage(err)
+  const history = (await store.kv.get<DeadLetterAttempt[]>(attemptsKey)) || []
+  history.push({ attempt, error, failedAt: now })
+
+  const errorPattern = maskError(error)
+  const entry: DeadLetter = {
+    id: `${queueName}:${job.id}`,
+    queue: queueName,
+    jobId: String(job.id),
+    jobName: job.name,
+    flowName: job.data?.flowName,
+    runId: job.data?.flowId,
+    data: job.data,
+    opts: pickRequeueOptions(job.opts),
+    error,
+    stack: (err as any)?.stack,
+    attempts: attempt,
+    history,
+    fingerprint: createHash('sha1').update(`${queueName}|${job.name}|${errorPattern}`).digest('hex').slice(0, 12),
+    errorPattern,
+    failedAt: now,
+    requeueCount: 0,
+  }
+
+  await store.index.add(key, entry.id, now, serialize(entry))
+  await store.kv.delete(attemptsKey)
+
+  // Keep the index bounded
+  const expired: any[] = await store.index.read(key, { offset: config.maxEntries, limit: 100 })
+  for (const old of expired) {
+    await store.index.delete(key, old.id)
+  }
+
+  logger.warn('Job moved to dead-letter queue', { queue: queueName, jobId: job.id, jobName: job.name, attempts: attempt, error })
+  return entry
+}
+
+export async function getDeadLetter(id: string): Promise<DeadLetter | null> {
+  const store = useStoreAdapter()
+  const { StoreSubjects } = useStreamTopics()
+
+  const entry = await store.index.get(StoreSubjects.deadLetters(), id)
+  return entry ? deserialize(entry.metadata) : null
+}
+
+/**
+ * Dead letters matching a filter, newest first
+ */
+export async function listDeadLetters(
+  filter: DeadLetterFilter & { limit?: number, offset?: number } = {},
+): Promise<{ entries: DeadLetter[], total: number }> {
+  const entries = await readAll(filter)
+  const offset = filter.offset ?? 0
+  return {
+    entries: entries.slice(offset, offset + (filter.limit ?? 50)),
+    total: entries.length,
+  }
+}
+
+/**
+ * Dead letters grouped by error fingerprint, largest groups first
+ */
+export async function groupDeadLetters(filter: DeadLetterFilter = {}): Promise<DeadLetterGroup[]> {
+  const groups = new Map<string, DeadLetterGroup>()
+
+  // Entries are newest first: the first one seen sets the group's latest error
+  for (const entry of await readAll(filter)) {
+    const group = groups.get(entry.fingerprint)
+    if (group) {
+      group.count++
+      group.firstFailedAt = entry.failedAt
+      continue
+    }
+    groups.set(entry.fingerprint, {
+      fingerprint: entry.fingerprint,
+      queue: entry.queue,
+      jobName: entry.jobName,
+      errorPattern: entry.errorPattern,
+      error: entry.error,
+      count: 1,
+      firstFailedAt: entry.failedAt,
+      lastFailedAt: entry.failedAt,
+    })
+  }
+
+  return Array.from(groups.values()).sort((a, b) => b.count - a.count || b.lastFailedAt - a.lastFailedAt)
+}
+
+/**
+ * Enqueue dead letters again as new jobs, with their original name and options
+ *
+ * Entries stay in the index, marked as requeued (if the new job fails too, it is dead-lettered on its own).
+ *
+ * @param ids - Dead letter IDs
+ * @param opts - Requeue options
+ * @param opts.data - Replaces the job input (only when requeueing a single entry)
+ * @throws DeadLetterError 400 if `data` is given for more than one entry
+ */
+export async function requeueDeadLetters(ids: string[], opts: { data?: any } = {}): Promise<DeadLetterRequeueResult[]> {
+  if (opts.data !== undefined && ids.length !== 1) {
+    throw new DeadLetterError(400, 'An edited payload can only be used to requeue a single entry')
+  }
+
+  const store = useStoreAdapter()
+  const queue = useQueueAdapter()
+  const { StoreSubjects } = useStreamTopics()
+  const logger = useNventLogger('dead-letter')
+
+  const results: DeadLetterRequeueResult[] = []
+  for (const id of ids) {
+    const entry = await getDeadLetter(id)
+    if (!entry) {
+      results.push({ id, error: 'Not found' })
+      continue
+    }
+
+    try {
+      const requeueCount = entry.requeueCount + 1
+      const jobId = await queue.enqueue(entry.queue, {
+        name: entry.jobName,
+        data: opts.data !== undefined ? opts.data : entry.data,
+        opts: {
+          ...entry.opts,
+          // Original job IDs may still exist as failed jobs in the adapter
+          jobId: `${entry.jobId}__requeue-${requeueCount}`,
+        },
+      })
+
+      await store.index.updateWithRetry(StoreSubjects.deadLetters(), id, {
+        requeueCount,
+        requeuedAt: Date.now(),
+        requeuedJobId: jobId,
+      })
+      logger.info('Dead letter requeued', { id, queue: entry.queue, jobId, edited: opts.data !== undefined })
+      results.push({ id, jobId })
+    }
+    catch (err) {
+      results.push({ id, error: errorMessage(err) })
+    }
+  }
+  return results
+}
+
+/**
+ * Remove dead letters (e.g. after triage)
+ * @returns Number of removed entries
+ */
+export async function removeDeadLetters(ids: string[]): Promise<number> {
+  const store = useStoreAdapter()
+  const { StoreSubjects } = useStreamTopics()
+
+  let removed = 0
+  for (const id of ids) {
+    if (await store.index.delete(StoreSubjects.deadLetters(), id)) removed++
+  }
+  return removed
+}
+
+/**
+ * Composable for the dead-letter queue
+ */
+export function useDeadLetters() {
+  return {
+    list: listDeadLetters,
+    groups: groupDeadLetters,
+    get: getDeadLetter,
+    requeue: requeueDeadLetters,
+    remove: removeDeadLetters,
+  }
+}
+
+async function readAll(filter: DeadLetterFilter): Promise<DeadLetter[]> {
+  const store = useStoreAdapter()
+  const { StoreSubjects } = useStreamTopics()
+
+  const entries: any[] = await store.index.read(StoreSubjects.deadLetters(), { limit: getDeadLetterConfig().maxEntries })
+  return entries
+    .map(entry => deserialize(entry.metadata))
+    .filter(entry => (!filter.queue || entry.queue === filter.queue)
+      && (!filter.jobName || entry.jobName === filter.jobName)
+      && (!filter.flowName || entry.flowName === filter.flowName)
+      && (!filter.fingerprint || entry.fingerprint === filter.fingerprint)
+      && (filter.requeued === undefined || (entry.requeueCount > 0) === filter.requeued))
+}
+
+function pickRequeueOptions(opts?: Record<string, any>): Record<string, any> | undefined {
+  if (!opts) return undefined
+  const picked = Object.fromEntries(REQUEUE_OPTIONS.filter(k => opts[k] !== undefined).map(k => [k, opts[k]]))
+  return Object.keys(picked).length ? picked : undefined
+}
+
+function errorMessage(err: unknown): string {
+  return (err as any)?.message || String(err)
+}
+
+/**
+ * Mask the variable parts of an error message (ids, hashes, numbers)
+ */
+function maskError(message: string): string {
+  return message
+    .replace(/[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}/gi, '<id>')
+    .replace(/\b[0-9a-f]{16,}\b/gi, '<hex>')
+    .replace(/\d+/g, '<n>')
+    .trim()
+    .slice(0, 500)
+}
+
+// Nested values are serialized: stores may flatten nested metadata
+function serialize(entry: DeadLetter): Record<string, any> {
+  return {
+    ...entry,
+    data: JSON.stringify(entry.data ?? null),
+    opts: entry.opts ? JSON.stringify(entry.opts) : undefined,
+    history: JSON.stringify(entry.history),
+  }
+}
+
+function deserialize(meta: any): DeadLetter {
+  const parse = (value: any, fallback: any) => {
+    if (typeof value !== 'string') return value ?? fallback
+    try {
+      return JSON.parse(value)
+    }
+    catch {
+      return fallback
+    }
+  }
+  return {
+    ...meta,
+    data: parse(meta?.data, null),
+    opts: parse(meta?.opts, undefined),
+    history: parse(meta?.history, []),
+    attempts: Number(meta?.attempts) || 0,
+    failedAt: Number(meta?.failedAt),
+    requeueCount: Number(meta?.requeueCount) || 0,
+    requeuedAt: meta?.requeuedAt ? Number(meta.requeuedAt) : undefined,
+  }
+}
@@ -0,0 +1,70 @@
+/**
+ * Failed attempt of a job, before it was dead-lettered
+ */
+export interface DeadLetterAttempt {
+  attempt: number
+  error: string
+  failedAt: number
+}
+
+/**
+ * Job that failed its final attempt
+ */
+export interface DeadLetter {
+  /** `{queue}:{jobId}` */
+  id: string
+  queue: string
+  jobId: string
+  jobName: string
+  flowName?: string
+  runId?: string
+  /** Full job input, as enqueued */
+  data: any
+  /** Job options used for requeueing (attempts, backoff, timeout, ...) */
+  opts?: Record<string, any>
+  error: string
+  stack?: string
+  attempts: number
+  /** All failed attempts, the final one included */
+  history: DeadLetterAttempt[]
+  /** Hash of queue, job name and the error message with ids and numbers masked */
+  fingerprint: string
+  /** Error message with ids and numbers masked */
+  errorPattern: string
+  failedAt: number
+  requeueCount: number
+  requeuedAt?: number
+  /** Job ID of the last requeue */
+  requeuedJobId?: string
+}
+
+export interface DeadLetterFilter {
+  queue?: string
+  jobName?: string
+  flowName?: string
+  fingerprint?: string
+  /** Only entries that were (not) requeued */
+  requeued?: boolean
+}
+
+/**
+ * Dead letters sharing an error fingerprint
+ */
+export interface DeadLetterGroup {
+  fingerprint: string
+  queue: string
+  jobName: string
+  errorPattern: string
+  /** Error of the latest entry */
+  error: string
+  count: number
+  firstFailedAt: number
+  lastFailedAt: number
+}
+
+export interface DeadLetterRequeueResult {
+  id: string
+  /** Job ID of the new job */
+  jobId?: string
+  error?: string
+}
@@ -0,0 +1,228 @@
+import { randomUUID } from 'node:crypto'
+import type { StreamEvent, SubscriptionHandle } from '../adapters/interfaces/stream'
+import { useNventLogger, useStoreAdapter, useStreamAdapter, useStreamTopics } from '#imports'
+import type { EventRecord } from '../adapters/interfaces/store'
+import { deliverBusEvent, hasExclusiveHandlers, setBusTransport } from './eventBus'
+
+/**
+ * Cluster Bus
+ *
+ * Bridges the in-process event bus through the StreamAdapter (`stream.bus.mode: 'cluster'`).
+ * Every published event is sent to StreamTopics.eventBus() with an envelope id and delivered
+ * to the bus subscribers of every instance, the publishing one included. Redelivered envelopes
+ * are dropped by id.
+ *
+ * Observers (useEventManager subscriptions, ...) see every event on every instance. Exclusive
+ * handlers (the wirings: persistence, orchestration, stats) run on a single instance per run:
+ * the one holding the run's lease (kv.setNX, renewed by each of its events), so the events of
+ * a run are processed in order by one instance. A lease left idle for RUN_LEASE_TTL, or held by
+ * an instance whose heartbeat expired, moves to the next instance that claims one of the run's
+ * events. Events without a run are claimed one by one, by envelope id.
+ */
+
+// Events larger than this travel as store reference (Postgres NOTIFY payloads are capped at 8000 bytes)
+const INLINE_LIMIT = 7000
+// Lifetime of claims and referenced payloads (seconds)
+const ENVELOPE_TTL = 300
+// Lifetime of an idle run lease (seconds)
+const RUN_LEASE_TTL = 30
+// Lifetime of an instance heartbeat (seconds) and how often it is refreshed (milliseconds)
+const HEARTBEAT_TTL = 10
+const HEARTBEAT_INTERVAL = 3000
+// Envelope ids remembered for deduplication
+const SEEN_LIMIT = 10_000
+
+interface ClusterBusState {
+  instanceId: string | null
+  subscription: SubscriptionHandle | null
+  heartbeat: NodeJS.Timeout | null
+  seen: Set<string>
+  // runId -> delivery chain (keeps the order of a run's events)
+  chains: Map<string, Promise<void>>
+}
+
+// Use global to survive HMR reloads
+declare global {
+  var __nvent_cluster_bus: ClusterBusState | undefined
+}
+
+const state: ClusterBusState = globalThis.__nvent_cluster_bus ??= {
+  instanceId: null,
+  subscription: null,
+  heartbeat: null,
+  seen: new Set(),
+  chains: new Map(),
+}
+
+/**
+ * Route this instance's bus through the StreamAdapter
+ * @param instanceId - Identifies this instance in event claims
+ */
+export async function startClusterBus(instanceId: string) {
+  if (state.subscription) return
+
+  const stream = useStreamAdapter()
+  const { StreamTopics } = useStreamTopics()
+
+  state.instanceId = instanceId
+  await beat()
+  state.heartbeat = setInterval(beat, HEARTBEAT_INTERVAL)
+  state.subscription = await stream.subscribe(StreamTopics.eventBus(), (message: StreamEvent) => {
+    const runId = message.metadata?.runId || ''
+    const chain = (state.chains.get(runId) || Promise.resolve()).then(() => receive(message))
+    state.chains.set(runId, chain)
+    void chain.then(() => {
+      if (state.chains.get(runId) === chain) state.chains.delete(runId)
+    })
+  })
+  setBusTransport({ publish: send })
+
+  useNventLogger('cluster-bus').info('Event bus bridged through the stream adapter', { instanceId })
+}
+
+/**
+ * Restore local delivery and stop receiving events from other instances
+ */
+export async function stopClusterBus() {
+  setBusTransport(null)
+  if (state.heartbeat) {
+    clearInterval(state.heartbeat)
+    state.heartbeat = null
+    const { StoreSubjects } = useStreamTopics()
+    // Let other instances take over this instance's runs right away
+    await useStoreAdapter().kv.delete(StoreSubjects.busInstance(state.instanceId!)).catch(() => {})
+  }
+  if (state.subscription) {
+    const subscription = state.subscription
+    state.subscription = null
+    try {
+      await subscription.unsubscribe()
+    }
+    catch {
+      // best-effort: adapter may already be shut down
+    }
+  }
+  state.seen.clear()
+  state.chains.clear()
+}
+
+async function send(event: EventRecord): Promise<void> {
+  const logger = useNventLogger('cluster-bus')
+  const { StoreSubjects, StreamTopics } = useStreamTopics()
+
+  const id = randomUUID()
+  const message: StreamEvent = {
+    type: event.type,
+    data: event,
+    metadata: { id, runId: event.runId, origin: state.instanceId },
+    timestamp: Date.now(),
+  }
+
+  try {
+    if (JSON.stringify(event).length > INLINE_LIMIT) {
+      await useStoreAdapter().kv.set(StoreSubjects.busEventPayload(id), event, ENVELOPE_TTL)
+      message.data = null
+      message.metadata!.ref = true
+    }
+    await useStreamAdapter().publish(StreamTopics.eventBus(), message)
+  }
+  catch (err) {
+    // Don't lose the event: handle it on this instance
+    logger.error('Failed to publish bus event, delivering locally', { type: event.type, runId: event.runId, error: (err as any)?.message })
+    if (!isDuplicate(id)) deliverBusEvent(event, true)
+  }
+}
+
+async function receive(message: StreamEvent): Promise<void> {
+  const logger = useNventLogger('cluster-bus')
+  const id = message.metadata?.id
+  if (!id || isDuplicate(id)) return
+
+  try {
+    const store = useStoreAdapter()
+    const { StoreSubjects } = useStreamTopics()
+
+    const event: EventRecord | null = message.metadata?.ref
+      ? await store.kv.get(StoreSubjects.busEventPayload(id))
+      : message.data
+    if (!event) {
+      logger.warn('Bus event payload expired', { id, type: message.type })
+      return
+    }
+
+    // Only one instance claims the event for its exclusive handlers
+    let exclusive = false
+    try {
+      exclusive = hasExclusiveHandlers(event.type)
+        && await claimBusEvent(event, id, state.instanceId!)
+    }
+    catch (err) {
+      // Observers still get the event; the claim is left to the other instances
+      logger.error('Failed to claim bus event', { id, type: event.type, runId: event.runId, error: (err as any)?.message })
+    }
+
+    deliverBusEvent(event, exclusive)
+  }
+  catch (err) {
+    logger.error('Failed to deliver bus event', { id, type: message.type, error: (err as any)?.message })
+  }
+}
+
+/**
+ * Refresh this instance's heartbeat, which keeps its run leases from being taken over
+ */
+async function beat(): Promise<void> {
+  const { StoreSubjects } = useStreamTopics()
+  try {
+    await useStoreAdapter().kv.set(StoreSubjects.busInstance(state.instanceId!), Date.now(), HEARTBEAT_TTL)
+  }
+  catch (err) {
+    useNventLogger('cluster-bus').error('Failed to refresh bus heartbeat', { error: (err as any)?.message })
+  }
+}
+
+/**
+ * Claim a bus event for this instance's exclusive handlers
+ * Events of a run go to the holder of the run's lease; the first instance to claim one takes it,
+ * and the lease of an instance without heartbeat goes to the next instance that claims.
+ * @param event - Bus event
+ * @param id - Envelope id
+ * @param instanceId - Claiming instance
+ * @returns True if the instance runs the event's exclusive handlers
+ */
+export async function claimBusEvent(event: EventRecord, id: string, instanceId: string): Promise<boolean> {
+  const store = useStoreAdapter()
+  const { StoreSubjects } = useStreamTopics()
+
+  if (!event.runId) {
+    return await store.kv.setNX(StoreSubjects.busEventClaim(id), instanceId, ENVELOPE_TTL)
+  }
+
+  const key = StoreSubjects.busRunClaim(event.runId)
+  if (await store.kv.setNX(key, instanceId, RUN_LEASE_TTL)) return true
+
+  const holder = await store.kv.get<string>(key)
+  if (!holder) {
+    // Expired between the two calls
+    return await store.kv.setNX(key, instanceId, RUN_LEASE_TTL)
+  }
+  if (holder !== instanceId && await store.kv.get(StoreSubjects.busInstance(holder)) !== null) {
+    return false
+  }
+
+  // Renew our own lease, or take over the one of a dead instance
+  return await store.kv.compareAndSwap(key, holder, instanceId, RUN_LEASE_TTL)
+}
+
+/**
+ * Remember an envelope id
+ * @returns True if it was seen before
+ */
+function isDuplicate(id: string): boolean {
+  if (state.seen.has(id)) return true
+  state.seen.add(id)
+  if (state.seen.size > SEEN_LIMIT) {
+    state.seen.delete(state.seen.values().next().value!)
+  }
+  return false
+}
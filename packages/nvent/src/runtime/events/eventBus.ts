@@ -4,9 +4,26 @@ import type { EventRecord } from './types'
 // Event Bus - publishes events to internal subscribers
 type Handler = (e: EventRecord) => void
 
+export interface BusSubscribeOptions {
+  /**
+   * Handler performs orchestration side effects (persistence, step triggering, ...)
+   * In cluster mode exclusive handlers run on one instance per event, all others on every instance
+   */
+  exclusive?: boolean
+}
+
+/**
+ * Carries published events to the bus of every instance (cluster mode, see clusterBus.ts)
+ * Without a transport events are delivered to the local subscribers only
+ */
+export interface BusTransport {
+  publish(event: EventRecord): Promise<void>
+}
+
 // Ensure a single emitter across Nitro HMR and module reloads
 declare global {
   var __nq_bus_emitter: EventEmitter | undefined
+  var __nq_bus_transport: BusTransport | null | undefined
 }
 
 const emitter: EventEmitter = globalThis.__nq_bus_emitter ??= new EventEmitter()
@@ -27,11 +44,14 @@ function eventNameForRunId(runId: string) {
 function eventNameForType(type: string) {
   return `type:${type}`
 }
+function eventNameForExclusiveType(type: string) {
+  return `exclusive:${type}`
+}
 
-function publish(event: EventRecord) {
-  // Emit both runId and type channels synchronously
-  emitter.emit(eventNameForRunId(event.runId), event)
-  emitter.emit(eventNameForType(event.type), event)
+function publish(event: EventRecord): void | Promise<void> {
+  const transport = globalThis.__nq_bus_transport
+  if (transport) return transport.publish(event)
+  deliverBusEvent(event, true)
 }
 
 function subscribeRunId(runId: string, handler: Handler) {
@@ -42,8 +62,8 @@ function subscribeRunId(runId: string, handler: Handler) {
   }
 }
 
-function onType(type: string, handler: Handler) {
-  const name = eventNameForType(type)
+function onType(type: string, handler: Handler, opts: BusSubscribeOptions = {}) {
+  const name = opts.exclusive ? eventNameForExclusiveType(type) : eventNameForType(type)
   emitter.on(name, handler)
   return () => {
     emitter.off(name, handler)
@@ -55,3 +75,29 @@ export const eventBus = { publish, subscribeRunId, onType }
 export function getEventBus() {
   return eventBus
 }
+
+/**
+ * Emit an event to the subscribers of this instance
+ * @param event - Bus event
+ * @param exclusive - Whether this instance is the event's exclusive consumer
+ */
+export function deliverBusEvent(event: EventRecord, exclusive: boolean) {
+  // Emit runId and type channels synchronously
+  emitter.emit(eventNameForRunId(event.runId), event)
+  emitter.emit(eventNameForType(event.type), event)
+  if (exclusive) emitter.emit(eventNameForExclusiveType(event.type), event)
+}
+
+/**
+ * Whether this instance has exclusive handlers for an event type
+ */
+export function hasExclusiveHandlers(type: string): boolean {
+  return emitter.listenerCount(eventNameForExclusiveType(type)) > 0
+}
+
+/**
+ * Route published events through a transport (null restores local delivery)
+ */
+export function setBusTransport(transport: BusTransport | null) {
+  globalThis.__nq_bus_transport = transport
+}
@@ -29,6 +29,12 @@ export type EventType
     | 'step.completed'
     | 'step.failed'
     | 'step.retry'
+    | 'step.item.started'
+    | 'step.item.completed'
+    | 'step.item.failed'
+    | 'step.item.retry'
+    | 'step.compensating'
+    | 'step.compensated'
     | 'log'
     | 'emit'
     | 'state'
@@ -36,6 +42,8 @@ export type EventType
   // v0.5: Trigger events
     | 'trigger.fired'
     | 'trigger.registered'
+    | 'trigger.rejected'
+    | 'trigger.queued'
     | 'await.registered'
     | 'await.resolved'
     | 'await.timeout'
@@ -58,6 +66,24 @@ export interface FlowStartEvent extends BaseEvent {
   type: 'flow.start'
   data?: {
     input?: any
+    /** Version of the flow definition the run is orchestrated with */
+    flowVersion?: string
+    /** Step that started this run as a sub-flow */
+    parent?: {
+      runId: string
+      flowName: string
+      stepName: string
+      position?: 'before' | 'after'
+    }
+    /** Run replayed from a step of another run (`useFlow().replayFlow`) */
+    replay?: {
+      runId: string
+      fromStep: string
+      fromLevel: number
+      steps: string[]
+    }
+    /** Concurrency key the run holds a slot for (`flow.concurrency`) */
+    concurrencyKey?: string
   }
 }
 
@@ -123,6 +149,20 @@ export interface StepRetryEvent extends StepEvent {
   }
 }
 
+/**
+ * Per-item events of map steps (flow.map)
+ * The map step itself still reports step.started/step.completed/step.failed once
+ */
+export interface StepItemEvent extends StepEvent {
+  type: 'step.item.started' | 'step.item.completed' | 'step.item.failed' | 'step.item.retry'
+  data: {
+    index: number
+    total: number
+    result?: any
+    error?: string
+  }
+}
+
 export interface LogEvent extends StepEvent {
   type: 'log'
   data: {
@@ -140,13 +180,19 @@ export interface EmitEvent extends StepEvent {
   }
 }
 
+/**
+ * ctx.state mutation inside a flow run (recorded for time-travel, see replayRunState)
+ */
 export interface StateEvent extends StepEvent {
   type: 'state'
   data: {
     operation: 'get' | 'set' | 'delete'
     scope?: string
     key: string
+    /** New value (set only) */
     value?: any
+    /** Value before the mutation (null if unset) */
+    previous?: any
   }
 }
 
@@ -155,6 +201,8 @@ export interface TriggerFiredEvent extends BaseEvent {
   type: 'trigger.fired'
   triggerName: string
   data: any
+  /** Deduplicates the flow starts of repeated deliveries (e.g. `Idempotency-Key` header) */
+  idempotencyKey?: string
 }
 
 export interface TriggerRegisteredEvent {
@@ -164,10 +212,35 @@ export interface TriggerRegisteredEvent {
   scope: 'flow' | 'run'
 }
 
+export interface TriggerRejectedEvent {
+  type: 'trigger.rejected'
+  triggerName: string
+  data: {
+    reason: string
+    source: 'webhook' | 'concurrency'
+    method?: string
+    ip?: string
+    /** Flow whose concurrency limit refused the start */
+    flowName?: string
+  }
+}
+
+export interface TriggerQueuedEvent {
+  type: 'trigger.queued'
+  triggerName: string
+  data: {
+    flowName: string
+    runId: string
+    /** Concurrency key the start waits for */
+    key: string
+    position: number
+  }
+}
+
 export interface AwaitRegisteredEvent extends BaseEvent {
   type: 'await.registered'
   stepName: string
-  awaitType: 'webhook' | 'event' | 'schedule' | 'time'
+  awaitType: 'webhook' | 'event' | 'schedule' | 'time' | 'flow' | 'form'
   position: 'before' | 'after'
   config: any
 }
@@ -177,6 +250,7 @@ export interface AwaitResolvedEvent extends BaseEvent {
   stepName: string
   triggerData: any
   position: 'before' | 'after'
+  awaitType?: 'webhook' | 'event' | 'schedule' | 'time' | 'flow' | 'form'
 }
 
 export interface AwaitTimeoutEvent extends BaseEvent {
@@ -185,6 +259,19 @@ export interface AwaitTimeoutEvent extends BaseEvent {
   action: 'fail' | 'continue' | 'retry'
 }
 
+/**
+ * Compensation of a completed step after the run failed or was canceled (onCompensate hooks)
+ * A failed compensation is reported on step.compensated with `error`
+ */
+export interface StepCompensationEvent extends BaseEvent {
+  type: 'step.compensating' | 'step.compensated'
+  stepName: string
+  data: {
+    reason: 'failed' | 'canceled'
+    error?: string
+  }
+}
+
 export type FlowEvent
   = | FlowStartEvent
     | FlowCompletedEvent
@@ -195,11 +282,15 @@ export type FlowEvent
     | StepCompletedEvent
     | StepFailedEvent
     | StepRetryEvent
+    | StepItemEvent
+    | StepCompensationEvent
     | LogEvent
     | EmitEvent
     | StateEvent
     | TriggerFiredEvent
     | TriggerRegisteredEvent
+    | TriggerRejectedEvent
+    | TriggerQueuedEvent
     | AwaitRegisteredEvent
     | AwaitResolvedEvent
     | AwaitTimeoutEvent
@@ -0,0 +1,43 @@
+/**
+ * Saga-style compensation (`onCompensate` step hooks)
+ *
+ * When a run fails or is canceled, completed steps that export `onCompensate(output, ctx)`
+ * are undone one at a time, most recently completed first. Each compensation is recorded
+ * in the run stream as `step.compensating` followed by `step.compensated`.
+ */
+
+export interface CompensationStep {
+  stepName: string
+  /** Result of the step's `step.completed` event */
+  output: any
+}
+
+/**
+ * Steps to compensate, in reverse completion order
+ *
+ * Steps without a handler and steps already compensating (e.g. a cancel after
+ * the failure started compensation) are left out.
+ */
+export function getCompensationPlan(
+  events: Array<{ type: string, stepName?: string, data?: any }>,
+  hasHandler: (stepName: string) => boolean,
+): CompensationStep[] {
+  const completed = new Map<string, CompensationStep>()
+  const started = new Set<string>()
+
+  for (const event of events) {
+    if (!event.stepName) continue
+    if (event.type === 'step.completed') {
+      // Re-insert so the map order follows the latest completion
+      completed.delete(event.stepName)
+      completed.set(event.stepName, { stepName: event.stepName, output: event.data?.result })
+    }
+    else if (event.type === 'step.compensating') {
+      started.add(event.stepName)
+    }
+  }
+
+  return Array.from(completed.values())
+    .reverse()
+    .filter(step => !started.has(step.stepName) && hasHandler(step.stepName))
+}
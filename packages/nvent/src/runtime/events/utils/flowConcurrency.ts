@@ -0,0 +1,202 @@
+/**
+ * Flow concurrency (`flow.concurrency`)
+ *
+ * Active runs and queued starts are tracked per flow and concurrency key in one KV
+ * record, updated under a store lock so starts on different instances can't both take
+ * the last slot. Runs take a slot before their entry step is enqueued and give it back
+ * on their terminal event, which hands it to the oldest queued start. Stalled runs keep
+ * their slot until they are canceled. Runs that never made it into the run index (e.g.
+ * the instance went down between taking the slot and starting the run) lose it after
+ * a grace period.
+ */
+
+import type { FlowConcurrencyConfig } from '../../nitro/utils/defineFunctionConfig'
+import type { SubflowParent } from '../../nitro/utils/subflow'
+import { useStoreAdapter, useStreamTopics } from '#imports'
+import { withStoreLock } from './storeLock'
+import { getPath } from './objectPath'
+
+/**
+ * Start held back until a slot is free
+ */
+export interface QueuedRun {
+  runId: string
+  input: any
+  queuedAt: number
+  parent?: SubflowParent
+  /** Name of the trigger that fired the start */
+  trigger?: string
+  /** Run and step a replay starts from (`useFlow().replayFlow`) */
+  replay?: { runId: string, fromStep: string }
+}
+
+export type RunSlot
+  = | { status: 'started', key: string, cancel: string[] }
+    | { status: 'queued', key: string, position: number }
+    | { status: 'rejected', key: string, active: number }
+
+interface SlotRecord {
+  active: string[]
+  queued: QueuedRun[]
+  /** When each active run took its slot (ms) */
+  since: Record<string, number>
+}
+
+const FINISHED_STATUSES = ['completed', 'failed', 'canceled']
+// Time a run holding a slot has to show up in the run index (ms)
+const MISSING_RUN_GRACE = 5 * 60 * 1000
+
+/**
+ * Thrown when a start is refused by a flow's concurrency limit (`overflow: 'reject'`)
+ * No run is created when this error is thrown
+ */
+export class FlowConcurrencyError extends Error {
+  readonly statusCode = 409
+
+  constructor(
+    public readonly flowName: string,
+    public readonly key: string,
+    public readonly active: number,
+  ) {
+    super(`Flow '${flowName}' has reached its concurrency limit${key ? ` for '${key}'` : ''} (${active} active)`)
+    this.name = 'FlowConcurrencyError'
+  }
+}
+
+/**
+ * Concurrency key of a start (empty when the flow has no `key` or the input lacks it)
+ */
+export function getConcurrencyKey(config: FlowConcurrencyConfig, input: any): string {
+  if (!config.key) return ''
+  const value = getPath(input, config.key)
+  return value == null ? '' : String(value)
+}
+
+/**
+ * Drop active runs that already ended (e.g. a terminal event was lost) or never started
+ */
+async function pruneFinished(flowName: string, record: SlotRecord): Promise<void> {
+  const store = useStoreAdapter()
+  const { StoreSubjects } = useStreamTopics()
+  const indexKey = StoreSubjects.flowRunIndex(flowName)
+  const now = Date.now()
+
+  const alive: string[] = []
+  for (const runId of record.active) {
+    const entry = await store.index.get(indexKey, runId)
+    if (entry) {
+      if (!FINISHED_STATUSES.includes(entry.metadata?.status)) alive.push(runId)
+      continue
+    }
+    // Slots taken before their time was recorded start the grace period now
+    record.since[runId] ??= now
+    if (now - record.since[runId]! < MISSING_RUN_GRACE) alive.push(runId)
+  }
+  setActive(record, alive)
+}
+
+function setActive(record: SlotRecord, active: string[]): void {
+  record.active = active
+  record.since = Object.fromEntries(Object.entries(record.since).filter(([runId]) => active.includes(runId)))
+}
+
+function addActive(record: SlotRecord, runId: string): void {
+  record.active.push(runId)
+  record.since[runId] = Date.now()
+}
+
+async function updateSlots<T>(
+  flowName: string,
+  key: string,
+  fn: (record: SlotRecord) => Promise<T> | T,
+): Promise<T> {
+  const store = useStoreAdapter()
+  const { StoreSubjects } = useStreamTopics()
+  const recordKey = StoreSubjects.flowConcurrency(flowName, key)
+
+  return withStoreLock(store, StoreSubjects.flowConcurrencyLock(flowName, key), async () => {
+    const stored = await store.kv.get<SlotRecord>(recordKey)
+    const record: SlotRecord = { active: stored?.active || [], queued: stored?.queued || [], since: stored?.since || {} }
+
+    const result = await fn(record)
+
+    if (record.active.length === 0 && record.queued.length === 0) {
+      await store.kv.delete(recordKey)
+    }
+    else {
+      await store.kv.set(recordKey, record)
+    }
+    return result
+  })
+}
+
+/**
+ * Take a slot for a run before its entry step is enqueued
+ * A run that already holds a slot (a dequeued start) is started right away.
+ * With `cancel-previous` the slot is taken over from the oldest active runs, which the
+ * caller has to cancel (`cancel`).
+ */
+export async function acquireRunSlot(
+  flowName: string,
+  config: FlowConcurrencyConfig,
+  run: QueuedRun,
+): Promise<RunSlot> {
+  const key = getConcurrencyKey(config, run.input)
+  const max = Math.max(1, config.max ?? 1)
+  const overflow = config.overflow ?? 'queue'
+
+  return updateSlots(flowName, key, async (record): Promise<RunSlot> => {
+    if (record.active.includes(run.runId)) {
+      return { status: 'started', key, cancel: [] }
+    }
+
+    if (record.active.length >= max) {
+      await pruneFinished(flowName, record)
+    }
+
+    if (record.active.length < max) {
+      addActive(record, run.runId)
+      return { status: 'started', key, cancel: [] }
+    }
+
+    if (overflow === 'reject') {
+      return { status: 'rejected', key, active: record.active.length }
+    }
+
+    if (overflow === 'cancel-previous') {
+      const cancel = record.active.slice(0, record.active.length - max + 1)
+      setActive(record, record.active.slice(cancel.length))
+      addActive(record, run.runId)
+      return { status: 'started', key, cancel }
+    }
+
+    record.queued.push(run)
+    return { status: 'queued', key, position: record.queued.length }
+  })
+}
+
+/**
+ * Give back the slot of an ended run
+ * Without a config (limit removed since the run started) every queued start is released.
+ * @returns Queued starts that took over free slots (already marked active, start them with their runId)
+ */
+export async function releaseRunSlot(
+  flowName: string,
+  config: FlowConcurrencyConfig | undefined,
+  key: string,
+  runId: string,
+): Promise<QueuedRun[]> {
+  const max = config ? Math.max(1, config.max ?? 1) : Infinity
+
+  return updateSlots(flowName, key, (record) => {
+    setActive(record, record.active.filter(id => id !== runId))
+
+    const next: QueuedRun[] = []
+    while (record.active.length < max && record.queued.length > 0) {
+      const queued = record.queued.shift()!
+      addActive(record, queued.runId)
+      next.push(queued)
+    }
+    return next
+  })
+}
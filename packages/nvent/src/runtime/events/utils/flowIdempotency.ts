@@ -0,0 +1,66 @@
+/**
+ * Idempotent flow starts
+ *
+ * A start with an idempotency key claims the key for its run with kv.setNX (TTL: the
+ * `flow.idempotencyWindow`), so of concurrent or repeated starts with the same key only the
+ * first one creates a run; the others get its run ID.
+ */
+
+import { useRuntimeConfig, useStoreAdapter, useStreamTopics } from '#imports'
+
+export const DEFAULT_IDEMPOTENCY_WINDOW = 24 * 60 * 60 * 1000
+
+interface IdempotencyRecord {
+  runId: string
+  claimedAt: number
+}
+
+function getWindowSeconds(): number {
+  const rc: any = useRuntimeConfig()
+  const windowMs = rc?.nvent?.flow?.idempotencyWindow ?? DEFAULT_IDEMPOTENCY_WINDOW
+  return Math.max(1, Math.ceil(windowMs / 1000))
+}
+
+/**
+ * Claim an idempotency key for a new run
+ * @returns Run ID of an earlier start with the same key, or null if the key was claimed for runId
+ */
+export async function claimIdempotencyKey(flowName: string, key: string, runId: string): Promise<string | null> {
+  const store = useStoreAdapter()
+  const { StoreSubjects } = useStreamTopics()
+  const recordKey = StoreSubjects.flowIdempotency(flowName, key)
+  const record: IdempotencyRecord = { runId, claimedAt: Date.now() }
+
+  // Retry once if the earlier claim expired between setNX and get
+  for (let attempt = 0; attempt < 2; attempt++) {
+    if (await store.kv.setNX(recordKey, record, getWindowSeconds())) return null
+
+    const existing = await store.kv.get<IdempotencyRecord>(recordKey)
+    if (existing?.runId) return existing.runId
+  }
+  return null
+}
+
+/**
+ * Run ID of an earlier start with this idempotency key (null if none within the window)
+ */
+export async function getIdempotentRun(flowName: string, key: string): Promise<string | null> {
+  const { StoreSubjects } = useStreamTopics()
+  const existing = await useStoreAdapter().kv.get<IdempotencyRecord>(StoreSubjects.flowIdempotency(flowName, key))
+  return existing?.runId ?? null
+}
+
+/**
+ * Give up the claim of a start that failed, so the key can be used again
+ * Only removes the key while it is still claimed for runId.
+ */
+export async function releaseIdempotencyKey(flowName: string, key: string, runId: string): Promise<void> {
+  const store = useStoreAdapter()
+  const { StoreSubjects } = useStreamTopics()
+  const recordKey = StoreSubjects.flowIdempotency(flowName, key)
+
+  const existing = await store.kv.get<IdempotencyRecord>(recordKey)
+  if (existing?.runId === runId) {
+    await store.kv.compareAndSwap(recordKey, existing, null)
+  }
+}
@@ -0,0 +1,79 @@
+/**
+ * Fan-out/fan-in map steps (`flow.map`)
+ *
+ * A map step runs one job per item of an array in its input. Items are enqueued
+ * up to `concurrency` at a time, each settled item enqueues the next one, and the
+ * step completes with the collected results once every item is settled.
+ */
+
+import type { FlowMapConfig } from '../../nitro/utils/defineFunctionConfig'
+import { getPath } from './objectPath'
+
+export const DEFAULT_MAP_CONCURRENCY = 10
+
+export interface MapItemOutcome {
+  index: number
+  status: 'completed' | 'failed'
+  result?: any
+  error?: string
+}
+
+export interface MapStepResult {
+  /** Results of the completed items, in item order */
+  results: any[]
+  /** Failed items (only with `onItemError: 'collect'`) */
+  errors?: Array<{ index: number, error: string }>
+}
+
+export function getMapConcurrency(map: FlowMapConfig): number {
+  const concurrency = Math.floor(Number(map.concurrency))
+  return Number.isFinite(concurrency) && concurrency > 0 ? concurrency : DEFAULT_MAP_CONCURRENCY
+}
+
+/**
+ * Resolve the array to map over from a step input
+ *
+ * Step inputs are keyed by event name; with a single subscription the path is
+ * also resolved inside that payload, so `items: 'records'` works for both
+ * `{ records }` and `{ 'orders.imported': { records } }`.
+ *
+ * @returns The items, or undefined if the selected value is not an array
+ */
+export function resolveMapItems(map: FlowMapConfig, input: any): any[] | undefined {
+  const candidates = [input]
+  if (input && typeof input === 'object' && !Array.isArray(input)) {
+    const values = Object.values(input)
+    if (values.length === 1) candidates.push(values[0])
+  }
+
+  for (const candidate of candidates) {
+    const value = map.items ? getPath(candidate, map.items) : candidate
+    if (Array.isArray(value)) return value
+  }
+  return undefined
+}
+
+/**
+ * Index of the item to enqueue once `settled` items are done, if any is left
+ * (the first `concurrency` items are enqueued when the step starts)
+ */
+export function getNextMapItem(settled: number, concurrency: number, total: number): number | undefined {
+  const next = concurrency + settled - 1
+  return next < total ? next : undefined
+}
+
+/**
+ * Aggregate item outcomes into the step result
+ */
+export function collectMapResults(outcomes: MapItemOutcome[], onItemError: FlowMapConfig['onItemError']): MapStepResult {
+  const sorted = [...outcomes].sort((a, b) => a.index - b.index)
+  const result: MapStepResult = {
+    results: sorted.filter(o => o.status === 'completed').map(o => o.result),
+  }
+  if (onItemError === 'collect') {
+    result.errors = sorted
+      .filter(o => o.status === 'failed')
+      .map(o => ({ index: o.index, error: o.error || 'Unknown error' }))
+  }
+  return result
+}
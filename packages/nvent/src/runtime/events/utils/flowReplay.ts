@@ -0,0 +1,50 @@
+/**
+ * Replaying a run from a chosen step (`useFlow().replayFlow`)
+ *
+ * Steps on the levels before the chosen step are not executed again: their recorded
+ * events are copied from the original run, so their results, emits and state feed the
+ * steps that run again. Orchestration continues from the chosen level.
+ */
+
+import type { EventRecord } from '../../adapters/interfaces/store'
+
+export interface FlowReplay {
+  /** Run the history was copied from */
+  runId: string
+  fromStep: string
+  /** Level of `fromStep` in the analyzed flow */
+  fromLevel: number
+  /** Steps taken over from the original run (never enqueued in the new run) */
+  steps: string[]
+}
+
+/**
+ * Event types copied from the original run for replayed steps
+ * Map item and await events are left out: they would start items and system handlers again.
+ */
+export const REPLAYED_EVENT_TYPES = ['step.started', 'step.completed', 'emit', 'state', 'log']
+
+/**
+ * Level of a step in the analyzed flow, -1 if the flow has no such step
+ */
+export function getStepLevel(levels: string[][] | undefined, stepName: string): number {
+  return (levels || []).findIndex(level => level.includes(stepName))
+}
+
+/**
+ * Steps taken over from the original run: steps before `fromLevel` that completed there
+ */
+export function getReplayedSteps(levels: string[][] | undefined, fromLevel: number, events: EventRecord[]): string[] {
+  const completed = new Set(
+    events.filter(e => e.type === 'step.completed' && e.stepName).map(e => e.stepName as string),
+  )
+  return (levels || []).slice(0, Math.max(0, fromLevel)).flat().filter(step => completed.has(step))
+}
+
+/**
+ * Events of the original run to seed the new run with, in stream order
+ */
+export function getReplayedEvents(events: EventRecord[], steps: string[]): EventRecord[] {
+  const replayed = new Set(steps)
+  return events.filter(e => REPLAYED_EVENT_TYPES.includes(e.type) && !!e.stepName && replayed.has(e.stepName))
+}
@@ -0,0 +1,98 @@
+/**
+ * Declarative flow routing (`flow.routes`)
+ *
+ * A router step selects its next steps from its return value: branches are evaluated
+ * in order, the first match wins and `default` applies when nothing matches.
+ * Targets of branches that were not taken are skipped.
+ */
+
+import type { FlowRoutes } from '../../nitro/utils/defineFunctionConfig'
+import { evaluateAwaitMatcher } from '../../nitro/utils/awaitMatcher'
+
+export interface RouteDecisions {
+  /** Routed target step -> steps routing to it */
+  sources: Record<string, string[]>
+  /** Selected target step -> routers that selected it (with their return value) */
+  selected: Record<string, Array<{ router: string, result: any }>>
+  /** Targets whose routers all completed without selecting them */
+  skipped: Set<string>
+}
+
+export function toStepList(to?: string | string[]): string[] {
+  if (!to) return []
+  return (Array.isArray(to) ? to : [to]).filter(s => typeof s === 'string' && s.length > 0)
+}
+
+/**
+ * All steps a router can trigger
+ */
+export function getRouteTargets(routes?: FlowRoutes): string[] {
+  if (!routes) return []
+  const targets = new Set<string>()
+  for (const branch of routes.branches || []) {
+    for (const to of toStepList(branch.to)) targets.add(to)
+  }
+  for (const to of toStepList(routes.default)) targets.add(to)
+  return Array.from(targets)
+}
+
+/**
+ * Select the steps to trigger for a router's return value
+ */
+export function selectRouteTargets(routes: FlowRoutes, result: any): string[] {
+  for (const branch of routes.branches || []) {
+    if (evaluateAwaitMatcher(branch.when, { step: result })) {
+      return toStepList(branch.to)
+    }
+  }
+  return toStepList(routes.default)
+}
+
+/**
+ * Evaluate the routes of all completed routers of a run from its events
+ *
+ * @param steps - Flow steps (by name)
+ * @param entry - Flow entry (with `step` name), routers can be entry steps as well
+ * @param events - Run events (`step.completed` carries the return value in `data.result`)
+ */
+export function resolveRouteDecisions(
+  steps: Record<string, any>,
+  entry: { step?: string, routes?: FlowRoutes } | undefined,
+  events: any[],
+): RouteDecisions {
+  const routers: Record<string, FlowRoutes> = {}
+  if (entry?.step && entry.routes) routers[entry.step] = entry.routes
+  for (const [stepName, step] of Object.entries(steps || {})) {
+    if (step?.routes) routers[stepName] = step.routes
+  }
+
+  // Last result per completed router
+  const results = new Map<string, any>()
+  for (const event of events) {
+    if (event.type === 'step.completed' && event.stepName && routers[event.stepName]) {
+      results.set(event.stepName, event.data?.result)
+    }
+  }
+
+  const sources: RouteDecisions['sources'] = {}
+  const selected: RouteDecisions['selected'] = {}
+  for (const [router, routes] of Object.entries(routers)) {
+    for (const target of getRouteTargets(routes)) {
+      (sources[target] ||= []).push(router)
+    }
+    if (!results.has(router)) continue
+
+    const result = results.get(router)
+    for (const target of selectRouteTargets(routes, result)) {
+      (selected[target] ||= []).push({ router, result })
+    }
+  }
+
+  const skipped = new Set<string>()
+  for (const [target, routerNames] of Object.entries(sources)) {
+    if (selected[target]) continue
+    if (routerNames.every(router => results.has(router))) skipped.add(target)
+  }
+
+  return { sources, selected, skipped }
+}
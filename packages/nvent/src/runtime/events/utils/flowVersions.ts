@@ -0,0 +1,76 @@
+/**
+ * Flow definition versions
+ *
+ * Every analyzed flow carries a `version` (hash of its definition, see registry/flowAnalyzer).
+ * Each version is stored once, and runs record the version they started on (`flow.start`),
+ * so runs in flight keep their step graph after a redeploy or dev hot reload.
+ */
+
+import type { StoreAdapter } from '../../adapters/interfaces/store'
+import { $useAnalyzedFlows, useNventLogger, useStoreAdapter, useStreamTopics } from '#imports'
+
+/** Definitions of older versions loaded from the store ({flowName}:{version}) */
+const loadedVersions = new Map<string, any>()
+
+export function getCurrentFlowDefinition(flowName: string): any | undefined {
+  return ($useAnalyzedFlows() as any[]).find((f: any) => f.id === flowName)
+}
+
+/**
+ * Store the current definition of every flow under its version
+ * Existing versions are never overwritten.
+ */
+export async function saveFlowVersions(store: StoreAdapter, flows: any[]): Promise<void> {
+  const { StoreSubjects } = useStreamTopics()
+  for (const flow of flows) {
+    if (!flow?.id || !flow.version) continue
+    await store.kv.setNX(StoreSubjects.flowVersion(flow.id, flow.version), flow)
+  }
+}
+
+/**
+ * Flow definition of a specific version
+ * Falls back to the current definition when the version is unknown (e.g. runs started
+ * before versioning existed) or when it can't be loaded. Only found versions are cached,
+ * so a version stored later (by another instance) is picked up on the next lookup.
+ */
+export async function loadFlowDefinition(flowName: string, version?: string): Promise<any | undefined> {
+  const current = getCurrentFlowDefinition(flowName)
+  if (!version || current?.version === version) return current
+
+  const cacheKey = `${flowName}:${version}`
+  if (loadedVersions.has(cacheKey)) return loadedVersions.get(cacheKey)
+
+  try {
+    const { StoreSubjects } = useStreamTopics()
+    const stored = await useStoreAdapter().kv.get(StoreSubjects.flowVersion(flowName, version))
+    if (stored) {
+      loadedVersions.set(cacheKey, stored)
+      return stored
+    }
+  }
+  catch (err) {
+    useNventLogger('flow-versions').warn('Failed to load flow version', {
+      flowName,
+      version,
+      error: (err as Error).message,
+    })
+    return current
+  }
+
+  useNventLogger('flow-versions').warn('Flow version not found, using current definition', {
+    flowName,
+    version,
+    currentVersion: current?.version,
+  })
+  return current
+}
+
+/**
+ * Flow definition a run started on (version recorded in the run index)
+ */
+export async function loadRunFlowDefinition(flowName: string, runId: string): Promise<any | undefined> {
+  const { StoreSubjects } = useStreamTopics()
+  const entry = await useStoreAdapter().index.get(StoreSubjects.flowRunIndex(flowName), runId)
+  return loadFlowDefinition(flowName, (entry?.metadata as any)?.flowVersion)
+}
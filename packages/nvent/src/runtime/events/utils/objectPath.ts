@@ -0,0 +1,10 @@
+/**
+ * Dot-path lookup used by map items, concurrency keys, sub-flow inputs and await filters
+ */
+
+/**
+ * Value at a dot-separated path (`'order.customer.id'`), or undefined if any segment is missing
+ */
+export function getPath(obj: any, path: string): any {
+  return path.split('.').reduce((acc, key) => (acc == null ? undefined : acc[key]), obj)
+}
@@ -13,7 +13,9 @@
  */
 
 import type { StoreAdapter } from '../../adapters/interfaces/store'
-import { useNventLogger, useStreamTopics, $useAnalyzedFlows } from '#imports'
+import { useNventLogger, useStreamTopics, useLeader, $useAnalyzedFlows } from '#imports'
+import { readAllStream } from './storeStream'
+import { readAllIndex } from './storeIndex'
 
 export interface StallDetectorConfig {
   /**
@@ -30,6 +32,7 @@ export class FlowStallDetector {
   private config: Required<StallDetectorConfig>
   private logger = useNventLogger('stall-detector')
   private started = false
+  private leaderSubscription?: () => void
 
   constructor(store: StoreAdapter, config: StallDetectorConfig = {}) {
     this.store = store
@@ -51,8 +54,9 @@ export class FlowStallDetector {
 
     this.started = true
 
-    // Run startup recovery first to handle flows left running from previous instance
-    await this.runStartupRecovery()
+    // Startup recovery scans every flow run of the cluster, so only the leader runs it
+    // (again after a failover, to handle flows left running by the previous leader)
+    this.leaderSubscription = useLeader().onElected(() => this.runStartupRecovery())
 
     this.logger.info('Stall detector started - using per-flow scheduler jobs for stall timeouts')
   }
@@ -62,6 +66,8 @@ export class FlowStallDetector {
    */
   async stop(): Promise<void> {
     this.started = false
+    this.leaderSubscription?.()
+    this.leaderSubscription = undefined
     this.logger.info('Stall detector stopped')
   }
 
@@ -105,7 +111,7 @@ export class FlowStallDetector {
       // Find steps that were running (step.started but no terminal event)
       // and emit step.stalled events for them so UI shows correct status
       try {
-        const allEvents = await this.store.stream.read(streamName)
+        const allEvents = await readAllStream(this.store, streamName)
         const stalledSteps = this.findStalledSteps(allEvents)
 
         // Emit step.stalled event for each running step
@@ -218,24 +224,29 @@ export class FlowStallDetector {
         return
       }
 
+      const { StoreSubjects } = useStreamTopics()
       const analyzedFlows = $useAnalyzedFlows() as any[]
       const flowNames = analyzedFlows.map((f: any) => f.id).filter(Boolean)
 
-      this.logger.info(`Starting flow recovery check for ${flowNames.length} registered flows: [${flowNames.join(', ')}]`)
+      // Runs keep the definition version they started on, so flows removed since
+      // (still in the flow index) have runs to recover too
+      const storedFlowNames = (await readAllIndex(this.store, StoreSubjects.flowIndex())).map(entry => entry.id)
+      const recoveryFlowNames = [...new Set([...flowNames, ...storedFlowNames])]
+
+      this.logger.info(`Starting flow recovery check for ${recoveryFlowNames.length} flows: [${recoveryFlowNames.join(', ')}]`)
 
-      if (flowNames.length === 0) {
+      if (recoveryFlowNames.length === 0) {
         this.logger.debug('No flows registered, skipping startup recovery')
         return
       }
 
-      const { StoreSubjects } = useStreamTopics()
       let recoveredCount = 0
 
       // Track actual running/awaiting counts per flow for stats validation
       const actualCounts: Record<string, { running: number, awaiting: number }> = {}
 
       // 1. Check for orphaned running flows
-      for (const flowName of flowNames) {
+      for (const flowName of recoveryFlowNames) {
         actualCounts[flowName] = { running: 0, awaiting: 0 }
         const indexKey = StoreSubjects.flowRunIndex(flowName)
 
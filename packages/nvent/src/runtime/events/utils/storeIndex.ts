@@ -0,0 +1,37 @@
+/**
+ * Store Index Paging
+ *
+ * index.read returns a single page, and the size of an unlimited read is up to
+ * the adapter (50 entries on memory/Redis, 100 on Postgres). Callers that need
+ * every entry of an index page through it until it is exhausted.
+ */
+
+import type { StoreAdapter } from '../../adapters/interfaces/store'
+
+const PAGE_SIZE = 500
+
+export interface ReadAllIndexOptions {
+  /** Metadata filter, passed to every index.read */
+  filter?: Record<string, any>
+  /** Entries per index.read */
+  pageSize?: number
+}
+
+/**
+ * Read all entries of an index, in index order
+ * Entries added or removed while paging may be missed or returned twice
+ */
+export async function readAllIndex(
+  store: StoreAdapter,
+  key: string,
+  opts: ReadAllIndexOptions = {},
+): Promise<Array<{ id: string, score: number, metadata?: any }>> {
+  const pageSize = opts.pageSize ?? PAGE_SIZE
+  const entries: Array<{ id: string, score: number, metadata?: any }> = []
+
+  for (let offset = 0; ; offset += pageSize) {
+    const page = await store.index.read(key, { offset, limit: pageSize, filter: opts.filter })
+    entries.push(...page)
+    if (page.length < pageSize) return entries
+  }
+}
@@ -0,0 +1,57 @@
+/**
+ * Store Lock
+ *
+ * Short-lived mutex on top of the store's atomic KV primitives, for
+ * read-modify-write updates that must not interleave across instances.
+ * Acquired with kv.setNX and released with kv.compareAndSwap, so an instance
+ * never deletes a lock that expired and was taken over by someone else.
+ */
+
+import type { StoreAdapter } from '../../adapters/interfaces/store'
+
+export interface StoreLockOptions {
+  /**
+   * Lock TTL in seconds (frees the lock if the holder crashes)
+   * @default 30
+   */
+  ttl?: number
+
+  /**
+   * How long to wait for the lock in milliseconds
+   * @default 5000
+   */
+  timeout?: number
+}
+
+/**
+ * Run fn while holding the lock stored at key
+ * @throws If the lock can't be acquired within the timeout
+ */
+export async function withStoreLock<T>(
+  store: StoreAdapter,
+  key: string,
+  fn: () => Promise<T>,
+  opts: StoreLockOptions = {},
+): Promise<T> {
+  const ttl = opts.ttl ?? 30
+  const deadline = Date.now() + (opts.timeout ?? 5000)
+  const token = {
+    owner: `${Date.now()}-${Math.random().toString(36).substring(2, 10)}`,
+    acquiredAt: Date.now(),
+  }
+
+  let attempt = 0
+  while (!(await store.kv.setNX(key, token, ttl))) {
+    if (Date.now() > deadline) {
+      throw new Error(`Timed out waiting for lock "${key}"`)
+    }
+    await new Promise(resolve => setTimeout(resolve, Math.min(10 * 2 ** attempt++, 200)))
+  }
+
+  try {
+    return await fn()
+  }
+  finally {
+    await store.kv.compareAndSwap(key, token, null)
+  }
+}
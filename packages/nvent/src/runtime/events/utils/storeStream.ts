@@ -0,0 +1,51 @@
+/**
+ * Store Stream Paging
+ *
+ * stream.read returns a single page, and the size of an unlimited read is up to
+ * the adapter (1000 events on Redis/Postgres). Not every adapter supports reading
+ * after an event ID, so callers that need every event of a stream page through it
+ * by timestamp and drop the events of the boundary timestamp they already have.
+ */
+
+import type { EventRecord, StoreAdapter } from '../../adapters/interfaces/store'
+
+const PAGE_SIZE = 1000
+
+export interface ReadAllStreamOptions {
+  /** Events per stream.read */
+  pageSize?: number
+}
+
+/**
+ * Read all events of a stream, oldest first
+ */
+export async function readAllStream(
+  store: StoreAdapter,
+  subject: string,
+  opts: ReadAllStreamOptions = {},
+): Promise<EventRecord[]> {
+  let pageSize = opts.pageSize ?? PAGE_SIZE
+  const events: EventRecord[] = []
+  const seen = new Set<string>()
+  let from: number | undefined
+
+  for (;;) {
+    const page = await store.stream.read(subject, { from, limit: pageSize, order: 'asc' })
+    for (const event of page) {
+      if (seen.has(event.id)) continue
+      seen.add(event.id)
+      events.push(event)
+    }
+    if (page.length < pageSize) return events
+
+    const first = Number(page[0]!.ts)
+    const last = Number(page[page.length - 1]!.ts)
+    if (first === last) {
+      // A whole page shares one timestamp: read a larger page from there
+      pageSize *= 2
+    }
+    else {
+      from = last
+    }
+  }
+}
@@ -1,9 +1,24 @@
 import type { EventRecord } from '../../adapters/interfaces/store'
 import type { AwaitRegisteredEvent, AwaitResolvedEvent } from '../types'
 import { getEventBus } from '../eventBus'
-import { useNventLogger, useStoreAdapter, useQueueAdapter, $useAnalyzedFlows, $useFunctionRegistry, useStreamTopics, useRuntimeConfig, useScheduler } from '#imports'
+import { useNventLogger, useStoreAdapter, useQueueAdapter, $useFunctionRegistry, useStreamTopics, useRuntimeConfig, useScheduler, useFlow, useHookRegistry } from '#imports'
 import { createStallDetector } from '../utils/stallDetector'
+import { resolveRouteDecisions } from '../utils/flowRoutes'
+import { collectMapResults, getMapConcurrency, getNextMapItem, resolveMapItems } from '../utils/flowMap'
+import type { MapItemOutcome } from '../utils/flowMap'
 import { SYSTEM_HANDLERS } from '../../worker/system'
+import { resumeEndedSubflow, resumeParentRun } from '../../nitro/utils/awaitPatterns/flow'
+import { removeRunAwaitTasks } from '../../nitro/utils/awaitPatterns/form'
+import { getCompensationPlan } from '../utils/compensation'
+import { enqueueCompensation } from '../../worker/system/compensationHandlers'
+import type { FlowReplay } from '../utils/flowReplay'
+import { loadFlowDefinition, loadRunFlowDefinition } from '../utils/flowVersions'
+import { releaseRunSlot } from '../utils/flowConcurrency'
+import { readAllStream } from '../utils/storeStream'
+import { startFlowFromTrigger } from './triggerWiring'
+
+// Settled markers of map items outlive any run's item deliveries (seconds)
+const MAP_ITEM_SETTLED_TTL = 7 * 24 * 60 * 60
 
 /**
  * Check if all dependencies for a step are met
@@ -43,18 +58,10 @@ export async function checkAndTriggerPendingSteps(
 ): Promise<void> {
   const logger = useNventLogger('flow-wiring')
   try {
-    const analyzedFlows = $useAnalyzedFlows()
     const registry = $useFunctionRegistry() as any
     const queue = useQueueAdapter()
     const { StoreSubjects } = useStreamTopics()
 
-    // Get flow definition
-    const flowDef = analyzedFlows.find((f: any) => f.id === flowName) as any
-    if (!flowDef?.steps) {
-      logger.info('No flow definition or steps found', { flowName })
-      return
-    }
-
     // Get current flow metadata
     const indexKey = StoreSubjects.flowRunIndex(flowName)
     if (!store.index.get) {
@@ -67,9 +74,16 @@ export async function checkAndTriggerPendingSteps(
       return
     }
 
+    // Get the flow definition of the version the run started on
+    const flowDef = await loadFlowDefinition(flowName, flowEntry.metadata.flowVersion)
+    if (!flowDef?.steps) {
+      logger.info('No flow definition or steps found', { flowName })
+      return
+    }
+
     // Read all events to get completed steps
     const streamName = StoreSubjects.flowRun(runId)
-    const allEvents = await store.stream.read(streamName)
+    const allEvents = await readAllStream(store, streamName)
 
     // Check if flow is canceled - if so, don't trigger any new steps
     const isCanceled = allEvents.some((event: any) => event.type === 'flow.cancel')
@@ -118,12 +132,42 @@ export async function checkAndTriggerPendingSteps(
     // Get awaiting steps from flow metadata
     const awaitingSteps = flowEntry?.metadata?.awaitingSteps || {}
 
+    // Replayed run: steps taken over from the original run are never enqueued again
+    const replayedSteps = new Set<string>(flowEntry.metadata.replay?.steps || [])
+
+    // Evaluate flow.routes of completed routers
+    const routes = resolveRouteDecisions(flowDef.steps, flowDef.entry, allEvents)
+
     // Check all steps in the flow to see if any can now be triggered
     for (const [stepName, stepDef] of Object.entries(flowDef.steps)) {
       const step = stepDef as any
+      const routeSources = routes.sources[stepName]
 
       // Skip if step doesn't have dependencies or already completed
-      if (!step.subscribes || completedSteps.has(stepName)) continue
+      if ((!step.subscribes && !routeSources) || completedSteps.has(stepName)) continue
+      if (replayedSteps.has(stepName)) continue
+
+      // Dependents of map steps wait for the collected results, not for emits of single items
+      const analyzedDeps: string[] = flowDef.analyzed?.steps?.[stepName]?.dependsOn || []
+      const mapDeps = analyzedDeps.filter(dep => flowDef.steps[dep]?.map)
+      if (mapDeps.some(dep => !completedSteps.has(dep))) continue
+
+      // Routed step: only runs once a router selected it (and the router's awaitAfter resolved)
+      const routedBy = routes.selected[stepName] || []
+      if (routeSources) {
+        if (routedBy.length === 0) continue
+
+        const isRouterAwaiting = routedBy.every(({ router }) => {
+          const routerDef = flowDef.steps[router] || (router === flowDef.entry?.step ? flowDef.entry : undefined)
+          if (!routerDef?.awaitAfter) return false
+          const routerAwait = awaitingSteps[`${router}:after`]
+          if (routerAwait?.status === 'resolved') return false
+          return !allEvents.some((evt: any) =>
+            evt.type === 'await.resolved' && evt.stepName === router && evt.position === 'after',
+          )
+        })
+        if (isRouterAwaiting) continue
+      }
 
       // Check await state using composite key for awaitBefore
       const awaitBeforeKey = `${stepName}:before`
@@ -133,7 +177,7 @@ export async function checkAndTriggerPendingSteps(
 
       // Check if any dependency steps are currently awaiting (awaitAfter pattern)
       // If a step has awaitAfter, its emits should be blocked until await is resolved
-      const isDependencyAwaiting = step.subscribes.some((sub: string) => {
+      const isDependencyAwaiting = (step.subscribes || []).some((sub: string) => {
         const emitEvent = allEvents.find((evt: any) =>
           evt.type === 'emit' && evt.data?.name === sub,
         )
@@ -191,6 +235,17 @@ export async function checkAndTriggerPendingSteps(
       // Check if all dependencies are now satisfied
       const canTrigger = checkPendingStepTriggers(step, emittedEvents, completedSteps)
 
+      // Routed steps receive the router's return value, dependents of map steps the
+      // collected results, keyed like a step subscription
+      const routeData: Record<string, any> = {}
+      for (const { router, result } of routedBy) {
+        routeData[`step:${router}`] = result
+      }
+      for (const dep of mapDeps) {
+        const mapCompleted = allEvents.find((evt: any) => evt.type === 'step.completed' && evt.stepName === dep)
+        routeData[`step:${dep}`] = (mapCompleted?.data as any)?.result
+      }
+
       // awaitBefore: Register await pattern before step executes
       if (canTrigger && step.awaitBefore) {
         // If awaiting, skip this step for now
@@ -220,7 +275,7 @@ export async function checkAndTriggerPendingSteps(
               stepName,
               position: 'before' as const,
               awaitConfig: step.awaitBefore,
-              input: emitData,
+              input: { ...routeData, ...emitData },
             }
 
             const jobId = `${runId}__${stepName}__await-register-before`
@@ -309,7 +364,7 @@ export async function checkAndTriggerPendingSteps(
           const payload: any = {
             flowId: runId,
             flowName,
-            input: emitData, // Keyed by event name
+            input: { ...routeData, ...emitData }, // Keyed by event name (and step:<router> for routed steps)
           }
 
           // If step had awaitBefore that's now resolved, include await data and mark as resolved
@@ -338,6 +393,21 @@ export async function checkAndTriggerPendingSteps(
 
           const opts = { ...defaultOpts, jobId, timeout: stepTimeout }
 
+          // Map steps fan out into one job per item instead
+          if (step.map) {
+            try {
+              await startMapStep(flowName, runId, stepName, step, stepMeta.queue, payload.input, opts, store)
+            }
+            catch (err) {
+              logger.error('Failed to start map step', {
+                flowName,
+                stepName,
+                error: (err as Error).message,
+              })
+            }
+            continue
+          }
+
           try {
             await queue.enqueue(stepMeta.queue, { name: stepName, data: payload, opts })
           }
@@ -357,6 +427,260 @@ export async function checkAndTriggerPendingSteps(
   }
 }
 
+/**
+ * Start a map step (flow.map): persist its items and enqueue the first `concurrency` item jobs
+ * Does nothing if the step was already started for this run
+ */
+export async function startMapStep(
+  flowName: string,
+  runId: string,
+  stepName: string,
+  step: any,
+  queueName: string,
+  input: any,
+  jobOptions: Record<string, any>,
+  store: ReturnType<typeof useStoreAdapter>,
+): Promise<void> {
+  const logger = useNventLogger('flow-wiring')
+  const { StoreSubjects } = useStreamTopics()
+  const bus = getEventBus()
+  const mapKey = StoreSubjects.flowMaps(runId)
+
+  if (await store.index.get(mapKey, stepName)) return
+
+  const stepId = `${runId}__${stepName}__map`
+  const items = resolveMapItems(step.map, input)
+  const total = items?.length ?? 0
+  const concurrency = getMapConcurrency(step.map)
+  const { jobId: _jobId, ...itemOptions } = jobOptions
+
+  await store.index.add(mapKey, stepName, Date.now(), {
+    queue: queueName,
+    total,
+    concurrency,
+    onItemError: step.map.onItemError || 'fail',
+    jobOptions: JSON.stringify(itemOptions),
+    settled: 0,
+    failed: 0,
+    status: items ? 'running' : 'failed',
+  })
+
+  await bus.publish({
+    type: 'step.started',
+    runId,
+    flowName,
+    stepName,
+    stepId,
+    attempt: 1,
+    data: { name: stepName, queue: queueName, map: { total, concurrency } },
+  } as any)
+
+  if (!items) {
+    await bus.publish({
+      type: 'step.failed',
+      runId,
+      flowName,
+      stepName,
+      stepId,
+      attempt: 1,
+      data: { error: `Map step '${stepName}' expected an array${step.map.items ? ` at '${step.map.items}'` : ''} in its input` },
+    } as any)
+    return
+  }
+
+  if (total === 0) {
+    await completeMapStep(flowName, runId, stepName, step, queueName, [], step.map.onItemError, store)
+    return
+  }
+
+  await store.kv.set(StoreSubjects.flowMapItems(runId, stepName), items)
+
+  const queue = useQueueAdapter()
+  for (let index = 0; index < Math.min(concurrency, total); index++) {
+    await queue.enqueue(queueName, {
+      name: stepName,
+      data: { flowId: runId, flowName, input: items[index], mapItem: { index, total } },
+      opts: { ...itemOptions, jobId: `${runId}__${stepName}__item-${index}` },
+    })
+  }
+
+  logger.debug('Started map step', { flowName, runId, stepName, total, concurrency })
+}
+
+/**
+ * Record a settled item of a map step (step.item.completed / final step.item.failed),
+ * enqueue the next item and complete or fail the map step according to `onItemError`
+ */
+export async function settleMapItem(
+  flowName: string,
+  runId: string,
+  e: EventRecord,
+  store: ReturnType<typeof useStoreAdapter>,
+): Promise<void> {
+  const logger = useNventLogger('flow-wiring')
+  const { StoreSubjects } = useStreamTopics()
+  const stepName = e.stepName
+  const index = Number(e.data?.index)
+  if (!stepName || !Number.isInteger(index)) return
+
+  const mapKey = StoreSubjects.flowMaps(runId)
+  const resultsKey = StoreSubjects.flowMapResults(runId, stepName)
+  const mapEntry = await store.index.get(mapKey, stepName)
+  const map = mapEntry?.metadata
+  if (!map || map.status !== 'running') return
+
+  // Canceled runs don't enqueue further items
+  const runEntry = await store.index.get(StoreSubjects.flowRunIndex(flowName), runId)
+  if (runEntry?.metadata?.status === 'canceled') return
+
+  // Duplicate delivery of the same item (claimed atomically: deliveries may race on other instances)
+  const claimed = await store.kv.setNX(StoreSubjects.flowMapItemSettled(runId, stepName, index), Date.now(), MAP_ITEM_SETTLED_TTL)
+  if (!claimed) return
+
+  const failed = e.type === 'step.item.failed'
+  await store.index.add(resultsKey, String(index), index, failed
+    ? { status: 'failed', error: e.data?.error || 'Unknown error' }
+    : { status: 'completed', result: JSON.stringify(e.data?.result ?? null) })
+
+  const flowDef = await loadFlowDefinition(flowName, runEntry?.metadata?.flowVersion)
+  const step = flowDef?.steps?.[stepName]
+  const onItemError = map.onItemError || 'fail'
+
+  if (failed) {
+    await store.index.increment(mapKey, stepName, 'failed', 1)
+    if (onItemError === 'fail') {
+      await store.index.updateWithRetry(mapKey, stepName, { status: 'failed' })
+      await store.kv.delete(StoreSubjects.flowMapItems(runId, stepName))
+      await getEventBus().publish({
+        type: 'step.failed',
+        runId,
+        flowName,
+        stepName,
+        stepId: `${runId}__${stepName}__map`,
+        attempt: 1,
+        data: { error: `Item ${index} failed: ${e.data?.error || 'Unknown error'}`, index },
+      } as any)
+      return
+    }
+  }
+
+  const total = Number(map.total)
+  const settled = await store.index.increment(mapKey, stepName, 'settled', 1)
+
+  const next = getNextMapItem(settled, Number(map.concurrency), total)
+  if (next !== undefined) {
+    const items = await store.kv.get<any[]>(StoreSubjects.flowMapItems(runId, stepName))
+    if (!items) {
+      logger.warn('Map items missing, cannot enqueue next item', { flowName, runId, stepName, index: next })
+      return
+    }
+    const jobOptions = typeof map.jobOptions === 'string' ? JSON.parse(map.jobOptions) : {}
+    try {
+      await useQueueAdapter().enqueue(map.queue, {
+        name: stepName,
+        data: { flowId: runId, flowName, input: items[next], mapItem: { index: next, total } },
+        opts: { ...jobOptions, jobId: `${runId}__${stepName}__item-${next}` },
+      })
+    }
+    catch {
+      // Ignore - likely already enqueued (idempotency)
+    }
+  }
+
+  if (settled < total) return
+
+  const entries = await store.index.read(resultsKey, { limit: total })
+  const outcomes: MapItemOutcome[] = entries.map((entry: { id: string, metadata?: any }) => ({
+    index: Number(entry.id),
+    status: entry.metadata?.status,
+    result: entry.metadata?.result !== undefined ? JSON.parse(entry.metadata.result) : undefined,
+    error: entry.metadata?.error,
+  }))
+  await completeMapStep(flowName, runId, stepName, step, map.queue, outcomes, onItemError, store)
+}
+
+/**
+ * Publish the collected results of a map step and register its awaitAfter
+ */
+async function completeMapStep(
+  flowName: string,
+  runId: string,
+  stepName: string,
+  step: any,
+  queueName: string,
+  outcomes: MapItemOutcome[],
+  onItemError: 'fail' | 'skip' | 'collect' | undefined,
+  store: ReturnType<typeof useStoreAdapter>,
+): Promise<void> {
+  const { StoreSubjects } = useStreamTopics()
+  const result = collectMapResults(outcomes, onItemError)
+
+  await store.index.updateWithRetry(StoreSubjects.flowMaps(runId), stepName, { status: 'completed' })
+  await store.kv.delete(StoreSubjects.flowMapItems(runId, stepName))
+
+  await getEventBus().publish({
+    type: 'step.completed',
+    runId,
+    flowName,
+    stepName,
+    stepId: `${runId}__${stepName}__map`,
+    attempt: 1,
+    data: { result },
+  } as any)
+
+  if (step?.awaitAfter) {
+    const flowDef = await loadRunFlowDefinition(flowName, runId)
+    await useQueueAdapter().enqueue(queueName, {
+      name: SYSTEM_HANDLERS.AWAIT_REGISTER,
+      data: {
+        flowId: runId,
+        flowName,
+        stepName,
+        position: 'after' as const,
+        awaitConfig: step.awaitAfter,
+        input: { result },
+      },
+      opts: { jobId: `${runId}__${stepName}__await-register-after`, timeout: flowDef?.analyzed?.steps?.[stepName]?.stepTimeout },
+    })
+  }
+}
+
+/**
+ * Start compensating a failed or canceled run
+ * Completed steps with an onCompensate hook are compensated in reverse completion order,
+ * one system job at a time (see compensationHandlers.ts)
+ */
+export async function startCompensation(
+  flowName: string,
+  runId: string,
+  reason: 'failed' | 'canceled',
+  error?: string,
+) {
+  const logger = useNventLogger('flow-wiring')
+  const store = useStoreAdapter()
+  const { StoreSubjects } = useStreamTopics()
+  const hookRegistry = useHookRegistry()
+
+  const events = await readAllStream(store, StoreSubjects.flowRun(runId))
+  const steps = getCompensationPlan(events as any[], stepName => !!hookRegistry.load(flowName, stepName)?.onCompensate)
+  if (steps.length === 0) return
+
+  logger.info('Compensating run', { flowName, runId, reason, steps: steps.map(s => s.stepName) })
+  await enqueueCompensation({ flowId: runId, flowName, reason, error, steps })
+}
+
+/**
+ * Data of a terminal event: the result of the last completed step for flow.completed,
+ * the error of the last failed step for flow.failed (read by parents of sub-flows)
+ */
+function getTerminalEventData(eventType: 'flow.completed' | 'flow.failed', events: any[]) {
+  const stepType = eventType === 'flow.completed' ? 'step.completed' : 'step.failed'
+  const last = [...events].reverse().find((evt: any) => evt.type === stepType)
+  return eventType === 'flow.completed'
+    ? { result: last?.data?.result }
+    : { error: last?.data?.error }
+}
+
 /**
  * Analyze flow completion status from events
  * Returns status, step counts, and timestamps
@@ -387,6 +711,8 @@ export function analyzeFlowCompletion(
   let startedAt = 0
   let completedAt = 0
 
+  // Per-item events of map steps (step.item.*) are not considered here: a map step
+  // is settled by the step.completed/step.failed published once for all its items
   for (const event of events) {
     if (event.type === 'flow.start') {
       startedAt = typeof event.ts === 'string' ? new Date(event.ts).getTime() : 0
@@ -478,6 +804,30 @@ export function analyzeFlowCompletion(
     }
   }
 
+  // Route targets depend on their routers; targets of branches not taken are skipped,
+  // as is everything downstream that only depends on skipped steps
+  const routes = resolveRouteDecisions(flowSteps, entryStep ? { ...entryStepDef, step: entryStep } : undefined, events)
+  for (const [target, routers] of Object.entries(routes.sources)) {
+    for (const router of routers) {
+      stepDependencies.get(target)?.add(router)
+      stepDependents.get(router)?.add(target)
+    }
+  }
+
+  const skippedSteps = new Set<string>(routes.skipped)
+  let changed = skippedSteps.size > 0
+  while (changed) {
+    changed = false
+    for (const stepName of allSteps) {
+      if (skippedSteps.has(stepName) || completedSteps.has(stepName) || finalFailedSteps.has(stepName)) continue
+      const deps = stepDependencies.get(stepName)
+      if (deps && deps.size > 0 && Array.from(deps).every(dep => skippedSteps.has(dep))) {
+        skippedSteps.add(stepName)
+        changed = true
+      }
+    }
+  }
+
   // Check if any failed step blocks the flow from completing
   // A failed step blocks the flow if:
   // 1. It has downstream dependents that haven't completed (blocking failure)
@@ -570,10 +920,10 @@ export function analyzeFlowCompletion(
   }
 
   // Flow completes when all steps have reached a terminal state
-  // A step is in terminal state if it's: completed OR failed
+  // A step is in terminal state if it's: completed OR failed OR skipped (branch not taken)
   // Parallel branch failures are OK as long as at least one sibling succeeded
   const allStepsTerminal = allSteps.every(step =>
-    completedSteps.has(step) || finalFailedSteps.has(step),
+    completedSteps.has(step) || finalFailedSteps.has(step) || skippedSteps.has(step),
   )
 
   let status: 'running' | 'completed' | 'failed' | 'canceled' | 'awaiting' = 'running'
@@ -593,6 +943,79 @@ export function analyzeFlowCompletion(
   }
 }
 
+/**
+ * Resolved awaits of the steps a replayed run takes over from its original run
+ * Without them, dependents of awaitAfter steps would wait for an await that never registers.
+ */
+async function getReplayedAwaits(flowName: string, replay: FlowReplay): Promise<Record<string, any>> {
+  const store = useStoreAdapter()
+  const { StoreSubjects } = useStreamTopics()
+  const entry = await store.index.get(StoreSubjects.flowRunIndex(flowName), replay.runId)
+  const awaitingSteps = (entry?.metadata as any)?.awaitingSteps || {}
+
+  const replayed: Record<string, any> = {}
+  for (const [key, awaitState] of Object.entries<any>(awaitingSteps)) {
+    if (awaitState?.status === 'resolved' && replay.steps.includes(awaitState.stepName)) {
+      replayed[key] = awaitState
+    }
+  }
+  return replayed
+}
+
+/**
+ * Give back the concurrency slot of an ended run and start the queued runs that take it over
+ */
+async function releaseConcurrencySlot(flowName: string, runId: string): Promise<void> {
+  const store = useStoreAdapter()
+  const { StoreSubjects } = useStreamTopics()
+
+  const entry = await store.index.get(StoreSubjects.flowRunIndex(flowName), runId)
+  const key = (entry?.metadata as any)?.concurrencyKey as string | undefined
+  if (key === undefined) return
+
+  await handOverRunSlot(flowName, key, runId)
+}
+
+/**
+ * Give back a run's concurrency slot and start the queued runs that take it over
+ * A queued start that fails hands its slot on to the next one.
+ */
+export async function handOverRunSlot(flowName: string, key: string, runId: string): Promise<void> {
+  const logger = useNventLogger('flow-wiring')
+
+  const concurrency = ($useFunctionRegistry() as any)?.flows?.[flowName]?.entry?.concurrency
+  const released = [runId]
+  while (released.length > 0) {
+    const next = await releaseRunSlot(flowName, concurrency, key, released.shift()!)
+    for (const queued of next) {
+      try {
+        if (queued.trigger) {
+          const started = await startFlowFromTrigger(flowName, queued.trigger, queued.input, { runId: queued.runId })
+          if (!started) throw new Error('Flow could not be started from trigger')
+        }
+        else if (queued.replay) {
+          await useFlow().replayFlow(flowName, queued.replay.runId, { fromStep: queued.replay.fromStep, runId: queued.runId })
+        }
+        else {
+          await useFlow().startFlow(flowName, queued.input, {
+            runId: queued.runId,
+            ...(queued.parent ? { parent: queued.parent } : {}),
+          })
+        }
+        logger.info('Started queued flow run', { flowName, runId: queued.runId, key, releasedBy: runId })
+      }
+      catch (err) {
+        logger.error('Failed to start queued flow run', {
+          flowName,
+          runId: queued.runId,
+          error: (err as any)?.message,
+        })
+        released.push(queued.runId)
+      }
+    }
+  }
+}
+
 /**
  * Lean Flow Wiring
  *
@@ -724,6 +1147,60 @@ export function createFlowWiring() {
         // StreamWiring listens for persisted events (id+ts) and publishes to UI
         await bus.publish(persistedEvent as any)
 
+        // Sub-flow ended: resume the parent step awaiting it
+        if (e.type === 'flow.completed' || e.type === 'flow.failed' || e.type === 'flow.cancel') {
+          try {
+            await resumeParentRun(flowName, runId, e)
+          }
+          catch (err) {
+            logger.error('Failed to resume parent of sub-flow', {
+              flowName,
+              runId,
+              error: (err as any)?.message,
+            })
+          }
+        }
+
+        // Undo completed steps of failed and canceled runs (onCompensate hooks)
+        if (e.type === 'flow.failed' || e.type === 'flow.cancel') {
+          try {
+            await startCompensation(flowName, runId, e.type === 'flow.failed' ? 'failed' : 'canceled', (e.data as any)?.error)
+          }
+          catch (err) {
+            logger.error('Failed to start compensation', {
+              flowName,
+              runId,
+              error: (err as any)?.message,
+            })
+          }
+        }
+
+        // Hand the concurrency slot to the next queued start (flow.concurrency)
+        if (e.type === 'flow.completed' || e.type === 'flow.failed' || e.type === 'flow.cancel') {
+          try {
+            await releaseConcurrencySlot(flowName, runId)
+          }
+          catch (err) {
+            logger.error('Failed to release concurrency slot', {
+              flowName,
+              runId,
+              error: (err as any)?.message,
+            })
+          }
+
+          // Nobody can resume an ended run, so take its open tasks out of the task inbox
+          try {
+            await removeRunAwaitTasks(flowName, runId)
+          }
+          catch (err) {
+            logger.error('Failed to remove open tasks', {
+              flowName,
+              runId,
+              error: (err as any)?.message,
+            })
+          }
+        }
+
         if (e.type === 'flow.completed' || e.type === 'flow.failed') {
           // Unschedule ALL flow-related scheduled jobs (stall timeout + await timeouts)
           try {
@@ -972,6 +1449,11 @@ export function createFlowWiring() {
         if (e.type === 'flow.start') {
           const timestamp = Date.now()
 
+          const parent = (e.data as any)?.parent
+          const flowVersion = (e.data as any)?.flowVersion as string | undefined
+          const replay = (e.data as any)?.replay as FlowReplay | undefined
+          const concurrencyKey = (e.data as any)?.concurrencyKey as string | undefined
+
           await indexFlowRun(flowName, runId, timestamp, {
             status: 'running',
             startedAt: timestamp,
@@ -979,13 +1461,40 @@ export function createFlowWiring() {
             stepCount: 0,
             completedSteps: 0,
             emittedEvents: {}, // Object for atomic updates
+            ...(flowVersion ? { flowVersion } : {}),
+            ...(concurrencyKey !== undefined ? { concurrencyKey } : {}),
+            ...(parent ? { parent } : {}),
+            ...(replay ? { replay, awaitingSteps: await getReplayedAwaits(flowName, replay) } : {}),
           })
 
+          // Sub-flow: link the child from the parent run (used for cascading cancels and the UI)
+          if (parent?.runId && parent.flowName) {
+            try {
+              await store.index.updateWithRetry(StoreSubjects.flowRunIndex(parent.flowName), parent.runId, {
+                children: {
+                  [runId]: {
+                    flowName,
+                    stepName: parent.stepName,
+                    position: parent.position,
+                    startedAt: timestamp,
+                  },
+                },
+              })
+            }
+            catch (err) {
+              logger.warn('Failed to link sub-flow to parent run', {
+                flowName,
+                runId,
+                parentRunId: parent.runId,
+                error: (err as any)?.message,
+              })
+            }
+          }
+
           // Schedule per-flow stall timeout job
           try {
-            // Get stallTimeout from analyzed flows
-            const analyzedFlows = $useAnalyzedFlows() as any[]
-            const flowMeta = analyzedFlows.find((f: any) => f.id === flowName)
+            // Get stallTimeout from the definition the run started on
+            const flowMeta = await loadFlowDefinition(flowName, (e.data as any)?.flowVersion)
             const stallTimeout = flowMeta?.analyzed?.stallTimeout || (30 * 60 * 1000)
 
             const scheduler = useScheduler()
@@ -1054,17 +1563,40 @@ export function createFlowWiring() {
               error: (err as any)?.message,
             })
           }
+
+          // Cascade to active sub-flows
+          try {
+            const entry = await store.index.get(indexKey, runId)
+            const children = (entry?.metadata as any)?.children || {}
+            for (const [childRunId, child] of Object.entries<any>(children)) {
+              if (!child?.flowName) continue
+              const childEntry = await store.index.get(StoreSubjects.flowRunIndex(child.flowName), childRunId)
+              const childStatus = (childEntry?.metadata as any)?.status
+              if (childStatus !== 'running' && childStatus !== 'awaiting') continue
+
+              await useFlow().cancelFlow(child.flowName, childRunId)
+              logger.info('Canceled sub-flow of canceled run', { flowName, runId, childFlowName: child.flowName, childRunId })
+            }
+          }
+          catch (err) {
+            logger.warn('Failed to cancel sub-flows', {
+              flowName,
+              runId,
+              error: (err as any)?.message,
+            })
+          }
         }
 
         // For step events, reschedule stall timeout (extend deadline)
-        if (e.type === 'step.started' || e.type === 'step.completed' || e.type === 'step.failed' || e.type === 'step.retry') {
+        // Map item events count as activity too, so long-running map steps don't stall
+        // Compensation runs after the run ended, so it doesn't extend the deadline
+        if (e.type.startsWith('step.') && !e.type.startsWith('step.compensat')) {
           try {
             const scheduler = useScheduler()
             const stallJobId = `stall-timeout:${runId}`
 
-            // Get flow-specific stall timeout
-            const analyzedFlows = $useAnalyzedFlows() as any[]
-            const flowMeta = analyzedFlows.find((f: any) => f.id === flowName)
+            // Get flow-specific stall timeout (of the definition the run started on)
+            const flowMeta = await loadRunFlowDefinition(flowName, runId)
             const stallTimeout = flowMeta?.analyzed?.stallTimeout || (30 * 60 * 1000)
 
             // Reschedule by canceling and creating new job with extended deadline
@@ -1164,6 +1696,8 @@ export function createFlowWiring() {
 
               // Use composite key: stepName:position to support both awaitBefore and awaitAfter
               const awaitKey = `${stepName}:${position}`
+              // Webhook awaits only accept URLs signed for this registration
+              const tokenId = (awaitEvent as any).data?.tokenId
 
               const updatePayload = {
                 status: 'awaiting', // Set flow status to awaiting
@@ -1176,6 +1710,7 @@ export function createFlowWiring() {
                     config,
                     registeredAt: now,
                     timeoutAt,
+                    ...(tokenId ? { tokenId } : {}),
                   },
                 },
               }
@@ -1189,6 +1724,12 @@ export function createFlowWiring() {
                 position,
                 timeoutAt: new Date(timeoutAt).toISOString(),
               })
+
+              // The sub-flow may have ended before its parent was awaiting it
+              const subflow = (awaitEvent as any).data?.subflow
+              if (awaitType === 'flow' && subflow?.runId) {
+                await resumeEndedSubflow(runId, stepName, flowName, position, subflow)
+              }
             }
           }
           catch (err) {
@@ -1203,7 +1744,7 @@ export function createFlowWiring() {
         // For await.resolved events, update status and resume step
         if (e.type === 'await.resolved') {
           const awaitEvent = e as unknown as AwaitResolvedEvent
-          const { stepName, triggerData, position } = awaitEvent
+          const { stepName, triggerData, position, awaitType } = awaitEvent
 
           try {
             // Check if flow is already canceled before resuming
@@ -1216,6 +1757,33 @@ export function createFlowWiring() {
               }
             }
 
+            // A failed or canceled sub-flow fails the awaiting step instead of resuming it
+            if (awaitType === 'flow' && triggerData?.status !== 'completed') {
+              await store.index.updateWithRetry(indexKey, runId, {
+                awaitingSteps: {
+                  [`${stepName}:${position}`]: {
+                    status: 'failed',
+                    stepName,
+                    triggerData,
+                    position,
+                  },
+                },
+              })
+
+              bus.publish({
+                type: 'step.failed',
+                runId,
+                flowName,
+                stepName,
+                stepId: `${runId}__${stepName}__subflow`,
+                attempt: 1,
+                data: {
+                  error: `Sub-flow '${triggerData?.flowName}' ${triggerData?.status || 'failed'}${triggerData?.error ? `: ${triggerData.error}` : ''}`,
+                },
+              })
+              return
+            }
+
             if (store.index.updateWithRetry) {
               // Use composite key: stepName:position to support both awaitBefore and awaitAfter
               const awaitKey = `${stepName}:${position}`
@@ -1241,7 +1809,7 @@ export function createFlowWiring() {
             const inputData: any = {}
 
             if (store.stream.read) {
-              const events = await store.stream.read(streamName, { limit: 100 })
+              const events = await readAllStream(store, streamName)
               const registry = $useFunctionRegistry() as any
               const flowRegistry = (registry?.flows || {})[flowName]
               const stepMeta = flowRegistry?.steps?.[stepName]
@@ -1355,7 +1923,7 @@ export function createFlowWiring() {
             const inputData: any = {}
 
             if (store.stream.read) {
-              const events = await store.stream.read(streamName, { limit: 100 })
+              const events = await readAllStream(store, streamName)
               const registry = $useFunctionRegistry() as any
               const flowRegistry = (registry?.flows || {})[flowName]
               const stepMeta = flowRegistry?.steps?.[stepName]
@@ -1531,6 +2099,22 @@ export function createFlowWiring() {
           }
         }
 
+        // Map steps: settle the item, enqueue the next one and complete the step once all are done
+        // (step.item.failed is only published after the item's final attempt)
+        if (e.type === 'step.item.completed' || e.type === 'step.item.failed') {
+          try {
+            await settleMapItem(flowName, runId, e, store)
+          }
+          catch (err) {
+            logger.error('Error settling map item', {
+              flowName,
+              runId,
+              stepName: e.stepName,
+              error: (err as Error).message,
+            })
+          }
+        }
+
         // For step.completed, trigger orchestration to check pending steps
         // IMPORTANT: Do NOT trigger orchestration on step.failed events!
         // - step.failed is emitted for EVERY failed attempt (including retries)
@@ -1557,11 +2141,10 @@ export function createFlowWiring() {
         if (e.type === 'step.completed' || e.type === 'step.failed') {
           try {
             // Read all events for this flow to analyze completion
-            const allEvents = await store.stream.read(streamName)
+            const allEvents = await readAllStream(store, streamName)
 
-            // Get analyzed flow definition from build-time analysis
-            const analyzedFlows = $useAnalyzedFlows()
-            const flowDef = analyzedFlows.find((f: any) => f.id === flowName)
+            // Analyze completion against the flow version the run started on
+            const flowDef = await loadRunFlowDefinition(flowName, runId)
 
             if (flowDef?.steps) {
               const entryStepName = (flowDef as any).entry?.step
@@ -1683,7 +2266,7 @@ export function createFlowWiring() {
                     type: eventType,
                     runId,
                     flowName,
-                    data: {},
+                    data: getTerminalEventData(eventType, allEvents),
                   } as any)
                 }
               }
@@ -1766,13 +2349,16 @@ export function createFlowWiring() {
     const eventTypes = [
       'flow.start', 'flow.completed', 'flow.failed', 'flow.cancel',
       'step.started', 'step.completed', 'step.failed', 'step.retry',
+      'step.item.started', 'step.item.completed', 'step.item.failed', 'step.item.retry',
+      'step.compensating', 'step.compensated',
       'await.registered', 'await.resolved', 'await.timeout',
       'log', 'emit', 'state',
     ]
 
     // Register sequential processing wrapper for all flow event types
+    // (exclusive: with the cluster bus only the instance claiming an event processes it)
     for (const type of eventTypes) {
-      unsubs.push(bus.onType(type, processEventSequentially))
+      unsubs.push(bus.onType(type, processEventSequentially, { exclusive: true }))
     }
 
     // Initialize and start stall detector
@@ -2,6 +2,7 @@ import { createFlowWiring } from './flowWiring'
 import { createStreamWiring } from './streamWiring'
 import { createStateWiring } from './stateWiring'
 import { createTriggerWiring } from './triggerWiring'
+import { createSinkWiring } from './sinkWiring'
 
 // Use globalThis to ensure singleton survives HMR reloads when used as npm package
 const WIRING_KEY = '__nvent_wiring__'
@@ -48,6 +49,9 @@ export function createWiringRegistry(opts?: WiringRegistryOptions): Wiring {
 
     // 4. Trigger wiring (v0.5: trigger.fired, await.registered, await.resolved)
     createTriggerWiring(),
+
+    // 5. Sink wiring (deliver persisted events to outbound sinks)
+    createSinkWiring(),
   ]
   let started = false
   const wiring: Wiring = {
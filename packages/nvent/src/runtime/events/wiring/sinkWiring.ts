@@ -0,0 +1,93 @@
+/**
+ * Sink Wiring - Bridge event bus to the outbound event sinks (`nvent.sinks`)
+ *
+ * Flow:
+ * Event Bus → SinkWiring → dispatchSinkEvent → webhook / custom sink
+ *
+ * Only forwards persisted events (with id/ts), like streamWiring, so every event
+ * is delivered once. Type and flow filters are applied per sink.
+ */
+
+import type { EventRecord } from '../../adapters/interfaces/store'
+import { getEventBus } from '../eventBus'
+import { dispatchSinkEvent, getSinkConfigs } from '../../sinks'
+import { useNventLogger } from '#imports'
+
+/**
+ * Create sink wiring
+ *
+ * No-op when no sinks are configured
+ */
+export function createSinkWiring() {
+  const bus = getEventBus()
+  const unsubs: Array<() => void> = []
+  let wired = false
+
+  function start() {
+    if (wired) return
+    wired = true
+
+    const logger = useNventLogger('sink-wiring')
+    const sinks = getSinkConfigs()
+    if (sinks.length === 0) return
+
+    const handleEvent = async (e: EventRecord) => {
+      // Only forward persisted events (with id/ts from store)
+      if (!e.id || !e.ts) return
+
+      try {
+        await dispatchSinkEvent(e)
+      }
+      catch (err) {
+        logger.error('Failed to dispatch event to sinks', {
+          type: e.type,
+          runId: e.runId,
+          error: (err as any)?.message,
+        })
+      }
+    }
+
+    // Flow and trigger lifecycle events sinks can subscribe to
+    const eventTypes = [
+      'flow.start',
+      'flow.completed',
+      'flow.failed',
+      'flow.cancel',
+      'step.started',
+      'step.completed',
+      'step.failed',
+      'step.retry',
+      'step.compensating',
+      'step.compensated',
+      'await.registered',
+      'await.resolved',
+      'await.timeout',
+      'trigger.registered',
+      'trigger.updated',
+      'trigger.deleted',
+      'trigger.fired',
+      'trigger.rejected',
+    ]
+
+    for (const type of eventTypes) {
+      unsubs.push(bus.onType(type, handleEvent, { exclusive: true }))
+    }
+
+    logger.info('Sink wiring started', { sinks: sinks.map(s => s.name) })
+  }
+
+  function stop() {
+    for (const unsub of unsubs.splice(0)) {
+      try {
+        unsub()
+      }
+      catch {
+        // ignore
+      }
+    }
+
+    wired = false
+  }
+
+  return { start, stop }
+}
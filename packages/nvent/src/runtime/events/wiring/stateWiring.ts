@@ -107,10 +107,10 @@ export function createStateWiring(opts?: StateWiringOptions) {
       // Cleanup on flow stalled
       const handleFlowStalled = (event: EventRecord) => cleanupFlowState(event, 'flow stall')
 
-      unsubs.push(bus.onType('flow.completed', handleFlowCompleted))
-      unsubs.push(bus.onType('flow.failed', handleFlowFailed))
-      unsubs.push(bus.onType('flow.cancel', handleFlowCanceled))
-      unsubs.push(bus.onType('flow.stalled', handleFlowStalled))
+      unsubs.push(bus.onType('flow.completed', handleFlowCompleted, { exclusive: true }))
+      unsubs.push(bus.onType('flow.failed', handleFlowFailed, { exclusive: true }))
+      unsubs.push(bus.onType('flow.cancel', handleFlowCanceled, { exclusive: true }))
+      unsubs.push(bus.onType('flow.stalled', handleFlowStalled, { exclusive: true }))
 
       logger.debug('State cleanup enabled: on-complete (includes stalled and canceled)')
     }
@@ -141,7 +141,7 @@ export function createStateWiring(opts?: StateWiringOptions) {
         }
       }
 
-      unsubs.push(bus.onType('step.completed', handleStepCompleted))
+      unsubs.push(bus.onType('step.completed', handleStepCompleted, { exclusive: true }))
 
       logger.debug('State cleanup enabled: immediate')
     }
@@ -146,6 +146,10 @@ export function createStreamWiring(opts: StreamWiringOptions = {}) {
       'step.completed',
       'step.failed',
       'step.retry',
+      'step.item.completed',
+      'step.item.failed',
+      'step.compensating',
+      'step.compensated',
       'await.registered',
       'await.resolved',
       'await.timeout',
@@ -159,6 +163,7 @@ export function createStreamWiring(opts: StreamWiringOptions = {}) {
       'trigger.updated',
       'trigger.deleted',
       'trigger.fired',
+      'trigger.rejected',
       'subscription.added',
       'subscription.removed',
     ]
@@ -205,19 +210,19 @@ export function createStreamWiring(opts: StreamWiringOptions = {}) {
 
     // Register flow event handlers
     for (const type of flowEventTypes) {
-      unsubs.push(bus.onType(type, handleFlowEvent))
+      unsubs.push(bus.onType(type, handleFlowEvent, { exclusive: true }))
     }
 
     // Register trigger event handlers
     for (const type of triggerEventTypes) {
-      unsubs.push(bus.onType(type, handleTriggerEvent))
+      unsubs.push(bus.onType(type, handleTriggerEvent, { exclusive: true }))
     }
 
     // Register flow stats update handler
-    unsubs.push(bus.onType('flow.stats.updated', handleFlowStatsUpdate))
+    unsubs.push(bus.onType('flow.stats.updated', handleFlowStatsUpdate, { exclusive: true }))
 
     // Register trigger stats update handler
-    unsubs.push(bus.onType('trigger.stats.updated', handleTriggerStatsUpdate))
+    unsubs.push(bus.onType('trigger.stats.updated', handleTriggerStatsUpdate, { exclusive: true }))
 
     logger.info('Stream wiring started - listening for persisted flow and trigger events')
   }
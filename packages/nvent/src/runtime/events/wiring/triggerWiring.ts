@@ -2,9 +2,12 @@ import type { EventRecord } from '../../adapters/interfaces/store'
 import type { TriggerFiredEvent } from '../types'
 import type { TriggerEntry, TriggerSubscription } from '../../../registry/types'
 import { getEventBus } from '../eventBus'
-import { useTrigger, useNventLogger, useStoreAdapter, useQueueAdapter, $useAnalyzedFlows, $useFunctionRegistry, useStreamTopics } from '#imports'
+import { useTrigger, useNventLogger, useStoreAdapter, useQueueAdapter, $useAnalyzedFlows, $useFunctionRegistry, useStreamTopics, useSchemaRegistry, useFlow } from '#imports'
 import { getTriggerRuntime } from '../utils/triggerRuntime'
 import { scheduleTrigger, unscheduleTrigger } from '../utils/scheduleTrigger'
+import { withStoreLock } from '../utils/storeLock'
+import { acquireRunSlot, FlowConcurrencyError } from '../utils/flowConcurrency'
+import { claimIdempotencyKey, releaseIdempotencyKey } from '../utils/flowIdempotency'
 
 /**
  * Create trigger event wiring
@@ -26,6 +29,32 @@ export function createTriggerWiring() {
     const { StoreSubjects } = useStreamTopics()
     const runtime = getTriggerRuntime(store, logger)
 
+    /**
+     * Update a trigger index entry under the trigger's store lock
+     * `build` gets the current metadata and returns the patch (or null to skip),
+     * so read-modify-write updates and their `version` bump can't interleave
+     * between instances.
+     * @returns Version of the entry after the update, or null if skipped
+     */
+    const updateTriggerEntry = async (
+      triggerName: string,
+      build: (metadata: Record<string, any>) => Record<string, any> | null,
+    ): Promise<number | null> => {
+      const indexKey = StoreSubjects.triggerIndex()
+
+      return withStoreLock(store, StoreSubjects.triggerLock(triggerName), async () => {
+        const entry = await store.index.get(indexKey, triggerName)
+        if (!entry?.metadata) return null
+
+        const patch = build(entry.metadata)
+        if (!patch) return null
+
+        const version = (entry.metadata.version || 1) + 1
+        await store.index.updateWithRetry(indexKey, triggerName, { ...patch, version })
+        return version
+      })
+    }
+
     // Initialize trigger runtime
     await trigger.initialize()
 
@@ -129,27 +158,6 @@ export function createTriggerWiring() {
             })
           }
 
-          // Add to runtime
-          const entry: TriggerEntry = {
-            name: data.name,
-            type: data.type,
-            scope: data.scope,
-            status: 'active',
-            displayName: data.displayName,
-            description: data.description,
-            source: data.source || 'programmatic',
-            registeredAt: now,
-            registeredBy: 'runtime',
-            lastActivityAt: now,
-            subscriptions: {},
-            stats: { totalFires: 0, totalFlowsStarted: 0, activeSubscribers: 0 },
-            webhook: data.webhook,
-            schedule: data.schedule,
-            config: data.config,
-            version: 1,
-          }
-          runtime.addTrigger(triggerName, entry)
-
           logger.info('Registered trigger in index', { triggerName })
 
           // If this is a schedule trigger, create the scheduler job
@@ -158,46 +166,29 @@ export function createTriggerWiring() {
           }
         }
 
-        // For trigger.updated, update index AND runtime
+        // For trigger.updated, update index
         if (e.type === 'trigger.updated') {
           const data = e.data as any
 
-          if (store.index.updateWithRetry) {
-            await store.index.updateWithRetry(indexKey, triggerName, {
-              type: data.type,
-              scope: data.scope,
-              status: data.status,
-              displayName: data.displayName,
-              description: data.description,
-              webhook: data.webhook,
-              schedule: data.schedule,
-              config: data.config,
-              lastActivityAt: now,
-            })
-          }
-
-          // Update runtime state with new config
-          const existing = runtime.getTrigger(triggerName)
-          if (existing) {
-            const updated: TriggerEntry = {
-              ...existing,
-              status: data.status !== undefined ? data.status : existing.status,
-              displayName: data.displayName !== undefined ? data.displayName : existing.displayName,
-              description: data.description !== undefined ? data.description : existing.description,
-              webhook: data.webhook !== undefined ? data.webhook : existing.webhook,
-              schedule: data.schedule !== undefined ? data.schedule : existing.schedule,
-              config: data.config !== undefined ? data.config : existing.config,
-              lastActivityAt: now,
-            }
-            runtime.addTrigger(triggerName, updated)
+          await updateTriggerEntry(triggerName, () => ({
+            type: data.type,
+            scope: data.scope,
+            status: data.status,
+            displayName: data.displayName,
+            description: data.description,
+            webhook: data.webhook,
+            schedule: data.schedule,
+            config: data.config,
+            lastActivityAt: now,
+          }))
 
-            // If schedule trigger, update the scheduler job (config or status change)
-            if (updated.type === 'schedule' && updated.schedule) {
-              await scheduleTrigger(triggerName, updated.schedule, updated.status)
-            }
+          // If schedule trigger, update the scheduler job (config or status change)
+          const updated = (await store.index.get(indexKey, triggerName))?.metadata as TriggerEntry | undefined
+          if (updated?.type === 'schedule' && updated.schedule) {
+            await scheduleTrigger(triggerName, updated.schedule, updated.status)
           }
 
-          logger.info('Updated trigger in index and runtime', { triggerName, status: data.status })
+          logger.info('Updated trigger in index', { triggerName, status: data.status })
         }
 
         // For subscription.added, update trigger index
@@ -205,37 +196,29 @@ export function createTriggerWiring() {
           const data = e.data as any
           const { flow, mode } = data
 
-          // Check if subscription already exists to prevent duplicates
-          const existingSub = runtime.getSubscription(triggerName, flow)
-
-          if (store.index.updateWithRetry) {
-            await store.index.updateWithRetry(indexKey, triggerName, {
+          // The stored entry (not the local runtime) decides whether the
+          // subscription is new, so concurrent adds only count once
+          let isNew = false
+          await updateTriggerEntry(triggerName, (metadata) => {
+            const stored = metadata.subscriptions?.[flow]
+            isNew = !stored
+            return {
               subscriptions: {
                 [flow]: {
                   mode,
-                  subscribedAt: existingSub ? (existingSub.registeredAt || now) : now,
+                  subscribedAt: stored?.subscribedAt || now,
                 },
               },
               lastActivityAt: now,
-            })
-
-            // Increment subscriber count only if this is a truly new subscription
-            if (!existingSub && store.index.increment) {
-              await store.index.increment(indexKey, triggerName, 'stats.activeSubscribers', 1)
             }
-          }
+          })
 
-          // Add/update in runtime
-          const subscription: TriggerSubscription = {
-            triggerName,
-            flowName: flow,
-            mode,
-            source: 'programmatic',
-            registeredAt: existingSub?.registeredAt || now,
+          // Increment subscriber count only if this is a truly new subscription
+          if (isNew && store.index.increment) {
+            await store.index.increment(indexKey, triggerName, 'stats.activeSubscribers', 1)
           }
-          runtime.addSubscription(triggerName, flow, subscription)
 
-          logger.info(`Subscription ${existingSub ? 'updated' : 'added'}`, { triggerName, flow, mode })
+          logger.info(`Subscription ${isNew ? 'added' : 'updated'}`, { triggerName, flow, mode })
         }
 
         // For subscription.removed, update trigger index
@@ -243,23 +226,21 @@ export function createTriggerWiring() {
           const data = e.data as any
           const { flow } = data
 
-          if (store.index.updateWithRetry) {
-            await store.index.updateWithRetry(indexKey, triggerName, {
-              subscriptions: {
-                [flow]: null, // null removes the field
-              },
-              lastActivityAt: now,
-            })
-
-            // Decrement subscriber count
-            if (store.index.increment) {
-              await store.index.increment(indexKey, triggerName, 'stats.activeSubscribers', -1)
-            }
+          const removed = await updateTriggerEntry(triggerName, metadata => metadata.subscriptions?.[flow]
+            ? {
+                subscriptions: {
+                  [flow]: null, // null removes the field
+                },
+                lastActivityAt: now,
+              }
+            : null,
+          )
+
+          // Decrement subscriber count only if the subscription was stored
+          if (removed !== null && store.index.increment) {
+            await store.index.increment(indexKey, triggerName, 'stats.activeSubscribers', -1)
           }
 
-          // Remove from runtime
-          runtime.removeSubscription(triggerName, flow)
-
           logger.info('Subscription removed', { triggerName, flow })
         }
 
@@ -278,8 +259,8 @@ export function createTriggerWiring() {
 
         // For trigger.deleted, remove all data
         if (e.type === 'trigger.deleted') {
-          // Check if this was a schedule trigger BEFORE removing from runtime
-          const triggerEntry = runtime.getTrigger(triggerName)
+          // Check if this was a schedule trigger BEFORE removing it from the index
+          const triggerEntry = (await store.index.get(indexKey, triggerName))?.metadata as TriggerEntry | undefined
           const wasScheduleTrigger = triggerEntry?.type === 'schedule'
 
           // Remove from index
@@ -293,9 +274,6 @@ export function createTriggerWiring() {
             await store.stream.delete(triggerStreamKey)
           }
 
-          // Remove from runtime
-          runtime.removeTrigger(triggerName)
-
           // If this was a schedule trigger, unschedule it
           if (wasScheduleTrigger) {
             await unscheduleTrigger(triggerName)
@@ -315,7 +293,85 @@ export function createTriggerWiring() {
     }
 
     // ============================================================================
-    // HANDLER 3: TRIGGER STATS - Update trigger-level statistics from trigger events
+    // HANDLER 3: RUNTIME - Keep the trigger runtime of every instance current
+    // ============================================================================
+    // Not exclusive: in cluster mode the orchestration above runs on one instance,
+    // while every instance looks up triggers and subscriptions in its own runtime
+    const handleRuntime = (e: EventRecord) => {
+      // Only process ingress events (not already persisted)
+      if (e.id && e.ts) {
+        return
+      }
+
+      const triggerName = (e as any).triggerName || (e.data as any)?.triggerName
+      if (!triggerName) return
+
+      const data = e.data as any
+      const now = new Date().toISOString()
+
+      if (e.type === 'trigger.registered') {
+        runtime.addTrigger(triggerName, {
+          name: data.name,
+          type: data.type,
+          scope: data.scope,
+          status: 'active',
+          displayName: data.displayName,
+          description: data.description,
+          source: data.source || 'programmatic',
+          registeredAt: now,
+          registeredBy: 'runtime',
+          lastActivityAt: now,
+          subscriptions: {},
+          stats: { totalFires: 0, totalFlowsStarted: 0, activeSubscribers: 0 },
+          webhook: data.webhook,
+          schedule: data.schedule,
+          config: data.config,
+          version: 1,
+        })
+      }
+
+      if (e.type === 'trigger.updated') {
+        const existing = runtime.getTrigger(triggerName)
+        if (existing) {
+          runtime.addTrigger(triggerName, {
+            ...existing,
+            status: data.status !== undefined ? data.status : existing.status,
+            displayName: data.displayName !== undefined ? data.displayName : existing.displayName,
+            description: data.description !== undefined ? data.description : existing.description,
+            webhook: data.webhook !== undefined ? data.webhook : existing.webhook,
+            schedule: data.schedule !== undefined ? data.schedule : existing.schedule,
+            config: data.config !== undefined ? data.config : existing.config,
+            lastActivityAt: now,
+            version: (existing.version || 1) + 1,
+          })
+        }
+      }
+
+      if (e.type === 'subscription.added') {
+        const existingSub = runtime.getSubscription(triggerName, data.flow)
+        const subscription: TriggerSubscription = {
+          triggerName,
+          flowName: data.flow,
+          mode: data.mode,
+          source: 'programmatic',
+          registeredAt: existingSub?.registeredAt || now,
+        }
+        runtime.addSubscription(triggerName, data.flow, subscription)
+      }
+
+      if (e.type === 'subscription.removed') {
+        runtime.removeSubscription(triggerName, data.flow)
+      }
+
+      if (e.type === 'trigger.deleted') {
+        runtime.removeTrigger(triggerName)
+      }
+
+      logger.debug('Updated trigger runtime', { type: e.type, triggerName })
+    }
+
+    // ============================================================================
+    // HANDLER 4: TRIGGER STATS - Update trigger-level statistics from trigger events
     // ============================================================================
     const handleTriggerStats = async (e: EventRecord) => {
       try {
@@ -350,6 +406,21 @@ export function createTriggerWiring() {
           logger.debug('Updated trigger stats for fire', { triggerName })
         }
 
+        if (e.type === 'trigger.rejected') {
+          if (store.index.updateWithRetry) {
+            await store.index.updateWithRetry(indexKey, triggerName, {
+              stats: {
+                lastRejectedAt: now,
+              },
+              lastActivityAt: now,
+            })
+          }
+
+          if (store.index.increment) {
+            await store.index.increment(indexKey, triggerName, 'stats.totalRejected', 1)
+          }
+        }
+
         // Publish stats update event to internal bus so streamWiring can send it to clients
         try {
           if (store.index.get) {
@@ -389,28 +460,36 @@ export function createTriggerWiring() {
       'trigger.updated',
       'trigger.deleted',
       'trigger.fired',
+      'trigger.rejected',
+      'trigger.queued',
       'subscription.added',
       'subscription.removed',
     ]
 
-    const triggerStatsEventTypes = ['trigger.fired']
+    const triggerRuntimeEventTypes = ['trigger.registered', 'trigger.updated', 'trigger.deleted', 'subscription.added', 'subscription.removed']
+    const triggerStatsEventTypes = ['trigger.fired', 'trigger.rejected']
 
     // Register persistence handler first (stores events)
     for (const type of eventTypes) {
-      unsubs.push(eventBus.onType(type, handlePersistence))
+      unsubs.push(eventBus.onType(type, handlePersistence, { exclusive: true }))
     }
 
     // Register orchestration handler second (updates metadata, triggers flows)
     for (const type of eventTypes) {
-      unsubs.push(eventBus.onType(type, handleOrchestration))
+      unsubs.push(eventBus.onType(type, handleOrchestration, { exclusive: true }))
+    }
+
+    // Register runtime handler on every instance (keeps lookups of this instance current)
+    for (const type of triggerRuntimeEventTypes) {
+      unsubs.push(eventBus.onType(type, handleRuntime))
     }
 
-    // Register trigger stats handler third (updates trigger-level stats after indexes exist)
+    // Register trigger stats handler last (updates trigger-level stats after indexes exist)
     for (const type of triggerStatsEventTypes) {
-      unsubs.push(eventBus.onType(type, handleTriggerStats))
+      unsubs.push(eventBus.onType(type, handleTriggerStats, { exclusive: true }))
     }
 
-    logger.info('Trigger event wiring setup complete (persistence + orchestration + stats)')
+    logger.info('Trigger event wiring setup complete (persistence + orchestration + runtime + stats)')
   }
 
   function stop() {
@@ -435,13 +514,15 @@ export function createTriggerWiring() {
 /**
  * Handle trigger.fired event
  * Starts all subscribed flows (auto mode) or queues them (manual mode)
+ * Starts queued or rejected by a flow's concurrency limit are recorded on the trigger stream
  * Returns list of flows that were started for stream metadata
  */
 export async function handleTriggerFired(event: TriggerFiredEvent): Promise<string[]> {
   const logger = useNventLogger('trigger-wiring')
   const trigger = useTrigger()
+  const eventBus = getEventBus()
 
-  const { triggerName, data } = event
+  const { triggerName, data, idempotencyKey } = event
 
   logger.debug('Trigger fired', { trigger: triggerName })
 
@@ -485,10 +566,43 @@ export async function handleTriggerFired(event: TriggerFiredEvent): Promise<stri
       }
 
       // Auto mode: start flow automatically with resolved data
-      await startFlowFromTrigger(subscription.flowName, triggerName, resolvedData)
-      flowsStarted.push(subscription.flowName)
+      const started = await startFlowFromTrigger(subscription.flowName, triggerName, resolvedData, { idempotencyKey })
+      if (started?.status === 'started') {
+        flowsStarted.push(subscription.flowName)
+      }
+      else if (started?.status === 'duplicate') {
+        logger.info(`Trigger '${triggerName}' delivery is a duplicate for flow '${subscription.flowName}'`, {
+          idempotencyKey,
+          runId: started.runId,
+        })
+      }
+      else if (started?.status === 'queued') {
+        await eventBus.publish({
+          type: 'trigger.queued',
+          triggerName,
+          data: {
+            flowName: subscription.flowName,
+            runId: started.runId,
+            key: started.key,
+            position: started.position,
+          },
+        } as any)
+      }
     }
     catch (error) {
+      if (error instanceof FlowConcurrencyError) {
+        logger.warn(`Trigger '${triggerName}' start rejected: ${error.message}`, { flow: subscription.flowName })
+        await eventBus.publish({
+          type: 'trigger.rejected',
+          triggerName,
+          data: {
+            reason: error.message,
+            source: 'concurrency',
+            flowName: subscription.flowName,
+          },
+        } as any)
+        continue
+      }
       logger.error('Error starting flow from trigger', {
         flow: subscription.flowName,
         trigger: triggerName,
@@ -503,12 +617,25 @@ export async function handleTriggerFired(event: TriggerFiredEvent): Promise<stri
 /**
  * Start a flow from a trigger event
  * Enqueues the entry step and publishes flow.start event
+ * @param flowName - Flow to start
+ * @param triggerName - Trigger that fired
+ * @param triggerData - Trigger payload, used as the run input
+ * @param options - Optional start options
+ * @param options.runId - Run ID to start with (a dequeued start that already holds a concurrency slot)
+ * @param options.idempotencyKey - Return the earlier run of a start with the same key instead of starting a new one
+ * @returns The run and whether it was started, queued by the flow's concurrency limit or a duplicate
+ * @throws FlowConcurrencyError if the flow's concurrency limit rejects the start
  */
 export async function startFlowFromTrigger(
   flowName: string,
   triggerName: string,
   triggerData: any,
-) {
+  options?: { runId?: string, idempotencyKey?: string },
+): Promise<
+  | { runId: string, status: 'started' | 'duplicate' }
+  | { runId: string, status: 'queued', key: string, position: number }
+  | undefined
+> {
   const logger = useNventLogger('trigger-wiring')
   const eventBus = getEventBus()
   const queue = useQueueAdapter()
@@ -531,12 +658,49 @@ export async function startFlowFromTrigger(
     return
   }
 
+  // Validate against the flow's input schema before a run is created
+  // Throws PayloadValidationError (logged by handleTriggerFired)
+  triggerData = await useSchemaRegistry().validateFlowInput(flowName, triggerData)
+
   // Get trigger definition for type information
   const triggerDef = triggerRuntime.getTrigger(triggerName)
   const triggerType = triggerDef?.type || 'manual'
 
   // Generate run ID
-  const runId = `${flowName}-${Date.now()}-${Math.random().toString(36).substring(2, 9)}`
+  const runId = options?.runId || `${flowName}-${Date.now()}-${Math.random().toString(36).substring(2, 9)}`
+
+  // Return the earlier run of a duplicate delivery
+  const idempotencyKey = options?.idempotencyKey
+  if (idempotencyKey) {
+    const existingRunId = await claimIdempotencyKey(flowName, idempotencyKey, runId)
+    if (existingRunId) {
+      return { runId: existingRunId, status: 'duplicate' }
+    }
+  }
+
+  // Take a concurrency slot before anything is enqueued
+  const concurrency = flowRegistry.entry.concurrency
+  let concurrencyKey: string | undefined
+  if (concurrency) {
+    const slot = await acquireRunSlot(flowName, concurrency, {
+      runId,
+      input: triggerData,
+      queuedAt: Date.now(),
+      trigger: triggerName,
+    })
+    if (slot.status === 'rejected') {
+      if (idempotencyKey) await releaseIdempotencyKey(flowName, idempotencyKey, runId)
+      throw new FlowConcurrencyError(flowName, slot.key, slot.active)
+    }
+    if (slot.status === 'queued') {
+      logger.info(`Start of flow '${flowName}' from trigger '${triggerName}' queued by concurrency limit`, { runId, position: slot.position })
+      return { runId, status: 'queued', key: slot.key, position: slot.position }
+    }
+    for (const previousRunId of slot.cancel) {
+      await useFlow().cancelFlow(flowName, previousRunId)
+    }
+    concurrencyKey = slot.key
+  }
 
   logger.info(`Starting flow '${flowName}' from trigger '${triggerName}'`, { runId })
 
@@ -569,6 +733,7 @@ export async function startFlowFromTrigger(
   const jobId = `${runId}__${stepName}`
   const opts = { ...defaultOpts, jobId, timeout: stepTimeout }
 
+  let enqueued = false
   try {
     // Enqueue the entry step
     await queue.enqueue(queueName, {
@@ -576,6 +741,7 @@ export async function startFlowFromTrigger(
       data: payload,
       opts,
     })
+    enqueued = true
 
     logger.info(`Enqueued entry step '${stepName}' to queue '${queueName}'`, { runId })
 
@@ -586,13 +752,17 @@ export async function startFlowFromTrigger(
       runId,
       data: {
         input: triggerData,
+        flowVersion: flowDef.version,
         trigger: {
           name: triggerName,
           type: triggerType,
           data: triggerData,
         },
+        ...(concurrencyKey !== undefined ? { concurrencyKey } : {}),
       },
     } as EventRecord)
+
+    return { runId, status: 'started' }
   }
   catch (error) {
     logger.error('Failed to start flow from trigger', {
@@ -600,5 +770,11 @@ export async function startFlowFromTrigger(
       trigger: triggerName,
       error: error instanceof Error ? error.message : String(error),
     })
+    if (idempotencyKey) await releaseIdempotencyKey(flowName, idempotencyKey, runId)
+    // Give back the slot taken for the run that was never started
+    if (concurrencyKey !== undefined && !enqueued) {
+      const { handOverRunSlot } = await import('./flowWiring')
+      await handOverRunSlot(flowName, concurrencyKey, runId)
+    }
   }
 }
@@ -0,0 +1,75 @@
+/**
+ * Leader Election Factory and Composable
+ *
+ * Provides the cluster-wide leader election for singleton background duties.
+ * With a single instance (or memory/file stores) that instance is always the leader.
+ */
+
+import { LeaderElection } from './leader'
+import type { StoreAdapter } from '../adapters/interfaces/store'
+import { useRuntimeConfig } from '#imports'
+
+export type { LeaderLease, LeaderCallback } from './leader'
+
+// Use globalThis to ensure singleton survives HMR reloads when used as npm package
+const LEADER_KEY = '__nvent_leader__'
+let leaderInstance: LeaderElection | null = (globalThis as any)[LEADER_KEY] || null
+
+/**
+ * Create a leader election instance
+ */
+export function createLeaderElection(store: StoreAdapter): LeaderElection {
+  const config = useRuntimeConfig()
+  const prefix = config.nvent.store?.prefix || 'nvent'
+
+  return new LeaderElection({
+    store,
+    key: `${prefix}:leader`,
+    leaseTTL: 15000, // 15 seconds
+  })
+}
+
+/**
+ * Get the global leader election
+ * Must be initialized first with initializeLeader()
+ *
+ * @example
+ * const leader = useLeader()
+ * leader.onElected(() => startCleanup())
+ * leader.onDemoted(() => stopCleanup())
+ */
+export function useLeader(): LeaderElection {
+  if (!leaderInstance) {
+    throw new Error('Leader election not initialized. Call initializeLeader() first.')
+  }
+
+  return leaderInstance
+}
+
+/**
+ * Initialize leader election and run the first campaign
+ * Should be called once during app startup
+ */
+export async function initializeLeader(store: StoreAdapter): Promise<LeaderElection> {
+  if (leaderInstance) {
+    return leaderInstance
+  }
+
+  leaderInstance = createLeaderElection(store)
+  ;(globalThis as any)[LEADER_KEY] = leaderInstance
+  await leaderInstance.start()
+
+  return leaderInstance
+}
+
+/**
+ * Stop campaigning and release the lease
+ * Should be called during app shutdown
+ */
+export async function shutdownLeader(): Promise<void> {
+  if (leaderInstance) {
+    await leaderInstance.stop()
+    leaderInstance = null
+    ;(globalThis as any)[LEADER_KEY] = null
+  }
+}
@@ -0,0 +1,230 @@
+/**
+ * Leader Election
+ *
+ * Lease-based leader election on the store adapter.
+ * One instance per cluster holds the lease and runs singleton background duties
+ * (startup recovery, scheduler job sync, build-time trigger registration).
+ *
+ * - Campaign: kv.setNX on the lease key, or kv.compareAndSwap over an expired lease
+ * - Renewal: kv.compareAndSwap of our own lease, so a lost lease is noticed
+ * - Resign: kv.compareAndSwap of our own lease to null on shutdown
+ */
+
+import type { StoreAdapter } from '../adapters/interfaces/store'
+import { useNventLogger } from '#imports'
+
+export interface LeaderLease {
+  instanceId: string
+  acquiredAt: number
+  renewedAt: number
+  expiresAt: number
+}
+
+export interface LeaderElectionOptions {
+  /**
+   * Store adapter holding the lease (uses atomic kv.setNX / kv.compareAndSwap)
+   */
+  store: StoreAdapter
+
+  /**
+   * Lease key
+   * @default 'nvent:leader'
+   */
+  key?: string
+
+  /**
+   * Lease TTL in milliseconds (a crashed leader is replaced after at most this long)
+   * @default 15000
+   */
+  leaseTTL?: number
+
+  /**
+   * How often the lease is renewed / campaigned for, in milliseconds
+   * @default leaseTTL / 3
+   */
+  renewInterval?: number
+
+  /**
+   * Unique instance identifier
+   * @default Auto-generated
+   */
+  instanceId?: string
+}
+
+export type LeaderCallback = () => void | Promise<void>
+
+export class LeaderElection {
+  readonly instanceId: string
+  private store: StoreAdapter
+  private key: string
+  private leaseTTL: number
+  private renewInterval: number
+  private lease: LeaderLease | null = null
+  private timer?: NodeJS.Timeout
+  private ticking = false
+  private electedCallbacks = new Set<LeaderCallback>()
+  private demotedCallbacks = new Set<LeaderCallback>()
+  private logger = useNventLogger('leader')
+
+  constructor(options: LeaderElectionOptions) {
+    this.store = options.store
+    this.key = options.key || 'nvent:leader'
+    this.leaseTTL = options.leaseTTL || 15000
+    this.renewInterval = options.renewInterval || Math.floor(this.leaseTTL / 3)
+    this.instanceId = options.instanceId || `instance-${Date.now()}-${Math.random().toString(36).substring(2, 9)}`
+  }
+
+  /**
+   * Start campaigning; resolves after the first attempt, so isLeader() is settled
+   */
+  async start(): Promise<void> {
+    if (this.timer) return
+
+    await this.tick()
+    this.timer = setInterval(() => this.tick(), this.renewInterval)
+  }
+
+  /**
+   * Stop campaigning and give up the lease so another instance takes over right away
+   */
+  async stop(): Promise<void> {
+    if (this.timer) {
+      clearInterval(this.timer)
+      this.timer = undefined
+    }
+
+    const lease = this.lease
+    if (!lease) return
+
+    this.demote('resigned')
+    await this.store.kv.compareAndSwap(this.key, lease, null).catch((error) => {
+      this.logger.error('Failed to release leader lease', { error: (error as Error).message })
+    })
+  }
+
+  /**
+   * Whether this instance currently holds the lease
+   */
+  isLeader(): boolean {
+    return this.lease !== null
+  }
+
+  /**
+   * Current lease holder as stored (may be another instance)
+   */
+  async getLeader(): Promise<LeaderLease | null> {
+    const lease = await this.store.kv.get<LeaderLease>(this.key)
+    if (!lease || lease.expiresAt < Date.now()) return null
+    return lease
+  }
+
+  /**
+   * Run callback whenever this instance becomes leader
+   * Called immediately if it already is.
+   * @returns Unregister function
+   */
+  onElected(callback: LeaderCallback): () => void {
+    this.electedCallbacks.add(callback)
+    if (this.lease) {
+      this.runCallback(callback, 'onElected')
+    }
+    return () => this.electedCallbacks.delete(callback)
+  }
+
+  /**
+   * Run callback whenever this instance loses or gives up the lease
+   * @returns Unregister function
+   */
+  onDemoted(callback: LeaderCallback): () => void {
+    this.demotedCallbacks.add(callback)
+    return () => this.demotedCallbacks.delete(callback)
+  }
+
+  private async tick(): Promise<void> {
+    // Skip if the previous round is still waiting on the store
+    if (this.ticking) return
+    this.ticking = true
+
+    try {
+      if (this.lease) {
+        await this.renew(this.lease)
+      }
+      else {
+        await this.campaign()
+      }
+    }
+    catch (error) {
+      this.logger.error('Leader election round failed', { error: (error as Error).message })
+
+      // Without a renewal we can't be sure the lease is still ours
+      if (this.lease && this.lease.expiresAt <= Date.now()) {
+        this.demote('lease expired')
+      }
+    }
+    finally {
+      this.ticking = false
+    }
+  }
+
+  private async campaign(): Promise<void> {
+    const now = Date.now()
+    const lease: LeaderLease = {
+      instanceId: this.instanceId,
+      acquiredAt: now,
+      renewedAt: now,
+      expiresAt: now + this.leaseTTL,
+    }
+
+    let acquired = await this.store.kv.setNX(this.key, lease, this.ttlSeconds())
+
+    if (!acquired) {
+      // Take over a lease whose holder stopped renewing it
+      const existing = await this.store.kv.get<LeaderLease>(this.key)
+      if (existing && existing.expiresAt < now) {
+        acquired = await this.store.kv.compareAndSwap(this.key, existing, lease, this.ttlSeconds())
+      }
+    }
+
+    if (acquired) {
+      this.lease = lease
+      this.logger.info('Elected as leader', { instanceId: this.instanceId })
+      for (const callback of this.electedCallbacks) {
+        this.runCallback(callback, 'onElected')
+      }
+    }
+  }
+
+  private async renew(lease: LeaderLease): Promise<void> {
+    const now = Date.now()
+    const renewed: LeaderLease = { ...lease, renewedAt: now, expiresAt: now + this.leaseTTL }
+
+    if (await this.store.kv.compareAndSwap(this.key, lease, renewed, this.ttlSeconds())) {
+      this.lease = renewed
+    }
+    else {
+      this.demote('lease taken over')
+    }
+  }
+
+  private demote(reason: string): void {
+    if (!this.lease) return
+
+    this.lease = null
+    this.logger.info('No longer leader', { instanceId: this.instanceId, reason })
+    for (const callback of this.demotedCallbacks) {
+      this.runCallback(callback, 'onDemoted')
+    }
+  }
+
+  private runCallback(callback: LeaderCallback, name: string): void {
+    Promise.resolve()
+      .then(callback)
+      .catch((error) => {
+        this.logger.error(`Leader ${name} callback failed`, { error: (error as Error).message })
+      })
+  }
+
+  private ttlSeconds(): number {
+    return Math.ceil(this.leaseTTL / 1000)
+  }
+}
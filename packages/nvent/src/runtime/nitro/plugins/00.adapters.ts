@@ -11,11 +11,12 @@
  * External adapters can register themselves via the nvent:registerAdapter Nitro hook
  */
 
-import { defineNitroPlugin, useRuntimeConfig, useNventLogger, setAdapters, initializeScheduler, shutdownScheduler } from '#imports'
+import { defineNitroPlugin, useRuntimeConfig, useNventLogger, setAdapters, initializeLeader, shutdownLeader, initializeScheduler, shutdownScheduler } from '#imports'
 import { createAdapters, shutdownAdapters } from '../../adapters/factory'
 import { useAdapterRegistry } from '../../adapters/registry'
 import type { ModuleConfig } from '../../config/types'
 import { createWiringRegistry } from '../../events/wiring/registry'
+import { startClusterBus, stopClusterBus } from '../../events/clusterBus'
 
 export default defineNitroPlugin(async (nitroApp) => {
   const logger = useNventLogger('adapters-plugin')
@@ -63,10 +64,20 @@ export default defineNitroPlugin(async (nitroApp) => {
       storeAdapter: config.store.adapter,
     })
 
+    // Elect a leader for singleton duties (before the scheduler, which uses it)
+    const leader = await initializeLeader(adapters.store)
+    logger.info('Leader election started', { instanceId: leader.instanceId, isLeader: leader.isLeader() })
+
     // Initialize scheduler with store adapter
     await initializeScheduler(adapters.store)
     logger.info('Scheduler initialized')
 
+    // Bridge the event bus through the stream adapter before anything publishes
+    if (config.stream.bus?.mode === 'cluster') {
+      await startClusterBus(leader.instanceId)
+      logger.info('Cluster event bus started')
+    }
+
     // Initialize flow wiring BEFORE notifying other plugins
     // This ensures wirings are listening when plugins publish events
     const wiring = createWiringRegistry({
@@ -93,10 +104,15 @@ export default defineNitroPlugin(async (nitroApp) => {
             await wiring.stop()
             logger.info('Flow wiring stopped')
 
+            await stopClusterBus()
+
             // Shutdown scheduler
             await shutdownScheduler()
             logger.info('Scheduler shut down')
 
+            // Hand over leadership before the store goes away
+            await shutdownLeader()
+
             // Then shutdown adapters
             await shutdownAdapters(adapters)
             logger.info('Adapters shut down successfully')
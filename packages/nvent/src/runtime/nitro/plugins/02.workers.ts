@@ -1,15 +1,19 @@
-import { defineNitroPlugin, $useWorkerHandlers, $useFunctionRegistry, useQueueAdapter, useHookRegistry } from '#imports'
-import type { NodeHandler } from '../../worker/node/runner'
+import { defineNitroPlugin, $useWorkerHandlers, $useFunctionRegistry, $useAnalyzedFlows, useQueueAdapter, useHookRegistry, useSchemaRegistry, useRuntimeConfig } from '#imports'
+import type { NodeHandler, RunContext } from '../../worker/node/runner'
 import { createJobProcessor } from '../../worker/node/runner'
+import { createTaskHandler } from '../../worker/node/task'
+import { createPythonHandler, closePythonPool } from '../../worker/python/runner'
 import { registerSystemHandlersOnQueue } from '../../worker/system'
 
-type HandlerEntry = { queue: string, id: string, absPath: string, handler: NodeHandler, module?: any }
+type HandlerEntry = { queue: string, id: string, absPath: string, kind?: 'ts' | 'py', runtype?: 'inprocess' | 'task', handler?: NodeHandler, module?: any }
 
 export default defineNitroPlugin(async (nitroApp) => {
   // Close all workers on shutdown or HMR reload
   nitroApp.hooks.hook('close', async () => {
     const queueAdapter = useQueueAdapter()
     await queueAdapter.close()
+    // Stop Python runner processes (no-op if none were started)
+    await closePythonPool()
   })
 
   // Wait for adapters to be ready before registering workers
@@ -21,6 +25,14 @@ export default defineNitroPlugin(async (nitroApp) => {
       // @ts-ignore - generated at build time
       const handlers = $useWorkerHandlers() as ReadonlyArray<HandlerEntry>
       const registry = ($useFunctionRegistry() as any) || { workers: [] }
+      const rc: any = useRuntimeConfig()
+      const tsRunner = rc?.nvent?.runner?.ts || {}
+
+      // Hard timeout for isolated tasks and Python handlers: analyzed stepTimeout, falling back to the global default
+      const resolveTaskTimeout = (ctx: RunContext): number | undefined => {
+        const flowDef = ($useAnalyzedFlows() as any[]).find((f: any) => f.id === ctx.flowName)
+        return flowDef?.analyzed?.steps?.[ctx.stepName || '']?.stepTimeout ?? rc?.nvent?.flow?.stepTimeout
+      }
 
       // Track which queues have handlers registered
       const registeredQueues = new Set<string>()
@@ -28,7 +40,20 @@ export default defineNitroPlugin(async (nitroApp) => {
       const queuesWithHooks = new Set<string>()
 
       for (const entry of handlers) {
-        const { queue, id, handler, module } = entry as any
+        const { queue, id, module } = entry as any
+        // Python functions run in the Python process pool, 'task' functions in a worker thread,
+        // both behind a NodeHandler proxy
+        let handler = entry.handler
+        if (entry.kind === 'py') {
+          handler = createPythonHandler(entry.absPath, { resolveTimeout: resolveTaskTimeout })
+        }
+        else if (entry.runtype === 'task' && tsRunner.taskEntry) {
+          handler = createTaskHandler(entry.absPath, {
+            entry: tsRunner.taskEntry,
+            maxMemoryMb: tsRunner.maxMemoryMb,
+            resolveTimeout: resolveTaskTimeout,
+          })
+        }
 
         // Match exact worker by id; fallback to queue + absPath if needed
         const w = (registry.workers as any[]).find(rw => (rw?.id === id) || (rw?.queue?.name === queue && rw?.absPath === entry.absPath))
@@ -56,6 +81,9 @@ export default defineNitroPlugin(async (nitroApp) => {
           if (typeof module.onAwaitTimeout === 'function') {
             hooks.onAwaitTimeout = module.onAwaitTimeout
           }
+          if (typeof module.onCompensate === 'function') {
+            hooks.onCompensate = module.onCompensate
+          }
 
           // Register hooks if any exist (only for flow workers)
           if (Object.keys(hooks).length > 0 && w?.flow) {
@@ -75,24 +103,47 @@ export default defineNitroPlugin(async (nitroApp) => {
             // Mark this queue as having hooks (needs system handlers)
             queuesWithHooks.add(queue)
           }
+        }
 
-          // Check if worker has await configuration (needs system handlers even without hooks)
-          if (w?.flow?.awaitBefore || w?.flow?.awaitAfter) {
-            queuesWithHooks.add(queue)
+        // Collect payload schemas (runtime objects, not part of the build-time registry)
+        const moduleFlowCfg = module?.config?.flow
+        if (moduleFlowCfg && w?.flow) {
+          const schemaRegistry = useSchemaRegistry()
+          if (w.flow.role === 'entry' && moduleFlowCfg.schema) {
+            const flowNames = Array.isArray(w.flow.names) ? w.flow.names : [w.flow.names]
+            for (const flowName of flowNames) {
+              if (flowName) schemaRegistry.registerFlow(flowName, moduleFlowCfg.schema)
+            }
+          }
+          const triggerDef = moduleFlowCfg.triggers?.define
+          if (triggerDef?.name && triggerDef.schema) {
+            schemaRegistry.registerTrigger(triggerDef.name, triggerDef.schema)
           }
+          for (const [position, awaitCfg] of [['before', moduleFlowCfg.awaitBefore], ['after', moduleFlowCfg.awaitAfter]] as const) {
+            if (awaitCfg?.type !== 'form' || !awaitCfg.schema) continue
+            const flowNames = Array.isArray(w.flow.names) ? w.flow.names : [w.flow.names]
+            for (const flowName of flowNames) {
+              if (flowName) schemaRegistry.registerAwaitForm(flowName, jobName, position, awaitCfg.schema)
+            }
+          }
+        }
 
-          // Also check entry step for await configuration
-          if (w?.flow?.role === 'entry') {
-            const flowNames = w.flow.names
-              ? (Array.isArray(w.flow.names) ? w.flow.names : [w.flow.names])
-              : (w.flow.name ? (Array.isArray(w.flow.name) ? w.flow.name : [w.flow.name]) : [])
+        // Check if worker has await configuration (needs system handlers even without hooks)
+        if (w?.flow?.awaitBefore || w?.flow?.awaitAfter) {
+          queuesWithHooks.add(queue)
+        }
 
-            for (const flowName of flowNames) {
-              const flowRegistry = (registry?.flows || {})[flowName]
-              if (flowRegistry?.entry?.awaitBefore || flowRegistry?.entry?.awaitAfter) {
-                queuesWithHooks.add(queue)
-                break
-              }
+        // Also check entry step for await configuration
+        if (w?.flow?.role === 'entry') {
+          const flowNames = w.flow.names
+            ? (Array.isArray(w.flow.names) ? w.flow.names : [w.flow.names])
+            : (w.flow.name ? (Array.isArray(w.flow.name) ? w.flow.name : [w.flow.name]) : [])
+
+          for (const flowName of flowNames) {
+            const flowRegistry = (registry?.flows || {})[flowName]
+            if (flowRegistry?.entry?.awaitBefore || flowRegistry?.entry?.awaitAfter) {
+              queuesWithHooks.add(queue)
+              break
             }
           }
         }
@@ -1,5 +1,7 @@
-import { defineNitroPlugin, $useTriggerRegistry, useNventLogger, useTrigger } from '#imports'
+import { defineNitroPlugin, $useTriggerRegistry, useNventLogger, useLeader, useStoreAdapter, useStreamTopics } from '#imports'
+import type { TriggerEntry } from '../../../registry/types'
 import { getEventBus } from '../../events/eventBus'
+import { getTriggerRuntime } from '../../events/utils/triggerRuntime'
 
 /**
  * Trigger Registration Plugin
@@ -10,74 +12,141 @@ import { getEventBus } from '../../events/eventBus'
  *
  * This plugin is ONLY for registering dev/build-time discovered triggers.
  * Trigger wiring and event handling is done in the wiring registry.
+ *
+ * Every instance adds its build-time triggers to its own runtime. Storing them (the
+ * trigger.registered events) happens once per cluster, on the elected leader, and again
+ * when leadership moves, so a newly deployed instance stores triggers it introduced.
  */
 export default defineNitroPlugin(async (nitroApp) => {
   // Wait for adapters to be ready
   nitroApp.hooks.hook('nvent:adapters:ready' as any, async () => {
-    const logger = useNventLogger('trigger-registration')
-    const eventBus = getEventBus()
-    const trigger = useTrigger()
+    loadBuildTimeTriggers()
+    useLeader().onElected(registerBuildTimeTriggers)
+  })
+})
 
-    try {
-      logger.info('Registering build-time triggers...')
+/**
+ * Add build-time triggers and subscriptions missing from this instance's runtime
+ * (the runtime is loaded from the store, which may not have them yet)
+ */
+function loadBuildTimeTriggers() {
+  const logger = useNventLogger('trigger-registration')
+  const runtime = getTriggerRuntime(useStoreAdapter(), logger)
+  const triggerRegistry = $useTriggerRegistry()
+  const now = new Date().toISOString()
 
-      // Get pre-analyzed trigger registry from build-time template
-      const triggerRegistry = $useTriggerRegistry()
-      const subscriptions = triggerRegistry?.subscriptions || []
-      const triggers = triggerRegistry?.triggers || []
+  for (const triggerData of triggerRegistry?.triggers || []) {
+    const existing = runtime.getTrigger(triggerData.name)
+    if (!existing) {
+      runtime.addTrigger(triggerData.name, {
+        ...triggerData,
+        status: 'active',
+        registeredAt: now,
+        subscriptions: {},
+        stats: { totalFires: 0, totalFlowsStarted: 0, activeSubscribers: 0 },
+        version: 1,
+      } as TriggerEntry)
+    }
+    else if (triggerData.webhook && JSON.stringify(existing.webhook) !== JSON.stringify(triggerData.webhook)) {
+      runtime.addTrigger(triggerData.name, { ...existing, webhook: triggerData.webhook })
+    }
+  }
 
-      logger.info(`Found ${triggers.length} triggers and ${subscriptions.length} subscriptions from build`)
+  for (const sub of triggerRegistry?.subscriptions || []) {
+    if (!runtime.getSubscription(sub.triggerName, sub.flowName)) {
+      runtime.addSubscription(sub.triggerName, sub.flowName, { ...sub, registeredAt: now })
+    }
+  }
+}
 
-      // Only publish events for NEW triggers that don't exist in runtime yet
-      // This prevents duplicate events on every restart
-      let newTriggers = 0
-      for (const triggerData of triggers) {
-        // Check if trigger already exists
-        if (!trigger.hasTrigger(triggerData.name)) {
-          await eventBus.publish({
-            type: 'trigger.registered',
-            triggerName: triggerData.name,
-            data: triggerData,
-          } as any)
-          newTriggers++
-        }
-        else {
-          logger.debug(`Trigger '${triggerData.name}' already registered, skipping`)
-        }
-      }
+async function registerBuildTimeTriggers() {
+  const logger = useNventLogger('trigger-registration')
+  const eventBus = getEventBus()
+  const store = useStoreAdapter()
+  const { StoreSubjects } = useStreamTopics()
+  const indexKey = StoreSubjects.triggerIndex()
+
+  try {
+    logger.info('Registering build-time triggers...')
+
+    // Get pre-analyzed trigger registry from build-time template
+    const triggerRegistry = $useTriggerRegistry()
+    const subscriptions = triggerRegistry?.subscriptions || []
+    const triggers = triggerRegistry?.triggers || []
+
+    logger.info(`Found ${triggers.length} triggers and ${subscriptions.length} subscriptions from build`)
 
-      // Only publish events for NEW subscriptions
-      let newSubscriptions = 0
-      for (const sub of subscriptions) {
-        // Check if subscription already exists
-        const existing = trigger.getSubscription(sub.triggerName, sub.flowName)
-        if (!existing) {
+    // Only publish events for NEW triggers that aren't stored yet (the runtime
+    // already has them). This prevents duplicate events on every restart
+    let newTriggers = 0
+    for (const triggerData of triggers) {
+      // Check if trigger already exists
+      const existing = (await store.index.get(indexKey, triggerData.name))?.metadata as TriggerEntry | undefined
+      if (!existing) {
+        await eventBus.publish({
+          type: 'trigger.registered',
+          triggerName: triggerData.name,
+          data: triggerData,
+        } as any)
+        newTriggers++
+      }
+      else {
+        // Webhook config (path, method, auth) always follows the code, so auth added
+        // or changed after the first registration is not silently ignored
+        if (triggerData.webhook && JSON.stringify(existing.webhook) !== JSON.stringify(triggerData.webhook)) {
           await eventBus.publish({
-            type: 'subscription.added',
-            triggerName: sub.triggerName,
+            type: 'trigger.updated',
+            triggerName: triggerData.name,
             data: {
-              trigger: sub.triggerName,
-              flow: sub.flowName,
-              mode: sub.mode,
-              source: 'build-time',
+              type: existing.type,
+              scope: existing.scope,
+              status: existing.status,
+              displayName: existing.displayName,
+              description: existing.description,
+              webhook: triggerData.webhook,
+              schedule: existing.schedule,
+              config: existing.config,
             },
           } as any)
-          newSubscriptions++
+          logger.info(`Trigger '${triggerData.name}' webhook config changed, updated`)
         }
         else {
-          logger.debug(`Subscription '${sub.flowName}' -> '${sub.triggerName}' already exists, skipping`)
+          logger.debug(`Trigger '${triggerData.name}' already registered, skipping`)
         }
       }
-
-      logger.info(
-        `Build-time trigger registration complete `
-        + `(${newTriggers} new triggers, ${newSubscriptions} new subscriptions)`,
-      )
     }
-    catch (error) {
-      logger.error('Failed to register build-time triggers', {
-        error: error instanceof Error ? error.message : String(error),
-      })
+
+    // Only publish events for NEW subscriptions
+    let newSubscriptions = 0
+    for (const sub of subscriptions) {
+      // Check if subscription already exists
+      const stored = (await store.index.get(indexKey, sub.triggerName))?.metadata as TriggerEntry | undefined
+      if (!stored?.subscriptions?.[sub.flowName]) {
+        await eventBus.publish({
+          type: 'subscription.added',
+          triggerName: sub.triggerName,
+          data: {
+            trigger: sub.triggerName,
+            flow: sub.flowName,
+            mode: sub.mode,
+            source: 'build-time',
+          },
+        } as any)
+        newSubscriptions++
+      }
+      else {
+        logger.debug(`Subscription '${sub.flowName}' -> '${sub.triggerName}' already exists, skipping`)
+      }
     }
-  })
-})
+
+    logger.info(
+      `Build-time trigger registration complete `
+      + `(${newTriggers} new triggers, ${newSubscriptions} new subscriptions)`,
+    )
+  }
+  catch (error) {
+    logger.error('Failed to register build-time triggers', {
+      error: error instanceof Error ? error.message : String(error),
+    })
+  }
+}
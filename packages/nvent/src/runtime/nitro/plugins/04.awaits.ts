@@ -0,0 +1,31 @@
+import { defineNitroPlugin, useNventLogger } from '#imports'
+import { restoreEventAwaits, stopEventAwaits } from '../utils/awaitPatterns/event'
+
+/**
+ * Await Restoration Plugin
+ *
+ * Re-subscribes pending event awaits persisted in the store, so that awaited events
+ * emitted on any instance (forwarded via the StreamAdapter) still resolve them after a restart.
+ *
+ * Time, schedule and timeout handling is restored by the scheduler from its persisted jobs.
+ */
+export default defineNitroPlugin(async (nitroApp) => {
+  // Wait for adapters to be ready
+  nitroApp.hooks.hook('nvent:adapters:ready' as any, async () => {
+    const logger = useNventLogger('await-restoration')
+
+    try {
+      const { events, pending } = await restoreEventAwaits()
+      logger.info(`Event await restoration complete (${pending} pending awaits on ${events} events)`)
+    }
+    catch (error) {
+      logger.error('Failed to restore event awaits', {
+        error: error instanceof Error ? error.message : String(error),
+      })
+    }
+  })
+
+  nitroApp.hooks.hook('close', async () => {
+    await stopEventAwaits()
+  })
+})
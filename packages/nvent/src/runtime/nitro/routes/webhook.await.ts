@@ -1,20 +1,26 @@
-import { defineEventHandler, readBody, getRouterParams, createError, setResponseStatus } from 'h3'
+import { defineEventHandler, readBody, getQuery, getRouterParams, createError, setResponseStatus } from 'h3'
 import { useStoreAdapter, useStreamTopics, useNventLogger, useAwait } from '#imports'
+import { verifyAwaitToken } from '../utils/awaitToken'
+import type { AwaitTokenClaims } from '../utils/awaitToken'
+import { getAwaitTokenSecret } from '../utils/awaitPatterns/webhook'
 
 /**
  * Dynamic webhook handler for await patterns
  * Handles webhook calls and resolves awaiting steps
  *
  * Routes:
- * - POST /api/_webhook/await/{flowName}/{runId}/{stepName}
- * - GET /api/_webhook/await/{flowName}/{runId}/{stepName}
+ * - POST /api/_webhook/await/{flowName}/{runId}/{stepName}?token={token}
+ * - GET /api/_webhook/await/{flowName}/{runId}/{stepName}?token={token}
  *
  * Architecture:
  * 1. Parse URL params to get flowName, runId, stepName
  * 2. Look up flow in store index to verify it exists and is awaiting
  * 3. Verify flow status and await configuration
- * 4. Use useAwait().webhook.resolve() which publishes await.resolved event
- * 5. Trigger wiring handles the actual flow resumption
+ * 4. Verify the signed token and mark it used (first call wins)
+ * 5. Use useAwait().webhook.resolve() which publishes await.resolved event
+ * 6. Trigger wiring handles the actual flow resumption
+ *
+ * Awaits registered before tokens existed (no tokenId in the index) still accept unsigned calls.
  */
 export default defineEventHandler(async (event) => {
   const logger = useNventLogger('webhook-handler')
@@ -119,6 +125,46 @@ export default defineEventHandler(async (event) => {
     })
   }
 
+  // Verify the signed token
+  const token = getQuery(event).token
+  let claims: AwaitTokenClaims | undefined
+  if (awaitState.tokenId || token) {
+    if (typeof token !== 'string' || !token) {
+      logger.warn(`Missing await token`, { flowName, runId, stepName })
+      throw createError({
+        statusCode: 401,
+        statusMessage: 'Unauthorized',
+        message: 'This webhook requires a signed token.',
+      })
+    }
+
+    const result = verifyAwaitToken(token, await getAwaitTokenSecret())
+    if (!result.valid) {
+      logger.warn(`Invalid await token: ${result.reason}`, { flowName, runId, stepName })
+      throw createError({
+        statusCode: result.expired ? 410 : 401,
+        statusMessage: result.expired ? 'Link expired' : 'Unauthorized',
+        message: result.expired ? 'This link has expired.' : result.reason,
+      })
+    }
+
+    claims = result.claims
+    if (
+      claims.flowName !== flowName
+      || claims.runId !== runId
+      || claims.stepName !== stepName
+      || claims.position !== position
+      || claims.id !== awaitState.tokenId
+    ) {
+      logger.warn(`Await token does not match this await`, { flowName, runId, stepName })
+      throw createError({
+        statusCode: 403,
+        statusMessage: 'Forbidden',
+        message: 'This token is not valid for this webhook.',
+      })
+    }
+  }
+
   // Verify HTTP method if specified in config
   const expectedMethod = awaitState.config?.method || 'POST'
   if (event.method !== expectedMethod) {
@@ -132,46 +178,79 @@ export default defineEventHandler(async (event) => {
 
   // Position was already determined when finding awaitState above
 
-  // Get webhook payload
-  let webhookData: any
-  if (event.method === 'GET') {
-    // For GET requests, use query parameters as payload
-    webhookData = getRouterParams(event, { decode: true })
+  // Mark the token used - only the first call resolves the await (released again if resolving fails)
+  if (claims) {
+    const ttlSeconds = Math.max(1, Math.ceil((claims.exp - Date.now()) / 1000))
+    const first = await store.kv.setNX(
+      StoreSubjects.awaitTokenUsed(claims.id),
+      { outcome: claims.outcome, usedAt: Date.now() },
+      ttlSeconds,
+    )
+    if (!first) {
+      logger.warn(`Await token already used`, { flowName, runId, stepName })
+      setResponseStatus(event, 410)
+      throw createError({
+        statusCode: 410,
+        statusMessage: 'Link already used',
+        message: 'This link has already been used.',
+      })
+    }
   }
-  else {
-    webhookData = await readBody(event).catch(() => ({}))
+
+  try {
+    // Get webhook payload
+    let webhookData: any
+    if (event.method === 'GET') {
+      // For GET requests, use query parameters as payload
+      webhookData = getRouterParams(event, { decode: true })
+    }
+    else {
+      webhookData = await readBody(event).catch(() => ({}))
+    }
+
+    // The outcome of the link (approve/reject/...) reaches the step as ctx.trigger.outcome
+    if (claims?.outcome) {
+      const body = webhookData && typeof webhookData === 'object' && !Array.isArray(webhookData) ? webhookData : {}
+      webhookData = { ...body, outcome: claims.outcome }
+    }
+
+    logger.debug(`Webhook data received`, {
+      runId,
+      stepName,
+      dataKeys: Object.keys(webhookData || {}),
+    })
+
+    // TODO: Schema validation
+    // if (registration.schema) {
+    //   const schema = eval(registration.schema)
+    //   const result = schema.safeParse(webhookData)
+    //   if (!result.success) {
+    //     throw createError({
+    //       statusCode: 400,
+    //       statusMessage: 'Validation Failed',
+    //       data: result.error.errors,
+    //     })
+    //   }
+    // }
+
+    // Resolve the await using event-driven pattern
+    // This publishes await.resolved event, trigger wiring handles the rest
+    await await$.webhook.resolve(runId, stepName, flowName, position, webhookData)
+  }
+  catch (err) {
+    // Not resolved: the link can be used again
+    if (claims) await store.kv.delete(StoreSubjects.awaitTokenUsed(claims.id))
+    throw err
   }
 
-  logger.debug(`Webhook data received`, {
-    runId,
-    stepName,
-    dataKeys: Object.keys(webhookData || {}),
-  })
-
-  // TODO: Schema validation
-  // if (registration.schema) {
-  //   const schema = eval(registration.schema)
-  //   const result = schema.safeParse(webhookData)
-  //   if (!result.success) {
-  //     throw createError({
-  //       statusCode: 400,
-  //       statusMessage: 'Validation Failed',
-  //       data: result.error.errors,
-  //     })
-  //   }
-  // }
-
-  // Resolve the await using event-driven pattern
-  // This publishes await.resolved event, trigger wiring handles the rest
-  await await$.webhook.resolve(runId, stepName, flowName, position, webhookData)
-
-  logger.info(`Webhook await resolved`, { flowName, runId, stepName })
+  logger.info(`Webhook await resolved`, { flowName, runId, stepName, outcome: claims?.outcome })
 
   return {
     success: true,
     runId,
     stepName,
     flowName,
+    ...(claims?.outcome ? { outcome: claims.outcome } : {}),
     message: 'Webhook processed successfully. Flow will resume shortly.',
   }
 })
@@ -1,5 +1,9 @@
-import { defineEventHandler, readBody } from 'h3'
-import { useNventLogger, useTrigger } from '#imports'
+import { defineEventHandler, readBody, readRawBody, getHeader, getRequestHeaders, getRequestIP, setResponseHeader, setResponseStatus } from 'h3'
+import { useNventLogger, useTrigger, useRuntimeConfig, useStoreAdapter, useStreamTopics } from '#imports'
+import { verifyWebhookAuth } from '../utils/webhookAuth'
+import { PayloadValidationError } from '../utils/payloadSchema'
+import { getIdempotentRun } from '../../events/utils/flowIdempotency'
+import type { TriggerSubscription } from '../../../registry/types'
 
 /**
  * Dynamic webhook trigger handler for entry triggers (flow-scoped)
@@ -75,6 +79,43 @@ export default defineEventHandler(async (event) => {
     }
   }
 
+  // Verify authentication if configured (before reading the parsed body)
+  const auth = triggerEntry.webhook?.auth
+  if (auth) {
+    const secrets = (useRuntimeConfig() as any).nvent?.webhooks?.secrets || {}
+    const store = useStoreAdapter()
+    const { StoreSubjects } = useStreamTopics()
+
+    const authResult = await verifyWebhookAuth(auth, {
+      headers: getRequestHeaders(event),
+      rawBody: event.method === 'GET' ? undefined : (await readRawBody(event, 'utf8')) || '',
+    }, {
+      resolveSecret: ref => secrets[ref] ?? process.env[ref],
+      checkReplay: async (key, ttlSeconds) => {
+        // Atomic, so two concurrent deliveries of the same request can't both pass
+        const replayKey = StoreSubjects.webhookReplay(triggerName, key)
+        return !(await store.kv.setNX(replayKey, Date.now(), ttlSeconds))
+      },
+    })
+
+    if (!authResult.valid) {
+      await trigger.rejectTrigger(triggerName, authResult.reason, {
+        method: event.method,
+        ip: getRequestIP(event, { xForwardedFor: true }),
+      })
+
+      setResponseStatus(event, 401)
+      if (auth.type === 'basic') {
+        setResponseHeader(event, 'WWW-Authenticate', `Basic realm="${auth.realm || 'nvent'}"`)
+      }
+      return {
+        error: 'Unauthorized',
+        triggerName,
+        reason: authResult.reason,
+      }
+    }
+  }
+
   // Get webhook payload
   let webhookData: any
   if (event.method === 'GET') {
@@ -90,31 +131,53 @@ export default defineEventHandler(async (event) => {
     dataKeys: Object.keys(webhookData || {}),
   })
 
-  // TODO: Verify authentication if configured
-  // if (triggerEntry.webhook?.auth) {
-  //   const authResult = await verifyWebhookAuth(event, triggerEntry.webhook.auth)
-  //   if (!authResult.valid) {
-  //     return { error: 'Authentication failed', reason: authResult.reason }
-  //   }
-  // }
-
-  // TODO: Validate against schema if provided
-  // if (triggerEntry.webhook?.schema) {
-  //   const schema = eval(triggerEntry.webhook.schema)
-  //   const result = schema.safeParse(webhookData)
-  //   if (!result.success) {
-  //     return { error: 'Validation failed', errors: result.error.errors }
-  //   }
-  // }
-
   // TODO: Apply transform if configured
   // if (triggerEntry.webhook?.transform) {
   //   const transformFn = eval(triggerEntry.webhook.transform)
   //   webhookData = transformFn(webhookData)
   // }
 
+  // Redelivery with a known Idempotency-Key: answer with the runs of the first delivery
+  const idempotencyKey = getHeader(event, 'idempotency-key') || undefined
+  if (idempotencyKey) {
+    const flows: string[] = trigger.getAllSubscriptions()
+      .filter((sub: TriggerSubscription) => sub.triggerName === triggerName && sub.mode !== 'manual')
+      .map((sub: TriggerSubscription) => sub.flowName)
+    const runs = await Promise.all(flows.map(async flowName => ({
+      flowName,
+      runId: await getIdempotentRun(flowName, idempotencyKey),
+    })))
+
+    if (runs.length > 0 && runs.every(run => run.runId)) {
+      logger.info(`Duplicate webhook delivery ignored`, { triggerName, idempotencyKey })
+      return {
+        success: true,
+        duplicate: true,
+        triggerName,
+        runs,
+        message: 'Duplicate delivery, flows were already started',
+        timestamp: new Date().toISOString(),
+      }
+    }
+  }
+
   // Emit the trigger (will start subscribed flows)
-  await trigger.emitTrigger(triggerName, webhookData)
+  // Payloads are validated against the trigger and flow schemas before anything is persisted
+  // Flow starts are deduplicated by the idempotency key (deliveries racing the check above)
+  try {
+    await trigger.emitTrigger(triggerName, webhookData, { idempotencyKey })
+  }
+  catch (err) {
+    if (err instanceof PayloadValidationError) {
+      logger.warn(`Webhook payload rejected: ${err.message}`, { triggerName })
+      setResponseStatus(event, 422)
+      return {
+        ...err.toJSON(),
+        triggerName,
+      }
+    }
+    throw err
+  }
 
   logger.info(`Webhook trigger fired`, {
     triggerName,
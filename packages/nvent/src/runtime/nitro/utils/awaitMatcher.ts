@@ -0,0 +1,208 @@
+/**
+ * Declarative matchers for event awaits (JSONLogic-style predicates)
+ *
+ * Operands are either literals or `{ var: 'event.path' }` / `{ var: 'step.path' }` references
+ * to the incoming event data and the awaiting step's output.
+ *
+ * Declared in config, no functions allowed (AST-parsed at build time)
+ */
+
+/**
+ * Reference to a value of the incoming event (`event.*`) or the awaiting step's output (`step.*`)
+ */
+export interface AwaitMatchVar {
+  var: string
+}
+
+export type AwaitMatchOperand = AwaitMatchVar | string | number | boolean | null | Array<string | number | boolean | null>
+
+export type AwaitMatchComparison
+  = | { '==': [AwaitMatchOperand, AwaitMatchOperand] }
+    | { '!=': [AwaitMatchOperand, AwaitMatchOperand] }
+    | { '>': [AwaitMatchOperand, AwaitMatchOperand] }
+    | { '>=': [AwaitMatchOperand, AwaitMatchOperand] }
+    | { '<': [AwaitMatchOperand, AwaitMatchOperand] }
+    | { '<=': [AwaitMatchOperand, AwaitMatchOperand] }
+    | { in: [AwaitMatchOperand, AwaitMatchOperand] }
+    | { exists: AwaitMatchVar }
+
+export type AwaitMatcher
+  = | AwaitMatchComparison
+    | { and: AwaitMatcher[] }
+    | { or: AwaitMatcher[] }
+    | { '!': AwaitMatcher }
+
+export interface AwaitMatchScope {
+  event?: any
+  step?: any
+}
+
+const COMPARISONS = ['==', '!=', '>', '>=', '<', '<=', 'in'] as const
+const LOGICAL = ['and', 'or', '!', 'exists'] as const
+
+/**
+ * Validate the structure of a matcher
+ * @throws Error describing the first invalid node
+ */
+export function assertAwaitMatcher(matcher: unknown, path = 'match'): asserts matcher is AwaitMatcher {
+  const op = getOperator(matcher)
+  if (!op) {
+    throw new Error(`Invalid await matcher at '${path}': expected an object with exactly one operator`)
+  }
+  const args = (matcher as any)[op]
+
+  if (op === 'and' || op === 'or') {
+    if (!Array.isArray(args) || args.length === 0) {
+      throw new Error(`Invalid await matcher at '${path}.${op}': expected a non-empty array`)
+    }
+    args.forEach((m, i) => assertAwaitMatcher(m, `${path}.${op}[${i}]`))
+  }
+  else if (op === '!') {
+    assertAwaitMatcher(args, `${path}.!`)
+  }
+  else if (op === 'exists') {
+    if (!isVar(args)) {
+      throw new Error(`Invalid await matcher at '${path}.exists': expected { var: '...' }`)
+    }
+    assertVarRoot(args, `${path}.exists`)
+  }
+  else {
+    if (!Array.isArray(args) || args.length !== 2) {
+      throw new Error(`Invalid await matcher at '${path}.${op}': expected two operands`)
+    }
+    args.forEach((operand, i) => {
+      if (isVar(operand)) assertVarRoot(operand, `${path}.${op}[${i}]`)
+    })
+  }
+}
+
+/**
+ * Evaluate a matcher against the event and step data
+ */
+export function evaluateAwaitMatcher(matcher: AwaitMatcher, scope: AwaitMatchScope): boolean {
+  const op = getOperator(matcher)!
+  const args = (matcher as any)[op]
+
+  switch (op) {
+    case 'and':
+      return (args as AwaitMatcher[]).every(m => evaluateAwaitMatcher(m, scope))
+    case 'or':
+      return (args as AwaitMatcher[]).some(m => evaluateAwaitMatcher(m, scope))
+    case '!':
+      return !evaluateAwaitMatcher(args, scope)
+    case 'exists': {
+      const value = resolveOperand(args, scope)
+      return value !== undefined && value !== null
+    }
+  }
+
+  const left = resolveOperand(args[0], scope)
+  const right = resolveOperand(args[1], scope)
+
+  switch (op) {
+    case '==':
+      return looseEquals(left, right)
+    case '!=':
+      return !looseEquals(left, right)
+    case '>':
+    case '>=':
+    case '<':
+    case '<=':
+      return compare(op, left, right)
+    case 'in':
+      if (Array.isArray(right)) return right.some(item => looseEquals(left, item))
+      if (typeof right === 'string' && left !== undefined && left !== null) return right.includes(String(left))
+      return false
+  }
+  return false
+}
+
+/**
+ * Replace references to the given roots with their current values
+ *
+ * Used to resolve `step.*` references when the await is registered, so only
+ * the event side remains to be evaluated once the event arrives.
+ */
+export function bindAwaitMatcher(matcher: AwaitMatcher, scope: AwaitMatchScope): AwaitMatcher {
+  const bind = (node: any): any => {
+    if (isVar(node)) {
+      const root = node.var.split('.')[0] as keyof AwaitMatchScope
+      return root in scope ? (resolveOperand(node, scope) ?? null) : node
+    }
+    if (Array.isArray(node)) return node.map(bind)
+    if (node && typeof node === 'object') {
+      return Object.fromEntries(Object.entries(node).map(([k, v]) => [k, bind(v)]))
+    }
+    return node
+  }
+  return bind(matcher)
+}
+
+/**
+ * Human-readable expression, e.g. `event.amount >= step.amount && event.currency == "EUR"`
+ */
+export function describeAwaitMatcher(matcher: AwaitMatcher, nested = false): string {
+  const op = getOperator(matcher)
+  if (!op) return JSON.stringify(matcher)
+  const args = (matcher as any)[op]
+  const operand = (value: any) => (isVar(value) ? value.var : JSON.stringify(value))
+
+  switch (op) {
+    case 'and':
+    case 'or': {
+      const expr = (args as AwaitMatcher[]).map(m => describeAwaitMatcher(m, true)).join(op === 'and' ? ' && ' : ' || ')
+      return nested ? `(${expr})` : expr
+    }
+    case '!':
+      return `!(${describeAwaitMatcher(args)})`
+    case 'exists':
+      return `exists(${operand(args)})`
+    default:
+      return `${operand(args[0])} ${op} ${operand(args[1])}`
+  }
+}
+
+function getOperator(matcher: unknown): string | undefined {
+  if (!matcher || typeof matcher !== 'object' || Array.isArray(matcher)) return undefined
+  const keys = Object.keys(matcher)
+  if (keys.length !== 1) return undefined
+  const op = keys[0]!
+  return (COMPARISONS as readonly string[]).includes(op) || (LOGICAL as readonly string[]).includes(op) ? op : undefined
+}
+
+function isVar(value: unknown): value is AwaitMatchVar {
+  return !!value && typeof value === 'object' && !Array.isArray(value)
+    && Object.keys(value).length === 1 && typeof (value as any).var === 'string'
+}
+
+function assertVarRoot(ref: AwaitMatchVar, path: string) {
+  const root = ref.var.split('.')[0]
+  if (root !== 'event' && root !== 'step') {
+    throw new Error(`Invalid await matcher at '${path}': var '${ref.var}' must start with 'event.' or 'step.'`)
+  }
+}
+
+function resolveOperand(operand: any, scope: AwaitMatchScope): any {
+  if (!isVar(operand)) return operand
+  return operand.var.split('.').reduce((acc: any, key) => (acc == null ? undefined : acc[key]), scope)
+}
+
+function looseEquals(a: any, b: any): boolean {
+  if (a === b) return true
+  if (a === undefined || a === null || b === undefined || b === null) return false
+  if (typeof a === 'object' || typeof b === 'object') return false
+  return String(a) === String(b)
+}
+
+function compare(op: '>' | '>=' | '<' | '<=', a: any, b: any): boolean {
+  if (a === undefined || a === null || b === undefined || b === null) return false
+  const bothNumeric = !Number.isNaN(Number(a)) && !Number.isNaN(Number(b)) && a !== '' && b !== ''
+  const left = bothNumeric ? Number(a) : String(a)
+  const right = bothNumeric ? Number(b) : String(b)
+  switch (op) {
+    case '>': return left > right
+    case '>=': return left >= right
+    case '<': return left < right
+    case '<=': return left <= right
+  }
+}
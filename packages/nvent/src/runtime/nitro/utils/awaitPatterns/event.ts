@@ -1,22 +1,58 @@
 import type { AwaitConfig } from '../../../../registry/types'
-import { useNventLogger, useScheduler } from '#imports'
+import type { StreamEvent, SubscriptionHandle } from '../../../adapters/interfaces/stream'
+import { useNventLogger, useScheduler, useStoreAdapter, useStreamAdapter, useStreamTopics } from '#imports'
 import { getEventBus } from '../../../events/eventBus'
+import { readAllIndex } from '../../../events/utils/storeIndex'
+import { getPath } from '../../../events/utils/objectPath'
+import type { AwaitMatcher } from '../awaitMatcher'
+import { assertAwaitMatcher, bindAwaitMatcher, evaluateAwaitMatcher } from '../awaitMatcher'
 
 /**
  * Await Pattern: Event
  *
  * Waits for a specific event to be emitted (internal or external)
  * Useful for cross-flow coordination, external system notifications
+ *
+ * Events are matched by `filterKey` equality and/or a declarative `match` expression.
+ * References to the step output are bound when the await is registered, the event side
+ * is evaluated when the event arrives.
+ *
+ * Pending awaits are persisted in the store (indexed by event name, with the filter value
+ * and bound matcher in the entry metadata) so they survive restarts. Awaited events are
+ * forwarded through the StreamAdapter and every instance tries to claim matching awaits;
+ * deleting the index entry is the claim, so each await resolves exactly once across instances.
  */
+
+interface EventAwaitState {
+  subscription: SubscriptionHandle | null
+  starting: Promise<void> | null
+  // eventName -> unsubscribe of the local bus forwarder
+  forwarders: Map<string, () => void>
+}
+
+// Use global to survive HMR reloads
+declare global {
+  var __nvent_event_awaits: EventAwaitState | undefined
+}
+
+const state: EventAwaitState = globalThis.__nvent_event_awaits ??= {
+  subscription: null,
+  starting: null,
+  forwarders: new Map(),
+}
+
 export async function registerEventAwait(
   runId: string,
   stepName: string,
   flowName: string,
   config: AwaitConfig,
   position: 'before' | 'after' = 'after',
+  stepData?: any,
 ) {
   const logger = useNventLogger('await-event')
   const eventBus = getEventBus()
+  const store = useStoreAdapter()
+  const { StoreSubjects } = useStreamTopics()
 
   if (!config.event) {
     throw new Error('Event await requires event name configuration')
@@ -24,27 +60,49 @@ export async function registerEventAwait(
 
   logger.info(`Registering event await: ${config.event}`, { runId, stepName })
 
-  // Subscribe to the target event
-  const unsubscribe = eventBus.onType(config.event, async (event: any) => {
-    // Check if this event matches our await (filterKey matching)
-    if (config.filterKey) {
-      const awaitValue = (event.data as any)?.[config.filterKey]
-      const stepValue = (event.data as any)?.stepData?.[config.filterKey]
-
-      if (awaitValue !== stepValue) {
-        return // Event doesn't match our filter
-      }
+  // Resolve the value the incoming event has to carry under filterKey
+  let filterValue: string | undefined
+  if (config.filterKey) {
+    const value = resolveFilterValue(stepData, config.filterKey)
+    if (value === undefined || value === null) {
+      logger.warn(`Filter key '${config.filterKey}' not found in step data, awaiting any '${config.event}' event`, { runId, stepName })
+    }
+    else {
+      filterValue = String(value)
     }
+  }
 
-    // Event matches - resolve the await
-    await resolveEventAwait(runId, stepName, flowName, position, event.data)
-    unsubscribe() // Clean up subscription
-  })
+  // Bind step references of the matcher now, the step output is not available later
+  let match: AwaitMatcher | undefined
+  if (config.match) {
+    assertAwaitMatcher(config.match)
+    match = bindAwaitMatcher(config.match, { step: getStepOutput(stepData) })
+  }
 
   // Calculate timeout with configurable default
   const { useAwaitDefaults } = await import('../useAwait')
   const { eventTimeout: defaultTimeout, timeoutAction: defaultTimeoutAction } = useAwaitDefaults()
   const timeoutMs = config.timeout && config.timeout > 0 ? config.timeout : defaultTimeout
+  const registeredAt = Date.now()
+  const timeoutAt = registeredAt + timeoutMs
+
+  // Persist the pending await and make sure every instance forwards the event
+  await ensureEventAwaitSubscription()
+  await store.index.add(StoreSubjects.eventAwaits(), config.event, registeredAt, { eventName: config.event })
+  await store.index.add(StoreSubjects.eventAwaitIndex(config.event), eventAwaitId(runId, stepName, position), timeoutAt, {
+    runId,
+    flowName,
+    stepName,
+    position,
+    eventName: config.event,
+    filterKey: config.filterKey,
+    filterValue,
+    // Serialized: stores may flatten nested metadata
+    match: match ? JSON.stringify(match) : undefined,
+    registeredAt,
+    timeoutAt,
+  })
+  await watchEventName(config.event, true)
 
   // Emit await.registered event (wiring will handle storage)
   eventBus.publish({
@@ -59,15 +117,16 @@ export async function registerEventAwait(
       position, // Store position in data for database persistence
       eventName: config.event,
       filterKey: config.filterKey,
+      filterValue,
+      match: config.match,
       timeout: timeoutMs, // Store resolved timeout (with default)
-      registeredAt: Date.now(),
+      registeredAt,
       timeoutAction: config.timeoutAction || defaultTimeoutAction,
     },
   } as any)
 
   // Schedule timeout using the already calculated timeoutMs
   const scheduler = useScheduler()
-  const timeoutAt = Date.now() + timeoutMs
   const jobId = `await-event-timeout-${runId}-${stepName}-${position}`
 
   await scheduler.schedule({
@@ -76,6 +135,9 @@ export async function registerEventAwait(
     type: 'one-time',
     executeAt: timeoutAt,
     handler: async () => {
+      // Skip if the event arrived meanwhile (possibly on another instance)
+      if (!(await releaseEventAwait(runId, stepName, position, config.event!))) return
+
       logger.warn('Event await timeout', {
         runId,
         stepName,
@@ -101,9 +163,6 @@ export async function registerEventAwait(
           timedOutAt: Date.now(),
         },
       } as any)
-
-      // Clean up the event subscription
-      unsubscribe()
     },
     metadata: {
       component: 'await-pattern',
@@ -177,3 +236,199 @@ export async function resolveEventAwait(
 
   logger.debug(`Event await resolved`, { runId, stepName })
 }
+
+/**
+ * Remove a pending event await from the store
+ * @returns True if this caller removed it (and therefore owns its resolution or timeout)
+ */
+export async function releaseEventAwait(
+  runId: string,
+  stepName: string,
+  position: 'before' | 'after',
+  eventName: string,
+): Promise<boolean> {
+  const store = useStoreAdapter()
+  const { StoreSubjects } = useStreamTopics()
+  return await store.index.delete(StoreSubjects.eventAwaitIndex(eventName), eventAwaitId(runId, stepName, position))
+}
+
+/**
+ * Re-subscribe all pending event awaits (called on boot)
+ */
+export async function restoreEventAwaits() {
+  const store = useStoreAdapter()
+  const { StoreSubjects } = useStreamTopics()
+
+  await ensureEventAwaitSubscription()
+
+  const eventNames = await readAllIndex(store, StoreSubjects.eventAwaits())
+  let pending = 0
+  for (const { id: eventName } of eventNames) {
+    const entries = await readAllIndex(store, StoreSubjects.eventAwaitIndex(eventName))
+    if (entries.length === 0) {
+      await store.index.delete(StoreSubjects.eventAwaits(), eventName)
+      continue
+    }
+    pending += entries.length
+    await watchEventName(eventName, false)
+  }
+
+  return { events: state.forwarders.size, pending }
+}
+
+/**
+ * Stop forwarding and matching awaited events on this instance
+ */
+export async function stopEventAwaits() {
+  for (const unsubscribe of state.forwarders.values()) unsubscribe()
+  state.forwarders.clear()
+  if (state.subscription) {
+    const subscription = state.subscription
+    state.subscription = null
+    state.starting = null
+    try {
+      await subscription.unsubscribe()
+    }
+    catch {
+      // best-effort: adapter may already be shut down
+    }
+  }
+}
+
+function eventAwaitId(runId: string, stepName: string, position: 'before' | 'after') {
+  return `${runId}:${stepName}:${position}`
+}
+
+/**
+ * Look up a dot-separated key in the data the await was registered with
+ * (step result for awaitAfter, step input for awaitBefore)
+ */
+function resolveFilterValue(stepData: any, filterKey: string): any {
+  if (!stepData || typeof stepData !== 'object') return undefined
+  for (const source of [stepData.result, stepData.input, stepData]) {
+    const value = getPath(source, filterKey)
+    if (value !== undefined) return value
+  }
+  return undefined
+}
+
+/**
+ * Output of the awaiting step (`step.*` in matchers)
+ */
+function getStepOutput(stepData: any): any {
+  if (!stepData || typeof stepData !== 'object') return stepData
+  return stepData.result ?? stepData.input ?? stepData
+}
+
+/**
+ * Subscribe this instance to awaited events from all instances
+ */
+function ensureEventAwaitSubscription(): Promise<void> {
+  if (state.subscription) return Promise.resolve()
+  if (state.starting) return state.starting
+
+  state.starting = (async () => {
+    const stream = useStreamAdapter()
+    const { StreamTopics } = useStreamTopics()
+    state.subscription = await stream.subscribe(StreamTopics.awaitEvents(), async (event: StreamEvent) => {
+      const eventName = event.data?.eventName
+      if (!eventName) return
+
+      if (event.type === 'await.event.watch') {
+        await watchEventName(eventName, false)
+      }
+      else if (event.type === 'await.event') {
+        await matchEventAwaits(eventName, event.data.payload)
+      }
+    })
+  })()
+
+  return state.starting.catch((err) => {
+    state.starting = null
+    throw err
+  })
+}
+
+/**
+ * Forward local bus events with this name to all instances
+ * @param eventName - Awaited event name
+ * @param announce - Tell other instances to start forwarding this event name as well
+ */
+async function watchEventName(eventName: string, announce: boolean) {
+  const stream = useStreamAdapter()
+  const { StreamTopics } = useStreamTopics()
+
+  if (!state.forwarders.has(eventName)) {
+    const logger = useNventLogger('await-event')
+    // Exclusive: with the cluster bus every instance sees the event, one of them forwards it
+    const unsubscribe = getEventBus().onType(eventName, (e: any) => {
+      void stream.publish(StreamTopics.awaitEvents(), {
+        type: 'await.event',
+        data: { eventName, payload: e.data },
+        timestamp: Date.now(),
+      }).catch((err: any) => {
+        logger.error('Failed to forward awaited event', { eventName, error: err?.message })
+      })
+    }, { exclusive: true })
+    state.forwarders.set(eventName, unsubscribe)
+  }
+
+  if (announce) {
+    await stream.publish(StreamTopics.awaitEvents(), {
+      type: 'await.event.watch',
+      data: { eventName },
+      timestamp: Date.now(),
+    })
+  }
+}
+
+/**
+ * Resolve all pending awaits matching an incoming event
+ */
+async function matchEventAwaits(eventName: string, payload: any) {
+  const logger = useNventLogger('await-event')
+  const store = useStoreAdapter()
+  const { StoreSubjects } = useStreamTopics()
+
+  const entries = await readAllIndex(store, StoreSubjects.eventAwaitIndex(eventName))
+  for (const entry of entries) {
+    const meta = entry.metadata || {}
+
+    if (meta.filterKey && meta.filterValue !== undefined && meta.filterValue !== null) {
+      const value = getPath(payload, meta.filterKey)
+      if (value === undefined || value === null || String(value) !== String(meta.filterValue)) continue
+    }
+
+    if (meta.match) {
+      try {
+        const match = typeof meta.match === 'string' ? JSON.parse(meta.match) : meta.match
+        if (!evaluateAwaitMatcher(match, { event: payload })) continue
+      }
+      catch (err) {
+        logger.error('Failed to evaluate event await matcher', {
+          eventName,
+          runId: meta.runId,
+          stepName: meta.stepName,
+          error: (err as any)?.message,
+        })
+        continue
+      }
+    }
+
+    // Claim the await - only one instance succeeds
+    const claimed = await store.index.delete(StoreSubjects.eventAwaitIndex(eventName), entry.id)
+    if (!claimed) continue
+
+    try {
+      await resolveEventAwait(meta.runId, meta.stepName, meta.flowName, meta.position, payload)
+    }
+    catch (err) {
+      logger.error('Failed to resolve event await', {
+        eventName,
+        runId: meta.runId,
+        stepName: meta.stepName,
+        error: (err as any)?.message,
+      })
+    }
+  }
+}
@@ -0,0 +1,303 @@
+import { randomUUID } from 'node:crypto'
+import type { AwaitConfig } from '../../../../registry/types'
+import type { StreamEvent, SubscriptionHandle } from '../../../adapters/interfaces/stream'
+import { useFlow, useNventLogger, useScheduler, useStoreAdapter, useStreamAdapter, useStreamTopics } from '#imports'
+import { getEventBus } from '../../../events/eventBus'
+import { readAllStream } from '../../../events/utils/storeStream'
+import type { SubflowOutcome } from '../subflow'
+import { getSubflowOutcome, resolveSubflowInput } from '../subflow'
+
+// Resolution claims outlive any await (seconds)
+const FLOW_AWAIT_RESOLVED_TTL = 7 * 24 * 60 * 60
+
+/**
+ * Await Pattern: Flow (sub-flow)
+ *
+ * Starts another flow as a child run and waits for its terminal event
+ * Useful for reusing flows as building blocks of larger flows
+ *
+ * The child carries a `parent` link in its run index entry; when it completes, fails or is
+ * canceled, the persistence wiring calls `resumeParentRun()`, which resolves this await
+ * with the child's outcome. A failed or canceled child fails the awaiting step.
+ *
+ * The await is registered before the child starts. A child that ends before the parent's
+ * await is stored is picked up by `resumeEndedSubflow()` once it is.
+ */
+export async function registerFlowAwait(
+  runId: string,
+  stepName: string,
+  flowName: string,
+  config: AwaitConfig,
+  position: 'before' | 'after' = 'before',
+  stepData?: any,
+) {
+  const logger = useNventLogger('await-flow')
+  const eventBus = getEventBus()
+  const store = useStoreAdapter()
+  const { StoreSubjects } = useStreamTopics()
+
+  if (!config.flow) {
+    throw new Error('Flow await requires flow name configuration')
+  }
+
+  // Registration jobs may be retried: don't start a second child for the same await
+  const parentEntry = await store.index.get(StoreSubjects.flowRunIndex(flowName), runId)
+  const children = (parentEntry?.metadata as any)?.children || {}
+  const existing = Object.entries(children).find(([, child]: [string, any]) =>
+    child?.stepName === stepName && child?.position === position,
+  )
+  if (existing) {
+    logger.debug('Sub-flow already started for await', { runId, stepName, childRunId: existing[0] })
+    return { runId: existing[0], flowName: config.flow }
+  }
+
+  logger.info(`Registering flow await: ${config.flow}`, { runId, stepName })
+
+  // Calculate timeout with configurable default
+  const { useAwaitDefaults } = await import('../useAwait')
+  const { flowTimeout: defaultTimeout, timeoutAction: defaultTimeoutAction } = useAwaitDefaults()
+  const timeoutMs = config.timeout && config.timeout > 0 ? config.timeout : defaultTimeout
+  const timeoutAction = config.timeoutAction || defaultTimeoutAction
+
+  const input = resolveSubflowInput(stepData, position, config.input)
+  const childRunId = randomUUID()
+  const registeredAt = Date.now()
+
+  // Emit await.registered event (wiring will handle storage) before the child can end
+  await eventBus.publish({
+    type: 'await.registered',
+    flowName,
+    runId,
+    stepName,
+    awaitType: 'flow',
+    position,
+    config: { ...config, timeout: timeoutMs },
+    data: {
+      position, // Store position in data for database persistence
+      subflow: { runId: childRunId, flowName: config.flow },
+      timeout: timeoutMs, // Store resolved timeout (with default)
+      registeredAt,
+      timeoutAction,
+    },
+  } as any)
+
+  const child = await useFlow().startFlow(config.flow, input, {
+    runId: childRunId,
+    parent: { runId, flowName, stepName, position },
+  })
+
+  // Schedule timeout using the already calculated timeoutMs
+  const scheduler = useScheduler()
+  await scheduler.schedule({
+    id: flowAwaitTimeoutJobId(runId, stepName, position),
+    name: `Flow Await Timeout: ${flowName} - ${stepName}`,
+    type: 'one-time',
+    executeAt: registeredAt + timeoutMs,
+    handler: async () => {
+      logger.warn('Flow await timeout', {
+        runId,
+        stepName,
+        flowName,
+        subflow: config.flow,
+        timeout: timeoutMs,
+      })
+
+      eventBus.publish({
+        type: 'await.timeout',
+        flowName,
+        runId,
+        stepName,
+        position,
+        awaitType: 'flow',
+        timeoutAction,
+        data: {
+          subflow: { runId: child.flowId, flowName: config.flow },
+          timeout: timeoutMs,
+          registeredAt,
+          timedOutAt: Date.now(),
+        },
+      } as any)
+    },
+    metadata: {
+      component: 'await-pattern',
+      awaitType: 'flow',
+      runId,
+      stepName,
+      flowName,
+      position,
+      timeout: timeoutMs,
+      timeoutAction,
+      subflow: config.flow,
+    },
+  })
+
+  logger.debug(`Flow await registered: ${config.flow}`, { runId, stepName, childRunId: child.flowId })
+
+  return {
+    runId: child.flowId,
+    flowName: config.flow,
+  }
+}
+
+/**
+ * Resolve flow await with the outcome of the child run
+ */
+export async function resolveFlowAwait(
+  runId: string,
+  stepName: string,
+  flowName: string,
+  position: 'before' | 'after',
+  outcome: SubflowOutcome,
+) {
+  const logger = useNventLogger('await-flow')
+  const eventBus = getEventBus()
+  const scheduler = useScheduler()
+  const store = useStoreAdapter()
+  const { StoreSubjects } = useStreamTopics()
+
+  // The child's terminal event and the await registration may both resolve it
+  const claimed = await store.kv.setNX(StoreSubjects.flowAwaitResolved(runId, stepName, position), outcome.runId, FLOW_AWAIT_RESOLVED_TTL)
+  if (!claimed) {
+    logger.debug('Flow await already resolved', { runId, stepName, childRunId: outcome.runId })
+    return
+  }
+
+  logger.info(`Resolving flow await`, { runId, stepName, childRunId: outcome.runId, status: outcome.status })
+
+  try {
+    await scheduler.unschedule(flowAwaitTimeoutJobId(runId, stepName, position))
+  }
+  catch {
+    // No timeout configured or already executed
+  }
+
+  // Emit await.resolved event (wiring will handle cleanup and processing)
+  eventBus.publish({
+    type: 'await.resolved',
+    flowName,
+    runId,
+    stepName,
+    position,
+    awaitType: 'flow',
+    triggerData: outcome,
+    data: {
+      position, // Store position in data for database persistence
+      subflow: { runId: outcome.runId, flowName: outcome.flowName, status: outcome.status },
+      resolvedAt: Date.now(),
+    },
+  } as any)
+
+  logger.debug(`Flow await resolved`, { runId, stepName })
+}
+
+/**
+ * Resume the parent of a run that just ended (called for persisted terminal events)
+ * No-op for runs without a parent or started through `ctx.flow.invoke()`.
+ */
+export async function resumeParentRun(
+  flowName: string,
+  runId: string,
+  event: { type: string, data?: any },
+) {
+  const logger = useNventLogger('await-flow')
+  const store = useStoreAdapter()
+  const { StoreSubjects } = useStreamTopics()
+
+  const entry = await store.index.get(StoreSubjects.flowRunIndex(flowName), runId)
+  const parent = (entry?.metadata as any)?.parent
+  if (!parent?.runId || !parent.position) return
+
+  const parentEntry = await store.index.get(StoreSubjects.flowRunIndex(parent.flowName), parent.runId)
+  const awaitState = (parentEntry?.metadata as any)?.awaitingSteps?.[`${parent.stepName}:${parent.position}`]
+  if (awaitState?.status !== 'awaiting') {
+    logger.debug('Parent step is not awaiting this sub-flow anymore', { runId, parentRunId: parent.runId })
+    return
+  }
+
+  const outcome = getSubflowOutcome(flowName, runId, [event])
+  if (!outcome) return
+
+  await resolveFlowAwait(parent.runId, parent.stepName, parent.flowName, parent.position, outcome)
+}
+
+/**
+ * Resolve a flow await whose child already ended (called once the await is stored)
+ * `resumeParentRun()` skips parents that are not awaiting yet, so a child that ends
+ * before its parent's await is stored is only picked up here.
+ */
+export async function resumeEndedSubflow(
+  runId: string,
+  stepName: string,
+  flowName: string,
+  position: 'before' | 'after',
+  subflow: { runId: string, flowName: string },
+) {
+  const store = useStoreAdapter()
+  const { StoreSubjects } = useStreamTopics()
+
+  const events = await readAllStream(store, StoreSubjects.flowRun(subflow.runId))
+  const outcome = getSubflowOutcome(subflow.flowName, subflow.runId, events as any[])
+  if (!outcome) return
+
+  await resolveFlowAwait(runId, stepName, flowName, position, outcome)
+}
+
+/**
+ * Wait for a run to end and return its outcome
+ *
+ * Listens on the run's stream topic, so the run may execute on any instance.
+ * The subscription is always released, even when the timeout fires before it is established.
+ * @param flowName - Flow of the run
+ * @param runId - Run to wait for
+ * @param timeout - Give up after this many milliseconds (resolves with status 'failed')
+ */
+export async function waitForFlowRun(flowName: string, runId: string, timeout?: number): Promise<SubflowOutcome> {
+  const store = useStoreAdapter()
+  const stream = useStreamAdapter()
+  const { StoreSubjects, StreamTopics } = useStreamTopics()
+
+  let timer: NodeJS.Timeout | undefined
+  let subscribed: (handle: SubscriptionHandle | undefined) => void = () => {}
+  const subscription = new Promise<SubscriptionHandle | undefined>((resolveHandle) => {
+    subscribed = resolveHandle
+  })
+
+  try {
+    return await new Promise<SubflowOutcome>((resolve, reject) => {
+      stream.subscribe(StreamTopics.flowEvents(runId), async (message: StreamEvent) => {
+        const outcome = getSubflowOutcome(flowName, runId, [message.data?.event || {}])
+        if (outcome) resolve(outcome)
+      })
+        .then(async (handle: SubscriptionHandle) => {
+          subscribed(handle)
+          // The run may have ended before we subscribed
+          const events = await readAllStream(store, StoreSubjects.flowRun(runId))
+          const outcome = getSubflowOutcome(flowName, runId, events as any[])
+          if (outcome) resolve(outcome)
+        })
+        .catch((err: any) => {
+          subscribed(undefined)
+          reject(err)
+        })
+
+      if (timeout && timeout > 0) {
+        timer = setTimeout(() => {
+          resolve({ runId, flowName, status: 'failed', error: `Timed out after ${timeout}ms` })
+        }, timeout)
+      }
+    })
+  }
+  finally {
+    if (timer) clearTimeout(timer)
+    try {
+      await (await subscription)?.unsubscribe()
+    }
+    catch {
+      // best-effort: adapter may already be shut down
+    }
+  }
+}
+
+function flowAwaitTimeoutJobId(runId: string, stepName: string, position: 'before' | 'after') {
+  return `await-flow-timeout-${runId}-${stepName}-${position}`
+}
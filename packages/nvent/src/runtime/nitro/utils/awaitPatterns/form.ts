@@ -0,0 +1,390 @@
+import type { AwaitConfig } from '../../../../registry/types'
+import { useNventLogger, useScheduler, useSchemaRegistry, useStoreAdapter, useStreamAdapter, useStreamTopics } from '#imports'
+import { getEventBus } from '../../../events/eventBus'
+import { withStoreLock } from '../../../events/utils/storeLock'
+import { readAllIndex } from '../../../events/utils/storeIndex'
+
+/**
+ * Await Pattern: Form
+ *
+ * Puts a task into the task inbox of the dashboard and waits until a person completes it
+ * (with input validated against the form schema) or rejects it. Either way the await resolves,
+ * with `{ outcome: 'completed', data, user }` or `{ outcome: 'rejected', reason, user }`.
+ *
+ * Open tasks live in one store index. Claiming, completing and rejecting run under a per-task
+ * store lock; deleting the task is the claim on its resolution, so a task resolves or times out
+ * exactly once across instances. Inbox changes are published on StreamTopics.awaitTasks().
+ */
+
+export interface AwaitTask {
+  /** `{runId}:{stepName}:{position}` */
+  id: string
+  flowName: string
+  runId: string
+  stepName: string
+  position: 'before' | 'after'
+  title: string
+  description?: string
+  assignee?: string
+  role?: string
+  /** JSON Schema of the input (if the schema library can export one) */
+  schema?: Record<string, any>
+  claimedBy?: string
+  claimedAt?: number
+  createdAt: number
+  timeoutAt: number
+}
+
+export interface AwaitTaskFilter {
+  flowName?: string
+  assignee?: string
+  role?: string
+}
+
+export interface AwaitTaskActionOptions {
+  /** Act on tasks assigned to or claimed by someone else, or meant for another role */
+  override?: boolean
+  /**
+   * Whether the user may act on tasks meant for a role (`role` of the form await)
+   * Tasks with a role are refused without it.
+   */
+  authorizeRole?: (role: string) => boolean | Promise<boolean>
+}
+
+export type AwaitTaskChange = 'created' | 'claimed' | 'removed'
+
+/**
+ * Thrown when a task can't be claimed, completed or rejected
+ */
+export class AwaitTaskError extends Error {
+  constructor(
+    public readonly statusCode: 403 | 404 | 409,
+    message: string,
+  ) {
+    super(message)
+    this.name = 'AwaitTaskError'
+  }
+}
+
+export async function registerFormAwait(
+  runId: string,
+  stepName: string,
+  flowName: string,
+  config: AwaitConfig,
+  position: 'before' | 'after' = 'after',
+) {
+  const logger = useNventLogger('await-form')
+  const eventBus = getEventBus()
+  const store = useStoreAdapter()
+  const { StoreSubjects } = useStreamTopics()
+
+  // Calculate timeout with configurable default
+  const { useAwaitDefaults } = await import('../useAwait')
+  const { formTimeout: defaultTimeout, timeoutAction: defaultTimeoutAction } = useAwaitDefaults()
+  const timeoutMs = config.timeout && config.timeout > 0 ? config.timeout : defaultTimeout
+  const createdAt = Date.now()
+  const timeoutAt = createdAt + timeoutMs
+  const timeoutAction = config.timeoutAction || defaultTimeoutAction
+
+  const task: AwaitTask = {
+    id: formTaskId(runId, stepName, position),
+    flowName,
+    runId,
+    stepName,
+    position,
+    title: config.title || `${flowName}: ${stepName}`,
+    description: config.description,
+    assignee: config.assignee,
+    role: config.role,
+    schema: useSchemaRegistry().getAwaitFormJsonSchema(flowName, stepName, position),
+    createdAt,
+    timeoutAt,
+  }
+
+  logger.info(`Registering form await: ${task.title}`, { runId, stepName, assignee: task.assignee, role: task.role })
+
+  await store.index.add(StoreSubjects.awaitTasks(), task.id, createdAt, {
+    ...task,
+    // Serialized: stores may flatten nested metadata
+    schema: task.schema ? JSON.stringify(task.schema) : undefined,
+  })
+
+  // Emit await.registered event (wiring will handle flow state updates)
+  eventBus.publish({
+    type: 'await.registered',
+    flowName,
+    runId,
+    stepName,
+    awaitType: 'form',
+    position,
+    config,
+    data: {
+      position, // Store position in data for database persistence
+      taskId: task.id,
+      title: task.title,
+      assignee: task.assignee,
+      role: task.role,
+      timeout: timeoutMs, // Store resolved timeout (with default)
+      registeredAt: createdAt,
+      timeoutAction,
+    },
+  } as any)
+
+  await publishTaskChange('created', task)
+
+  // Schedule timeout using the already calculated timeoutMs
+  const scheduler = useScheduler()
+  const jobId = `await-form-timeout-${runId}-${stepName}-${position}`
+
+  await scheduler.schedule({
+    id: jobId,
+    name: `Form Await Timeout: ${flowName} - ${stepName}`,
+    type: 'one-time',
+    executeAt: timeoutAt,
+    handler: async () => {
+      // Skip if the task was completed or rejected meanwhile (possibly on another instance)
+      if (!(await removeAwaitTask(task.id))) return
+
+      logger.warn('Form await timeout', { runId, stepName, flowName, timeout: timeoutMs, timeoutAction })
+
+      eventBus.publish({
+        type: 'await.timeout',
+        flowName,
+        runId,
+        stepName,
+        position,
+        awaitType: 'form',
+        timeoutAction,
+        data: {
+          taskId: task.id,
+          timeout: timeoutMs,
+          registeredAt: createdAt,
+          timedOutAt: Date.now(),
+        },
+      } as any)
+    },
+    metadata: {
+      component: 'await-pattern',
+      awaitType: 'form',
+      runId,
+      stepName,
+      flowName,
+      position,
+      timeout: timeoutMs,
+      timeoutAction,
+      taskId: task.id,
+    },
+  })
+
+  logger.debug(`Form await registered: ${task.id}`, { runId, stepName })
+
+  return {
+    taskId: task.id,
+    assignee: task.assignee,
+    role: task.role,
+    expiresAt: timeoutAt,
+    timeout: config.timeout,
+  }
+}
+
+/**
+ * Resolve form await once its task was completed or rejected
+ */
+export async function resolveFormAwait(
+  runId: string,
+  stepName: string,
+  flowName: string,
+  position: 'before' | 'after',
+  data: any,
+) {
+  const logger = useNventLogger('await-form')
+  const eventBus = getEventBus()
+  const scheduler = useScheduler()
+
+  logger.info(`Resolving form await`, { runId, stepName, outcome: data?.outcome })
+
+  // Unschedule timeout job if exists
+  const jobId = `await-form-timeout-${runId}-${stepName}-${position}`
+  try {
+    await scheduler.unschedule(jobId)
+  }
+  catch {
+    // Job might not exist or already executed, that's fine
+    logger.debug('Could not unschedule timeout job (may not exist)', { runId, stepName, jobId })
+  }
+
+  // Emit await.resolved event (wiring will handle flow state updates and processing)
+  eventBus.publish({
+    type: 'await.resolved',
+    flowName,
+    runId,
+    stepName,
+    position,
+    awaitType: 'form',
+    triggerData: data,
+    data: {
+      position, // Store position in data for database persistence
+      resolvedAt: Date.now(),
+    },
+  } as any)
+}
+
+/**
+ * Open tasks, newest first
+ */
+export async function listAwaitTasks(filter: AwaitTaskFilter = {}): Promise<AwaitTask[]> {
+  const store = useStoreAdapter()
+  const { StoreSubjects } = useStreamTopics()
+
+  const entries = await readAllIndex(store, StoreSubjects.awaitTasks())
+  return entries
+    .map(entry => toAwaitTask(entry.id, entry.metadata))
+    .filter(task => (!filter.flowName || task.flowName === filter.flowName)
+      && (!filter.assignee || task.assignee === filter.assignee)
+      && (!filter.role || task.role === filter.role))
+}
+
+export async function getAwaitTask(taskId: string): Promise<AwaitTask | null> {
+  const store = useStoreAdapter()
+  const { StoreSubjects } = useStreamTopics()
+
+  const entry = await store.index.get(StoreSubjects.awaitTasks(), taskId)
+  return entry ? toAwaitTask(entry.id, entry.metadata) : null
+}
+
+/**
+ * Claim a task, so nobody else completes or rejects it
+ * @throws AwaitTaskError
+ */
+export async function claimAwaitTask(taskId: string, user: string, opts: AwaitTaskActionOptions = {}): Promise<AwaitTask> {
+  const store = useStoreAdapter()
+  const { StoreSubjects } = useStreamTopics()
+
+  const task = await withStoreLock(store, StoreSubjects.awaitTaskLock(taskId), async () => {
+    const current = await requireTask(taskId, user, opts)
+    const claimed = { ...current, claimedBy: user, claimedAt: Date.now() }
+    await store.index.updateWithRetry(StoreSubjects.awaitTasks(), taskId, { claimedBy: user, claimedAt: claimed.claimedAt })
+    return claimed
+  })
+
+  await publishTaskChange('claimed', task)
+  return task
+}
+
+/**
+ * Complete a task with input for its form and resume the run
+ * @throws PayloadValidationError if the input doesn't match the form schema
+ * @throws AwaitTaskError
+ */
+export async function completeAwaitTask(taskId: string, input: any, user: string, opts: AwaitTaskActionOptions = {}): Promise<AwaitTask> {
+  const current = await requireTask(taskId, user, opts)
+  const data = await useSchemaRegistry().validateAwaitFormInput(current.flowName, current.stepName, current.position, input)
+
+  const task = await takeAwaitTask(taskId, user, opts)
+  await resolveFormAwait(task.runId, task.stepName, task.flowName, task.position, { outcome: 'completed', data, user })
+  return task
+}
+
+/**
+ * Reject a task and resume the run with the rejection
+ * @throws AwaitTaskError
+ */
+export async function rejectAwaitTask(taskId: string, reason: string | undefined, user: string, opts: AwaitTaskActionOptions = {}): Promise<AwaitTask> {
+  const task = await takeAwaitTask(taskId, user, opts)
+  await resolveFormAwait(task.runId, task.stepName, task.flowName, task.position, { outcome: 'rejected', reason, user })
+  return task
+}
+
+/**
+ * Remove a task from the inbox
+ * @returns True if this caller removed it (and therefore owns its resolution or timeout)
+ */
+export async function removeAwaitTask(taskId: string): Promise<boolean> {
+  const store = useStoreAdapter()
+  const { StoreSubjects } = useStreamTopics()
+
+  const removed = await store.index.delete(StoreSubjects.awaitTasks(), taskId)
+  if (removed) await publishTaskChange('removed', { id: taskId })
+  return removed
+}
+
+/**
+ * Remove the open tasks of a run that ended (completed, failed or canceled)
+ */
+export async function removeRunAwaitTasks(flowName: string, runId: string): Promise<void> {
+  const store = useStoreAdapter()
+  const { StoreSubjects } = useStreamTopics()
+
+  const entry = await store.index.get(StoreSubjects.flowRunIndex(flowName), runId)
+  const awaitingSteps = (entry?.metadata as any)?.awaitingSteps || {}
+  for (const awaitState of Object.values<any>(awaitingSteps)) {
+    if (awaitState?.awaitType === 'form') {
+      await removeAwaitTask(formTaskId(runId, awaitState.stepName, awaitState.position))
+    }
+  }
+}
+
+/**
+ * Delete a task under its lock, after checking the user may act on it
+ */
+async function takeAwaitTask(taskId: string, user: string, opts: AwaitTaskActionOptions): Promise<AwaitTask> {
+  const store = useStoreAdapter()
+  const { StoreSubjects } = useStreamTopics()
+
+  return await withStoreLock(store, StoreSubjects.awaitTaskLock(taskId), async () => {
+    const task = await requireTask(taskId, user, opts)
+    if (!(await removeAwaitTask(taskId))) {
+      throw new AwaitTaskError(404, `Task '${taskId}' is no longer open`)
+    }
+    return task
+  })
+}
+
+async function requireTask(taskId: string, user: string, opts: AwaitTaskActionOptions): Promise<AwaitTask> {
+  const task = await getAwaitTask(taskId)
+  if (!task) {
+    throw new AwaitTaskError(404, `Task '${taskId}' is no longer open`)
+  }
+  if (!opts.override && task.assignee && task.assignee !== user) {
+    throw new AwaitTaskError(403, `Task '${taskId}' is assigned to '${task.assignee}'`)
+  }
+  if (!opts.override && task.role && !(await opts.authorizeRole?.(task.role))) {
+    throw new AwaitTaskError(403, `Task '${taskId}' is meant for role '${task.role}'`)
+  }
+  if (!opts.override && task.claimedBy && task.claimedBy !== user) {
+    throw new AwaitTaskError(409, `Task '${taskId}' is claimed by '${task.claimedBy}'`)
+  }
+  return task
+}
+
+async function publishTaskChange(change: AwaitTaskChange, task: Pick<AwaitTask, 'id'> & Partial<AwaitTask>) {
+  const { StreamTopics } = useStreamTopics()
+  try {
+    await useStreamAdapter().publish(StreamTopics.awaitTasks(), {
+      type: 'await.task',
+      data: { change, task },
+      timestamp: Date.now(),
+    })
+  }
+  catch (err) {
+    // Best-effort: the inbox catches up on its next load
+    useNventLogger('await-form').warn('Failed to publish task change', { taskId: task.id, change, error: (err as any)?.message })
+  }
+}
+
+function toAwaitTask(id: string, metadata: any): AwaitTask {
+  let schema: Record<string, any> | undefined
+  if (typeof metadata?.schema === 'string') {
+    try {
+      schema = JSON.parse(metadata.schema)
+    }
+    catch {
+      schema = undefined
+    }
+  }
+  return { ...metadata, id, schema }
+}
+
+function formTaskId(runId: string, stepName: string, position: 'before' | 'after') {
+  return `${runId}:${stepName}:${position}`
+}
@@ -6,6 +6,8 @@ import { registerWebhookAwait, resolveWebhookAwait } from './webhook'
 import { registerEventAwait, resolveEventAwait } from './event'
 import { registerScheduleAwait, resolveScheduleAwait } from './schedule'
 import { registerTimeAwait, resolveTimeAwait } from './time'
+import { registerFlowAwait, resolveFlowAwait } from './flow'
+import { registerFormAwait, resolveFormAwait } from './form'
 
 /**
  * Unified await pattern registry
@@ -17,6 +19,7 @@ export async function registerAwaitPattern(
   flowName: string,
   config: AwaitConfig,
   position: 'before' | 'after' = 'after',
+  stepData?: any,
 ) {
   const logger = useNventLogger('await-patterns')
 
@@ -31,7 +34,7 @@ export async function registerAwaitPattern(
       return await registerWebhookAwait(runId, stepName, flowName, config, position)
 
     case 'event':
-      return await registerEventAwait(runId, stepName, flowName, config, position)
+      return await registerEventAwait(runId, stepName, flowName, config, position, stepData)
 
     case 'schedule':
       return await registerScheduleAwait(runId, stepName, flowName, config, position)
@@ -39,6 +42,12 @@ export async function registerAwaitPattern(
     case 'time':
       return await registerTimeAwait(runId, stepName, flowName, config, position)
 
+    case 'flow':
+      return await registerFlowAwait(runId, stepName, flowName, config, position, stepData)
+
+    case 'form':
+      return await registerFormAwait(runId, stepName, flowName, config, position)
+
     default:
       throw new Error(`Unknown await pattern type: ${(config as any).type}`)
   }
@@ -48,7 +57,7 @@ export async function registerAwaitPattern(
  * Resolve await pattern by type
  */
 export async function resolveAwaitPattern(
-  type: 'webhook' | 'event' | 'schedule' | 'time',
+  type: 'webhook' | 'event' | 'schedule' | 'time' | 'flow' | 'form',
   runId: string,
   stepName: string,
   flowName: string,
@@ -76,6 +85,12 @@ export async function resolveAwaitPattern(
     case 'time':
       return await resolveTimeAwait(runId, stepName, flowName, position, data)
 
+    case 'flow':
+      return await resolveFlowAwait(runId, stepName, flowName, position, data)
+
+    case 'form':
+      return await resolveFormAwait(runId, stepName, flowName, position, data)
+
     default:
       throw new Error(`Unknown await pattern type: ${type}`)
   }
@@ -91,4 +106,8 @@ export {
   resolveScheduleAwait,
   registerTimeAwait,
   resolveTimeAwait,
+  registerFlowAwait,
+  resolveFlowAwait,
+  registerFormAwait,
+  resolveFormAwait,
 }
@@ -1,12 +1,32 @@
+import { randomBytes, randomUUID } from 'node:crypto'
 import type { AwaitConfig } from '../../../../registry/types'
-import { useNventLogger, useRuntimeConfig, useScheduler } from '#imports'
+import { useNventLogger, useRuntimeConfig, useScheduler, useStoreAdapter, useStreamTopics } from '#imports'
 import { getEventBus } from '../../../events/eventBus'
+import { signAwaitToken } from '../awaitToken'
+
+/**
+ * Secret signing await webhook URLs
+ * `nvent.webhooks.awaitSecret`, or a random secret generated once and shared through the store
+ */
+export async function getAwaitTokenSecret(): Promise<string> {
+  const configured = (useRuntimeConfig().nvent as any)?.webhooks?.awaitSecret
+  if (configured) return configured
+
+  const store = useStoreAdapter()
+  const key = useStreamTopics().StoreSubjects.awaitTokenSecret()
+  await store.kv.setNX(key, randomBytes(32).toString('hex'))
+  return (await store.kv.get<string>(key))!
+}
 
 /**
  * Await Pattern: Webhook
  *
  * Creates a dynamic webhook endpoint that resolves when called
  * Useful for human approval flows, external integrations
+ *
+ * URLs carry a signed token bound to this registration that expires with the await
+ * and works once; `config.outcomes` get one URL each. The URLs are only returned (for
+ * the onAwaitRegister hook): events carry the token ID and expiry, not the token.
  */
 export async function registerWebhookAwait(
   runId: string,
@@ -47,15 +67,28 @@ export async function registerWebhookAwait(
   }
 
   const webhookPath = `/api/_webhook/await${path}`
-  const fullWebhookUrl = `${baseUrl.replace(/\/$/, '')}${webhookPath}`
-
-  logger.info(`Registering webhook await: ${fullWebhookUrl}`, { runId, stepName })
+  const webhookUrl = `${baseUrl.replace(/\/$/, '')}${webhookPath}`
 
   // Calculate timeout with configurable default
   const { useAwaitDefaults } = await import('../useAwait')
   const { webhookTimeout: defaultTimeout, timeoutAction: defaultTimeoutAction } = useAwaitDefaults()
   const timeoutMs = config.timeout && config.timeout > 0 ? config.timeout : defaultTimeout
 
+  // Signed URLs (the bare path is rejected while the await has a token)
+  const tokenId = randomUUID()
+  const expiresAt = Date.now() + timeoutMs
+  const secret = await getAwaitTokenSecret()
+  const signedUrl = (outcome?: string) => {
+    const token = signAwaitToken({ flowName, runId, stepName, position, id: tokenId, outcome, exp: expiresAt }, secret)
+    return `${webhookUrl}?token=${token}`
+  }
+  const fullWebhookUrl = signedUrl()
+  const outcomeUrls = config.outcomes?.length
+    ? Object.fromEntries(config.outcomes.map(outcome => [outcome, signedUrl(outcome)]))
+    : undefined
+
+  logger.info(`Registering webhook await: ${webhookUrl}`, { runId, stepName, outcomes: config.outcomes })
+
   // Emit await.registered event (wiring will handle flow state updates)
   eventBus.publish({
     type: 'await.registered',
@@ -71,7 +104,8 @@ export async function registerWebhookAwait(
       method: config.method || 'POST',
       timeout: timeoutMs, // Store resolved timeout (with default)
       registeredAt: Date.now(),
-      webhookUrl: fullWebhookUrl,
+      tokenId,
+      expiresAt,
       timeoutAction: config.timeoutAction || defaultTimeoutAction,
     },
   })
@@ -130,10 +164,12 @@ export async function registerWebhookAwait(
     isDefault: !config.timeout || config.timeout <= 0,
   })
 
-  logger.debug(`Webhook await registered: ${fullWebhookUrl}`, { runId, stepName })
+  logger.debug(`Webhook await registered: ${webhookUrl}`, { runId, stepName })
 
   return {
     webhookUrl: fullWebhookUrl,
+    outcomeUrls,
+    expiresAt,
     timeout: config.timeout,
   }
 }
@@ -154,19 +190,8 @@ export async function resolveWebhookAwait(
 
   logger.info(`Resolving webhook await`, { runId, stepName })
 
-  // Unschedule timeout job if exists
-  const jobId = `await-webhook-timeout-${runId}-${stepName}-${position}`
-  try {
-    await scheduler.unschedule(jobId)
-    logger.debug('Unscheduled webhook timeout job', { runId, stepName, jobId })
-  }
-  catch {
-    // Job might not exist or already executed, that's fine
-    logger.debug('Could not unschedule timeout job (may not exist)', { runId, stepName, jobId })
-  }
-
   // Emit await.resolved event (wiring will handle flow state updates and processing)
-  eventBus.publish({
+  await eventBus.publish({
     type: 'await.resolved',
     flowName,
     runId,
@@ -179,5 +204,16 @@ export async function resolveWebhookAwait(
     },
   } as any)
 
+  // Unschedule timeout job if exists (kept while the await could not be resolved)
+  const jobId = `await-webhook-timeout-${runId}-${stepName}-${position}`
+  try {
+    await scheduler.unschedule(jobId)
+    logger.debug('Unscheduled webhook timeout job', { runId, stepName, jobId })
+  }
+  catch {
+    // Job might not exist or already executed, that's fine
+    logger.debug('Could not unschedule timeout job (may not exist)', { runId, stepName, jobId })
+  }
+
   logger.debug(`Webhook await resolved`, { runId, stepName })
 }
@@ -0,0 +1,63 @@
+import { createHmac, timingSafeEqual } from 'node:crypto'
+
+/**
+ * Signed tokens for await webhook URLs
+ *
+ * A token is `{claims}.{signature}` (both base64url), the signature an HMAC-SHA256 over the
+ * encoded claims. Tokens are bound to one await registration (`id`) and expire with the await;
+ * the webhook route marks the registration as used on the first resolution.
+ */
+export interface AwaitTokenClaims {
+  flowName: string
+  runId: string
+  stepName: string
+  position: 'before' | 'after'
+  /** Await registration the token belongs to */
+  id: string
+  /** Outcome the link stands for (e.g. 'approve'), passed to the step as `ctx.trigger.outcome` */
+  outcome?: string
+  /** Expiry in milliseconds since epoch */
+  exp: number
+}
+
+export type AwaitTokenResult
+  = | { valid: true, claims: AwaitTokenClaims }
+    | { valid: false, reason: string, expired?: boolean }
+
+function sign(encoded: string, secret: string): string {
+  return createHmac('sha256', secret).update(encoded).digest('base64url')
+}
+
+export function signAwaitToken(claims: AwaitTokenClaims, secret: string): string {
+  const encoded = Buffer.from(JSON.stringify(claims)).toString('base64url')
+  return `${encoded}.${sign(encoded, secret)}`
+}
+
+/**
+ * Verify the signature and expiry of an await token
+ */
+export function verifyAwaitToken(token: string, secret: string, now: number = Date.now()): AwaitTokenResult {
+  const [encoded, signature, ...rest] = token.split('.')
+  if (!encoded || !signature || rest.length > 0) {
+    return { valid: false, reason: 'Malformed token' }
+  }
+
+  const expected = Buffer.from(sign(encoded, secret))
+  const actual = Buffer.from(signature)
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+    return { valid: false, reason: 'Invalid token signature' }
+  }
+
+  let claims: AwaitTokenClaims
+  try {
+    claims = JSON.parse(Buffer.from(encoded, 'base64url').toString('utf8'))
+  }
+  catch {
+    return { valid: false, reason: 'Malformed token' }
+  }
+
+  if (typeof claims?.exp !== 'number' || claims.exp < now) {
+    return { valid: false, reason: 'Token expired', expired: true }
+  }
+  return { valid: true, claims }
+}
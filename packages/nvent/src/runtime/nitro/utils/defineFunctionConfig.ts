@@ -1,8 +1,101 @@
 // Central worker config typings used by userland worker files.
 // Keep this minimal and stable; extend as features solidify.
 
+import type { StandardSchemaV1 } from './payloadSchema'
+import type { AwaitMatcher } from './awaitMatcher'
+
 export type FlowRole = 'entry' | 'step'
 
+/**
+ * HMAC signature verification for webhook triggers
+ *
+ * Secrets are references, never literal values: they are resolved from
+ * `nvent.webhooks.secrets[ref]` first and then from `process.env[ref]`.
+ */
+export interface WebhookHmacAuth {
+  type: 'hmac'
+  /**
+   * Signature format
+   * - `standard`: `X-Webhook-Signature` over `${timestamp}.${rawBody}` with `X-Webhook-Timestamp`
+   * - `github`: `X-Hub-Signature-256: sha256=<hex>` over the raw body (no timestamp: see `replayWindow`)
+   * - `stripe`: `Stripe-Signature: t=<ts>,v1=<hex>` over `${t}.${rawBody}`
+   * @default 'standard'
+   */
+  scheme?: 'standard' | 'github' | 'stripe'
+  /**
+   * Secret reference (e.g., 'STRIPE_WEBHOOK_SECRET')
+   */
+  secret: string
+  /**
+   * HMAC digest algorithm
+   * @default 'sha256'
+   */
+  algorithm?: 'sha1' | 'sha256' | 'sha512'
+  /**
+   * Override the signature header name
+   */
+  header?: string
+  /**
+   * Override the timestamp header name (standard scheme only)
+   */
+  timestampHeader?: string
+  /**
+   * Maximum age of the signature timestamp in seconds (0 disables the check)
+   * @default 300
+   */
+  tolerance?: number
+  /**
+   * Reject signatures that were already accepted within the tolerance window
+   * @default true
+   */
+  replayProtection?: boolean
+  /**
+   * How long accepted signatures are remembered, in seconds, for schemes without a timestamp (`github`)
+   * Nothing in a GitHub signature expires, so a captured request is accepted again once this window
+   * has passed. The default covers GitHub's 3-day redelivery window.
+   * @default 259200
+   */
+  replayWindow?: number
+}
+
+/**
+ * Static bearer token authentication for webhook triggers
+ */
+export interface WebhookBearerAuth {
+  type: 'bearer'
+  /**
+   * Secret reference(s); multiple references allow token rotation
+   */
+  token: string | string[]
+  /**
+   * Header carrying the token
+   * @default 'authorization'
+   */
+  header?: string
+}
+
+/**
+ * HTTP basic authentication for webhook triggers
+ */
+export interface WebhookBasicAuth {
+  type: 'basic'
+  /**
+   * Expected username (literal)
+   */
+  username: string
+  /**
+   * Secret reference for the password
+   */
+  password: string
+  /**
+   * Realm sent in the WWW-Authenticate header
+   * @default 'nvent'
+   */
+  realm?: string
+}
+
+export type WebhookAuthConfig = WebhookHmacAuth | WebhookBearerAuth | WebhookBasicAuth
+
 /**
  * Trigger definition for inline trigger registration
  * Can be defined in function config alongside subscription
@@ -46,9 +139,15 @@ export interface TriggerDefinition {
     method?: 'GET' | 'POST' | 'PUT' | 'DELETE'
     /**
      * Authentication configuration
+     * Requests that fail verification are answered with 401 and recorded as `trigger.rejected`
      */
-    auth?: any
+    auth?: WebhookAuthConfig
   }
+  /**
+   * Payload schema (any Standard Schema: zod, valibot, arktype, ...)
+   * Payloads that don't match are rejected before any flow run is created
+   */
+  schema?: StandardSchemaV1
   /**
    * Schedule-specific configuration
    */
@@ -72,6 +171,107 @@ export interface TriggerDefinition {
   config?: Record<string, any>
 }
 
+/**
+ * Conditional branch of a step (see `FlowConfig.routes`)
+ */
+export interface FlowRoute {
+  /**
+   * Condition on the step's return value (same syntax as `AwaitConfig.match`, `step.*` references the result)
+   */
+  when: AwaitMatcher
+  /**
+   * Step(s) to trigger when the condition matches
+   */
+  to: string | string[]
+  /**
+   * Edge label in the flow diagram (defaults to the condition)
+   */
+  label?: string
+}
+
+/**
+ * Declarative routing on a step's return value
+ */
+export interface FlowRoutes {
+  /**
+   * Evaluated in order, the first matching branch wins
+   */
+  branches: FlowRoute[]
+  /**
+   * Step(s) to trigger when no branch matches
+   */
+  default?: string | string[]
+}
+
+/**
+ * Sub-flow step configuration (see `FlowConfig.subflow`)
+ */
+export interface FlowSubflowConfig {
+  /**
+   * Name of the flow to start as a child run
+   */
+  flow: string
+  /**
+   * Dot path of the value passed as the child's input (defaults to the step input)
+   */
+  input?: string
+  /**
+   * Maximum time in milliseconds to wait for the child
+   */
+  timeout?: number
+  timeoutAction?: 'fail' | 'continue'
+}
+
+/**
+ * Fan-out/fan-in configuration (see `FlowConfig.map`)
+ */
+export interface FlowMapConfig {
+  /**
+   * Dot path of the array in the step input (defaults to the input itself)
+   *
+   * @example 'records'
+   */
+  items?: string
+  /**
+   * Maximum number of item jobs enqueued at the same time
+   * @default 10
+   */
+  concurrency?: number
+  /**
+   * What happens when an item fails after all retries
+   * - `fail`: fail the step (and the run), no further items are enqueued
+   * - `skip`: drop the item from the results
+   * - `collect`: drop the item from the results and report it under `errors`
+   * @default 'fail'
+   */
+  onItemError?: 'fail' | 'skip' | 'collect'
+}
+
+/**
+ * Concurrency limit of a flow (see `FlowConfig.concurrency`)
+ */
+export interface FlowConcurrencyConfig {
+  /**
+   * Maximum number of active runs (per key)
+   * @default 1
+   */
+  max?: number
+  /**
+   * Dot path in the flow input; runs with different values don't limit each other
+   *
+   * @example 'customerId'
+   */
+  key?: string
+  /**
+   * What happens to a start while the limit is reached
+   * - `queue`: hold the start and run it once an active run ends
+   * - `reject`: refuse the start (`startFlow` throws a `FlowConcurrencyError`)
+   * - `cancel-previous`: cancel the oldest active run(s) and start
+   * @default 'queue'
+   */
+  overflow?: 'queue' | 'reject' | 'cancel-previous'
+}
+
 export interface FlowConfig {
   /**
    * One or more flow names this step belongs to.
@@ -115,6 +315,23 @@ export interface FlowConfig {
      */
     mode?: 'auto' | 'manual'
   }
+  /**
+   * Input schema for the flow (entry steps only; any Standard Schema: zod, valibot, arktype, ...)
+   * `startFlow` and triggers reject payloads that don't match before a run is created,
+   * and the schema output (defaults, coercions) becomes the run input
+   *
+   * @example schema: z.object({ orderId: z.string(), amount: z.number().positive() })
+   */
+  schema?: StandardSchemaV1
+  /**
+   * Limit the number of concurrent runs of the flow (entry steps only)
+   * Enforced atomically by `startFlow` and triggers; queued and rejected trigger starts are
+   * recorded on the trigger stream.
+   *
+   * @example concurrency: { key: 'customerId' } // one run per customer, further starts wait
+   * @example concurrency: { max: 1, overflow: 'cancel-previous' } // only the latest run
+   */
+  concurrency?: FlowConcurrencyConfig
   /**
    * Step execution timeout in milliseconds (v0.5.1)
    * Overrides global flow.stepTimeout and queue.defaultJobOptions.timeout for this specific step
@@ -133,6 +350,36 @@ export interface FlowConfig {
    * Next steps won't trigger until trigger fires
    */
   awaitAfter?: AwaitConfig
+  /**
+   * Conditional routing on the step's return value
+   * Target steps are triggered when their branch is selected and don't need `subscribes`;
+   * targets of branches that were not taken are skipped.
+   *
+   * @example
+   * routes: {
+   *   branches: [{ when: { '>=': [{ var: 'step.amount' }, 1000] }, to: 'manual-review', label: 'high value' }],
+   *   default: 'auto-approve',
+   * }
+   */
+  routes?: FlowRoutes
+  /**
+   * Map mode: run the step once per item of an array in its input (non-entry steps only)
+   * Each item is a separate job receiving the item as input; once all items are done the step
+   * completes with `{ results, errors? }` (results in item order), which dependent steps receive
+   * under `step:<name>` in their input.
+   *
+   * @example map: { items: 'records', concurrency: 20, onItemError: 'collect' }
+   */
+  map?: FlowMapConfig
+  /**
+   * Sub-flow step: start another flow as a child run and wait for it before this step runs
+   * Shorthand for `awaitBefore: { type: 'flow', ... }`. The handler receives the child's
+   * outcome `{ runId, flowName, status, result }` as `ctx.trigger`; a failed or canceled child
+   * fails the step. Canceling this run cancels the child.
+   *
+   * @example subflow: { flow: 'send-invoice', input: 'order' }
+   */
+  subflow?: FlowSubflowConfig
 }
 
 /**
@@ -142,7 +389,8 @@ export interface FlowConfig {
  * - `awaitBefore`: Wait before step execution starts
  * - `awaitAfter`: Wait after step completes before triggering next steps
  *
- * Declared in config, no functions allowed (AST-parsed at build time)
+ * Declared in config, no functions allowed (AST-parsed at build time).
+ * The form `schema` is the exception: it is collected from the module at startup.
  */
 export interface AwaitConfig {
   /**
@@ -151,8 +399,10 @@ export interface AwaitConfig {
    * - `event`: Wait for custom event with optional data matching
    * - `schedule`: Wait until specific cron schedule time
    * - `time`: Wait for fixed time delay
+   * - `flow`: Start another flow (sub-flow) and wait for its outcome
+   * - `form`: Wait for a person to complete or reject a task in the dashboard's task inbox
    */
-  type: 'webhook' | 'event' | 'schedule' | 'time'
+  type: 'webhook' | 'event' | 'schedule' | 'time' | 'flow' | 'form'
 
   /**
    * URL path for webhook trigger (supports template variables)
@@ -177,6 +427,17 @@ export interface AwaitConfig {
    */
   method?: 'GET' | 'POST' | 'PUT' | 'DELETE'
 
+  /**
+   * Named outcomes of a webhook await, each with its own signed link (`outcomeUrls` in the
+   * `onAwaitRegister` hook data). The chosen one is passed to the step as `ctx.trigger.outcome`.
+   * Use `method: 'GET'` for links opened from emails.
+   *
+   * Only used when `type: 'webhook'`
+   *
+   * @example ['approve', 'reject']
+   */
+  outcomes?: string[]
+
   /**
    * Event name to wait for
    *
@@ -200,6 +461,25 @@ export interface AwaitConfig {
    */
   filterKey?: string
 
+  /**
+   * Declarative matcher the incoming event has to satisfy (JSONLogic-style)
+   *
+   * Only used when `type: 'event'`. Combined with `filterKey` if both are set.
+   *
+   * Operands are literals or `{ var }` references to the incoming event data (`event.*`)
+   * or the awaiting step's output (`step.*`, the input for `awaitBefore`).
+   * Operators: `==`, `!=`, `>`, `>=`, `<`, `<=`, `in`, `exists`, `and`, `or`, `!`
+   *
+   * @example
+   * {
+   *   and: [
+   *     { '>=': [{ var: 'event.amount' }, { var: 'step.amount' }] },
+   *     { '==': [{ var: 'event.currency' }, { var: 'step.currency' }] },
+   *   ],
+   * }
+   */
+  match?: AwaitMatcher
+
   /**
    * Cron expression defining when to trigger (one-time schedule)
    *
@@ -234,6 +514,80 @@ export interface AwaitConfig {
    */
   delay?: number
 
+  /**
+   * Name of the flow to start as a child run
+   *
+   * Only used when `type: 'flow'`
+   *
+   * The await resolves with `{ runId, flowName, status: 'completed', result }` once the child
+   * completes (available as `ctx.trigger` for `awaitBefore`). If the child fails or is canceled,
+   * the step fails.
+   *
+   * @example 'send-invoice'
+   */
+  flow?: string
+
+  /**
+   * Dot path of the value passed as the child's input
+   *
+   * Only used when `type: 'flow'`
+   *
+   * Defaults to the step input (`awaitBefore`, unwrapped if it holds a single event payload)
+   * or the step result (`awaitAfter`).
+   *
+   * @example 'order'
+   */
+  input?: string
+
+  /**
+   * Title of the task shown in the task inbox
+   *
+   * Only used when `type: 'form'`
+   *
+   * @default '{flowName}: {stepName}'
+   */
+  title?: string
+
+  /**
+   * Instructions shown with the task
+   *
+   * Only used when `type: 'form'`
+   */
+  description?: string
+
+  /**
+   * Input the task is completed with (any Standard Schema: zod, valibot, arktype, ...)
+   *
+   * Only used when `type: 'form'`
+   *
+   * Rendered as a form in the dashboard and validated on completion. The await resolves with
+   * `{ outcome: 'completed', data, user }` or `{ outcome: 'rejected', reason, user }`
+   * (available as `ctx.trigger`).
+   *
+   * @example schema: z.object({ approved: z.boolean(), comment: z.string().optional() })
+   */
+  schema?: StandardSchemaV1
+
+  /**
+   * Dashboard user the task is assigned to; only this user (or an admin) can claim and complete it
+   *
+   * Only used when `type: 'form'`
+   *
+   * @example 'jane'
+   */
+  assignee?: string
+
+  /**
+   * Group the task is meant for (shown and filterable in the task inbox)
+   * Only members may claim, complete or reject it: the dashboard's `authorize` hook decides
+   * (resource `role`); without one, users of the dashboard role of that name and admins.
+   *
+   * Only used when `type: 'form'`
+   *
+   * @example 'finance'
+   */
+  role?: string
+
   /**
    * Maximum wait time in milliseconds before timeout
    *
@@ -390,6 +744,13 @@ export interface QueueWorkerConfig {
   flow?: FlowConfig
   // Per-worker execution options (optional)
   worker?: WorkerConfig
+  // Runner isolation (optional). 'task' runs the handler in a worker thread with its own
+  // memory limit; only ctx (logger, state, flow) is available, not server composables
+  runner?: {
+    ts?: {
+      isolate?: 'inprocess' | 'task'
+    }
+  }
   // Room for future options (e.g., concurrency, retry policies) without breaking users
   // options?: WorkerOptionsLike
 }
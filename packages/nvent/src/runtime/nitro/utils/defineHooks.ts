@@ -5,13 +5,18 @@
 
 import type { RunContext } from '../../worker/node/runner'
 
-export type AwaitType = 'webhook' | 'event' | 'schedule' | 'time'
+export type AwaitType = 'webhook' | 'event' | 'schedule' | 'time' | 'flow' | 'form'
 
 /**
  * Hook data types specific to each await type
  */
 export interface WebhookHookData {
+  /** Signed, single-use URL resolving the await */
   webhookUrl: string
+  /** Signed URL per configured outcome (`awaitConfig.outcomes`), e.g. `{ approve, reject }` */
+  outcomeUrls?: Record<string, string>
+  /** When the URLs stop working (the await's timeout) */
+  expiresAt: number
 }
 
 export interface EventHookData {
@@ -27,6 +32,20 @@ export interface TimeHookData {
   delayMs: number
 }
 
+export interface FlowHookData {
+  runId: string
+  flowName: string
+}
+
+export interface FormHookData {
+  /** Task in the dashboard's task inbox */
+  taskId: string
+  assignee?: string
+  role?: string
+  /** When the task times out */
+  expiresAt: number
+}
+
 /**
  * Conditional type to get the correct hook data based on await type
  */
@@ -35,7 +54,9 @@ export type HookDataForAwaitType<T extends AwaitType>
     : T extends 'event' ? EventHookData
       : T extends 'schedule' ? ScheduleHookData
         : T extends 'time' ? TimeHookData
-          : never
+          : T extends 'flow' ? FlowHookData
+            : T extends 'form' ? FormHookData
+              : never
 
 export interface AwaitRegisterContext<T extends AwaitType = AwaitType> extends Pick<RunContext, 'flowId' | 'flowName' | 'stepName' | 'logger' | 'state'> {
   awaitType: T
@@ -55,6 +76,13 @@ export interface AwaitTimeoutContext<T extends AwaitType = AwaitType> extends Pi
   position: 'before' | 'after'
 }
 
+export interface CompensateContext extends Pick<RunContext, 'flowId' | 'flowName' | 'stepName' | 'logger' | 'state'> {
+  /** Why the run is being compensated */
+  reason: 'failed' | 'canceled'
+  /** Error of the step that failed the run (reason 'failed') */
+  error?: string
+}
+
 /**
  * Define onAwaitRegister hook with proper types
  * Called when an await pattern is registered (before handler execution or after completion)
@@ -134,3 +162,23 @@ export function defineAwaitTimeoutHook<T extends AwaitType = AwaitType>(
 ) {
   return hook
 }
+
+/**
+ * Define onCompensate hook with proper types
+ * Called after the run failed or was canceled, to undo what this step did
+ * Completed steps are compensated one at a time, most recently completed first
+ *
+ * @example
+ * export const onCompensate = defineCompensateHook<{ reservationId: string }>(async (output, ctx) => {
+ *   ctx.logger.log('info', 'Releasing reservation', { reason: ctx.reason })
+ *   await inventory.release(output.reservationId)
+ * })
+ */
+export function defineCompensateHook<TOutput = any>(
+  hook: (
+    output: TOutput,
+    ctx: CompensateContext,
+  ) => Promise<void>,
+) {
+  return hook
+}
@@ -0,0 +1,135 @@
+/**
+ * Payload validation based on Standard Schema (https://standardschema.dev)
+ * Works with any compliant library (zod, valibot, arktype, ...)
+ */
+import { toJSONSchema as zodToJSONSchema } from 'zod'
+
+/**
+ * Standard Schema V1 interface (copied from the spec, as recommended by its authors)
+ * The spec's StandardSchemaV1 namespace members are flattened into StandardSchema* types.
+ */
+export interface StandardSchemaV1<Input = unknown, Output = Input> {
+  readonly '~standard': StandardSchemaProps<Input, Output>
+}
+
+export interface StandardSchemaProps<Input = unknown, Output = Input> {
+  readonly version: 1
+  readonly vendor: string
+  readonly validate: (value: unknown) => StandardSchemaResult<Output> | Promise<StandardSchemaResult<Output>>
+  readonly types?: StandardSchemaTypes<Input, Output> | undefined
+}
+
+export type StandardSchemaResult<Output> = StandardSchemaSuccessResult<Output> | StandardSchemaFailureResult
+
+export interface StandardSchemaSuccessResult<Output> {
+  readonly value: Output
+  readonly issues?: undefined
+}
+
+export interface StandardSchemaFailureResult {
+  readonly issues: ReadonlyArray<StandardSchemaIssue>
+}
+
+export interface StandardSchemaIssue {
+  readonly message: string
+  readonly path?: ReadonlyArray<PropertyKey | StandardSchemaPathSegment> | undefined
+}
+
+export interface StandardSchemaPathSegment {
+  readonly key: PropertyKey
+}
+
+export interface StandardSchemaTypes<Input = unknown, Output = Input> {
+  readonly input: Input
+  readonly output: Output
+}
+
+export type StandardSchemaInferInput<Schema extends StandardSchemaV1> = NonNullable<Schema['~standard']['types']>['input']
+export type StandardSchemaInferOutput<Schema extends StandardSchemaV1> = NonNullable<Schema['~standard']['types']>['output']
+
+/**
+ * Serializable validation issue returned by the API
+ */
+export interface PayloadValidationIssue {
+  /** Dot-separated path to the invalid field ('' for the payload root) */
+  path: string
+  message: string
+}
+
+/**
+ * Thrown when a payload does not match the declared flow, trigger or form schema
+ * No run is created (or task completed) when this error is thrown
+ */
+export class PayloadValidationError extends Error {
+  readonly statusCode = 422
+
+  constructor(
+    public readonly target: { kind: 'flow' | 'trigger' | 'task', name: string },
+    public readonly issues: PayloadValidationIssue[],
+  ) {
+    super(`Invalid payload for ${target.kind} '${target.name}': ${issues.map(i => i.path ? `${i.path}: ${i.message}` : i.message).join('; ')}`)
+    this.name = 'PayloadValidationError'
+  }
+
+  toJSON() {
+    return {
+      error: 'Validation failed',
+      target: this.target,
+      issues: this.issues,
+    }
+  }
+}
+
+export function isStandardSchema(value: unknown): value is StandardSchemaV1 {
+  return !!value
+    && (typeof value === 'object' || typeof value === 'function')
+    && typeof (value as any)['~standard']?.validate === 'function'
+}
+
+/**
+ * Validate a payload against a Standard Schema
+ * Returns the schema output (defaults, coercions applied) or normalized issues
+ */
+export async function validatePayload<T = unknown>(
+  schema: StandardSchemaV1,
+  value: unknown,
+): Promise<{ success: true, value: T } | { success: false, issues: PayloadValidationIssue[] }> {
+  const result = await schema['~standard'].validate(value)
+  if (result.issues) {
+    return { success: false, issues: result.issues.map(normalizeIssue) }
+  }
+  return { success: true, value: result.value as T }
+}
+
+/**
+ * Best-effort JSON Schema export used by the app to render input forms
+ *
+ * Supports Standard JSON Schema (`~standard.jsonSchema`), arktype (`toJsonSchema()`)
+ * and zod v4. Returns undefined if the library cannot export one.
+ */
+export function toJsonSchema(schema: StandardSchemaV1): Record<string, any> | undefined {
+  const s = schema as any
+  try {
+    if (typeof s['~standard']?.jsonSchema?.input === 'function') {
+      return s['~standard'].jsonSchema.input({ target: 'draft-07' })
+    }
+    if (typeof s.toJsonSchema === 'function') {
+      return s.toJsonSchema()
+    }
+    if (s['~standard']?.vendor === 'zod') {
+      return zodToJSONSchema(s, { io: 'input', unrepresentable: 'any' }) as Record<string, any>
+    }
+  }
+  catch {
+    // best-effort: some schemas (transforms, custom refinements) have no JSON representation
+  }
+  return undefined
+}
+
+function normalizeIssue(issue: StandardSchemaIssue): PayloadValidationIssue {
+  const path = (issue.path || [])
+    .map(segment => (typeof segment === 'object' && segment !== null ? segment.key : segment))
+    .map(key => String(key))
+    .join('.')
+  return { path, message: issue.message }
+}
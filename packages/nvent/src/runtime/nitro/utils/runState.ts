@@ -0,0 +1,139 @@
+import type { RunContext, RunState } from '../../worker/node/runner'
+import type { EventRecord } from '../../adapters/interfaces/store'
+import { useEventManager, useRuntimeConfig, useStateAdapter } from '#imports'
+
+const defaultState: RunState = {
+  async get() { return null },
+  async set() { /* no-op */ },
+  async delete() { /* no-op */ },
+}
+
+function scopeKey(baseKey: string, flowId?: string) {
+  if (!flowId) return baseKey
+  // Prefix with flow trace namespace to isolate per-flow state
+  return `flow:${flowId}:${baseKey}`
+}
+
+/**
+ * Create ctx.state for a run context
+ * Inside a flow run every set/delete is also appended to the run stream as a
+ * `state` event with the previous and new value, so the state can be replayed later.
+ */
+export function createRunState(partial?: Partial<RunContext>): RunState {
+  try {
+    const stateAdapter = useStateAdapter()
+    const rc: any = useRuntimeConfig()
+    const cleanupCfg = rc?.nvent?.state?.cleanup || { strategy: 'never' }
+    const flowId = partial?.flowId
+
+    const record = (operation: 'set' | 'delete', key: string, previous: any, value?: any) => {
+      if (!flowId || !partial?.flowName) return
+      void useEventManager().publishBus({
+        type: 'state',
+        runId: flowId,
+        flowName: partial.flowName,
+        stepName: partial.stepName,
+        stepId: partial.stepId,
+        attempt: partial.attempt,
+        data: {
+          operation,
+          key,
+          previous: previous ?? null,
+          ...(operation === 'set' ? { value } : {}),
+        },
+      })
+    }
+
+    return {
+      async get(key) { return stateAdapter.get(scopeKey(key, flowId)) },
+      async set(key, value, opts) {
+        const ttl = opts?.ttl ?? (cleanupCfg?.strategy === 'ttl' ? cleanupCfg?.ttlMs : undefined)
+        const previous = flowId ? await stateAdapter.get(scopeKey(key, flowId)) : null
+        await stateAdapter.set(scopeKey(key, flowId), value, ttl ? { ttl } : undefined)
+        record('set', key, previous, value)
+      },
+      async delete(key) {
+        const previous = flowId ? await stateAdapter.get(scopeKey(key, flowId)) : null
+        await stateAdapter.delete(scopeKey(key, flowId))
+        record('delete', key, previous)
+      },
+    }
+  }
+  catch {
+    return defaultState
+  }
+}
+
+/**
+ * Write state into the scoped keys of a run without recording changes
+ * Used to hand the state of replayed steps over to a new run.
+ */
+export async function seedRunState(flowId: string, state: Record<string, any>): Promise<void> {
+  const stateAdapter = useStateAdapter()
+  const rc: any = useRuntimeConfig()
+  const cleanupCfg = rc?.nvent?.state?.cleanup || { strategy: 'never' }
+  const ttl = cleanupCfg?.strategy === 'ttl' ? cleanupCfg?.ttlMs : undefined
+
+  for (const [key, value] of Object.entries(state)) {
+    await stateAdapter.set(scopeKey(key, flowId), value, ttl ? { ttl } : undefined)
+  }
+}
+
+export interface StateChange {
+  /** Id of the `state` event */
+  id?: string
+  ts?: number
+  stepName?: string
+  operation: 'set' | 'delete'
+  key: string
+  previous: any
+  value?: any
+}
+
+export interface RunStateSnapshot {
+  /** State after applying all changes up to and including `at` */
+  state: Record<string, any>
+  /** Event the snapshot was taken at (last event of the run if not given) */
+  at: string | null
+  /** Applied changes in stream order */
+  changes: StateChange[]
+}
+
+/**
+ * Reconstruct run state from its event stream
+ * Folds `state` events in order and stops after the event with id `at`
+ * (any event of the run, e.g. a step.completed, can be used as the point in time).
+ */
+export function replayRunState(events: EventRecord[], at?: string): RunStateSnapshot {
+  const state: Record<string, any> = {}
+  const changes: StateChange[] = []
+  let last: string | null = null
+
+  for (const event of events) {
+    if (event.type === 'state') {
+      const data = (event.data || {}) as any
+      if (data.operation === 'set' || data.operation === 'delete') {
+        if (data.operation === 'set') {
+          state[data.key] = data.value
+        }
+        else {
+          Reflect.deleteProperty(state, data.key)
+        }
+        changes.push({
+          id: event.id,
+          ts: event.ts,
+          stepName: (event as any).stepName,
+          operation: data.operation,
+          key: data.key,
+          previous: data.previous ?? null,
+          value: data.value,
+        })
+      }
+    }
+
+    last = event.id ?? last
+    if (at && event.id === at) break
+  }
+
+  return { state, at: last, changes }
+}
@@ -0,0 +1,80 @@
+/**
+ * Sub-flows: runs started by another run's step, which waits for their outcome
+ *
+ * The parent/child relation is stored in the run index metadata (`parent` on the child,
+ * `children` on the parent). A child's terminal event resolves the parent's `flow` await.
+ */
+
+import { getPath } from '../../events/utils/objectPath'
+
+/**
+ * Link from a child run to the step that started it
+ * `position` is only set for `flow` awaits (`flow.subflow`), not for `ctx.flow.invoke()`
+ */
+export interface SubflowParent {
+  runId: string
+  flowName: string
+  stepName: string
+  position?: 'before' | 'after'
+}
+
+/**
+ * Outcome of a child run, passed to the parent step as `ctx.trigger`
+ */
+export interface SubflowOutcome {
+  runId: string
+  flowName: string
+  status: 'completed' | 'failed' | 'canceled'
+  result?: any
+  error?: string
+}
+
+/**
+ * Thrown by `ctx.flow.invoke()` when the child run fails, is canceled or times out
+ */
+export class SubflowError extends Error {
+  constructor(public readonly outcome: SubflowOutcome) {
+    super(`Sub-flow '${outcome.flowName}' (${outcome.runId}) ${outcome.status}${outcome.error ? `: ${outcome.error}` : ''}`)
+    this.name = 'SubflowError'
+  }
+}
+
+/**
+ * Resolve the input of a child run from the data its await was registered with
+ *
+ * `awaitBefore` data is the step input keyed by event name; a single payload is unwrapped.
+ * `awaitAfter` data carries the step result. `path` selects a value inside that default.
+ */
+export function resolveSubflowInput(stepData: any, position: 'before' | 'after', path?: string): any {
+  let input = stepData
+  if (position === 'after' && stepData && typeof stepData === 'object' && 'result' in stepData) {
+    input = stepData.result
+  }
+  else if (input && typeof input === 'object' && !Array.isArray(input)) {
+    const values = Object.values(input)
+    if (values.length === 1) input = values[0]
+  }
+
+  if (path) input = getPath(input, path)
+  return input ?? {}
+}
+
+/**
+ * Outcome of a run from its terminal event, if it already ended
+ */
+export function getSubflowOutcome(
+  flowName: string,
+  runId: string,
+  events: Array<{ type: string, data?: any }>,
+): SubflowOutcome | undefined {
+  const terminal = events.find(e => e.type === 'flow.completed' || e.type === 'flow.failed' || e.type === 'flow.cancel')
+  if (!terminal) return undefined
+
+  if (terminal.type === 'flow.completed') {
+    return { runId, flowName, status: 'completed', result: terminal.data?.result }
+  }
+  if (terminal.type === 'flow.failed') {
+    return { runId, flowName, status: 'failed', error: terminal.data?.error || 'Flow failed' }
+  }
+  return { runId, flowName, status: 'canceled', error: terminal.data?.reason || 'Flow canceled' }
+}
@@ -10,7 +10,12 @@ import {
   resolveScheduleAwait,
   registerTimeAwait,
   resolveTimeAwait,
+  registerFlowAwait,
+  resolveFlowAwait,
+  registerFormAwait,
+  resolveFormAwait,
 } from './awaitPatterns'
+import { listAwaitTasks, getAwaitTask, claimAwaitTask, completeAwaitTask, rejectAwaitTask } from './awaitPatterns/form'
 import { useStoreAdapter, useStreamTopics, useNventLogger, useRuntimeConfig } from '#imports'
 
 /**
@@ -26,6 +31,8 @@ export function useAwaitDefaults() {
     return {
       webhookTimeout: awaitDefaults?.webhookTimeout ?? (24 * 60 * 60 * 1000), // 24 hours
       eventTimeout: awaitDefaults?.eventTimeout ?? (24 * 60 * 60 * 1000), // 24 hours
+      formTimeout: awaitDefaults?.formTimeout ?? (7 * 24 * 60 * 60 * 1000), // 7 days
+      flowTimeout: awaitDefaults?.flowTimeout ?? (24 * 60 * 60 * 1000), // 24 hours
       timeTimeout: awaitDefaults?.timeTimeout, // undefined by default
       scheduleTimeout: awaitDefaults?.scheduleTimeout, // undefined by default
       timeoutAction: awaitDefaults?.timeoutAction ?? 'fail',
@@ -36,6 +43,8 @@ export function useAwaitDefaults() {
     return {
       webhookTimeout: 24 * 60 * 60 * 1000, // 24 hours
       eventTimeout: 24 * 60 * 60 * 1000, // 24 hours
+      formTimeout: 7 * 24 * 60 * 60 * 1000, // 7 days
+      flowTimeout: 24 * 60 * 60 * 1000, // 24 hours
       timeTimeout: undefined,
       scheduleTimeout: undefined,
       timeoutAction: 'fail' as const,
@@ -84,6 +93,23 @@ export function useAwait() {
       register: registerTimeAwait,
       resolve: resolveTimeAwait,
     },
+    flow: {
+      register: registerFlowAwait,
+      resolve: resolveFlowAwait,
+    },
+    /**
+     * Form awaits and the task inbox
+     * complete/reject resolve the await of the task
+     */
+    form: {
+      register: registerFormAwait,
+      resolve: resolveFormAwait,
+      listTasks: listAwaitTasks,
+      getTask: getAwaitTask,
+      claimTask: claimAwaitTask,
+      completeTask: completeAwaitTask,
+      rejectTask: rejectAwaitTask,
+    },
 
     /**
      * Query methods for await state
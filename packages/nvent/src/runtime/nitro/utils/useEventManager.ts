@@ -1,4 +1,5 @@
 import { getEventBus } from '../../events/eventBus'
+import type { BusSubscribeOptions } from '../../events/eventBus'
 import type { EventRecord } from '../../adapters/interfaces/store'
 import { useNventLogger } from '#imports'
 
@@ -7,7 +8,11 @@ export interface EventManager {
    * Publish an event directly to the in-proc bus.
    */
   publishBus(evt: Partial<EventRecord>): Promise<void>
-  onType: (type: string, handler: (e: EventRecord) => void) => () => void
+  /**
+   * Subscribe to an event type; pass `exclusive` for side effects that must run once per event
+   * when the bus is clustered (stream.bus.mode: 'cluster')
+   */
+  onType: (type: string, handler: (e: EventRecord) => void, opts?: BusSubscribeOptions) => () => void
   subscribeRunId: ReturnType<typeof getEventBus>['subscribeRunId']
 }
 
@@ -28,7 +33,7 @@ export function useEventManager(): EventManager {
       runId: evt.runId || '',
     } as EventRecord
 
-    bus.publish(rec)
+    await bus.publish(rec)
     logger.debug('Published event to bus', { type: rec.type, runId: rec.runId })
   }
 
@@ -36,8 +41,8 @@ export function useEventManager(): EventManager {
     return bus.subscribeRunId(runId, handler)
   }
 
-  const onType: EventManager['onType'] = (type, handler) => {
-    return bus.onType(type, handler)
+  const onType: EventManager['onType'] = (type, handler, opts) => {
+    return bus.onType(type, handler, opts)
   }
 
   globalThis.__nq_event_manager = { publishBus, onType, subscribeRunId }
@@ -1,5 +1,13 @@
-import { $useFunctionRegistry, useQueueAdapter, useEventManager, useStoreAdapter, useNventLogger, useStreamTopics } from '#imports'
+import { $useFunctionRegistry, useQueueAdapter, useEventManager, useStoreAdapter, useNventLogger, useStreamTopics, useSchemaRegistry } from '#imports'
 import { randomUUID } from 'node:crypto'
+import type { SubflowParent } from './subflow'
+import { replayRunState, seedRunState, type RunStateSnapshot } from './runState'
+import { getReplayedEvents, getReplayedSteps, getStepLevel, type FlowReplay } from '../../events/utils/flowReplay'
+import { getCurrentFlowDefinition, loadFlowDefinition } from '../../events/utils/flowVersions'
+import { acquireRunSlot, FlowConcurrencyError } from '../../events/utils/flowConcurrency'
+import { claimIdempotencyKey, releaseIdempotencyKey } from '../../events/utils/flowIdempotency'
+import { readAllStream } from '../../events/utils/storeStream'
+import type { FlowConcurrencyConfig } from './defineFunctionConfig'
 
 export interface FlowStats {
   name: string
@@ -16,13 +24,23 @@ export interface FlowStats {
     awaiting: number
   }
   version?: number
+  /** Version (definition hash) of the currently deployed flow */
+  flowVersion?: string
 }
 
 export interface StartFlowResult {
-  id: string
+  /** Job ID of the entry step (not set while the start is queued) */
+  id?: string
   queue: string
   step: string
   flowId: string
+  /**
+   * `queued` when the flow's concurrency limit holds the start back (see `flow.concurrency`),
+   * `duplicate` when the idempotency key was already used (`flowId` is the earlier run)
+   */
+  status: 'started' | 'queued' | 'duplicate'
+  /** Position in the concurrency queue */
+  position?: number
 }
 
 export interface CancelFlowResult {
@@ -38,6 +56,23 @@ export interface RestartFlowResult {
   flowName: string
 }
 
+export interface ReplayFlowOptions {
+  /** Step to run again; steps on earlier levels are taken over from the original run */
+  fromStep: string
+  /** Run ID of the new run (generated if not given) */
+  runId?: string
+}
+
+export interface ReplayFlowResult extends RestartFlowResult {
+  fromStep: string
+  /** Steps whose results, emits and state were copied from the original run */
+  replayedSteps: string[]
+  /** `queued` when the flow's concurrency limit holds the replay back (see `flow.concurrency`) */
+  status?: 'started' | 'queued'
+  /** Position in the concurrency queue (when queued) */
+  position?: number
+}
+
 export interface RunningFlow {
   id: string
   flowName: string
@@ -47,11 +82,26 @@ export interface RunningFlow {
   completedSteps: number
 }
 
+export interface StartFlowOptions {
+  /** Start the run as a sub-flow of this step (stored in the run index as `parent`) */
+  parent?: SubflowParent
+  /** Run ID to start with (generated if not given) */
+  runId?: string
+  /**
+   * Deduplicate starts: while the key is remembered (`flow.idempotencyWindow`), starts with
+   * the same key return the run of the first one instead of starting a new run
+   */
+  idempotencyKey?: string
+}
+
 export interface FlowComposable {
-  startFlow: (flowName: string, payload?: any) => Promise<StartFlowResult>
+  startFlow: (flowName: string, payload?: any, opts?: StartFlowOptions) => Promise<StartFlowResult>
   emit: (trigger: string, payload?: any) => Promise<any[]>
   cancelFlow: (flowName: string, runId: string) => Promise<CancelFlowResult>
   restartFlow: (flowName: string, runId: string) => Promise<RestartFlowResult>
+  replayFlow: (flowName: string, runId: string, options: ReplayFlowOptions) => Promise<ReplayFlowResult>
+  getRunState: (runId: string, options?: { at?: string }) => Promise<RunStateSnapshot>
+  getFlowDefinition: (flowName: string, version?: string) => Promise<any | undefined>
   isRunning: (flowName: string, runId?: string, options?: { excludeRunIds?: string[] }) => Promise<boolean>
   getRunningFlows: (flowName: string, options?: { excludeRunIds?: string[] }) => Promise<RunningFlow[]>
   getFlowStats: (flowName: string) => Promise<FlowStats | null>
@@ -79,11 +129,16 @@ export function useFlow(): FlowComposable {
   return {
     /**
      * Start a flow with the given payload
+     * @throws PayloadValidationError if the payload doesn't match the flow's input schema
+     * @throws FlowConcurrencyError if the flow's concurrency limit rejects the start
      */
-    async startFlow(flowName: string, payload: any = {}) {
+    async startFlow(flowName: string, payload: any = {}, opts?: StartFlowOptions) {
       const flow = (registry?.flows as Record<string, any>)?.[flowName]
       if (!flow || !flow.entry) throw new Error('Flow not found')
 
+      // Reject invalid input before anything is enqueued
+      payload = await useSchemaRegistry().validateFlowInput(flowName, payload)
+
       // Extract queue name (handle both string and object formats)
       const queueName = typeof flow.entry.queue === 'string'
         ? flow.entry.queue
@@ -94,15 +149,62 @@ export function useFlow(): FlowComposable {
       const entryWorker = (registry?.workers as any[])?.find((w: any) =>
         w?.flow?.step === flow.entry.step && w?.queue?.name === queueName,
       )
-      const opts = entryWorker?.queue?.defaultJobOptions || {}
+      const jobOpts = entryWorker?.queue?.defaultJobOptions || {}
 
       // Generate a flowId for the entire run
-      const flowId = randomUUID()
-      const id = await queueAdapter.enqueue(queueName, {
-        name: flow.entry.step,
-        data: { ...payload, flowId, flowName },
-        opts,
-      })
+      const flowId = opts?.runId || randomUUID()
+
+      // Return the earlier run of a duplicate start
+      const idempotencyKey = opts?.idempotencyKey
+      if (idempotencyKey) {
+        const existingRunId = await claimIdempotencyKey(flowName, idempotencyKey, flowId)
+        if (existingRunId) {
+          logger.info('Duplicate flow start', { flowName, idempotencyKey, flowId: existingRunId })
+          return { queue: queueName, step: flow.entry.step, flowId: existingRunId, status: 'duplicate' as const }
+        }
+      }
+
+      let concurrencyKey: string | undefined
+      let id: string
+      try {
+        // Take a concurrency slot before anything is enqueued
+        const concurrency = flow.entry.concurrency as FlowConcurrencyConfig | undefined
+        if (concurrency) {
+          const slot = await acquireRunSlot(flowName, concurrency, {
+            runId: flowId,
+            input: payload,
+            queuedAt: Date.now(),
+            ...(opts?.parent ? { parent: opts.parent } : {}),
+          })
+          if (slot.status === 'rejected') {
+            throw new FlowConcurrencyError(flowName, slot.key, slot.active)
+          }
+          if (slot.status === 'queued') {
+            logger.info('Flow start queued by concurrency limit', { flowName, flowId, key: slot.key, position: slot.position })
+            return { queue: queueName, step: flow.entry.step, flowId, status: 'queued' as const, position: slot.position }
+          }
+          for (const runId of slot.cancel) {
+            await useFlow().cancelFlow(flowName, runId)
+          }
+          concurrencyKey = slot.key
+        }
+
+        id = await queueAdapter.enqueue(queueName, {
+          name: flow.entry.step,
+          data: { ...payload, flowId, flowName },
+          opts: jobOpts,
+        })
+      }
+      catch (err) {
+        // Free the key so the start can be retried
+        if (idempotencyKey) await releaseIdempotencyKey(flowName, idempotencyKey, flowId)
+        // Give back the slot taken for the run that was never enqueued
+        if (concurrencyKey !== undefined) {
+          const { handOverRunSlot } = await import('../../events/wiring/flowWiring')
+          await handOverRunSlot(flowName, concurrencyKey, flowId)
+        }
+        throw err
+      }
 
       // Emit flow.start event
       try {
@@ -112,12 +214,15 @@ export function useFlow(): FlowComposable {
           flowName,
           data: {
             input: payload,
+            flowVersion: getCurrentFlowDefinition(flowName)?.version,
+            ...(opts?.parent ? { parent: opts.parent } : {}),
+            ...(concurrencyKey !== undefined ? { concurrencyKey } : {}),
           },
         })
       }
       catch { /* best-effort */ }
 
-      return { id, queue: queueName, step: flow.entry.step, flowId }
+      return { id, queue: queueName, step: flow.entry.step, flowId, status: 'started' as const }
     },
 
     /**
@@ -248,6 +353,150 @@ export function useFlow(): FlowComposable {
       }
     },
 
+    /**
+     * Replay a run from a step: start a new run that takes over the recorded results,
+     * emits and state of the steps before `fromStep` and executes the rest again
+     * @param flowName - The name of the flow
+     * @param runId - The run ID to replay
+     * @param options - Replay options
+     * @param options.fromStep - Step to run again (together with all later levels)
+     */
+    async replayFlow(flowName: string, runId: string, options: ReplayFlowOptions): Promise<ReplayFlowResult> {
+      const { fromStep } = options
+      const flow = (registry?.flows as Record<string, any>)?.[flowName]
+      const flowDef = getCurrentFlowDefinition(flowName)
+      if (!flowDef) throw new Error('Flow not found')
+
+      const fromLevel = getStepLevel(flowDef.analyzed?.levels, fromStep)
+      if (fromLevel === -1) throw new Error(`Step '${fromStep}' not found in flow '${flowName}'`)
+
+      try {
+        const events = await readAllStream(store, StoreSubjects.flowRun(runId))
+        const startEvent = events.find((e: any) => e.type === 'flow.start' || e.type === 'flow.started')
+        if (!startEvent) throw new Error(`Run '${runId}' not found`)
+        const originalInput = startEvent.data?.input || {}
+
+        // Canceling would compensate the steps that are taken over, so active runs are rejected
+        const entry = await store.index.get(StoreSubjects.flowRunIndex(flowName), runId)
+        const currentStatus = entry?.metadata?.status
+        if (currentStatus === 'running' || currentStatus === 'awaiting') {
+          throw new Error(`Run '${runId}' is still ${currentStatus}, cancel it before replaying`)
+        }
+
+        const steps = getReplayedSteps(flowDef.analyzed?.levels, fromLevel, events)
+
+        // Nothing to take over (replay from the entry step): same as a restart
+        if (steps.length === 0) {
+          const newResult = await this.startFlow(flowName, originalInput, options.runId ? { runId: options.runId } : undefined)
+          logger.info('Flow replayed from entry', { flowName, oldRunId: runId, newRunId: newResult.flowId, fromStep })
+          return {
+            success: true,
+            oldRunId: runId,
+            newRunId: newResult.flowId,
+            flowName,
+            fromStep,
+            replayedSteps: [],
+            status: newResult.status === 'queued' ? 'queued' : 'started',
+            ...(newResult.position !== undefined ? { position: newResult.position } : {}),
+          }
+        }
+
+        const newRunId = options.runId || randomUUID()
+        const replayedEvents = getReplayedEvents(events, steps)
+
+        // Take a concurrency slot before anything of the new run is written
+        let concurrencyKey: string | undefined
+        const concurrency = flow?.entry?.concurrency as FlowConcurrencyConfig | undefined
+        if (concurrency) {
+          const slot = await acquireRunSlot(flowName, concurrency, {
+            runId: newRunId,
+            input: originalInput,
+            queuedAt: Date.now(),
+            replay: { runId, fromStep },
+          })
+          if (slot.status === 'rejected') {
+            throw new FlowConcurrencyError(flowName, slot.key, slot.active)
+          }
+          if (slot.status === 'queued') {
+            logger.info('Flow replay queued by concurrency limit', { flowName, oldRunId: runId, newRunId, key: slot.key, position: slot.position })
+            return { success: true, oldRunId: runId, newRunId, flowName, fromStep, replayedSteps: steps, status: 'queued', position: slot.position }
+          }
+          for (const activeRunId of slot.cancel) {
+            await useFlow().cancelFlow(flowName, activeRunId)
+          }
+          concurrencyKey = slot.key
+        }
+
+        const replay: FlowReplay = { runId, fromStep, fromLevel, steps }
+        try {
+          // State must be in place before the first step of the new run reads it
+          await seedRunState(newRunId, replayRunState(replayedEvents).state)
+
+          await eventsManager.publishBus({
+            type: 'flow.start',
+            runId: newRunId,
+            flowName,
+            data: {
+              input: originalInput,
+              flowVersion: flowDef.version,
+              replay,
+              ...(concurrencyKey !== undefined ? { concurrencyKey } : {}),
+            },
+          })
+        }
+        catch (err) {
+          // Give back the slot taken for the run that was never started
+          if (concurrencyKey !== undefined) {
+            const { handOverRunSlot } = await import('../../events/wiring/flowWiring')
+            await handOverRunSlot(flowName, concurrencyKey, newRunId)
+          }
+          throw err
+        }
+
+        // Seed the history in stream order; the copied step.completed events
+        // let orchestration trigger the steps from `fromLevel` on
+        for (const e of replayedEvents) {
+          await eventsManager.publishBus({
+            type: e.type,
+            runId: newRunId,
+            flowName,
+            stepName: e.stepName,
+            stepId: e.stepId?.replace(runId, newRunId),
+            attempt: e.attempt,
+            data: e.data,
+          })
+        }
+
+        logger.info('Flow replayed', { flowName, oldRunId: runId, newRunId, fromStep, replayedSteps: steps })
+
+        return { success: true, oldRunId: runId, newRunId, flowName, fromStep, replayedSteps: steps, status: 'started' }
+      }
+      catch (err) {
+        logger.error('Failed to replay flow', { flowName, runId, fromStep, error: err })
+        throw err
+      }
+    },
+
+    /**
+     * Reconstruct the state of a run from the `state` events on its stream
+     * @param runId - The run ID
+     * @param options - Optional configuration
+     * @param options.at - Event ID to stop at (state as it was right after that event)
+     */
+    async getRunState(runId: string, options?: { at?: string }): Promise<RunStateSnapshot> {
+      const events = await readAllStream(store, StoreSubjects.flowRun(runId))
+      return replayRunState(events, options?.at)
+    },
+
+    /**
+     * Get the analyzed definition of a flow version (the current one without a version)
+     * @param flowName - The name of the flow
+     * @param version - Version recorded on a run's flow.start
+     */
+    async getFlowDefinition(flowName: string, version?: string) {
+      return loadFlowDefinition(flowName, version)
+    },
+
     /**
      * Check if a flow is currently running (includes 'running' and 'awaiting' status)
      * @param flowName - The name of the flow to check
@@ -365,6 +614,7 @@ export function useFlow(): FlowComposable {
             awaiting: metadata.stats?.awaiting || 0,
           },
           version: metadata.version,
+          flowVersion: metadata.flowVersion,
         }
       }
       catch (err) {
@@ -416,6 +666,7 @@ export function useFlow(): FlowComposable {
               awaiting: metadata.stats?.awaiting || 0,
             },
             version: metadata.version,
+            flowVersion: metadata.flowVersion,
           }
         })
 
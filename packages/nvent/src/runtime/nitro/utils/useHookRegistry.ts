@@ -37,6 +37,16 @@ export interface LifecycleHooks {
     stepData: any,
     ctx: any,
   ) => Promise<void>
+
+  /**
+   * Called to undo the step's side effects after the run failed or was canceled
+   * @param output - Result the step completed with
+   * @param ctx - Worker context with the reason (and error) of the run's failure
+   */
+  onCompensate?: (
+    output: any,
+    ctx: any,
+  ) => Promise<void>
 }
 
 const hookRegistry = new Map<string, LifecycleHooks>()
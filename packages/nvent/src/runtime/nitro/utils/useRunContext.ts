@@ -1,42 +1,14 @@
-import type { RunContext, RunLogger, RunState } from '../worker/node/runner'
-import { useEventManager, useFlow, useRuntimeConfig, useStateAdapter } from '#imports'
-
-const defaultState: RunState = {
-  async get() { return null },
-  async set() { /* no-op */ },
-  async delete() { /* no-op */ },
-}
-
-function scopeKey(baseKey: string, flowId?: string) {
-  if (!flowId) return baseKey
-  // Prefix with flow trace namespace to isolate per-flow state
-  return `flow:${flowId}:${baseKey}`
-}
+import type { RunContext, RunLogger } from '../worker/node/runner'
+import { useEventManager, useFlow } from '#imports'
+import { createRunState } from './runState'
 
 /**
  * Create a minimal RunContext for use in lifecycle hooks and event handlers
  * This is a lightweight version without the full worker context
  */
 export function useRunContext(partial?: Partial<RunContext>): RunContext {
-  // Provide a lazy StateAdapter so ctx.state works
-  const state = partial?.state || ((): RunState => {
-    try {
-      const stateAdapter = useStateAdapter()
-      const rc: any = useRuntimeConfig()
-      const cleanupCfg = rc?.nvent?.state?.cleanup || { strategy: 'never' }
-      return {
-        async get(key) { return stateAdapter.get(scopeKey(key, partial?.flowId)) },
-        async set(key, value, opts) {
-          const ttl = opts?.ttl ?? (cleanupCfg?.strategy === 'ttl' ? cleanupCfg?.ttlMs : undefined)
-          return stateAdapter.set(scopeKey(key, partial?.flowId), value, ttl ? { ttl } : undefined)
-        },
-        async delete(key) { return stateAdapter.delete(scopeKey(key, partial?.flowId)) },
-      }
-    }
-    catch {
-      return defaultState
-    }
-  })()
+  // Provide a lazy StateAdapter so ctx.state works (mutations are recorded on the run stream)
+  const state = partial?.state || createRunState(partial)
 
   // Logger bridge: publish to event bus
   const logger: RunLogger = partial?.logger || (() => {
@@ -0,0 +1,124 @@
+import type { StandardSchemaV1 } from './payloadSchema'
+import { PayloadValidationError, isStandardSchema, toJsonSchema, validatePayload } from './payloadSchema'
+
+/**
+ * Payload schema registry for flow entry steps, triggers and form awaits
+ *
+ * Schemas are runtime objects (zod, valibot, ...) and cannot be extracted from configs at build time,
+ * so they are collected from the imported function modules on startup (02.workers)
+ * and from programmatic trigger registrations.
+ */
+
+const flowSchemas = new Map<string, StandardSchemaV1>()
+const triggerSchemas = new Map<string, StandardSchemaV1>()
+// `{flowName}:{stepName}:{position}` -> schema of a form await
+const formSchemas = new Map<string, StandardSchemaV1>()
+
+function formKey(flowName: string, stepName: string, position: 'before' | 'after') {
+  return `${flowName}:${stepName}:${position}`
+}
+
+export function useSchemaRegistry() {
+  return {
+    /**
+     * Register the input schema of a flow (declared on its entry step)
+     */
+    registerFlow(flowName: string, schema: unknown) {
+      if (isStandardSchema(schema)) flowSchemas.set(flowName, schema)
+    },
+
+    /**
+     * Register the payload schema of a trigger
+     */
+    registerTrigger(triggerName: string, schema: unknown) {
+      if (isStandardSchema(schema)) triggerSchemas.set(triggerName, schema)
+    },
+
+    /**
+     * Register the input schema of a form await (`awaitBefore`/`awaitAfter` with `type: 'form'`)
+     */
+    registerAwaitForm(flowName: string, stepName: string, position: 'before' | 'after', schema: unknown) {
+      if (isStandardSchema(schema)) formSchemas.set(formKey(flowName, stepName, position), schema)
+    },
+
+    getFlowSchema(flowName: string): StandardSchemaV1 | undefined {
+      return flowSchemas.get(flowName)
+    },
+
+    getTriggerSchema(triggerName: string): StandardSchemaV1 | undefined {
+      return triggerSchemas.get(triggerName)
+    },
+
+    /**
+     * Validate a flow input; returns the (possibly transformed) payload
+     * @throws PayloadValidationError
+     */
+    async validateFlowInput<T = any>(flowName: string, payload: T): Promise<T> {
+      return validateOrThrow({ kind: 'flow', name: flowName }, flowSchemas.get(flowName), payload)
+    },
+
+    /**
+     * Validate a trigger payload; returns the (possibly transformed) payload
+     * @throws PayloadValidationError
+     */
+    async validateTriggerPayload<T = any>(triggerName: string, payload: T): Promise<T> {
+      return validateOrThrow({ kind: 'trigger', name: triggerName }, triggerSchemas.get(triggerName), payload)
+    },
+
+    /**
+     * Validate the input a form await is completed with; returns the (possibly transformed) input
+     * @throws PayloadValidationError
+     */
+    async validateAwaitFormInput<T = any>(flowName: string, stepName: string, position: 'before' | 'after', payload: T): Promise<T> {
+      const key = formKey(flowName, stepName, position)
+      return validateOrThrow({ kind: 'task', name: `${flowName}/${stepName}` }, formSchemas.get(key), payload)
+    },
+
+    /**
+     * JSON Schema of a flow input (for UI forms), if the schema library supports exporting one
+     */
+    getFlowJsonSchema(flowName: string): Record<string, any> | undefined {
+      const schema = flowSchemas.get(flowName)
+      return schema ? toJsonSchema(schema) : undefined
+    },
+
+    /**
+     * JSON Schema of a trigger payload (for UI forms), if the schema library supports exporting one
+     */
+    getTriggerJsonSchema(triggerName: string): Record<string, any> | undefined {
+      const schema = triggerSchemas.get(triggerName)
+      return schema ? toJsonSchema(schema) : undefined
+    },
+
+    /**
+     * JSON Schema of a form await's input (rendered in the task inbox)
+     */
+    getAwaitFormJsonSchema(flowName: string, stepName: string, position: 'before' | 'after'): Record<string, any> | undefined {
+      const schema = formSchemas.get(formKey(flowName, stepName, position))
+      return schema ? toJsonSchema(schema) : undefined
+    },
+
+    /**
+     * Clear all registered schemas (useful for testing)
+     */
+    clear() {
+      flowSchemas.clear()
+      triggerSchemas.clear()
+      formSchemas.clear()
+    },
+  }
+}
+
+async function validateOrThrow<T>(
+  target: { kind: 'flow' | 'trigger' | 'task', name: string },
+  schema: StandardSchemaV1 | undefined,
+  payload: T,
+): Promise<T> {
+  if (!schema) return payload
+
+  const result = await validatePayload<T>(schema, payload)
+  if (!result.success) {
+    throw new PayloadValidationError(target, result.issues)
+  }
+  return result.value
+}
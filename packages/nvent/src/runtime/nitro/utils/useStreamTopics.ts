@@ -41,6 +41,38 @@ function getStoreSubjects(prefix: string) {
      */
     flowRunIndex: (flowName: string) => `${prefix}:flow:runs:${flowName}`,
 
+    /**
+     * Flow definition of a specific version
+     * Pattern: {prefix}:flow:version:{flowName}:{version}
+     * Type: KV (written once per version, never expires)
+     * Contains: The analyzed flow runs of that version are orchestrated with
+     */
+    flowVersion: (flowName: string, version: string) => `${prefix}:flow:version:${flowName}:${version}`,
+
+    /**
+     * Concurrency slots of a flow
+     * Pattern: {prefix}:flow:concurrency:{flowName}:{key}
+     * Type: KV (deleted once no run is active or queued)
+     * Contains: Active run IDs and queued starts for one concurrency key
+     */
+    flowConcurrency: (flowName: string, key: string) => `${prefix}:flow:concurrency:${flowName}:${key}`,
+
+    /**
+     * Concurrency slots lock
+     * Pattern: {prefix}:flow:concurrency:lock:{flowName}:{key}
+     * Type: KV with TTL (set with kv.setNX, released with kv.compareAndSwap)
+     * Contains: Owner token of the instance updating the slots
+     */
+    flowConcurrencyLock: (flowName: string, key: string) => `${prefix}:flow:concurrency:lock:${flowName}:${key}`,
+
+    /**
+     * Idempotency key of a flow start
+     * Pattern: {prefix}:flow:idempotency:{flowName}:{key}
+     * Type: KV with TTL (set with kv.setNX, TTL is the idempotency window)
+     * Contains: Run ID started with the key
+     */
+    flowIdempotency: (flowName: string, key: string) => `${prefix}:flow:idempotency:${flowName}:${key}`,
+
     /**
      * Flows index (sorted set)
      * Pattern: {prefix}:flows
@@ -74,12 +106,172 @@ function getStoreSubjects(prefix: string) {
     schedulerJobs: () => `${prefix}:scheduler:jobs`,
 
     /**
-     * Scheduler lock index
-     * Pattern: {prefix}:scheduler:locks
+     * Scheduler job lock
+     * Pattern: {prefix}:scheduler:lock:{jobId}
+     * Type: KV with TTL (set with kv.setNX, renewed/released with kv.compareAndSwap)
+     * Contains: Instance holding the lock and its expiry
+     */
+    schedulerLock: (jobId: string) => `${prefix}:scheduler:lock:${jobId}`,
+
+    /**
+     * Trigger update lock
+     * Pattern: {prefix}:trigger:lock:{triggerName}
+     * Type: KV with TTL (set with kv.setNX, released with kv.compareAndSwap)
+     * Contains: Owner token of the instance updating the trigger entry
+     */
+    triggerLock: (triggerName: string) => `${prefix}:trigger:lock:${triggerName}`,
+
+    /**
+     * Webhook signature replay marker
+     * Pattern: {prefix}:trigger:replay:{triggerName}:{signatureHash}
+     * Type: KV with TTL (signature tolerance window, or the replay window for schemes without timestamp)
+     * Contains: Timestamp of the first accepted request with this signature
+     */
+    webhookReplay: (triggerName: string, signatureHash: string) => `${prefix}:trigger:replay:${triggerName}:${signatureHash}`,
+
+    /**
+     * Secret signing await webhook URLs (when nvent.webhooks.awaitSecret is not set)
+     * Pattern: {prefix}:await:token:secret
+     * Type: KV (generated once with kv.setNX, never expires)
+     * Contains: Random secret shared by all instances
+     */
+    awaitTokenSecret: () => `${prefix}:await:token:secret`,
+
+    /**
+     * Used await webhook registration
+     * Pattern: {prefix}:await:token:used:{tokenId}
+     * Type: KV with TTL (set with kv.setNX, expires with the token)
+     * Contains: Outcome and time of the first resolution
+     */
+    awaitTokenUsed: (tokenId: string) => `${prefix}:await:token:used:${tokenId}`,
+
+    /**
+     * Resolved flow await (sub-flow)
+     * Pattern: {prefix}:await:flow:resolved:{runId}:{stepName}:{position}
+     * Type: KV with TTL (set with kv.setNX)
+     * Contains: Run ID of the child that resolved the await
+     */
+    flowAwaitResolved: (runId: string, stepName: string, position: string) => `${prefix}:await:flow:resolved:${runId}:${stepName}:${position}`,
+
+    /**
+     * Event names with pending event awaits
+     * Pattern: {prefix}:await:events
+     * Type: Sorted Set + Hash metadata
+     * Contains: One entry per awaited event name (re-subscribed on boot)
+     */
+    eventAwaits: () => `${prefix}:await:events`,
+
+    /**
+     * Pending event awaits for a specific event name
+     * Pattern: {prefix}:await:event:{eventName}
+     * Type: Sorted Set + Hash metadata (score = timeout timestamp)
+     * Contains: runId, flowName, stepName, position, filterKey and filterValue per await
+     */
+    eventAwaitIndex: (eventName: string) => `${prefix}:await:event:${eventName}`,
+
+    /**
+     * Open form await tasks (task inbox)
+     * Pattern: {prefix}:await:tasks
+     * Type: Sorted Set + Hash metadata (score = registration timestamp)
+     * Contains: flowName, runId, stepName, position, title, assignee, role and claim per task
+     */
+    awaitTasks: () => `${prefix}:await:tasks`,
+
+    /**
+     * Task update lock
+     * Pattern: {prefix}:await:task:lock:{taskId}
+     * Type: KV with TTL (set with kv.setNX, released with kv.compareAndSwap)
+     * Contains: Owner token of the instance claiming, completing or rejecting the task
+     */
+    awaitTaskLock: (taskId: string) => `${prefix}:await:task:lock:${taskId}`,
+
+    /**
+     * Map steps of a flow run (flow.map)
+     * Pattern: {prefix}:flow:maps:{runId}
      * Type: Sorted Set + Hash metadata
-     * Contains: Distributed scheduler lock metadata
+     * Contains: One entry per map step with total, concurrency, settled/failed counters and status
+     */
+    flowMaps: (runId: string) => `${prefix}:flow:maps:${runId}`,
+
+    /**
+     * Items of a running map step
+     * Pattern: {prefix}:flow:map:items:{runId}:{stepName}
+     * Type: KV (deleted once the step is settled)
+     * Contains: The array being mapped over
+     */
+    flowMapItems: (runId: string, stepName: string) => `${prefix}:flow:map:items:${runId}:${stepName}`,
+
+    /**
+     * Item outcomes of a map step
+     * Pattern: {prefix}:flow:map:results:{runId}:{stepName}
+     * Type: Sorted Set + Hash metadata (score = item index)
+     * Contains: status, result (JSON) and error per item
+     */
+    flowMapResults: (runId: string, stepName: string) => `${prefix}:flow:map:results:${runId}:${stepName}`,
+
+    /**
+     * Settled marker of a map item
+     * Pattern: {prefix}:flow:map:settled:{runId}:{stepName}:{index}
+     * Type: KV with TTL (set with kv.setNX)
+     * Contains: Timestamp the item was settled at (duplicate deliveries of its event are ignored)
      */
-    schedulerLocks: () => `${prefix}:scheduler:locks`,
+    flowMapItemSettled: (runId: string, stepName: string, index: number) => `${prefix}:flow:map:settled:${runId}:${stepName}:${index}`,
+
+    /**
+     * Exclusive consumer of a bus event without a run (cluster bus mode)
+     * Pattern: {prefix}:bus:claim:{eventId}
+     * Type: KV with TTL (set with kv.setNX)
+     * Contains: Instance ID running the event's orchestration handlers
+     */
+    busEventClaim: (eventId: string) => `${prefix}:bus:claim:${eventId}`,
+
+    /**
+     * Exclusive consumer of a run's bus events (cluster bus mode)
+     * Pattern: {prefix}:bus:run:{runId}
+     * Type: KV with TTL (set with kv.setNX, renewed with kv.compareAndSwap)
+     * Contains: Instance ID running the orchestration handlers of the run's events
+     */
+    busRunClaim: (runId: string) => `${prefix}:bus:run:${runId}`,
+
+    /**
+     * Heartbeat of an instance on the cluster bus
+     * Pattern: {prefix}:bus:instance:{instanceId}
+     * Type: KV with TTL (refreshed while the instance runs)
+     * Contains: Timestamp of the last refresh (run leases of an instance without one can be taken over)
+     */
+    busInstance: (instanceId: string) => `${prefix}:bus:instance:${instanceId}`,
+
+    /**
+     * Bus event too large to publish inline (cluster bus mode)
+     * Pattern: {prefix}:bus:event:{eventId}
+     * Type: KV with TTL
+     * Contains: The event, referenced by its stream message
+     */
+    busEventPayload: (eventId: string) => `${prefix}:bus:event:${eventId}`,
+
+    /**
+     * Delivery history of an outbound event sink
+     * Pattern: {prefix}:sink:deliveries:{sinkName}
+     * Type: Sorted Set + Hash metadata (score = creation timestamp)
+     * Contains: Event (JSON), status, attempts and last error per delivery; dead letters keep status 'dead'
+     */
+    sinkDeliveries: (sinkName: string) => `${prefix}:sink:deliveries:${sinkName}`,
+
+    /**
+     * Dead-letter queue: jobs that failed their final attempt, across all queues
+     * Pattern: {prefix}:dlq
+     * Type: Sorted Set + Hash metadata (score = failure timestamp)
+     * Contains: Queue, job name and input, options, error, stack, attempt history (JSON) and error fingerprint
+     */
+    deadLetters: () => `${prefix}:dlq`,
+
+    /**
+     * Failed attempts of a job that is still being retried (collected for its dead letter)
+     * Pattern: {prefix}:dlq:attempts:{queueName}:{jobId}
+     * Type: KV (with TTL)
+     * Contains: Array of { attempt, error, failedAt }
+     */
+    deadLetterAttempts: (queueName: string, jobId: string) => `${prefix}:dlq:attempts:${queueName}:${jobId}`,
   } as const
 }
 
@@ -123,6 +315,30 @@ function getStreamTopics(prefix: string) {
      * Subscribed: By WebSocket clients watching trigger overview
      */
     triggerStats: () => `${prefix}:stream:trigger:stats`,
+
+    /**
+     * Awaited events shared between instances
+     * Pattern: {prefix}:stream:await:events
+     * Published: When an awaited event is emitted on any instance (event await pattern)
+     * Subscribed: By every instance to resolve matching pending event awaits
+     */
+    awaitEvents: () => `${prefix}:stream:await:events`,
+
+    /**
+     * Task inbox changes
+     * Pattern: {prefix}:stream:await:tasks
+     * Published: When a form await task is created, claimed or removed (form await pattern)
+     * Subscribed: By WebSocket clients watching the task inbox
+     */
+    awaitTasks: () => `${prefix}:stream:await:tasks`,
+
+    /**
+     * Internal event bus shared between instances
+     * Pattern: {prefix}:stream:bus
+     * Published: By every eventBus.publish() in cluster bus mode
+     * Subscribed: By every instance, delivering the events to its local bus subscribers
+     */
+    eventBus: () => `${prefix}:stream:bus`,
   } as const
 }
 
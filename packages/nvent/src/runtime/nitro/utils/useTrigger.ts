@@ -1,5 +1,7 @@
 import type { TriggerEntry, TriggerSubscription } from '../../../registry/types'
-import { useStoreAdapter, useNventLogger, useStreamTopics } from '#imports'
+import type { WebhookAuthConfig } from './defineFunctionConfig'
+import type { StandardSchemaV1 } from './payloadSchema'
+import { useStoreAdapter, useNventLogger, useStreamTopics, useSchemaRegistry } from '#imports'
 import { getEventBus } from '../../events/eventBus'
 import { getTriggerRuntime } from '../../events/utils/triggerRuntime'
 
@@ -30,7 +32,7 @@ export interface RegisterTriggerOptions {
   webhook?: {
     path: string
     method?: string
-    auth?: any
+    auth?: WebhookAuthConfig
   }
   schedule?: {
     cron: string
@@ -39,7 +41,7 @@ export interface RegisterTriggerOptions {
   }
 
   // Schema validation (function allowed here - programmatic)
-  schema?: any // Zod schema
+  schema?: StandardSchemaV1 // Any Standard Schema (zod, valibot, arktype, ...)
   transform?: (data: any) => any
 
   // Config options
@@ -78,6 +80,11 @@ export function useTrigger() {
      */
     async registerTrigger(opts: RegisterTriggerOptions) {
       const eventBus = getEventBus()
+
+      // Schemas are runtime objects and stay in this instance (not persisted)
+      if (opts.schema) {
+        useSchemaRegistry().registerTrigger(opts.name, opts.schema)
+      }
       const existing = runtime.getTrigger(opts.name)
       const isUpdate = !!existing
 
@@ -175,8 +182,11 @@ export function useTrigger() {
      *
      * Large payloads are automatically stored in KV store and replaced with references
      * to keep stream events small and memory-efficient.
+     *
+     * @throws PayloadValidationError if the payload doesn't match the trigger schema
+     * or the input schema of a flow that would be started automatically
      */
-    async emitTrigger(name: string, data: any, opts?: { payloadThreshold?: number }) {
+    async emitTrigger(name: string, data: any, opts?: { payloadThreshold?: number, idempotencyKey?: string }) {
       const eventBus = getEventBus()
       const trigger = runtime.getTrigger(name)
 
@@ -197,6 +207,15 @@ export function useTrigger() {
         return
       }
 
+      // Validate before anything is persisted, so invalid payloads never create runs
+      const schemaRegistry = useSchemaRegistry()
+      data = await schemaRegistry.validateTriggerPayload(name, data)
+      for (const sub of runtime.getAllSubscriptions()) {
+        if (sub.triggerName === name && sub.mode !== 'manual') {
+          await schemaRegistry.validateFlowInput(sub.flowName, data)
+        }
+      }
+
       // Check payload threshold
       const threshold = opts?.payloadThreshold
         || trigger?.config?.payloadThreshold
@@ -215,6 +234,27 @@ export function useTrigger() {
         type: 'trigger.fired',
         triggerName: name,
         data: eventData,
+        ...(opts?.idempotencyKey ? { idempotencyKey: opts.idempotencyKey } : {}),
+      } as any)
+    },
+
+    /**
+     * Record a rejected trigger request (e.g. failed webhook authentication)
+     * Publishes event to bus - triggerWiring persists it to the trigger stream
+     */
+    async rejectTrigger(name: string, reason: string, details?: { method?: string, ip?: string }) {
+      const eventBus = getEventBus()
+
+      logger.warn(`Trigger '${name}' rejected: ${reason}`)
+
+      await eventBus.publish({
+        type: 'trigger.rejected',
+        triggerName: name,
+        data: {
+          reason,
+          source: 'webhook',
+          ...details,
+        },
       } as any)
     },
 
@@ -0,0 +1,204 @@
+import { createHash, createHmac, timingSafeEqual } from 'node:crypto'
+import type { WebhookAuthConfig, WebhookHmacAuth } from './defineFunctionConfig'
+
+/**
+ * Incoming webhook request data needed for authentication
+ */
+export interface WebhookAuthRequest {
+  /** Request headers (names are matched case-insensitively) */
+  headers: Record<string, string | string[] | undefined>
+  /** Raw request body exactly as received (required for HMAC) */
+  rawBody?: string
+}
+
+export interface WebhookAuthOptions {
+  /**
+   * Resolve a secret reference to its value
+   * References point to runtimeConfig.nvent.webhooks.secrets or environment variables
+   */
+  resolveSecret: (ref: string) => string | undefined
+  /**
+   * Replay check: returns true if the key was already seen, otherwise records it for ttlSeconds
+   */
+  checkReplay?: (key: string, ttlSeconds: number) => Promise<boolean>
+  /** Current time in milliseconds (for tests) */
+  now?: number
+}
+
+export type WebhookAuthResult
+  = | { valid: true }
+    | { valid: false, reason: string }
+
+const DEFAULT_TOLERANCE_SECONDS = 300
+// Signatures without a timestamp are remembered for GitHub's redelivery window
+const DEFAULT_REPLAY_WINDOW_SECONDS = 3 * 24 * 60 * 60
+
+const HMAC_DEFAULTS: Record<NonNullable<WebhookHmacAuth['scheme']>, { header: string, timestampHeader?: string }> = {
+  standard: { header: 'x-webhook-signature', timestampHeader: 'x-webhook-timestamp' },
+  github: { header: 'x-hub-signature-256' },
+  stripe: { header: 'stripe-signature' },
+}
+
+/**
+ * Signature headers of the 'standard' HMAC scheme (sha256 over `${timestamp}.${body}`)
+ * Used for outgoing webhooks (event sinks), so receivers can verify them like triggers do.
+ */
+export function signWebhookBody(body: string, secret: string, now = Date.now()): Record<string, string> {
+  const { header, timestampHeader } = HMAC_DEFAULTS.standard
+  const timestamp = String(Math.floor(now / 1000))
+  return {
+    [timestampHeader!]: timestamp,
+    [header]: `sha256=${hmacHex('sha256', secret, standardPayload(timestamp, body))}`,
+  }
+}
+
+/**
+ * Verify a webhook request against the trigger's auth configuration
+ *
+ * Supported types:
+ * - hmac: 'standard' (signature over `${timestamp}.${body}`), 'github' (X-Hub-Signature-256)
+ *   and 'stripe' (Stripe-Signature `t=...,v1=...`) schemes, with timestamp tolerance and replay protection
+ * - bearer: static token(s) in the Authorization header
+ * - basic: HTTP basic auth
+ */
+export async function verifyWebhookAuth(
+  auth: WebhookAuthConfig,
+  req: WebhookAuthRequest,
+  opts: WebhookAuthOptions,
+): Promise<WebhookAuthResult> {
+  switch (auth.type) {
+    case 'hmac':
+      return verifyHmac(auth, req, opts)
+    case 'bearer': {
+      const refs = Array.isArray(auth.token) ? auth.token : [auth.token]
+      const tokens = refs.map(ref => opts.resolveSecret(ref)).filter((t): t is string => !!t)
+      if (tokens.length === 0) return { valid: false, reason: 'Bearer token secret not configured' }
+
+      const value = getHeader(req.headers, auth.header || 'authorization')
+      if (!value) return { valid: false, reason: 'Missing bearer token' }
+
+      const provided = value.replace(/^Bearer\s+/i, '')
+      return tokens.some(token => safeEqual(provided, token))
+        ? { valid: true }
+        : { valid: false, reason: 'Invalid bearer token' }
+    }
+    case 'basic': {
+      const password = opts.resolveSecret(auth.password)
+      if (!password) return { valid: false, reason: 'Basic auth password secret not configured' }
+
+      const value = getHeader(req.headers, 'authorization')
+      if (!value || !/^Basic\s+/i.test(value)) return { valid: false, reason: 'Missing basic auth credentials' }
+
+      const decoded = Buffer.from(value.replace(/^Basic\s+/i, ''), 'base64').toString('utf8')
+      const sep = decoded.indexOf(':')
+      const username = sep >= 0 ? decoded.slice(0, sep) : decoded
+      const providedPassword = sep >= 0 ? decoded.slice(sep + 1) : ''
+
+      // Evaluate both comparisons to avoid leaking which part was wrong
+      const userOk = safeEqual(username, auth.username)
+      const passOk = safeEqual(providedPassword, password)
+      return userOk && passOk
+        ? { valid: true }
+        : { valid: false, reason: 'Invalid basic auth credentials' }
+    }
+    default:
+      return { valid: false, reason: `Unsupported auth type '${(auth as any)?.type}'` }
+  }
+}
+
+async function verifyHmac(auth: WebhookHmacAuth, req: WebhookAuthRequest, opts: WebhookAuthOptions): Promise<WebhookAuthResult> {
+  const secret = opts.resolveSecret(auth.secret)
+  if (!secret) return { valid: false, reason: 'HMAC secret not configured' }
+
+  const scheme = auth.scheme || 'standard'
+  const defaults = HMAC_DEFAULTS[scheme]
+  const algorithm = auth.algorithm || 'sha256'
+  const tolerance = auth.tolerance ?? DEFAULT_TOLERANCE_SECONDS
+  const body = req.rawBody ?? ''
+  const nowSeconds = Math.floor((opts.now ?? Date.now()) / 1000)
+
+  const header = getHeader(req.headers, auth.header || defaults.header)
+  if (!header) return { valid: false, reason: 'Missing signature header' }
+
+  let timestamp: number | undefined
+  let candidates: string[]
+  let signedPayload: string
+
+  if (scheme === 'stripe') {
+    // Stripe-Signature: t=1492774577,v1=5257a869...,v1=...
+    const parts = header.split(',').map(p => p.trim().split('='))
+    const t = parts.find(([k]) => k === 't')?.[1]
+    candidates = parts.filter(([k]) => k === 'v1').map(([, v]) => v || '')
+    if (!t || candidates.length === 0) return { valid: false, reason: 'Malformed signature header' }
+    timestamp = Number(t)
+    signedPayload = `${t}.${body}`
+  }
+  else if (scheme === 'github') {
+    // X-Hub-Signature-256: sha256=<hex>
+    candidates = [header.replace(/^sha(1|256|512)=/, '')]
+    signedPayload = body
+  }
+  else {
+    const timestampHeader = auth.timestampHeader || defaults.timestampHeader!
+    const t = getHeader(req.headers, timestampHeader)
+    if (!t) return { valid: false, reason: 'Missing signature timestamp' }
+    timestamp = Number(t)
+    candidates = [header.replace(/^(sha1|sha256|sha512)=/, '')]
+    signedPayload = standardPayload(t, body)
+  }
+
+  if (timestamp !== undefined) {
+    if (!Number.isFinite(timestamp)) return { valid: false, reason: 'Invalid signature timestamp' }
+    // Accept both seconds and milliseconds
+    const tsSeconds = timestamp > 1e12 ? Math.floor(timestamp / 1000) : timestamp
+    if (tolerance > 0 && Math.abs(nowSeconds - tsSeconds) > tolerance) {
+      return { valid: false, reason: 'Signature timestamp outside tolerance' }
+    }
+  }
+
+  const expected = hmacHex(algorithm, secret, signedPayload)
+  const matched = candidates.find(sig => safeEqual(sig.toLowerCase(), expected))
+  if (!matched) return { valid: false, reason: 'Invalid signature' }
+
+  // Replay protection: the same signature can only be used once within the tolerance window,
+  // or within the replay window when the signature has no timestamp to expire it
+  if (auth.replayProtection !== false && opts.checkReplay) {
+    const key = createHash('sha256').update(`${timestamp ?? ''}:${matched}`).digest('hex')
+    const ttl = timestamp === undefined
+      ? auth.replayWindow ?? DEFAULT_REPLAY_WINDOW_SECONDS
+      : tolerance > 0 ? tolerance : DEFAULT_TOLERANCE_SECONDS
+    const seen = await opts.checkReplay(key, ttl)
+    if (seen) return { valid: false, reason: 'Replayed request' }
+  }
+
+  return { valid: true }
+}
+
+function standardPayload(timestamp: string, body: string): string {
+  return `${timestamp}.${body}`
+}
+
+function hmacHex(algorithm: string, secret: string, payload: string): string {
+  return createHmac(algorithm, secret).update(payload, 'utf8').digest('hex')
+}
+
+function getHeader(headers: WebhookAuthRequest['headers'], name: string): string | undefined {
+  const lower = name.toLowerCase()
+  for (const [key, value] of Object.entries(headers)) {
+    if (key.toLowerCase() === lower) {
+      return Array.isArray(value) ? value[0] : value
+    }
+  }
+  return undefined
+}
+
+function safeEqual(a: string, b: string): boolean {
+  const bufA = Buffer.from(a)
+  const bufB = Buffer.from(b)
+  if (bufA.length !== bufB.length) {
+    // Still run a comparison to keep timing independent of the mismatch position
+    timingSafeEqual(bufA, bufA)
+    return false
+  }
+  return timingSafeEqual(bufA, bufB)
+}
@@ -7,6 +7,7 @@
 
 import { Scheduler } from './scheduler'
 import type { SchedulerAdapter } from './types'
+import { useLeader } from '../leader'
 import { useRuntimeConfig } from '#imports'
 
 // Use globalThis to ensure singleton survives HMR reloads when used as npm package
@@ -15,20 +16,21 @@ let schedulerInstance: SchedulerAdapter | null = (globalThis as any)[SCHEDULER_K
 
 /**
  * Create a scheduler instance
- * Uses Scheduler which adapts based on store capabilities:
- * - With indexAdd/indexGet: Full distributed locking
- * - Without: Degrades gracefully to KV-based locking (single instance)
+ * Job locks use the store's atomic kv.setNX / kv.compareAndSwap,
+ * so multiple instances can share one store safely.
+ * Job sync polling only runs on the elected leader (see useLeader()).
  */
 export function createScheduler(store: any): SchedulerAdapter {
   const config = useRuntimeConfig()
   const prefix = config.nvent.store?.prefix || 'nvent'
-  const useIndexLocking = !!(store.indexAdd && store.index.get)
+  const leader = useLeader()
 
   return new Scheduler({
     store,
     keyPrefix: `${prefix}:scheduler`,
     lockTTL: 300000, // 5 minutes
-    useIndexLocking,
+    instanceId: leader.instanceId,
+    leader,
   })
 }
 
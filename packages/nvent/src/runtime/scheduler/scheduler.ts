@@ -8,15 +8,19 @@
 import { CronJob } from 'cron'
 import type { ScheduledJob, SchedulerAdapter, SchedulerLock } from './types'
 import type { StoreAdapter } from '../adapters/interfaces/store'
+import type { LeaderElection } from '../leader/leader'
 import { getEventBus } from '../events/eventBus'
 import { resolveTimeAwait } from '../nitro/utils/awaitPatterns/time'
 import { resolveScheduleAwait } from '../nitro/utils/awaitPatterns/schedule'
+import { releaseEventAwait } from '../nitro/utils/awaitPatterns/event'
+import { removeAwaitTask } from '../nitro/utils/awaitPatterns/form'
+import { retrySinkDelivery } from '../sinks'
 import { useNventLogger, useStoreAdapter, useRuntimeConfig } from '#imports'
 import { createStallDetector } from '../events/utils/stallDetector'
 
 export interface SchedulerOptions {
   /**
-   * Store adapter for locking (Redis recommended)
+   * Store adapter for locking (uses atomic kv.setNX / kv.compareAndSwap)
    */
   store: StoreAdapter
 
@@ -40,10 +44,10 @@ export interface SchedulerOptions {
   instanceId?: string
 
   /**
-   * Use store indexes for locking (more robust) vs simple KV
-   * @default true
+   * Leader election: job sync polling only runs while this instance is leader
+   * @default Polling runs on every instance
    */
-  useIndexLocking?: boolean
+  leader?: LeaderElection
 }
 
 export class Scheduler implements SchedulerAdapter {
@@ -51,20 +55,22 @@ export class Scheduler implements SchedulerAdapter {
   private keyPrefix: string
   private lockTTL: number
   private instanceId: string
-  private useIndexLocking: boolean
   private jobs = new Map<string, CronJob | NodeJS.Timeout>()
   private jobConfigs = new Map<string, ScheduledJob>()
   private lockRenewalTimers = new Map<string, NodeJS.Timeout>()
+  private heldLocks = new Map<string, SchedulerLock>()
   private started = false
   private logger = useNventLogger('scheduler')
   private syncSubscription?: () => void
+  private leader?: LeaderElection
+  private leaderSubscriptions: Array<() => void> = []
 
   constructor(options: SchedulerOptions) {
     this.store = options.store
     this.keyPrefix = options.keyPrefix || 'nvent:scheduler'
     this.lockTTL = options.lockTTL || 300000 // 5 minutes
     this.instanceId = options.instanceId || `instance-${Date.now()}-${Math.random().toString(36).substring(2, 9)}`
-    this.useIndexLocking = options.useIndexLocking !== false
+    this.leader = options.leader
   }
 
   async schedule(job: ScheduledJob): Promise<string> {
@@ -221,109 +227,73 @@ export class Scheduler implements SchedulerAdapter {
 
   /**
    * Acquire distributed lock using store adapter
+   * kv.setNX is atomic, so only one instance can hold the lock of a job
    */
   private async acquireLock(jobId: string): Promise<boolean> {
-    const lockKey = `${this.keyPrefix}:lock:${jobId}`
+    const lockKey = this.lockKey(jobId)
     const now = Date.now()
-    const expiresAt = now + this.lockTTL
 
-    if (this.useIndexLocking && this.store.index.add) {
-      // Use index-based locking (more robust, supports version control)
-      try {
-        const lockIndex = `${this.keyPrefix}:locks`
-
-        await this.store.index.add(lockIndex, jobId, expiresAt, {
-          instanceId: this.instanceId,
-          acquiredAt: now,
-          expiresAt,
-        })
+    const lock: SchedulerLock = {
+      jobId,
+      instanceId: this.instanceId,
+      acquiredAt: now,
+      expiresAt: now + this.lockTTL,
+    }
 
+    try {
+      if (await this.store.kv.setNX(lockKey, lock, Math.ceil(this.lockTTL / 1000))) {
+        this.heldLocks.set(jobId, lock)
         return true
       }
-      catch {
-        // Lock already exists, check if expired
-        if (this.store.index.get) {
-          const existing = await this.store.index.get(`${this.keyPrefix}:locks`, jobId)
-
-          if (existing && existing.score < now) {
-            // Lock expired, delete and retry
-            if (this.store.index.delete) {
-              await this.store.index.delete(`${this.keyPrefix}:locks`, jobId)
-              return this.acquireLock(jobId)
-            }
-          }
-        }
-
-        return false
-      }
-    }
-    else {
-      // Fallback to KV locking
-      // WARNING: This is NOT atomic and has race conditions!
-      // For production with file/memory stores, consider:
-      // 1. Using Redis store instead (supports atomic operations)
-      // 2. Or accepting that single-instance deployments don't need locking
-      // 3. Or implementing file-based locking (flock)
-      try {
-        const existingLock = await this.store.kv.get<SchedulerLock>(lockKey)
-
-        if (existingLock) {
-          // Check if expired
-          if (existingLock.expiresAt < now) {
-            // Expired, delete and retry
-            await this.store.kv.delete(lockKey)
-            return this.acquireLock(jobId)
-          }
 
-          return false
+      // Take over a lock whose holder stopped renewing it (the store TTL
+      // normally removes it, this covers stores that expire lazily)
+      const existing = await this.store.kv.get<SchedulerLock>(lockKey)
+      if (existing && existing.expiresAt < now) {
+        if (await this.store.kv.compareAndSwap(lockKey, existing, lock, Math.ceil(this.lockTTL / 1000))) {
+          this.heldLocks.set(jobId, lock)
+          return true
         }
-
-        const lock: SchedulerLock = {
-          jobId,
-          instanceId: this.instanceId,
-          acquiredAt: now,
-          expiresAt,
-        }
-
-        // NOTE: Race condition between get/set
-        // Multiple instances can both see no lock and both set it
-        // Acceptable for file/memory stores (typically single instance)
-        await this.store.kv.set(lockKey, lock, Math.ceil(this.lockTTL / 1000))
-        return true
-      }
-      catch (error) {
-        this.logger.error('Error acquiring lock', { jobId, error: (error as Error).message })
-        return false
       }
+
+      return false
+    }
+    catch (error) {
+      this.logger.error('Error acquiring lock', { jobId, error: (error as Error).message })
+      return false
     }
   }
 
   /**
    * Release distributed lock
+   * Only deletes the lock if this instance still holds it
    */
   private async releaseLock(jobId: string): Promise<void> {
-    if (this.useIndexLocking && this.store.index.delete) {
-      const lockIndex = `${this.keyPrefix}:locks`
-      await this.store.index.delete(lockIndex, jobId)
-    }
-    else {
-      const lockKey = `${this.keyPrefix}:lock:${jobId}`
-      await this.store.kv.delete(lockKey)
-    }
+    const lock = this.heldLocks.get(jobId)
+    if (!lock) return
+
+    this.heldLocks.delete(jobId)
+    await this.store.kv.compareAndSwap(this.lockKey(jobId), lock, null)
+  }
+
+  private lockKey(jobId: string): string {
+    return `${this.keyPrefix}:lock:${jobId}`
   }
 
   /**
    * Poll for new jobs created by other instances
-   * This ensures all instances have the same jobs in-memory
+   * With leader election only the leader polls, so it holds every persisted job
+   * (job locks still prevent double execution with the instance that created it)
    *
    * NOTE: This is a simple but not optimal solution for distributed systems.
    * TODO: For production multi-instance deployments, consider:
    * - Pub/Sub notifications (Redis PUBSUB, Postgres NOTIFY/LISTEN)
    * - Dedicated scheduler instance with queue-based execution
-   * - Service mesh with leader election
    * See specs/distributed-scheduler.md for detailed architecture
    */
   private startJobSyncPolling(): void {
+    if (this.syncSubscription) return
+
     // Poll every 30 seconds for new jobs
     const pollInterval = setInterval(async () => {
       if (!this.started) {
@@ -372,6 +342,13 @@ export class Scheduler implements SchedulerAdapter {
     this.syncSubscription = () => clearInterval(pollInterval)
   }
 
+  private stopJobSyncPolling(): void {
+    if (this.syncSubscription) {
+      this.syncSubscription()
+      this.syncSubscription = undefined
+    }
+  }
+
   /**
    * Start periodic lock renewal (for long-running jobs)
    */
@@ -381,23 +358,17 @@ export class Scheduler implements SchedulerAdapter {
 
     const timer = setInterval(async () => {
       try {
-        if (this.useIndexLocking && this.store.index.update) {
-          const lockIndex = `${this.keyPrefix}:locks`
-          const expiresAt = Date.now() + this.lockTTL
+        const lock = this.heldLocks.get(jobId)
+        if (!lock) return
 
-          await this.store.index.update(lockIndex, jobId, {
-            expiresAt,
-          })
+        const renewed: SchedulerLock = { ...lock, expiresAt: Date.now() + this.lockTTL }
+        if (await this.store.kv.compareAndSwap(this.lockKey(jobId), lock, renewed, Math.ceil(this.lockTTL / 1000))) {
+          this.heldLocks.set(jobId, renewed)
         }
         else {
-          // Renew KV lock
-          const lockKey = `${this.keyPrefix}:lock:${jobId}`
-          const lock = await this.store.kv.get<SchedulerLock>(lockKey)
-
-          if (lock && lock.instanceId === this.instanceId) {
-            lock.expiresAt = Date.now() + this.lockTTL
-            await this.store.kv.set(lockKey, lock, Math.ceil(this.lockTTL / 1000))
-          }
+          // Another instance took over the lock (e.g. after it expired)
+          this.heldLocks.delete(jobId)
+          this.logger.warn('Lost lock while renewing', { jobId })
         }
       }
       catch (error) {
@@ -666,6 +637,9 @@ export class Scheduler implements SchedulerAdapter {
             const timeoutAction = jobData.metadata?.timeoutAction || 'fail'
             const eventName = jobData.metadata?.eventName
 
+            // Skip if the event arrived meanwhile (possibly on another instance)
+            if (eventName && !(await releaseEventAwait(runId, stepName, position, eventName))) return
+
             this.logger.warn('Event await timeout', {
               runId,
               stepName,
@@ -692,6 +666,74 @@ export class Scheduler implements SchedulerAdapter {
             } as any)
           }
         }
+        else if (awaitType === 'form') {
+          // Form await timeout handler
+          jobData.handler = async () => {
+            const eventBus = getEventBus()
+            const timeout = jobData.metadata?.timeout
+            const timeoutAction = jobData.metadata?.timeoutAction || 'fail'
+            const taskId = jobData.metadata?.taskId
+
+            // Skip if the task was completed or rejected meanwhile (possibly on another instance)
+            if (taskId && !(await removeAwaitTask(taskId))) return
+
+            this.logger.warn('Form await timeout', {
+              runId,
+              stepName,
+              flowName,
+              timeout,
+              timeoutAction,
+            })
+
+            eventBus.publish({
+              type: 'await.timeout',
+              flowName,
+              runId,
+              stepName,
+              position,
+              awaitType: 'form',
+              timeoutAction,
+              data: {
+                taskId,
+                timeout,
+                registeredAt: Date.now() - (timeout || 0),
+                timedOutAt: Date.now(),
+              },
+            } as any)
+          }
+        }
+        else if (awaitType === 'flow') {
+          // Sub-flow await timeout handler
+          jobData.handler = async () => {
+            const eventBus = getEventBus()
+            const timeout = jobData.metadata?.timeout
+            const timeoutAction = jobData.metadata?.timeoutAction || 'fail'
+
+            this.logger.warn('Flow await timeout', {
+              runId,
+              stepName,
+              flowName,
+              subflow: jobData.metadata?.subflow,
+              timeout,
+              timeoutAction,
+            })
+
+            eventBus.publish({
+              type: 'await.timeout',
+              flowName,
+              runId,
+              stepName,
+              position,
+              awaitType: 'flow',
+              timeoutAction,
+              data: {
+                timeout,
+                registeredAt: Date.now() - (timeout || 0),
+                timedOutAt: Date.now(),
+              },
+            } as any)
+          }
+        }
         else {
           this.logger.warn('Cannot reconstruct await pattern', { awaitType, jobId: jobData.id })
           return
@@ -723,6 +765,14 @@ export class Scheduler implements SchedulerAdapter {
           runId,
         })
       }
+      else if (jobData.metadata?.component === 'event-sink') {
+        // Reconstruct sink delivery retry from metadata
+        const { sinkName, deliveryId } = jobData.metadata
+
+        jobData.handler = async () => {
+          await retrySinkDelivery(sinkName, deliveryId)
+        }
+      }
       else if (!jobData.handler) {
         // Job has no handler and can't be reconstructed
         // Keep it in storage - the component that created it will re-register with handler
@@ -768,6 +818,7 @@ export class Scheduler implements SchedulerAdapter {
         const delay = jobData.executeAt - now
         const isAwaitPattern = jobData.metadata?.component === 'await-pattern'
         const isStallDetector = jobData.metadata?.component === 'stall-detector'
+        const isSinkRetry = jobData.metadata?.component === 'event-sink'
         const awaitType = jobData.metadata?.awaitType
 
         // Debug logging to understand timing
@@ -783,9 +834,9 @@ export class Scheduler implements SchedulerAdapter {
           delayHours: (delay / 1000 / 60 / 60).toFixed(2),
         })
 
-        // Special handling for webhook/event await timeouts and stall detection
+        // Special handling for webhook/event/flow await timeouts and stall detection
         // These should ALWAYS be rescheduled, even if technically "overdue"
-        if (isAwaitPattern && (awaitType === 'webhook' || awaitType === 'event')) {
+        if (isAwaitPattern && (awaitType === 'webhook' || awaitType === 'event' || awaitType === 'flow')) {
           if (delay > 0) {
             // Still time remaining - reschedule normally
             const timeoutId = setTimeout(
@@ -896,6 +947,13 @@ export class Scheduler implements SchedulerAdapter {
             }
           })
         }
+        else if (isSinkRetry) {
+          // Sink retries that are overdue are delivered right away
+          setImmediate(async () => {
+            await this.executeWithLock(jobData)
+            await this.unschedule(jobData.id)
+          })
+        }
         else {
           this.logger.debug('Skipping expired one-time job', { jobId: jobData.id })
         }
@@ -950,7 +1008,16 @@ export class Scheduler implements SchedulerAdapter {
     await this.recoverJobs()
 
     // Start polling for jobs from other instances (distributed sync)
-    this.startJobSyncPolling()
+    // One poller per cluster is enough: the leader picks up every persisted job
+    if (this.leader) {
+      this.leaderSubscriptions.push(
+        this.leader.onElected(() => this.startJobSyncPolling()),
+        this.leader.onDemoted(() => this.stopJobSyncPolling()),
+      )
+    }
+    else {
+      this.startJobSyncPolling()
+    }
 
     this.logger.info('Started with active jobs', { count: this.jobs.size })
   }
@@ -959,10 +1026,10 @@ export class Scheduler implements SchedulerAdapter {
     this.started = false
 
     // Stop job sync polling
-    if (this.syncSubscription) {
-      this.syncSubscription()
-      this.syncSubscription = undefined
+    for (const unsubscribe of this.leaderSubscriptions.splice(0)) {
+      unsubscribe()
     }
+    this.stopJobSyncPolling()
 
     // Stop all jobs
     for (const job of this.jobs.values()) {
@@ -982,15 +1049,10 @@ export class Scheduler implements SchedulerAdapter {
     this.lockRenewalTimers.clear()
 
     // Release all locks held by this instance
-    if (this.useIndexLocking && this.store.index.read) {
-      const lockIndex = `${this.keyPrefix}:locks`
-      const locks = await this.store.index.read(lockIndex, { limit: 1000 })
-
-      for (const lock of locks) {
-        if (lock.metadata?.instanceId === this.instanceId) {
-          await this.releaseLock(lock.id)
-        }
-      }
+    for (const jobId of Array.from(this.heldLocks.keys())) {
+      await this.releaseLock(jobId).catch((err) => {
+        this.logger.error('Failed to release lock', { jobId, error: (err as Error).message })
+      })
     }
 
     this.jobs.clear()
@@ -0,0 +1,362 @@
+/**
+ * Outbound Event Sinks
+ *
+ * Delivers persisted flow and trigger events to the sinks configured in `nvent.sinks` (fed by sinkWiring).
+ * Every matching event becomes a delivery record in the sink's history. Failed attempts are retried
+ * through the scheduler with exponential backoff; after `maxAttempts` the record stays in the history
+ * as dead letter (status 'dead') until it is redelivered.
+ */
+
+import { randomUUID } from 'node:crypto'
+import type { EventRecord } from '../adapters/interfaces/store'
+import { useNventLogger, useRuntimeConfig, useScheduler, useStoreAdapter, useStreamTopics } from '#imports'
+import type { EventSink, SinkConfig, SinkDelivery, SinkDeliveryStatus, SinkEvent } from './types'
+import { postWebhook, SinkDeliveryError } from './webhook'
+
+export type { EventSink, SinkConfig, SinkDelivery, SinkDeliveryStatus, SinkEvent } from './types'
+export { SinkDeliveryError } from './webhook'
+export { signWebhookBody } from '../nitro/utils/webhookAuth'
+
+const DEFAULT_EVENTS = ['flow.completed', 'flow.failed', 'step.failed', 'await.timeout']
+const DEFAULT_MAX_ATTEMPTS = 5
+const DEFAULT_BACKOFF_MS = 10_000
+// Deliveries kept per sink
+const HISTORY_LIMIT = 500
+
+export interface SinkSummary {
+  name: string
+  type: string
+  /** Target without query string and credentials */
+  target?: string
+  events: string[]
+  flows?: string[]
+  enabled: boolean
+  /** Deliveries in the history by status */
+  counts: Record<SinkDeliveryStatus, number>
+}
+
+// Use global to survive HMR reloads
+declare global {
+  var __nvent_event_sinks: Map<string, EventSink> | undefined
+}
+
+const sinkTypes: Map<string, EventSink> = globalThis.__nvent_event_sinks ??= new Map()
+
+/**
+ * Register a custom sink type, used by sinks configured with `type: '<type>'`
+ *
+ * @example
+ * // server/plugins/slack-sink.ts
+ * registerEventSink('slack', {
+ *   format: event => ({ text: `${event.flowName}: ${event.type}` }),
+ * })
+ */
+export function registerEventSink(type: string, sink: EventSink) {
+  sinkTypes.set(type, sink)
+}
+
+/**
+ * Configured sinks
+ * @param includeDisabled - Also return sinks with `enabled: false`
+ */
+export function getSinkConfigs(includeDisabled = false): SinkConfig[] {
+  const sinks = (useRuntimeConfig() as any).nvent?.sinks
+  if (!Array.isArray(sinks)) return []
+  return sinks.filter((s: SinkConfig) => s?.name && (includeDisabled || s.enabled !== false))
+}
+
+/**
+ * Whether a sink subscribes to an event (type patterns and flow filter)
+ */
+export function matchesSink(config: SinkConfig, event: Pick<EventRecord, 'type' | 'flowName'> & { triggerName?: string }): boolean {
+  const patterns = config.events?.length ? config.events : DEFAULT_EVENTS
+  const typeMatches = patterns.some(pattern => pattern.endsWith('*')
+    ? event.type.startsWith(pattern.slice(0, -1))
+    : pattern === event.type)
+  if (!typeMatches) return false
+
+  if (config.flows?.length) {
+    const name = event.flowName || event.triggerName
+    if (!name || !config.flows.includes(name)) return false
+  }
+  return true
+}
+
+/**
+ * Deliver a persisted event to all matching sinks
+ */
+export async function dispatchSinkEvent(event: EventRecord) {
+  const logger = useNventLogger('event-sinks')
+  const sinks = getSinkConfigs().filter(config => matchesSink(config, event as any))
+
+  await Promise.all(sinks.map(async (config) => {
+    try {
+      const delivery = await createDelivery(config, event)
+      await attemptDelivery(config, delivery)
+    }
+    catch (err) {
+      logger.error('Failed to dispatch event to sink', { sink: config.name, type: event.type, error: (err as any)?.message })
+    }
+  }))
+}
+
+/**
+ * Retry a delivery (scheduled after a failed attempt)
+ */
+export async function retrySinkDelivery(sinkName: string, deliveryId: string) {
+  const delivery = await getSinkDelivery(sinkName, deliveryId)
+  if (!delivery || delivery.status !== 'retrying') return
+
+  const config = getSinkConfigs().find(s => s.name === sinkName)
+  if (!config) {
+    await updateDelivery(sinkName, deliveryId, { status: 'dead', lastError: 'Sink is no longer configured' })
+    return
+  }
+  await attemptDelivery(config, delivery)
+}
+
+export async function getSinkDelivery(sinkName: string, deliveryId: string): Promise<SinkDelivery | null> {
+  const store = useStoreAdapter()
+  const { StoreSubjects } = useStreamTopics()
+
+  const entry = await store.index.get(StoreSubjects.sinkDeliveries(sinkName), deliveryId)
+  return entry ? toDelivery(entry.metadata) : null
+}
+
+/**
+ * Delivery history of a sink, newest first
+ */
+export async function listSinkDeliveries(
+  sinkName: string,
+  opts: { status?: SinkDeliveryStatus, limit?: number, offset?: number } = {},
+): Promise<{ deliveries: SinkDelivery[], total: number }> {
+  const store = useStoreAdapter()
+  const { StoreSubjects } = useStreamTopics()
+
+  const entries: any[] = await store.index.read(StoreSubjects.sinkDeliveries(sinkName), { limit: HISTORY_LIMIT })
+  const deliveries = entries
+    .map(entry => toDelivery(entry.metadata))
+    .filter(d => !opts.status || d.status === opts.status)
+
+  const offset = opts.offset ?? 0
+  return {
+    deliveries: deliveries.slice(offset, offset + (opts.limit ?? 50)),
+    total: deliveries.length,
+  }
+}
+
+/**
+ * Deliver again right away, with a fresh set of attempts (e.g. a dead letter after fixing the receiver)
+ * @returns The updated delivery, or null if the sink or delivery doesn't exist
+ */
+export async function redeliverSinkDelivery(sinkName: string, deliveryId: string): Promise<SinkDelivery | null> {
+  const config = getSinkConfigs(true).find(s => s.name === sinkName)
+  const delivery = await getSinkDelivery(sinkName, deliveryId)
+  if (!config || !delivery) return null
+
+  try {
+    await useScheduler().unschedule(retryJobId(sinkName, deliveryId))
+  }
+  catch {
+    // No retry pending
+  }
+  return attemptDelivery(config, { ...delivery, attempts: 0 })
+}
+
+/**
+ * Configured sinks with the status counts of their delivery history
+ */
+export async function listSinks(): Promise<SinkSummary[]> {
+  const store = useStoreAdapter()
+  const { StoreSubjects } = useStreamTopics()
+
+  return Promise.all(getSinkConfigs(true).map(async (config) => {
+    const entries: any[] = await store.index.read(StoreSubjects.sinkDeliveries(config.name), { limit: HISTORY_LIMIT })
+    const counts: Record<SinkDeliveryStatus, number> = { pending: 0, delivered: 0, retrying: 0, dead: 0 }
+    for (const entry of entries) {
+      const status = entry.metadata?.status as SinkDeliveryStatus
+      if (status in counts) counts[status]++
+    }
+    return {
+      name: config.name,
+      type: config.type || 'webhook',
+      target: describeTarget(config.url),
+      events: config.events?.length ? config.events : DEFAULT_EVENTS,
+      flows: config.flows,
+      enabled: config.enabled !== false,
+      counts,
+    }
+  }))
+}
+
+/**
+ * Composable for the outbound event sinks
+ */
+export function useEventSinks() {
+  return {
+    list: listSinks,
+    deliveries: listSinkDeliveries,
+    getDelivery: getSinkDelivery,
+    redeliver: redeliverSinkDelivery,
+  }
+}
+
+async function createDelivery(config: SinkConfig, event: EventRecord): Promise<SinkDelivery> {
+  const store = useStoreAdapter()
+  const { StoreSubjects } = useStreamTopics()
+  const key = StoreSubjects.sinkDeliveries(config.name)
+
+  const now = Date.now()
+  const id = randomUUID()
+  const delivery: SinkDelivery = {
+    id,
+    sink: config.name,
+    eventType: event.type,
+    flowName: event.flowName || undefined,
+    runId: event.runId || undefined,
+    status: 'pending',
+    attempts: 0,
+    createdAt: now,
+    updatedAt: now,
+    event: {
+      id,
+      eventId: event.id!,
+      type: event.type,
+      flowName: event.flowName || undefined,
+      runId: event.runId || undefined,
+      stepName: event.stepName,
+      triggerName: (event as any).triggerName,
+      ts: event.ts!,
+      data: event.data,
+    },
+  }
+
+  await store.index.add(key, id, now, {
+    ...delivery,
+    // Serialized: stores may flatten nested metadata
+    event: JSON.stringify(delivery.event),
+  })
+
+  // Keep the history bounded
+  const expired: any[] = await store.index.read(key, { offset: HISTORY_LIMIT, limit: 100 })
+  for (const entry of expired) {
+    await store.index.delete(key, entry.id)
+  }
+
+  return delivery
+}
+
+async function attemptDelivery(config: SinkConfig, delivery: SinkDelivery): Promise<SinkDelivery> {
+  const logger = useNventLogger('event-sinks')
+  const attempts = delivery.attempts + 1
+
+  try {
+    const statusCode = await send(config, delivery.event)
+    await updateDelivery(config.name, delivery.id, { status: 'delivered', attempts, statusCode, lastError: null, nextAttemptAt: null })
+    logger.debug('Event delivered to sink', { sink: config.name, type: delivery.eventType, attempts })
+    return { ...delivery, status: 'delivered', attempts, statusCode, lastError: undefined, nextAttemptAt: undefined }
+  }
+  catch (err) {
+    const lastError = (err as any)?.message || String(err)
+    const statusCode = err instanceof SinkDeliveryError ? err.statusCode : undefined
+    const maxAttempts = config.maxAttempts ?? DEFAULT_MAX_ATTEMPTS
+
+    if (attempts >= maxAttempts) {
+      await updateDelivery(config.name, delivery.id, { status: 'dead', attempts, statusCode, lastError, nextAttemptAt: null })
+      logger.warn('Sink delivery dead-lettered', { sink: config.name, type: delivery.eventType, attempts, error: lastError })
+      return { ...delivery, status: 'dead', attempts, statusCode, lastError, nextAttemptAt: undefined }
+    }
+
+    const nextAttemptAt = Date.now() + (config.backoffMs ?? DEFAULT_BACKOFF_MS) * 2 ** (attempts - 1)
+    const update = { status: 'retrying' as const, attempts, statusCode, lastError, nextAttemptAt }
+    await updateDelivery(config.name, delivery.id, update)
+
+    await useScheduler().schedule({
+      id: retryJobId(config.name, delivery.id),
+      name: `Sink Retry: ${config.name} - ${delivery.eventType}`,
+      type: 'one-time',
+      executeAt: nextAttemptAt,
+      handler: () => retrySinkDelivery(config.name, delivery.id),
+      metadata: {
+        component: 'event-sink',
+        sinkName: config.name,
+        deliveryId: delivery.id,
+      },
+    })
+
+    logger.info('Sink delivery failed, retrying', { sink: config.name, type: delivery.eventType, attempts, nextAttemptAt, error: lastError })
+    return { ...delivery, ...update }
+  }
+}
+
+async function send(config: SinkConfig, event: SinkEvent): Promise<number | undefined> {
+  const type = config.type || 'webhook'
+  const custom = type === 'webhook' ? undefined : sinkTypes.get(type)
+  if (type !== 'webhook' && !custom) throw new SinkDeliveryError(`Unknown sink type '${type}'`)
+
+  if (custom?.deliver) {
+    await custom.deliver(event, config)
+    return undefined
+  }
+
+  if (!config.url) throw new SinkDeliveryError('Sink has no url')
+  let secret: string | undefined
+  if (config.secret) {
+    const secrets = (useRuntimeConfig() as any).nvent?.webhooks?.secrets || {}
+    secret = secrets[config.secret] ?? process.env[config.secret]
+    if (!secret) throw new SinkDeliveryError(`Signing secret '${config.secret}' not configured`)
+  }
+
+  return postWebhook(config.url, custom?.format ? custom.format(event, config) : event, {
+    secret,
+    headers: {
+      'x-nvent-event': event.type,
+      'x-nvent-delivery': event.id,
+      ...config.headers,
+    },
+    timeoutMs: config.timeoutMs,
+  })
+}
+
+async function updateDelivery(sinkName: string, deliveryId: string, update: Record<string, any>) {
+  const store = useStoreAdapter()
+  const { StoreSubjects } = useStreamTopics()
+  await store.index.updateWithRetry(StoreSubjects.sinkDeliveries(sinkName), deliveryId, { ...update, updatedAt: Date.now() })
+}
+
+function toDelivery(meta: any): SinkDelivery {
+  let event = meta?.event
+  if (typeof event === 'string') {
+    try {
+      event = JSON.parse(event)
+    }
+    catch {
+      event = undefined
+    }
+  }
+  return {
+    ...meta,
+    attempts: Number(meta?.attempts) || 0,
+    createdAt: Number(meta?.createdAt),
+    updatedAt: Number(meta?.updatedAt),
+    nextAttemptAt: meta?.nextAttemptAt ? Number(meta.nextAttemptAt) : undefined,
+    statusCode: meta?.statusCode ? Number(meta.statusCode) : undefined,
+    lastError: meta?.lastError || undefined,
+    event,
+  }
+}
+
+function describeTarget(url?: string): string | undefined {
+  if (!url) return undefined
+  try {
+    const parsed = new URL(url)
+    return `${parsed.origin}${parsed.pathname}`
+  }
+  catch {
+    return undefined
+  }
+}
+
+function retryJobId(sinkName: string, deliveryId: string) {
+  return `sink-retry-${sinkName}-${deliveryId}`
+}
@@ -0,0 +1,52 @@
+import type { SinkConfig } from '../config/types'
+
+export type { SinkConfig }
+
+/**
+ * Event as delivered to sinks (the webhook body)
+ */
+export interface SinkEvent {
+  /** Delivery ID, stable across retries (use it to deduplicate) */
+  id: string
+  /** Persisted event ID */
+  eventId: string
+  type: string
+  flowName?: string
+  runId?: string
+  stepName?: string
+  triggerName?: string
+  /** Event timestamp (ms) */
+  ts: number
+  data: any
+}
+
+/**
+ * Custom sink type, registered with registerEventSink()
+ *
+ * Provide `format` to reuse the signed HTTP delivery with a different body (e.g. Slack or Teams
+ * messages), or `deliver` to send the event yourself. Throwing from `deliver` retries the delivery.
+ */
+export interface EventSink {
+  format?: (event: SinkEvent, config: SinkConfig) => any
+  deliver?: (event: SinkEvent, config: SinkConfig) => Promise<void>
+}
+
+export type SinkDeliveryStatus = 'pending' | 'delivered' | 'retrying' | 'dead'
+
+export interface SinkDelivery {
+  id: string
+  sink: string
+  eventType: string
+  flowName?: string
+  runId?: string
+  status: SinkDeliveryStatus
+  attempts: number
+  createdAt: number
+  updatedAt: number
+  /** Next retry (status 'retrying') */
+  nextAttemptAt?: number
+  /** HTTP status of the last attempt */
+  statusCode?: number
+  lastError?: string
+  event: SinkEvent
+}
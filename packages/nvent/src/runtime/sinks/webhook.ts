@@ -0,0 +1,54 @@
+import { signWebhookBody } from '../nitro/utils/webhookAuth'
+
+/**
+ * Failed sink delivery attempt
+ */
+export class SinkDeliveryError extends Error {
+  constructor(message: string, readonly statusCode?: number) {
+    super(message)
+    this.name = 'SinkDeliveryError'
+  }
+}
+
+export interface WebhookRequestOptions {
+  /** HMAC-SHA256 signing secret (value, not reference), signed with the 'standard' trigger auth scheme */
+  secret?: string
+  headers?: Record<string, string>
+  timeoutMs?: number
+  /** Current time in milliseconds (for tests) */
+  now?: number
+}
+
+/**
+ * POST a JSON body to a webhook
+ * @returns HTTP status of the response
+ * @throws SinkDeliveryError on network errors, timeouts and non-2xx responses
+ */
+export async function postWebhook(url: string, payload: any, opts: WebhookRequestOptions = {}): Promise<number> {
+  const body = JSON.stringify(payload)
+  const headers: Record<string, string> = {
+    'content-type': 'application/json',
+    ...opts.headers,
+    ...(opts.secret ? signWebhookBody(body, opts.secret, opts.now) : {}),
+  }
+
+  let response: Response
+  try {
+    response = await fetch(url, {
+      method: 'POST',
+      headers,
+      body,
+      signal: AbortSignal.timeout(opts.timeoutMs ?? 10_000),
+    })
+  }
+  catch (err) {
+    const reason = (err as any)?.name === 'TimeoutError' ? 'Request timed out' : (err as any)?.message || 'Request failed'
+    throw new SinkDeliveryError(reason)
+  }
+
+  if (!response.ok) {
+    const text = await response.text().catch(() => '')
+    throw new SinkDeliveryError(`HTTP ${response.status}${text ? `: ${text.slice(0, 200)}` : ''}`, response.status)
+  }
+  return response.status
+}
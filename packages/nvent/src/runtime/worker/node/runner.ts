@@ -5,12 +5,16 @@ import {
   useEventManager,
   useNventLogger,
   $useFunctionRegistry,
-  $useAnalyzedFlows,
-  useStateAdapter,
   useQueueAdapter,
 } from '#imports'
 import { SYSTEM_HANDLERS } from '../system'
 import type { FlowStats, StartFlowResult, CancelFlowResult, RunningFlow } from '../../nitro/utils/useFlow'
+import { SubflowError } from '../../nitro/utils/subflow'
+import { createRunState } from '../../nitro/utils/runState'
+import { waitForFlowRun } from '../../nitro/utils/awaitPatterns/flow'
+import { captureDeadLetter, clearFailedAttempts, recordFailedAttempt } from '../../deadLetter'
+import { loadFlowDefinition, loadRunFlowDefinition } from '../../events/utils/flowVersions'
+import type { WorkerContext } from '../../adapters/interfaces/queue'
 
 const logger = useNventLogger('node-runner')
 
@@ -43,14 +47,24 @@ export interface RunState {
  * Provides context-aware versions of flow operations with auto-injected flowId/flowName
  */
 export interface RunContextFlow {
-  /** Start a new flow with the given payload */
-  startFlow: (flowName: string, payload?: any) => Promise<StartFlowResult>
+  /** Start a new flow with the given payload (an `idempotencyKey` starts it only once, e.g. across step retries) */
+  startFlow: (flowName: string, payload?: any, options?: { idempotencyKey?: string }) => Promise<StartFlowResult>
   /** Emit a trigger event (auto-injects flowId, flowName, stepName from context) */
   emit: (trigger: string, payload?: any) => Promise<any[]>
   /** Cancel a specific flow by name and runId */
   cancelFlow: (flowName: string, runId: string) => Promise<CancelFlowResult>
   /** Cancel the current flow (uses flowId from context) */
   cancel: () => Promise<CancelFlowResult>
+  /**
+   * Start another flow as a sub-flow of this step and wait for its result
+   * The child is linked to this run (canceling this run cancels it) and its
+   * `flow.completed` result is returned. The worker stays busy while waiting,
+   * so prefer the declarative `flow.subflow` step for long-running children.
+   * Every attempt of a retried step starts a new child.
+   * @param options.timeout - Stop waiting after this many milliseconds
+   * @throws SubflowError if the child fails, is canceled or does not end within the timeout (it keeps running)
+   */
+  invoke: <T = any>(flowName: string, payload?: any, options?: { timeout?: number }) => Promise<T>
   /**
    * Check if a flow is currently running
    * @param flowName - Optional flow name (defaults to current flow)
@@ -100,38 +114,10 @@ export interface RunContext {
   awaitConfig?: any
 }
 
-const defaultState: RunState = {
-  async get() { return null },
-  async set() { /* no-op */ },
-  async delete() { /* no-op */ },
-}
-
-function scopeKey(baseKey: string, flowId?: string) {
-  if (!flowId) return baseKey
-  // Prefix with flow trace namespace to isolate per-flow state
-  return `flow:${flowId}:${baseKey}`
-}
-
 export function buildContext(partial?: Partial<RunContext>): RunContext {
   // Provide a lazy StateAdapter so ctx.state works without explicit wiring at callsites
-  const state = partial?.state || ((): RunState => {
-    try {
-      const stateAdapter = useStateAdapter()
-      const rc: any = useRuntimeConfig()
-      const cleanupCfg = rc?.nvent?.state?.cleanup || { strategy: 'never' }
-      return {
-        async get(key) { return stateAdapter.get(scopeKey(key, partial?.flowId)) },
-        async set(key, value, opts) {
-          const ttl = opts?.ttl ?? (cleanupCfg?.strategy === 'ttl' ? cleanupCfg?.ttlMs : undefined)
-          return stateAdapter.set(scopeKey(key, partial?.flowId), value, ttl ? { ttl } : undefined)
-        },
-        async delete(key) { return stateAdapter.delete(scopeKey(key, partial?.flowId)) },
-      }
-    }
-    catch {
-      return defaultState
-    }
-  })()
+  // (mutations inside a flow run are recorded on the run stream)
+  const state = partial?.state || createRunState(partial)
 
   // Logger bridge: use provider; also mirror to events as runner.log
   const logger: RunLogger = partial?.logger || (() => {
@@ -178,6 +164,28 @@ export function buildContext(partial?: Partial<RunContext>): RunContext {
       }
       return baseFlowEngine.cancelFlow(partial.flowName, partial.flowId)
     },
+    invoke: async (flowName: string, payload: any = {}, options?: { timeout?: number }) => {
+      if (!partial?.flowName || !partial?.flowId || !partial?.stepName) {
+        throw new Error('Cannot invoke sub-flow: flowName, flowId or stepName not available in context')
+      }
+      const child = await baseFlowEngine.startFlow(flowName, payload, {
+        parent: { runId: partial.flowId, flowName: partial.flowName, stepName: partial.stepName },
+      })
+
+      // The flow wiring links the child from the parent run once its flow.start is persisted;
+      // the step log carries the link too
+      logger.log('info', `Invoked sub-flow '${flowName}'`, {
+        flowName: partial.flowName,
+        stepName: partial.stepName,
+        stepId: partial.stepId,
+        attempt: partial.attempt,
+        subflow: { runId: child.flowId, flowName },
+      })
+
+      const outcome = await waitForFlowRun(flowName, child.flowId, options?.timeout)
+      if (outcome.status !== 'completed') throw new SubflowError(outcome)
+      return outcome.result
+    },
     isRunning: async (flowName?: string, runId?: string, options?: { excludeRunIds?: string[] }) => {
       // Use provided flowName or current context flowName
       const targetFlowName = flowName || partial?.flowName
@@ -223,7 +231,14 @@ export type NodeHandler = (input: any, ctx: RunContext) => Promise<any>
  * Works with any queue adapter by accepting a job-like object
  */
 export function createJobProcessor(handler: NodeHandler, queueName: string) {
-  return async function processor(job: QueueJob) {
+  return async function processor(job: QueueJob, workerCtx?: WorkerContext) {
+    // The memory adapter passes the payload, with the job's id, name and options in the worker context
+    // (it runs every job once, whatever its attempts option, which dead letters still keep for requeues)
+    const singleAttempt = job?.id === undefined && !!workerCtx?.jobName
+    if (singleAttempt) {
+      job = { id: workerCtx!.jobId, name: workerCtx!.jobName, data: job, opts: { ...workerCtx!.jobOpts } }
+    }
+
     // Normal job processing
     const eventMgr = useEventManager()
     const rc: any = useRuntimeConfig()
@@ -235,11 +250,16 @@ export function createJobProcessor(handler: NodeHandler, queueName: string) {
 
     // Get actual attempt number from BullMQ (1-indexed: attemptsMade starts at 0)
     const attempt = (job.attemptsMade || 0) + 1
-    const maxAttempts = job.opts?.attempts || 1
+    const maxAttempts = singleAttempt ? 1 : (job.opts?.attempts || 1)
     const isFinalAttempt = attempt >= maxAttempts
 
+    // Map steps (flow.map) run one job per item, reported as step.item.* events
+    const mapItem = job.data?.mapItem as { index: number, total: number } | undefined
+    const stepEventType = (type: 'started' | 'completed' | 'failed' | 'retry') =>
+      (mapItem ? `step.item.${type}` : `step.${type}`) as any
+
     // Generate a unique stepRunId for this attempt
-    const stepRunId = `${String(flowId || job.id)}__${job.name}__attempt-${attempt}`
+    const stepRunId = `${String(flowId || job.id)}__${job.name}${mapItem ? `__item-${mapItem.index}` : ''}__attempt-${attempt}`
     // Get flowName for v0.4 events
     const flowName = (job.data as any)?.flowName || 'unknown'
 
@@ -290,7 +310,7 @@ export function createJobProcessor(handler: NodeHandler, queueName: string) {
     // Emit step.started event
     try {
       await eventMgr.publishBus({
-        type: 'step.started',
+        type: stepEventType('started'),
         runId: flowId || 'unknown',
         flowName,
         stepName: job.name,
@@ -300,6 +320,7 @@ export function createJobProcessor(handler: NodeHandler, queueName: string) {
           jobId: job.id,
           name: job.name,
           queue: queueName,
+          ...mapItem,
         } as any,
       })
     }
@@ -335,7 +356,7 @@ export function createJobProcessor(handler: NodeHandler, queueName: string) {
       if (willRetry) {
         try {
           await eventMgr.publishBus({
-            type: 'step.retry' as any,
+            type: stepEventType('retry'),
             runId: flowId || 'unknown',
             flowName,
             stepName: job.name,
@@ -349,6 +370,7 @@ export function createJobProcessor(handler: NodeHandler, queueName: string) {
               nextAttempt: attempt + 1,
               error: String((err as any)?.message || err),
               stack: (err as any)?.stack,
+              ...mapItem,
             } as any,
           })
         }
@@ -360,7 +382,7 @@ export function createJobProcessor(handler: NodeHandler, queueName: string) {
         // Final attempt failed - emit step.failed
         try {
           await eventMgr.publishBus({
-            type: 'step.failed',
+            type: stepEventType('failed'),
             runId: flowId || 'unknown',
             flowName,
             stepName: job.name,
@@ -369,7 +391,8 @@ export function createJobProcessor(handler: NodeHandler, queueName: string) {
             data: {
               error: String((err as any)?.message || err),
               stack: (err as any)?.stack,
-            },
+              ...mapItem,
+            } as any,
           })
         }
         catch {
@@ -377,29 +400,48 @@ export function createJobProcessor(handler: NodeHandler, queueName: string) {
         }
       }
 
+      // Keep the attempt history and copy exhausted jobs to the dead-letter queue
+      try {
+        if (willRetry) await recordFailedAttempt(queueName, job, attempt, err)
+        else await captureDeadLetter(queueName, job, attempt, err)
+      }
+      catch (dlqErr) {
+        logger.error('Failed to record job failure for the dead-letter queue', {
+          queue: queueName,
+          jobId: job.id,
+          error: (dlqErr as Error).message,
+        })
+      }
+
       throw err
     }
     // Emit step.completed event
     try {
       const eventMgr = useEventManager()
       await eventMgr.publishBus({
-        type: 'step.completed',
+        type: stepEventType('completed'),
         runId: flowId || 'unknown',
         flowName,
         stepName: job.name,
         stepId: stepRunId,
         attempt,
-        data: { result } as any,
+        data: { result, ...mapItem } as any,
       })
     }
     catch {
       // ignore
     }
 
+    // Succeeded on a retry: the earlier failures won't be dead-lettered
+    if (attempt > 1) {
+      await clearFailedAttempts(queueName, job.id).catch(() => {})
+    }
+
     // awaitAfter: Register await pattern after step completes
     // This blocks dependent steps from triggering until the await is resolved
     // Skip registration only if resuming from awaitAfter (not awaitBefore)
-    const shouldRegisterAwaitAfter = awaitAfter && (!isAwaitResume || awaitPosition === 'before')
+    // Map items never register it: the map step does once all items are settled
+    const shouldRegisterAwaitAfter = awaitAfter && !mapItem && (!isAwaitResume || awaitPosition === 'before')
     if (shouldRegisterAwaitAfter) {
       try {
         const queue = useQueueAdapter()
@@ -407,8 +449,7 @@ export function createJobProcessor(handler: NodeHandler, queueName: string) {
         // Enqueue system handler to register await pattern in the same queue
         // System handlers execute user-defined lifecycle hooks, so they need timeout
         // Use the same stepTimeout as the step itself since they're part of the step lifecycle
-        const analyzedFlows = $useAnalyzedFlows()
-        const flowDef = analyzedFlows.find((f: any) => f.id === flowName) as any
+        const flowDef = flowId ? await loadRunFlowDefinition(flowName, flowId) : await loadFlowDefinition(flowName)
         const analyzedAwaitStep = flowDef?.analyzed?.steps?.[job.name]
         const awaitStepTimeout = analyzedAwaitStep?.stepTimeout
 
@@ -0,0 +1,91 @@
+// Worker thread entry for functions with runtype 'task'
+// Loads the function file with jiti and proxies ctx.logger, ctx.state and ctx.flow to the main thread
+import { parentPort, workerData } from 'node:worker_threads'
+import { fileURLToPath } from 'node:url'
+import { createJiti } from 'jiti'
+
+const FLOW_METHODS = ['startFlow', 'emit', 'cancelFlow', 'cancel', 'isRunning', 'getRunningFlows', 'getFlowStats', 'getAllFlowStats', 'hasFlowStats']
+
+const pending = new Map()
+let rpcCounter = 0
+
+parentPort.on('message', (msg) => {
+  if (msg?.type !== 'rpc_result') return
+  const call = pending.get(msg.id)
+  if (!call) return
+  pending.delete(msg.id)
+  if (msg.error) call.reject(new Error(msg.error))
+  else call.resolve(msg.result)
+})
+
+function call(method, args) {
+  const id = ++rpcCounter
+  return new Promise((resolve, reject) => {
+    pending.set(id, { resolve, reject })
+    parentPort.postMessage({ type: 'rpc', id, method, args })
+  })
+}
+
+function toCloneable(value) {
+  try {
+    structuredClone(value)
+    return value
+  }
+  catch {
+    return value === undefined ? undefined : JSON.parse(JSON.stringify(value))
+  }
+}
+
+function serializeError(err) {
+  return {
+    message: err?.message || String(err),
+    name: err?.name,
+    stack: err?.stack,
+  }
+}
+
+async function run() {
+  const { file, input, context } = workerData
+
+  const jiti = createJiti(import.meta.url, {
+    interopDefault: true,
+    alias: {
+      '#imports': fileURLToPath(new URL('./task-imports.mjs', import.meta.url)),
+    },
+  })
+
+  const flow = {}
+  for (const method of FLOW_METHODS) {
+    flow[method] = (...args) => call(`flow.${method}`, toCloneable(args))
+  }
+
+  const ctx = {
+    ...context,
+    logger: {
+      // Fire-and-forget like the in-process logger
+      log: (level, msg, meta) => parentPort.postMessage({ type: 'rpc', method: 'logger.log', args: toCloneable([level, msg, meta]) }),
+    },
+    state: {
+      get: key => call('state.get', [key]),
+      set: (key, value, opts) => call('state.set', toCloneable([key, value, opts])),
+      delete: key => call('state.delete', [key]),
+    },
+    flow,
+  }
+
+  try {
+    const mod = await jiti.import(file)
+    const handler = typeof mod === 'function' ? mod : mod?.default
+    if (typeof handler !== 'function') {
+      throw new TypeError(`No default export handler found in ${file}`)
+    }
+
+    const result = await handler(input, ctx)
+    parentPort.postMessage({ type: 'result', result: toCloneable(result) })
+  }
+  catch (err) {
+    parentPort.postMessage({ type: 'error', error: serializeError(err) })
+  }
+}
+
+run()
@@ -0,0 +1,11 @@
+// Replacement for '#imports' inside task workers (worker threads)
+// Only pure definition helpers are available; everything else goes through the proxied ctx
+
+const identity = value => value
+
+export const defineFunction = identity
+export const defineFunctionConfig = identity
+export const defineTriggerConfig = identity
+export const defineAwaitRegisterHook = identity
+export const defineAwaitResolveHook = identity
+export const defineAwaitTimeoutHook = identity
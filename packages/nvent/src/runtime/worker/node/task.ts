@@ -0,0 +1,150 @@
+import { Worker } from 'node:worker_threads'
+import type { NodeHandler, RunContext } from './runner'
+
+/**
+ * Options for a single isolated task execution
+ */
+export interface TaskRunOptions {
+  /** Worker thread entry script (task-entry.mjs) */
+  entry: string
+  /** Function file to load inside the worker thread */
+  file: string
+  /** Handler input */
+  input: any
+  /** Serializable context identifiers (jobId, flowId, stepName, ...) */
+  context: Record<string, any>
+  /** Hard kill the worker thread after this many milliseconds */
+  timeoutMs?: number
+  /** V8 old generation heap limit for the worker thread */
+  maxMemoryMb?: number
+  /**
+   * Handles context calls from the worker thread
+   * `method` is one of: logger.log, state.get|set|delete, flow.<method>
+   */
+  onRpc: (method: string, args: any[]) => Promise<any> | any
+}
+
+export interface TaskHandlerOptions {
+  /** Worker thread entry script (task-entry.mjs) */
+  entry: string
+  /** V8 old generation heap limit for the worker thread */
+  maxMemoryMb?: number
+  /** Resolve the hard timeout for a step execution (usually the analyzed stepTimeout) */
+  resolveTimeout?: (ctx: RunContext) => number | undefined
+}
+
+/**
+ * Thrown when a task exceeds its step timeout and the worker thread is terminated
+ */
+export class TaskTimeoutError extends Error {
+  constructor(public readonly timeoutMs: number, file: string) {
+    super(`Task exceeded step timeout of ${timeoutMs}ms and was terminated (${file})`)
+    this.name = 'TaskTimeoutError'
+  }
+}
+
+const STATE_METHODS = new Set(['get', 'set', 'delete'])
+const FLOW_METHODS = new Set(['startFlow', 'emit', 'cancelFlow', 'cancel', 'isRunning', 'getRunningFlows', 'getFlowStats', 'getAllFlowStats', 'hasFlowStats'])
+
+/**
+ * Execute a function file in a dedicated worker thread
+ * The thread is always terminated once the task settles, times out or runs out of memory
+ */
+export function runInTask(opts: TaskRunOptions): Promise<any> {
+  return new Promise((resolve, reject) => {
+    let settled = false
+    let timer: ReturnType<typeof setTimeout> | undefined
+
+    const worker = new Worker(opts.entry, {
+      workerData: { file: opts.file, input: opts.input, context: opts.context },
+      resourceLimits: opts.maxMemoryMb ? { maxOldGenerationSizeMb: opts.maxMemoryMb } : undefined,
+    })
+
+    const finish = (err: Error | null, value?: any) => {
+      if (settled) return
+      settled = true
+      if (timer) clearTimeout(timer)
+      void worker.terminate().catch(() => {})
+      if (err) reject(err)
+      else resolve(value)
+    }
+
+    if (opts.timeoutMs && opts.timeoutMs > 0) {
+      timer = setTimeout(() => finish(new TaskTimeoutError(opts.timeoutMs!, opts.file)), opts.timeoutMs)
+    }
+
+    worker.on('message', async (msg: any) => {
+      if (msg?.type === 'result') {
+        finish(null, msg.result)
+        return
+      }
+
+      if (msg?.type === 'error') {
+        const err = new Error(msg.error?.message || 'Task failed')
+        if (msg.error?.name) err.name = msg.error.name
+        if (msg.error?.stack) err.stack = msg.error.stack
+        finish(err)
+        return
+      }
+
+      if (msg?.type === 'rpc') {
+        // Notifications (logger) have no id and expect no response
+        const respond = msg.id !== undefined
+        try {
+          const result = await opts.onRpc(msg.method, msg.args || [])
+          if (respond && !settled) worker.postMessage({ type: 'rpc_result', id: msg.id, result })
+        }
+        catch (err) {
+          if (respond && !settled) worker.postMessage({ type: 'rpc_result', id: msg.id, error: (err as any)?.message || String(err) })
+        }
+      }
+    })
+
+    // Includes ERR_WORKER_OUT_OF_MEMORY when the resource limit is hit
+    worker.on('error', err => finish(err as Error))
+    worker.on('exit', (code) => {
+      finish(new Error(`Task worker exited with code ${code} before returning a result`))
+    })
+  })
+}
+
+/**
+ * Create a NodeHandler that runs a function file in an isolated worker thread
+ * Wrap it with createJobProcessor so step.* events are published like for in-process handlers
+ */
+export function createTaskHandler(absPath: string, options: TaskHandlerOptions): NodeHandler {
+  return async function taskHandler(input: any, ctx: RunContext) {
+    return runInTask({
+      entry: options.entry,
+      file: absPath,
+      input,
+      context: {
+        jobId: ctx.jobId,
+        queue: ctx.queue,
+        flowId: ctx.flowId,
+        flowName: ctx.flowName,
+        stepName: ctx.stepName,
+        stepId: ctx.stepId,
+        attempt: ctx.attempt,
+        trigger: ctx.trigger,
+        awaitConfig: ctx.awaitConfig,
+      },
+      timeoutMs: options.resolveTimeout?.(ctx),
+      maxMemoryMb: options.maxMemoryMb,
+      onRpc: async (method, args) => {
+        const [scope, name] = method.split('.') as [string, string]
+        if (scope === 'logger' && name === 'log') {
+          ctx.logger.log(args[0], args[1], args[2])
+          return undefined
+        }
+        if (scope === 'state' && STATE_METHODS.has(name)) {
+          return (ctx.state as any)[name](...args)
+        }
+        if (scope === 'flow' && FLOW_METHODS.has(name)) {
+          return (ctx.flow as any)[name](...args)
+        }
+        throw new Error(`Unknown context method: ${method}`)
+      },
+    })
+  }
+}
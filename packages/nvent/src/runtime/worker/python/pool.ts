@@ -0,0 +1,351 @@
+import { spawn } from 'node:child_process'
+import type { ChildProcess } from 'node:child_process'
+import type { Readable } from 'node:stream'
+
+/**
+ * Context identifiers forwarded to the Python RunContext
+ */
+export interface PythonInvokeContext {
+  jobId?: string
+  queue?: string
+  flowId?: string
+  flowName?: string
+  stepName?: string
+  stepId?: string
+  attempt?: number
+  trigger?: any
+  awaitConfig?: any
+}
+
+/**
+ * Handles a context call issued by the Python handler (logger, state, flow)
+ * `method` is one of: logger.log, state.get, state.set, state.delete, flow.emit, flow.cancel
+ */
+export type PythonRpcHandler = (method: string, params: any) => Promise<any> | any
+
+export interface PythonPoolOptions {
+  /** Runner script (runner.py) */
+  script: string
+  /** Python executable */
+  cmd?: string
+  /** Max number of child processes */
+  size?: number
+  /** Extra environment variables for child processes */
+  env?: Record<string, string | undefined>
+  /** Optional logger for child process output and lifecycle */
+  logger?: {
+    debug: (msg: string, meta?: any) => void
+    warn: (msg: string, meta?: any) => void
+    error: (msg: string, meta?: any) => void
+  }
+}
+
+interface PendingInvoke {
+  resolve: (value: any) => void
+  reject: (err: Error) => void
+  onRpc: PythonRpcHandler
+}
+
+export interface PythonInvokeOptions {
+  /** Kill the child process after this many milliseconds */
+  timeoutMs?: number
+}
+
+interface PythonProcess {
+  child: ChildProcess
+  ready: Promise<void>
+  busy: boolean
+  exited: boolean
+  pending: Map<number, PendingInvoke>
+  /** Kill the process, rejecting its pending invocations with `reason` */
+  kill: (reason: Error) => void
+}
+
+/**
+ * Error raised inside a Python handler, carrying the Python traceback as stack
+ */
+export class PythonHandlerError extends Error {
+  pythonType?: string
+
+  constructor(message: string, pythonType?: string, stack?: string) {
+    super(message)
+    this.name = 'PythonHandlerError'
+    this.pythonType = pythonType
+    if (stack) this.stack = stack
+  }
+}
+
+/**
+ * Thrown when a Python handler exceeds its step timeout and its process is killed
+ */
+export class PythonTimeoutError extends Error {
+  constructor(public readonly timeoutMs: number, file: string) {
+    super(`Python handler exceeded step timeout of ${timeoutMs}ms and was killed (${file})`)
+    this.name = 'PythonTimeoutError'
+  }
+}
+
+/**
+ * Pool of long-lived Python child processes running runner.py
+ *
+ * Protocol (newline-delimited JSON):
+ * - parent -> child via stdin: invoke, rpc_result, shutdown
+ * - child -> parent via fd 3 (stdout on Windows): ready, rpc, result, error
+ *
+ * Each process executes one invocation at a time, extra invocations wait for a free process.
+ * A process whose invocation times out is killed and replaced on demand.
+ */
+export class PythonProcessPool {
+  private processes: PythonProcess[] = []
+  private waiters: Array<(proc: PythonProcess) => void> = []
+  private invokeCounter = 0
+  private closed = false
+  private readonly size: number
+
+  constructor(private readonly options: PythonPoolOptions) {
+    this.size = Math.max(1, options.size ?? 2)
+  }
+
+  /**
+   * Invoke the handler exported by a Python file
+   * Context calls from Python are routed to `onRpc`
+   * @throws PythonTimeoutError if `timeoutMs` elapses first (the process is killed)
+   */
+  async invoke(
+    file: string,
+    input: any,
+    context: PythonInvokeContext,
+    onRpc: PythonRpcHandler,
+    opts: PythonInvokeOptions = {},
+  ): Promise<any> {
+    if (this.closed) {
+      throw new Error('Python process pool is closed')
+    }
+
+    const proc = await this.acquire()
+    try {
+      await proc.ready
+      const id = ++this.invokeCounter
+      return await new Promise<any>((resolve, reject) => {
+        let timer: ReturnType<typeof setTimeout> | undefined
+        proc.pending.set(id, {
+          resolve: (value) => {
+            clearTimeout(timer)
+            resolve(value)
+          },
+          reject: (err) => {
+            clearTimeout(timer)
+            reject(err)
+          },
+          onRpc,
+        })
+        if (opts.timeoutMs && opts.timeoutMs > 0) {
+          timer = setTimeout(() => proc.kill(new PythonTimeoutError(opts.timeoutMs!, file)), opts.timeoutMs)
+        }
+        this.write(proc, { type: 'invoke', id, file, input, context })
+      })
+    }
+    finally {
+      this.release(proc)
+    }
+  }
+
+  /**
+   * Number of running child processes
+   */
+  get processCount(): number {
+    return this.processes.length
+  }
+
+  async close(): Promise<void> {
+    this.closed = true
+    const procs = this.processes.splice(0)
+    await Promise.all(procs.map(proc => new Promise<void>((resolve) => {
+      if (proc.exited) return resolve()
+      const timer = setTimeout(() => {
+        try {
+          proc.child.kill('SIGKILL')
+        }
+        catch {
+          // ignore
+        }
+        resolve()
+      }, 2000)
+      proc.child.once('exit', () => {
+        clearTimeout(timer)
+        resolve()
+      })
+      try {
+        this.write(proc, { type: 'shutdown' })
+        proc.child.stdin?.end()
+      }
+      catch {
+        // ignore
+      }
+    })))
+  }
+
+  private async acquire(): Promise<PythonProcess> {
+    const idle = this.processes.find(p => !p.busy && !p.exited)
+    if (idle) {
+      idle.busy = true
+      return idle
+    }
+
+    if (this.processes.length < this.size) {
+      const proc = this.spawnProcess()
+      proc.busy = true
+      return proc
+    }
+
+    return new Promise<PythonProcess>(resolve => this.waiters.push(resolve))
+  }
+
+  private release(proc: PythonProcess) {
+    if (proc.exited) {
+      // Replace crashed process for the next waiter
+      const next = this.waiters.shift()
+      if (next && !this.closed) {
+        const replacement = this.spawnProcess()
+        replacement.busy = true
+        next(replacement)
+      }
+      return
+    }
+
+    const next = this.waiters.shift()
+    if (next) {
+      next(proc)
+      return
+    }
+    proc.busy = false
+  }
+
+  private spawnProcess(): PythonProcess {
+    const { script, cmd = 'python3', env, logger } = this.options
+
+    const child = spawn(cmd, [script], {
+      stdio: ['pipe', 'pipe', 'pipe', 'pipe'],
+      env: { ...process.env, ...env, NODE_CHANNEL_FD: '3', PYTHONUNBUFFERED: '1' },
+    })
+
+    const messages = (process.platform === 'win32' ? child.stdout : (child.stdio as any)[3]) as Readable
+
+    let markReady: () => void = () => {}
+    let markFailed: (err: Error) => void = () => {}
+    const ready = new Promise<void>((resolve, reject) => {
+      markReady = resolve
+      markFailed = reject
+    })
+    // Avoid unhandled rejection when nobody awaits readiness
+    ready.catch(() => {})
+
+    const proc: PythonProcess = { child, ready, busy: false, exited: false, pending: new Map(), kill: () => {} }
+    this.processes.push(proc)
+
+    readLines(messages, (line) => {
+      let msg: any
+      try {
+        msg = JSON.parse(line)
+      }
+      catch {
+        logger?.warn('Invalid message from python runner', { line })
+        return
+      }
+      if (msg.type === 'ready') {
+        markReady()
+        return
+      }
+      void this.handleMessage(proc, msg)
+    })
+
+    if (process.platform !== 'win32' && child.stdout) {
+      readLines(child.stdout, line => logger?.debug(`[python:${child.pid}] ${line}`))
+    }
+    if (child.stderr) {
+      readLines(child.stderr, line => logger?.warn(`[python:${child.pid}] ${line}`))
+    }
+
+    const onExit = (err?: Error) => {
+      if (proc.exited) return
+      proc.exited = true
+      this.processes = this.processes.filter(p => p !== proc)
+      const reason = err || new Error(`Python runner exited unexpectedly (pid ${child.pid})`)
+      markFailed(reason)
+      for (const pending of proc.pending.values()) {
+        pending.reject(reason)
+      }
+      proc.pending.clear()
+      if (!this.closed) {
+        logger?.error('Python runner process exited', { pid: child.pid, error: reason.message })
+      }
+    }
+
+    // Settle right away, so the process is not handed out again while it is dying
+    proc.kill = (reason) => {
+      onExit(reason)
+      try {
+        child.kill('SIGKILL')
+      }
+      catch {
+        // ignore
+      }
+    }
+
+    child.on('error', err => onExit(err))
+    child.on('exit', () => onExit())
+    // Writing to a dead process should surface through the exit handler, not crash
+    child.stdin?.on('error', () => {})
+
+    return proc
+  }
+
+  private async handleMessage(proc: PythonProcess, msg: any) {
+    if (msg.type === 'result' || msg.type === 'error') {
+      const pending = proc.pending.get(msg.id)
+      if (!pending) return
+      proc.pending.delete(msg.id)
+      if (msg.type === 'result') {
+        pending.resolve(msg.result ?? null)
+      }
+      else {
+        pending.reject(new PythonHandlerError(msg.error?.message || 'Python handler failed', msg.error?.name, msg.error?.stack))
+      }
+      return
+    }
+
+    if (msg.type === 'rpc') {
+      const pending = proc.pending.get(msg.invokeId)
+      // Notifications (logger) have no id and expect no response
+      const respond = msg.id !== undefined && msg.id !== null
+      try {
+        if (!pending) throw new Error(`Unknown invocation ${msg.invokeId}`)
+        const result = await pending.onRpc(msg.method, msg.params || {})
+        if (respond) this.write(proc, { type: 'rpc_result', id: msg.id, result: result ?? null })
+      }
+      catch (err) {
+        if (respond) this.write(proc, { type: 'rpc_result', id: msg.id, error: (err as any)?.message || String(err) })
+      }
+    }
+  }
+
+  private write(proc: PythonProcess, payload: any) {
+    if (proc.exited || !proc.child.stdin) return
+    proc.child.stdin.write(`${JSON.stringify(payload)}\n`)
+  }
+}
+
+function readLines(stream: Readable, onLine: (line: string) => void) {
+  let buf = ''
+  stream.setEncoding('utf-8')
+  stream.on('data', (chunk: string) => {
+    buf += chunk
+    let idx = buf.indexOf('\n')
+    while (idx !== -1) {
+      const line = buf.slice(0, idx).trim()
+      buf = buf.slice(idx + 1)
+      if (line.length > 0) onLine(line)
+      idx = buf.indexOf('\n')
+    }
+  })
+}
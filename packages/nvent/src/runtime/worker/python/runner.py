@@ -0,0 +1,227 @@
+import sys
+import json
+import asyncio
+import importlib.util
+import inspect
+import os
+import platform
+import threading
+import traceback
+
+
+_write_lock = threading.Lock()
+
+
+def send_message(payload):
+    """Send a JSON line to the parent process.
+
+    On Unix-like systems, write to the file descriptor provided via env
+    NODE_CHANNEL_FD. On Windows, write to stdout.
+    """
+    bytes_message = (json.dumps(payload, default=str) + "\n").encode("utf-8")
+
+    with _write_lock:
+        if platform.system() == "Windows":
+            # On Windows, write to stdout
+            sys.stdout.buffer.write(bytes_message)
+            sys.stdout.buffer.flush()
+        else:
+            # On Unix systems, use the provided file descriptor
+            fd = int(os.environ["NODE_CHANNEL_FD"])  # expected to be set by parent
+            os.write(fd, bytes_message)
+
+
+class RpcClient:
+    """Issues context calls to the parent process and awaits their results."""
+
+    def __init__(self, loop):
+        self.loop = loop
+        self.pending = {}
+        self.counter = 0
+
+    def notify(self, invoke_id, method, params):
+        send_message({"type": "rpc", "invokeId": invoke_id, "method": method, "params": params})
+
+    async def call(self, invoke_id, method, params):
+        self.counter += 1
+        rpc_id = self.counter
+        future = self.loop.create_future()
+        self.pending[rpc_id] = future
+        send_message({"type": "rpc", "id": rpc_id, "invokeId": invoke_id, "method": method, "params": params})
+        return await future
+
+    def resolve(self, message):
+        future = self.pending.pop(message.get("id"), None)
+        if future is None or future.done():
+            return
+        if message.get("error"):
+            future.set_exception(RuntimeError(message["error"]))
+        else:
+            future.set_result(message.get("result"))
+
+
+class Logger:
+    def __init__(self, rpc, invoke_id):
+        self._rpc = rpc
+        self._invoke_id = invoke_id
+
+    def log(self, level, message, meta=None):
+        # Fire-and-forget, safe to call from sync handlers running in a thread
+        self._rpc.notify(self._invoke_id, "logger.log", {"level": level, "message": str(message), "meta": meta})
+
+    def debug(self, message, meta=None):
+        self.log("debug", message, meta)
+
+    def info(self, message, meta=None):
+        self.log("info", message, meta)
+
+    def warn(self, message, meta=None):
+        self.log("warn", message, meta)
+
+    def error(self, message, meta=None):
+        self.log("error", message, meta)
+
+
+class State:
+    def __init__(self, rpc, invoke_id):
+        self._rpc = rpc
+        self._invoke_id = invoke_id
+
+    async def get(self, key):
+        return await self._rpc.call(self._invoke_id, "state.get", {"key": key})
+
+    async def set(self, key, value, opts=None):
+        return await self._rpc.call(self._invoke_id, "state.set", {"key": key, "value": value, "opts": opts})
+
+    async def delete(self, key):
+        return await self._rpc.call(self._invoke_id, "state.delete", {"key": key})
+
+
+class Flow:
+    def __init__(self, rpc, invoke_id):
+        self._rpc = rpc
+        self._invoke_id = invoke_id
+
+    async def emit(self, trigger, payload=None):
+        return await self._rpc.call(self._invoke_id, "flow.emit", {"trigger": trigger, "payload": payload or {}})
+
+    async def cancel(self):
+        return await self._rpc.call(self._invoke_id, "flow.cancel", {})
+
+
+class RunContext:
+    """Python equivalent of the Node.js RunContext.
+
+    Identifiers are exposed as attributes, logger/state/flow calls are
+    proxied to the parent process over the RPC channel.
+    """
+
+    def __init__(self, rpc, invoke_id, context):
+        self.job_id = context.get("jobId")
+        self.queue = context.get("queue")
+        self.flow_id = context.get("flowId")
+        self.flow_name = context.get("flowName")
+        self.step_name = context.get("stepName")
+        self.step_id = context.get("stepId")
+        self.attempt = context.get("attempt")
+        self.trigger = context.get("trigger")
+        self.await_config = context.get("awaitConfig")
+        self.logger = Logger(rpc, invoke_id)
+        self.state = State(rpc, invoke_id)
+        self.flow = Flow(rpc, invoke_id)
+
+
+_modules = {}
+
+
+def load_handler(file_path):
+    """Import the worker module once and return its handler function."""
+    module = _modules.get(file_path)
+    if module is None:
+        module_dir = os.path.dirname(os.path.abspath(file_path))
+
+        if module_dir not in sys.path:
+            sys.path.insert(0, module_dir)
+
+        spec = importlib.util.spec_from_file_location(
+            os.path.splitext(os.path.basename(file_path))[0], file_path
+        )
+        if spec is None or spec.loader is None:
+            raise ImportError(f"Could not load module from {file_path}")
+
+        module = importlib.util.module_from_spec(spec)
+        # Set a basic package name to allow relative imports from same dir
+        module.__package__ = os.path.basename(module_dir)
+        spec.loader.exec_module(module)
+        _modules[file_path] = module
+
+    for name in ("handler", "default", "main"):
+        fn = getattr(module, name, None)
+        if callable(fn):
+            return fn
+
+    raise AttributeError(f"No 'handler' function found in module {file_path}")
+
+
+async def invoke(rpc, message):
+    invoke_id = message.get("id")
+    try:
+        fn = load_handler(message["file"])
+        ctx = RunContext(rpc, invoke_id, message.get("context") or {})
+
+        if inspect.iscoroutinefunction(fn):
+            result = await fn(message.get("input"), ctx)
+        else:
+            # Run sync handlers off the loop so RPC results can still be received
+            loop = asyncio.get_running_loop()
+            result = await loop.run_in_executor(None, fn, message.get("input"), ctx)
+            if inspect.isawaitable(result):
+                result = await result
+
+        send_message({"type": "result", "id": invoke_id, "result": result})
+    except Exception as error:
+        send_message({
+            "type": "error",
+            "id": invoke_id,
+            "error": {"message": str(error), "name": type(error).__name__, "stack": traceback.format_exc()},
+        })
+
+
+async def main():
+    loop = asyncio.get_running_loop()
+    rpc = RpcClient(loop)
+    tasks = set()
+
+    send_message({"type": "ready", "pid": os.getpid()})
+
+    while True:
+        line = await loop.run_in_executor(None, sys.stdin.readline)
+        if not line:
+            # Parent closed stdin
+            break
+        line = line.strip()
+        if not line:
+            continue
+
+        try:
+            message = json.loads(line)
+        except ValueError:
+            print("Invalid message from parent:", line, file=sys.stderr)
+            continue
+
+        kind = message.get("type")
+        if kind == "invoke":
+            task = asyncio.ensure_future(invoke(rpc, message))
+            tasks.add(task)
+            task.add_done_callback(tasks.discard)
+        elif kind == "rpc_result":
+            rpc.resolve(message)
+        elif kind == "shutdown":
+            break
+
+    if tasks:
+        await asyncio.gather(*tasks, return_exceptions=True)
+
+
+if __name__ == "__main__":
+    asyncio.run(main())
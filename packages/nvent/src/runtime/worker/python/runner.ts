@@ -0,0 +1,92 @@
+import { useRuntimeConfig, useNventLogger } from '#imports'
+import type { NodeHandler, RunContext } from '../node/runner'
+import { PythonProcessPool } from './pool'
+
+// Use global to survive HMR reloads
+declare global {
+  var __nq_python_pool: PythonProcessPool | undefined
+}
+
+/**
+ * Shared pool of Python runner processes
+ * Configured through `nvent.runner.py` (cmd, poolSize); the runner script path is resolved at build time
+ */
+export function usePythonPool(): PythonProcessPool {
+  if (globalThis.__nq_python_pool) return globalThis.__nq_python_pool
+
+  const rc: any = useRuntimeConfig()
+  const pyCfg = rc?.nvent?.runner?.py || {}
+  if (!pyCfg.script) {
+    throw new Error('Python runner script not configured (nvent.runner.py.script)')
+  }
+
+  const logger = useNventLogger('python-runner')
+  globalThis.__nq_python_pool = new PythonProcessPool({
+    script: pyCfg.script,
+    cmd: pyCfg.cmd || 'python3',
+    size: pyCfg.poolSize,
+    env: pyCfg.env,
+    logger,
+  })
+  return globalThis.__nq_python_pool
+}
+
+/**
+ * Close the shared pool (called on Nitro shutdown / HMR reload)
+ */
+export async function closePythonPool(): Promise<void> {
+  const pool = globalThis.__nq_python_pool
+  globalThis.__nq_python_pool = undefined
+  if (pool) await pool.close()
+}
+
+export interface PythonHandlerOptions {
+  /** Resolve the timeout for a step execution (usually the analyzed stepTimeout) */
+  resolveTimeout?: (ctx: RunContext) => number | undefined
+}
+
+/**
+ * Create a NodeHandler that executes a Python worker file in the process pool
+ * Wrap it with createJobProcessor so step.* events are published like for Node handlers
+ */
+export function createPythonHandler(absPath: string, options: PythonHandlerOptions = {}): NodeHandler {
+  return async function pythonHandler(input: any, ctx: RunContext) {
+    const pool = usePythonPool()
+
+    return pool.invoke(
+      absPath,
+      input,
+      {
+        jobId: ctx.jobId,
+        queue: ctx.queue,
+        flowId: ctx.flowId,
+        flowName: ctx.flowName,
+        stepName: ctx.stepName,
+        stepId: ctx.stepId,
+        attempt: ctx.attempt,
+        trigger: ctx.trigger,
+        awaitConfig: ctx.awaitConfig,
+      },
+      async (method, params) => {
+        switch (method) {
+          case 'logger.log':
+            ctx.logger.log(params.level || 'info', params.message, params.meta ?? undefined)
+            return null
+          case 'state.get':
+            return ctx.state.get(params.key)
+          case 'state.set':
+            return ctx.state.set(params.key, params.value, params.opts ?? undefined)
+          case 'state.delete':
+            return ctx.state.delete(params.key)
+          case 'flow.emit':
+            return ctx.flow.emit(params.trigger, params.payload)
+          case 'flow.cancel':
+            return ctx.flow.cancel()
+          default:
+            throw new Error(`Unknown context method: ${method}`)
+        }
+      },
+      { timeoutMs: options.resolveTimeout?.(ctx) },
+    )
+  }
+}
@@ -32,6 +32,7 @@ export async function awaitRegisterHandler(job: QueueJob) {
       flowName,
       awaitConfig,
       position,
+      input,
     )
 
     logger.info('Registered await pattern', {
@@ -49,7 +50,11 @@ export async function awaitRegisterHandler(job: QueueJob) {
         // Build hook data based on await type
         let hookData: any = {}
         if (awaitConfig.type === 'webhook' && (awaitResult as any).webhookUrl) {
-          hookData = { webhookUrl: (awaitResult as any).webhookUrl }
+          hookData = {
+            webhookUrl: (awaitResult as any).webhookUrl,
+            outcomeUrls: (awaitResult as any).outcomeUrls,
+            expiresAt: (awaitResult as any).expiresAt,
+          }
         }
         else if (awaitConfig.type === 'event' && (awaitResult as any).eventName) {
           hookData = { eventName: (awaitResult as any).eventName }
@@ -63,6 +68,17 @@ export async function awaitRegisterHandler(job: QueueJob) {
         else if (awaitConfig.type === 'time' && awaitConfig.delay) {
           hookData = { delayMs: awaitConfig.delay }
         }
+        else if (awaitConfig.type === 'flow' && (awaitResult as any).runId) {
+          hookData = { runId: (awaitResult as any).runId, flowName: (awaitResult as any).flowName }
+        }
+        else if (awaitConfig.type === 'form' && (awaitResult as any).taskId) {
+          hookData = {
+            taskId: (awaitResult as any).taskId,
+            assignee: (awaitResult as any).assignee,
+            role: (awaitResult as any).role,
+            expiresAt: (awaitResult as any).expiresAt,
+          }
+        }
 
         // Build minimal context for hook
         const eventManager = useEventManager()
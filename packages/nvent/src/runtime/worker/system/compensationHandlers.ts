@@ -0,0 +1,121 @@
+/**
+ * Internal system handler for saga-style compensation
+ * Runs the `onCompensate` hooks of completed steps after a run failed or was canceled
+ */
+
+import { useHookRegistry, useNventLogger, $useFunctionRegistry, useEventManager, useQueueAdapter } from '#imports'
+import { buildContext } from '../node/runner'
+import type { QueueJob } from '../node/runner'
+import type { CompensationStep } from '../../events/utils/compensation'
+import { SYSTEM_HANDLERS } from './index'
+
+const logger = useNventLogger('system-compensation-handlers')
+
+export interface CompensationJobData {
+  flowId: string
+  flowName: string
+  reason: 'failed' | 'canceled'
+  error?: string
+  /** Remaining steps, the first one is compensated by this job */
+  steps: CompensationStep[]
+}
+
+/**
+ * Enqueue the compensation of the first step in the step's queue
+ * Each job enqueues the next one, so compensations never run concurrently
+ */
+export async function enqueueCompensation(data: CompensationJobData) {
+  const step = data.steps[0]
+  if (!step) return
+
+  const queueName = getStepQueue(data.flowName, step.stepName)
+  if (!queueName) {
+    throw new Error(`Cannot compensate: queue not found for step ${step.stepName} in flow ${data.flowName}`)
+  }
+
+  await useQueueAdapter().enqueue(queueName, {
+    name: SYSTEM_HANDLERS.COMPENSATE,
+    data,
+    opts: { jobId: `${data.flowId}__${step.stepName}__compensate` },
+  })
+}
+
+/**
+ * System handler for step compensation
+ * Calls the onCompensate hook with the step's output, then continues with the next step
+ * A failing hook is recorded on `step.compensated` (data.error) and doesn't stop the others
+ */
+export async function compensateHandler(job: QueueJob) {
+  const { flowId, flowName, reason, error, steps } = job.data as CompensationJobData
+  const [step, ...rest] = steps || []
+  if (!step) return { success: true }
+
+  const { stepName } = step
+  const eventManager = useEventManager()
+
+  logger.info('Handling step compensation', { flowId, flowName, stepName, reason })
+
+  await eventManager.publishBus({
+    type: 'step.compensating',
+    runId: flowId,
+    flowName,
+    stepName,
+    data: { reason },
+  } as any)
+
+  let hookError: string | undefined
+  const hooks = useHookRegistry().load(flowName, stepName)
+  if (hooks?.onCompensate) {
+    try {
+      const hookCtx = {
+        flowId,
+        flowName,
+        stepName,
+        reason,
+        error,
+        state: buildContext({ flowId, flowName, stepName }).state,
+        logger: {
+          log: (level: 'debug' | 'info' | 'warn' | 'error', msg: string, meta?: any) => {
+            void eventManager.publishBus({
+              type: 'log',
+              runId: flowId,
+              flowName,
+              stepName,
+              data: { level, message: msg, ...meta },
+            })
+          },
+        },
+      }
+
+      await hooks.onCompensate(step.output, hookCtx)
+
+      logger.info('onCompensate hook completed', { flowId, flowName, stepName })
+    }
+    catch (err) {
+      hookError = (err as Error).message
+      logger.error('onCompensate hook failed', { flowId, flowName, stepName, error: hookError })
+    }
+  }
+
+  await eventManager.publishBus({
+    type: 'step.compensated',
+    runId: flowId,
+    flowName,
+    stepName,
+    data: hookError ? { reason, error: hookError } : { reason },
+  } as any)
+
+  if (rest.length > 0) {
+    await enqueueCompensation({ flowId, flowName, reason, error, steps: rest })
+  }
+
+  return { success: !hookError }
+}
+
+function getStepQueue(flowName: string, stepName: string): string | undefined {
+  const registry = $useFunctionRegistry() as any
+  const flowRegistry = (registry?.flows || {})[flowName]
+  const queue = flowRegistry?.steps?.[stepName]?.queue
+    ?? (flowRegistry?.entry?.step === stepName ? flowRegistry.entry.queue : undefined)
+  return typeof queue === 'string' ? queue : queue?.name
+}
@@ -5,6 +5,7 @@
 
 import { useQueueAdapter, useRuntimeConfig, useNventLogger } from '#imports'
 import { awaitRegisterHandler, awaitResolveHandler, awaitTimeoutHandler } from './awaitHandlers'
+import { compensateHandler } from './compensationHandlers'
 
 const logger = useNventLogger('system-workers')
 
@@ -16,6 +17,7 @@ export const SYSTEM_HANDLERS = {
   AWAIT_REGISTER: '__nvent_await_register',
   AWAIT_RESOLVE: '__nvent_await_resolve',
   AWAIT_TIMEOUT: '__nvent_await_timeout',
+  COMPENSATE: '__nvent_compensate',
 } as const
 
 /**
@@ -53,6 +55,11 @@ export function registerSystemHandlersOnQueue(queueName: string, concurrency?: n
     queue.registerWorker(queueName, SYSTEM_HANDLERS.AWAIT_TIMEOUT, awaitTimeoutHandler as any, {
       concurrency: handlerConcurrency,
     })
+
+    // Register compensation handler (onCompensate hooks)
+    queue.registerWorker(queueName, SYSTEM_HANDLERS.COMPENSATE, compensateHandler as any, {
+      concurrency: handlerConcurrency,
+    })
   }
   catch (err) {
     logger.error('Failed to register system handlers on queue', {
@@ -53,6 +53,26 @@ export function getServerImports(resolverFn: (path: string) => string, buildDir:
       name: 'useHookRegistry',
       from: resolverFn('./runtime/nitro/utils/useHookRegistry'),
     },
+    {
+      name: 'useSchemaRegistry',
+      from: resolverFn('./runtime/nitro/utils/useSchemaRegistry'),
+    },
+    {
+      name: 'PayloadValidationError',
+      from: resolverFn('./runtime/nitro/utils/payloadSchema'),
+    },
+    {
+      name: 'SubflowError',
+      from: resolverFn('./runtime/nitro/utils/subflow'),
+    },
+    {
+      name: 'FlowConcurrencyError',
+      from: resolverFn('./runtime/events/utils/flowConcurrency'),
+    },
+    {
+      name: 'AwaitTaskError',
+      from: resolverFn('./runtime/nitro/utils/awaitPatterns/form'),
+    },
     {
       name: 'useAwait',
       from: resolverFn('./runtime/nitro/utils/useAwait'),
@@ -73,6 +93,10 @@ export function getServerImports(resolverFn: (path: string) => string, buildDir:
       name: 'defineAwaitTimeoutHook',
       from: resolverFn('./runtime/nitro/utils/defineHooks'),
     },
+    {
+      name: 'defineCompensateHook',
+      from: resolverFn('./runtime/nitro/utils/defineHooks'),
+    },
 
     // Adapter composables
     {
@@ -113,6 +137,19 @@ export function getServerImports(resolverFn: (path: string) => string, buildDir:
       name: 'useFlow',
       from: resolverFn('./runtime/nitro/utils/useFlow'),
     },
+    // Leader election
+    {
+      name: 'useLeader',
+      from: resolverFn('./runtime/leader'),
+    },
+    {
+      name: 'initializeLeader',
+      from: resolverFn('./runtime/leader'),
+    },
+    {
+      name: 'shutdownLeader',
+      from: resolverFn('./runtime/leader'),
+    },
     // Scheduler
     {
       name: 'useScheduler',
@@ -126,6 +163,28 @@ export function getServerImports(resolverFn: (path: string) => string, buildDir:
       name: 'shutdownScheduler',
       from: resolverFn('./runtime/scheduler'),
     },
+    // Outbound event sinks
+    {
+      name: 'useEventSinks',
+      from: resolverFn('./runtime/sinks'),
+    },
+    {
+      name: 'registerEventSink',
+      from: resolverFn('./runtime/sinks'),
+    },
+    {
+      name: 'SinkDeliveryError',
+      from: resolverFn('./runtime/sinks/webhook'),
+    },
+    // Dead-letter queue
+    {
+      name: 'useDeadLetters',
+      from: resolverFn('./runtime/deadLetter'),
+    },
+    {
+      name: 'DeadLetterError',
+      from: resolverFn('./runtime/deadLetter'),
+    },
     // Adapter registration utilities for external modules
     {
       name: 'registerQueueAdapter',
@@ -144,5 +203,29 @@ export function getServerImports(resolverFn: (path: string) => string, buildDir:
       name: 'createStoreValidator',
       from: resolverFn('./runtime/adapters/base/store-validator'),
     },
+    {
+      name: 'verifyAtomicKv',
+      from: resolverFn('./runtime/adapters/base/store-validator'),
+    },
+    {
+      name: 'encodeJobsCursor',
+      from: resolverFn('./runtime/adapters/base/jobs-query'),
+    },
+    {
+      name: 'decodeJobsCursor',
+      from: resolverFn('./runtime/adapters/base/jobs-query'),
+    },
+    {
+      name: 'compareJobs',
+      from: resolverFn('./runtime/adapters/base/jobs-query'),
+    },
+    {
+      name: 'matchesJobsQuery',
+      from: resolverFn('./runtime/adapters/base/jobs-query'),
+    },
+    {
+      name: 'applyJobsQuery',
+      from: resolverFn('./runtime/adapters/base/jobs-query'),
+    },
   ]
 }
@@ -23,8 +23,11 @@ export function generateHandlersTemplate(registry: any): string {
   const lines: string[] = []
   const entries: string[] = []
 
+  // Python functions have no JS module to import; they are executed by the Python process pool
+  const pyEnabled = registry?.runner?.py?.enabled !== false
+
   regWorkers
-    .filter((w: any) => w?.kind === 'ts' && (w?.runtype ? w.runtype !== 'task' : (registry?.runner?.ts?.isolate !== 'task')))
+    .filter((w: any) => w?.kind === 'ts' || (w?.kind === 'py' && pyEnabled))
     .forEach((w: any, i: number) => {
       const varName = `h${i}`
       const moduleVar = `m${i}` // Variable for the entire module
@@ -32,6 +35,13 @@ export function generateHandlersTemplate(registry: any): string {
       if (!src) return
       const importPath = String(src)
 
+      if (w.kind === 'py') {
+        const queue = String(w?.queue?.name || `w${i}`)
+        const id = String(w?.id || `w${i}`)
+        entries.push(`{ queue: '${queue}', id: '${id}', absPath: '${importPath}', kind: 'py' }`)
+        return
+      }
+
       // Import default export and entire module
       lines.push(`import ${varName} from '${importPath}'`)
       lines.push(`import * as ${moduleVar} from '${importPath}'`)
@@ -40,8 +50,11 @@ export function generateHandlersTemplate(registry: any): string {
       const id = String(w?.id || `w${i}`)
       const absPath = importPath
 
+      // 'task' workers still import the module (for lifecycle hooks), but the handler runs in a worker thread
+      const runtype = w?.runtype || (registry?.runner?.ts?.isolate === 'task' ? 'task' : 'inprocess')
+
       // Include both handler and module in the entry
-      entries.push(`{ queue: '${queue}', id: '${id}', absPath: '${absPath}', handler: ${varName}, module: ${moduleVar} }`)
+      entries.push(`{ queue: '${queue}', id: '${id}', absPath: '${absPath}', kind: 'ts', runtype: '${runtype}', handler: ${varName}, module: ${moduleVar} }`)
     })
 
   return `// auto-generated by nvent
@@ -118,6 +131,7 @@ export function generateAnalyzedFlowsTemplate(registry: any): string {
 
     return {
       ...flowMeta,
+      version: analyzed.version,
       analyzed: {
         levels: analyzed.levels,
         maxLevel: analyzed.maxLevel,
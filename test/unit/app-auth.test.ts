@@ -0,0 +1,59 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { getNventUser, checkNventAccess, hasNventRole } from '../../packages/app/src/runtime/server/utils/auth'
+
+const runtimeConfig: { nventapp: { auth: Record<string, any> } } = { nventapp: { auth: {} } }
+
+vi.mock('#imports', () => ({
+  useRuntimeConfig: () => runtimeConfig,
+  createError: (input: any) => Object.assign(new Error(input.statusMessage), input),
+  setResponseHeader: () => {},
+}))
+
+vi.mock('#nventapp/authorize', () => ({
+  default: (_event: unknown, action: string, resource: { name?: string }) =>
+    action === 'read' && resource.name === 'secret-flow' ? false : undefined,
+}))
+
+const request = (headers: Record<string, string> = {}) => ({ url: 'http://localhost/api/_flows/ws', headers: new Headers(headers) })
+const basic = (username: string, password: string) => `Basic ${Buffer.from(`${username}:${password}`).toString('base64')}`
+
+describe('dashboard auth', () => {
+  beforeEach(() => {
+    runtimeConfig.nventapp.auth = {}
+  })
+
+  it('maps actions to the minimum role', () => {
+    expect(hasNventRole('readonly', 'read')).toBe(true)
+    expect(hasNventRole('readonly', 'flow.cancel')).toBe(false)
+    expect(hasNventRole('operator', 'flow.cancel')).toBe(true)
+    expect(hasNventRole('operator', 'flow.clear-history')).toBe(false)
+    expect(hasNventRole('admin', 'trigger.delete')).toBe(true)
+  })
+
+  it('resolves users from basic auth and tokens', () => {
+    runtimeConfig.nventapp.auth = { mode: 'basic', users: [{ username: 'ops', password: 'pw', role: 'operator' }] }
+    expect(getNventUser(request({ authorization: basic('ops', 'pw') }))).toEqual({ name: 'ops', role: 'operator' })
+    expect(getNventUser(request({ authorization: basic('ops', 'wrong') }))).toBeNull()
+    expect(getNventUser(request())).toBeNull()
+
+    runtimeConfig.nventapp.auth = { mode: 'token', tokens: [{ token: 't-1', role: 'admin', name: 'ci' }] }
+    expect(getNventUser(request({ authorization: 'Bearer t-1' }))).toEqual({ name: 'ci', role: 'admin' })
+    expect(getNventUser(request({ cookie: 'other=1; nvent_token=t-1' }))).toEqual({ name: 'ci', role: 'admin' })
+    expect(getNventUser(request({ authorization: 'Bearer t-2' }))).toBeNull()
+  })
+
+  it('lets the authorize hook override the role check', async () => {
+    const admin = { name: 'root', role: 'admin' as const }
+    expect(await checkNventAccess(request(), 'read', { type: 'flow', name: 'secret-flow' }, admin)).toBe(false)
+    expect(await checkNventAccess(request(), 'read', { type: 'flow', name: 'orders' }, admin)).toBe(true)
+    expect(await checkNventAccess(request(), 'read', { type: 'flow' }, null)).toBe(false)
+  })
+
+  it('leaves tasks meant for a role to that role and admins', async () => {
+    const task = { type: 'task' as const, name: 'expense', id: 'run-1:approve:after' }
+    const operator = { name: 'ops', role: 'operator' as const }
+    expect(await checkNventAccess(request(), 'task.complete', { ...task, role: 'finance' }, operator)).toBe(false)
+    expect(await checkNventAccess(request(), 'task.complete', { ...task, role: 'operator' }, operator)).toBe(true)
+    expect(await checkNventAccess(request(), 'task.complete', { ...task, role: 'finance' }, { name: 'root', role: 'admin' })).toBe(true)
+  })
+})
@@ -0,0 +1,97 @@
+import { describe, it, expect, vi } from 'vitest'
+import { MemoryStoreAdapter } from '../../packages/nvent/src/runtime/adapters/builtin/memory-store'
+import { getEventBus } from '../../packages/nvent/src/runtime/events/eventBus'
+import {
+  registerFormAwait,
+  listAwaitTasks,
+  claimAwaitTask,
+  completeAwaitTask,
+  rejectAwaitTask,
+  AwaitTaskError,
+} from '../../packages/nvent/src/runtime/nitro/utils/awaitPatterns/form'
+
+const store = new MemoryStoreAdapter()
+const scheduled = new Map<string, any>()
+const logger = { info: () => {}, warn: () => {}, debug: () => {}, error: () => {} }
+
+vi.mock('#imports', () => ({
+  useStoreAdapter: () => store,
+  useStreamAdapter: () => ({ publish: async () => {} }),
+  useRuntimeConfig: () => ({ nvent: { flow: { awaitDefaults: {} } } }),
+  useNventLogger: () => logger,
+  useScheduler: () => ({
+    schedule: async (job: any) => {
+      scheduled.set(job.id, job)
+    },
+    unschedule: async (id: string) => {
+      scheduled.delete(id)
+    },
+  }),
+  useSchemaRegistry: () => ({
+    getAwaitFormJsonSchema: () => ({ type: 'object', properties: { amount: { type: 'number' } } }),
+    validateAwaitFormInput: async (_flow: string, _step: string, _position: string, input: any) => input,
+  }),
+  useStreamTopics: () => ({
+    StoreSubjects: {
+      awaitTasks: () => 'nvent:await:tasks',
+      awaitTaskLock: (id: string) => `nvent:await:task:lock:${id}`,
+    },
+    StreamTopics: { awaitTasks: () => 'nvent:stream:await:tasks' },
+  }),
+}))
+
+function captureResolved() {
+  const resolved: any[] = []
+  const off = getEventBus().onType('await.resolved', e => resolved.push(e))
+  return { resolved, off }
+}
+
+describe('form awaits', () => {
+  it('lists open tasks by assignee and flow', async () => {
+    await registerFormAwait('run-1', 'approve', 'expense', { type: 'form', title: 'Approve expense', assignee: 'alice' })
+    await registerFormAwait('run-2', 'review', 'invoice', { type: 'form', role: 'finance' })
+
+    expect((await listAwaitTasks({ assignee: 'alice' })).map(t => t.id)).toEqual(['run-1:approve:after'])
+    const [task] = await listAwaitTasks({ flowName: 'invoice' })
+    expect(task).toMatchObject({ title: 'invoice: review', role: 'finance', schema: { type: 'object' } })
+  })
+
+  it('completes a task exactly once and resumes the run with the input', async () => {
+    const { resolved, off } = captureResolved()
+    await registerFormAwait('run-3', 'approve', 'expense', { type: 'form' })
+
+    await claimAwaitTask('run-3:approve:after', 'alice')
+    await expect(completeAwaitTask('run-3:approve:after', { amount: 5 }, 'bob')).rejects.toMatchObject({ statusCode: 409 })
+
+    await completeAwaitTask('run-3:approve:after', { amount: 5 }, 'alice')
+    await expect(rejectAwaitTask('run-3:approve:after', 'too late', 'alice')).rejects.toBeInstanceOf(AwaitTaskError)
+    off()
+
+    expect(resolved).toHaveLength(1)
+    expect(resolved[0]).toMatchObject({ runId: 'run-3', awaitType: 'form', triggerData: { outcome: 'completed', data: { amount: 5 }, user: 'alice' } })
+    expect(scheduled.has('await-form-timeout-run-3-approve-after')).toBe(false)
+  })
+
+  it('skips the timeout of a task that was already rejected', async () => {
+    const timeouts: any[] = []
+    const off = getEventBus().onType('await.timeout', e => timeouts.push(e))
+    await registerFormAwait('run-4', 'approve', 'expense', { type: 'form', assignee: 'alice' })
+    const job = scheduled.get('await-form-timeout-run-4-approve-after')
+
+    await expect(rejectAwaitTask('run-4:approve:after', 'no', 'bob')).rejects.toMatchObject({ statusCode: 403 })
+    await rejectAwaitTask('run-4:approve:after', 'no', 'bob', { override: true })
+    await job.handler()
+    off()
+
+    expect(timeouts).toHaveLength(0)
+  })
+
+  it('only lets users of the task\'s role act on it', async () => {
+    await registerFormAwait('run-5', 'approve', 'expense', { type: 'form', role: 'finance' })
+    const authorizeRole = (role: string) => role === 'finance'
+
+    await expect(claimAwaitTask('run-5:approve:after', 'bob')).rejects.toMatchObject({ statusCode: 403 })
+    await expect(claimAwaitTask('run-5:approve:after', 'bob', { authorizeRole: () => false })).rejects.toMatchObject({ statusCode: 403 })
+    expect(await claimAwaitTask('run-5:approve:after', 'carol', { authorizeRole })).toMatchObject({ claimedBy: 'carol' })
+  })
+})
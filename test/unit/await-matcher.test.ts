@@ -0,0 +1,54 @@
+import { describe, it, expect } from 'vitest'
+import { assertAwaitMatcher, bindAwaitMatcher, evaluateAwaitMatcher } from '../../packages/nvent/src/runtime/nitro/utils/awaitMatcher'
+import type { AwaitMatcher } from '../../packages/nvent/src/runtime/nitro/utils/awaitMatcher'
+
+describe('await matcher', () => {
+  const paidMatcher: AwaitMatcher = {
+    and: [
+      { '>=': [{ var: 'event.amount' }, { var: 'step.amount' }] },
+      { '==': [{ var: 'event.currency' }, { var: 'step.currency' }] },
+    ],
+  }
+  const step = { amount: 100, currency: 'EUR' }
+
+  it('compares event data against the step output', () => {
+    expect(evaluateAwaitMatcher(paidMatcher, { event: { amount: 120, currency: 'EUR' }, step })).toBe(true)
+    expect(evaluateAwaitMatcher(paidMatcher, { event: { amount: 80, currency: 'EUR' }, step })).toBe(false)
+    expect(evaluateAwaitMatcher(paidMatcher, { event: { amount: 120, currency: 'USD' }, step })).toBe(false)
+    expect(evaluateAwaitMatcher(paidMatcher, { event: {}, step })).toBe(false)
+  })
+
+  it('binds step references so only the event side is evaluated later', () => {
+    const bound = bindAwaitMatcher(paidMatcher, { step })
+    expect(bound).toEqual({
+      and: [
+        { '>=': [{ var: 'event.amount' }, 100] },
+        { '==': [{ var: 'event.currency' }, 'EUR'] },
+      ],
+    })
+    // Survives JSON round-trips (persisted in the store)
+    const restored = JSON.parse(JSON.stringify(bound))
+    expect(evaluateAwaitMatcher(restored, { event: { amount: '150', currency: 'EUR' } })).toBe(true)
+  })
+
+  it('supports or, negation, in and exists', () => {
+    const matcher: AwaitMatcher = {
+      or: [
+        { in: [{ var: 'event.status' }, ['paid', 'settled']] },
+        { and: [{ exists: { var: 'event.override' } }, { '!': { '==': [{ var: 'event.override' }, false] } }] },
+      ],
+    }
+    expect(evaluateAwaitMatcher(matcher, { event: { status: 'settled' } })).toBe(true)
+    expect(evaluateAwaitMatcher(matcher, { event: { status: 'open', override: true } })).toBe(true)
+    expect(evaluateAwaitMatcher(matcher, { event: { status: 'open', override: false } })).toBe(false)
+    expect(evaluateAwaitMatcher(matcher, { event: { status: 'open' } })).toBe(false)
+  })
+
+  it('rejects malformed matchers', () => {
+    expect(() => assertAwaitMatcher({ '>=': [{ var: 'event.amount' }] })).toThrow(/expected two operands/)
+    expect(() => assertAwaitMatcher({ '==': [{ var: 'order.id' }, 1] })).toThrow(/must start with 'event.' or 'step.'/)
+    expect(() => assertAwaitMatcher({ matches: ['a', 'b'] })).toThrow(/exactly one operator/)
+    expect(() => assertAwaitMatcher({ and: [] })).toThrow(/non-empty array/)
+    expect(() => assertAwaitMatcher(paidMatcher)).not.toThrow()
+  })
+})
@@ -0,0 +1,35 @@
+import { describe, it, expect } from 'vitest'
+import { signAwaitToken, verifyAwaitToken } from '../../packages/nvent/src/runtime/nitro/utils/awaitToken'
+
+const secret = 'test-secret'
+const claims = {
+  flowName: 'expense',
+  runId: 'run-1',
+  stepName: 'approve',
+  position: 'after' as const,
+  id: 'token-1',
+  outcome: 'reject',
+  exp: Date.now() + 60_000,
+}
+
+describe('await tokens', () => {
+  it('round-trips the claims including the outcome', () => {
+    const result = verifyAwaitToken(signAwaitToken(claims, secret), secret)
+    expect(result).toEqual({ valid: true, claims })
+  })
+
+  it('rejects tampered tokens and foreign secrets', () => {
+    const token = signAwaitToken(claims, secret)
+    const [, signature] = token.split('.')
+    const forged = `${Buffer.from(JSON.stringify({ ...claims, outcome: 'approve' })).toString('base64url')}.${signature}`
+
+    expect(verifyAwaitToken(forged, secret)).toMatchObject({ valid: false, reason: 'Invalid token signature' })
+    expect(verifyAwaitToken(token, 'other-secret')).toMatchObject({ valid: false })
+    expect(verifyAwaitToken('not-a-token', secret)).toMatchObject({ valid: false, reason: 'Malformed token' })
+  })
+
+  it('rejects expired tokens', () => {
+    const token = signAwaitToken(claims, secret)
+    expect(verifyAwaitToken(token, secret, claims.exp + 1)).toEqual({ valid: false, reason: 'Token expired', expired: true })
+  })
+})
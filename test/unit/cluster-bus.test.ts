@@ -0,0 +1,148 @@
+import { describe, it, expect, vi, afterAll } from 'vitest'
+import { MemoryStoreAdapter } from '../../packages/nvent/src/runtime/adapters/builtin/memory-store'
+import { getEventBus } from '../../packages/nvent/src/runtime/events/eventBus'
+import { claimBusEvent, startClusterBus, stopClusterBus } from '../../packages/nvent/src/runtime/events/clusterBus'
+
+const store = new MemoryStoreAdapter()
+const published: any[] = []
+let deliver: (message: any) => void = () => {}
+
+// Stream that delivers every message twice (at-least-once)
+const stream = {
+  publish: async (_topic: string, message: any) => {
+    published.push(message)
+    deliver(message)
+    deliver(message)
+  },
+  subscribe: async (topic: string, handler: (message: any) => void) => {
+    deliver = handler
+    return { id: 'sub', topic, unsubscribe: async () => {} }
+  },
+}
+
+vi.mock('#imports', () => ({
+  useStoreAdapter: () => store,
+  useStreamAdapter: () => stream,
+  useNventLogger: () => ({ info: () => {}, warn: () => {}, debug: () => {}, error: () => {} }),
+  useStreamTopics: () => ({
+    StoreSubjects: {
+      busEventClaim: (id: string) => `nvent:bus:claim:${id}`,
+      busRunClaim: (runId: string) => `nvent:bus:run:${runId}`,
+      busEventPayload: (id: string) => `nvent:bus:event:${id}`,
+      busInstance: (instanceId: string) => `nvent:bus:instance:${instanceId}`,
+    },
+    StreamTopics: { eventBus: () => 'nvent:stream:bus' },
+  }),
+}))
+
+const settle = () => new Promise(resolve => setTimeout(resolve, 10))
+
+describe('cluster bus', () => {
+  afterAll(stopClusterBus)
+
+  it('delivers published events once and claims them for exclusive handlers', async () => {
+    await startClusterBus('instance-a')
+    const bus = getEventBus()
+    const observed: any[] = []
+    const orchestrated: any[] = []
+    const offs = [
+      bus.onType('step.completed', e => observed.push(e)),
+      bus.onType('step.completed', e => orchestrated.push(e), { exclusive: true }),
+    ]
+
+    await bus.publish({ type: 'step.completed', runId: 'run-1', flowName: 'f', stepName: 's', data: { ok: true } } as any)
+    await settle()
+    offs.forEach(off => off())
+
+    expect(observed).toHaveLength(1)
+    expect(orchestrated).toEqual([expect.objectContaining({ runId: 'run-1', data: { ok: true } })])
+    expect(await store.kv.get('nvent:bus:run:run-1')).toBe('instance-a')
+  })
+
+  it('leaves runs claimed by another instance to its observers', async () => {
+    const bus = getEventBus()
+    const observed: any[] = []
+    const orchestrated: any[] = []
+    const offs = [
+      bus.onType('flow.start', e => observed.push(e)),
+      bus.onType('flow.start', e => orchestrated.push(e), { exclusive: true }),
+    ]
+
+    await store.kv.setNX('nvent:bus:run:run-2', 'instance-b')
+    await store.kv.set('nvent:bus:instance:instance-b', Date.now())
+    deliver({ type: 'flow.start', data: { type: 'flow.start', runId: 'run-2', flowName: 'f' }, metadata: { id: 'remote-1', runId: 'run-2' } })
+    await settle()
+    offs.forEach(off => off())
+
+    expect(observed).toHaveLength(1)
+    expect(orchestrated).toHaveLength(0)
+  })
+
+  it('passes large events by store reference', async () => {
+    const bus = getEventBus()
+    const observed: any[] = []
+    const off = bus.onType('log', e => observed.push(e))
+
+    await bus.publish({ type: 'log', runId: 'run-3', flowName: 'f', data: { message: 'x'.repeat(10_000) } } as any)
+    await settle()
+    off()
+
+    const message = published.at(-1)
+    expect(message.data).toBeNull()
+    expect(message.metadata.ref).toBe(true)
+    expect(observed[0].data.message).toHaveLength(10_000)
+  })
+
+  it('hands all events of a run to one instance, whatever order the instances receive them in', async () => {
+    const events = ['flow.start', 'step.started', 'step.completed', 'flow.completed']
+      .map((type, i) => ({ id: `run-4-${i}`, event: { type, runId: 'run-4', flowName: 'f' } as any }))
+
+    // Instance B sees each event first, except the first one
+    const claims: Array<[string, string]> = []
+    for (const [i, { id, event }] of events.entries()) {
+      const order = i === 0 ? ['instance-a', 'instance-b'] : ['instance-b', 'instance-a']
+      for (const instanceId of order) {
+        if (await claimBusEvent(event, id, instanceId)) claims.push([id, instanceId])
+      }
+    }
+
+    expect(claims).toEqual(events.map(({ id }) => [id, 'instance-a']))
+
+    // Events without a run are claimed one by one
+    expect(await claimBusEvent({ type: 'trigger.fired' } as any, 'trigger-1', 'instance-b')).toBe(true)
+    expect(await claimBusEvent({ type: 'trigger.fired' } as any, 'trigger-1', 'instance-a')).toBe(false)
+  })
+
+  it('moves the lease of an instance that disappeared to the next claiming instance', async () => {
+    const event = { type: 'step.completed', runId: 'run-5', flowName: 'f' } as any
+
+    await store.kv.set('nvent:bus:instance:instance-c', Date.now())
+    expect(await claimBusEvent(event, 'run-5-0', 'instance-c')).toBe(true)
+    expect(await claimBusEvent(event, 'run-5-1', 'instance-b')).toBe(false)
+
+    // Instance C stops without releasing the lease: its heartbeat expires
+    await store.kv.delete('nvent:bus:instance:instance-c')
+    expect(await claimBusEvent(event, 'run-5-2', 'instance-b')).toBe(true)
+    expect(await claimBusEvent(event, 'run-5-3', 'instance-b')).toBe(true)
+    expect(await store.kv.get('nvent:bus:run:run-5')).toBe('instance-b')
+  })
+
+  it('still delivers an event to observers when claiming it fails', async () => {
+    const bus = getEventBus()
+    const observed: any[] = []
+    const orchestrated: any[] = []
+    const offs = [
+      bus.onType('step.failed', e => observed.push(e)),
+      bus.onType('step.failed', e => orchestrated.push(e), { exclusive: true }),
+    ]
+
+    const setNX = vi.spyOn(store.kv, 'setNX').mockRejectedValueOnce(new Error('store down'))
+    deliver({ type: 'step.failed', data: { type: 'step.failed', runId: 'run-6', flowName: 'f' }, metadata: { id: 'remote-2', runId: 'run-6' } })
+    await settle()
+    setNX.mockRestore()
+    offs.forEach(off => off())
+
+    expect(observed).toHaveLength(1)
+    expect(orchestrated).toHaveLength(0)
+  })
+})
@@ -0,0 +1,29 @@
+import { describe, it, expect } from 'vitest'
+import { getCompensationPlan } from '../../packages/nvent/src/runtime/events/utils/compensation'
+
+describe('Compensation', () => {
+  const events = [
+    { type: 'flow.start' },
+    { type: 'step.completed', stepName: 'reserve', data: { result: { reservationId: 'r-1' } } },
+    { type: 'step.completed', stepName: 'notify', data: { result: { sent: true } } },
+    { type: 'step.completed', stepName: 'charge', data: { result: { chargeId: 'c-1' } } },
+    { type: 'step.failed', stepName: 'ship', data: { error: 'no carrier' } },
+  ]
+
+  it('compensates completed steps with a handler in reverse completion order', () => {
+    const plan = getCompensationPlan(events, stepName => stepName !== 'notify')
+    expect(plan).toEqual([
+      { stepName: 'charge', output: { chargeId: 'c-1' } },
+      { stepName: 'reserve', output: { reservationId: 'r-1' } },
+    ])
+  })
+
+  it('skips steps whose compensation already started', () => {
+    const plan = getCompensationPlan([
+      ...events,
+      { type: 'flow.failed' },
+      { type: 'step.compensating', stepName: 'charge', data: { reason: 'failed' } },
+    ], () => true)
+    expect(plan.map(step => step.stepName)).toEqual(['notify', 'reserve'])
+  })
+})
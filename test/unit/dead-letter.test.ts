@@ -0,0 +1,93 @@
+import { describe, it, expect, vi } from 'vitest'
+import { MemoryStoreAdapter } from '../../packages/nvent/src/runtime/adapters/builtin/memory-store'
+import {
+  recordFailedAttempt,
+  captureDeadLetter,
+  listDeadLetters,
+  groupDeadLetters,
+  requeueDeadLetters,
+  DeadLetterError,
+} from '../../packages/nvent/src/runtime/deadLetter'
+
+const store = new MemoryStoreAdapter()
+const enqueued: any[] = []
+
+vi.mock('#imports', () => ({
+  useStoreAdapter: () => store,
+  useQueueAdapter: () => ({
+    enqueue: async (queueName: string, job: any) => {
+      enqueued.push({ queueName, ...job })
+      return job.opts.jobId
+    },
+  }),
+  useRuntimeConfig: () => ({ nvent: { queue: { deadLetter: { enabled: true, maxEntries: 100 } } } }),
+  useNventLogger: () => ({ info: () => {}, warn: () => {}, debug: () => {}, error: () => {} }),
+  useStreamTopics: () => ({
+    StoreSubjects: {
+      deadLetters: () => 'nvent:dlq',
+      deadLetterAttempts: (queue: string, jobId: string) => `nvent:dlq:attempts:${queue}:${jobId}`,
+    },
+  }),
+}))
+
+const job = (id: string, data: any = { flowId: `run-${id}`, flowName: 'invoice', input: { amount: 1 } }) => ({
+  id,
+  name: 'charge',
+  data,
+  opts: { attempts: 3, backoff: { type: 'fixed', delay: 100 }, jobId: id, timestamp: 1 },
+})
+
+describe('dead-letter queue', () => {
+  it('captures exhausted jobs with their attempt history and groups them by error fingerprint', async () => {
+    await recordFailedAttempt('payments', job('job-1'), 1, new Error('Timeout after 3000ms'))
+    await recordFailedAttempt('payments', job('job-1'), 2, new Error('Timeout after 3012ms'))
+    const entry = await captureDeadLetter('payments', job('job-1'), 3, new Error('Card 4f1c9a2e-7b3d-4e8a-9c1f-0a2b3c4d5e6f declined'))
+
+    expect(entry).toMatchObject({
+      id: 'payments:job-1',
+      jobName: 'charge',
+      flowName: 'invoice',
+      runId: 'run-job-1',
+      attempts: 3,
+      opts: { attempts: 3, backoff: { type: 'fixed', delay: 100 } },
+      errorPattern: 'Card <id> declined',
+    })
+    expect(entry!.history.map(a => a.error)).toEqual(['Timeout after 3000ms', 'Timeout after 3012ms', expect.stringContaining('declined')])
+    expect(await store.kv.get('nvent:dlq:attempts:payments:job-1')).toBeNull()
+
+    await captureDeadLetter('payments', job('job-2'), 3, new Error('Card 0b1c2d3e-7b3d-4e8a-9c1f-0a2b3c4d5e6f declined'))
+    await captureDeadLetter('payments', job('job-3'), 3, new Error('Insufficient funds'))
+
+    const groups = await groupDeadLetters()
+    expect(groups.map(g => g.count)).toEqual([2, 1])
+    expect(groups[0]).toMatchObject({ fingerprint: entry!.fingerprint, errorPattern: 'Card <id> declined' })
+
+    const { entries, total } = await listDeadLetters({ fingerprint: entry!.fingerprint })
+    expect(total).toBe(2)
+    expect(entries.map(e => e.jobId)).toEqual(['job-2', 'job-1'])
+  })
+
+  it('requeues entries as new jobs, optionally with an edited payload', async () => {
+    const results = await requeueDeadLetters(['payments:job-1', 'payments:job-2', 'payments:missing'])
+    expect(results).toEqual([
+      { id: 'payments:job-1', jobId: 'job-1__requeue-1' },
+      { id: 'payments:job-2', jobId: 'job-2__requeue-1' },
+      { id: 'payments:missing', error: 'Not found' },
+    ])
+    expect(enqueued[0]).toEqual({
+      queueName: 'payments',
+      name: 'charge',
+      data: { flowId: 'run-job-1', flowName: 'invoice', input: { amount: 1 } },
+      opts: { attempts: 3, backoff: { type: 'fixed', delay: 100 }, jobId: 'job-1__requeue-1' },
+    })
+
+    const edited = { flowId: 'run-job-1', flowName: 'invoice', input: { amount: 2 } }
+    await requeueDeadLetters(['payments:job-1'], { data: edited })
+    expect(enqueued.at(-1)).toMatchObject({ data: edited, opts: { jobId: 'job-1__requeue-2' } })
+
+    await expect(requeueDeadLetters(['payments:job-1', 'payments:job-2'], { data: edited })).rejects.toBeInstanceOf(DeadLetterError)
+
+    const { entries } = await listDeadLetters({ requeued: false })
+    expect(entries.map(e => e.jobId)).toEqual(['job-3'])
+  })
+})
@@ -0,0 +1,99 @@
+import { describe, it, expect, vi, afterEach } from 'vitest'
+import { MemoryStoreAdapter } from '../../packages/nvent/src/runtime/adapters/builtin/memory-store'
+import { dispatchSinkEvent, retrySinkDelivery, redeliverSinkDelivery, listSinkDeliveries } from '../../packages/nvent/src/runtime/sinks'
+import { verifyWebhookAuth } from '../../packages/nvent/src/runtime/nitro/utils/webhookAuth'
+
+const store = new MemoryStoreAdapter()
+const scheduled = new Map<string, any>()
+const sinks = [
+  { name: 'ops', url: 'https://hooks.example.com/nvent', secret: 'OPS_SECRET', flows: ['invoice'], maxAttempts: 2, backoffMs: 1000 },
+  { name: 'audit', url: 'https://audit.example.com/events', events: ['flow.*'] },
+]
+
+vi.mock('#imports', () => ({
+  useStoreAdapter: () => store,
+  useRuntimeConfig: () => ({ nvent: { sinks, webhooks: { secrets: { OPS_SECRET: 'shh' } } } }),
+  useNventLogger: () => ({ info: () => {}, warn: () => {}, debug: () => {}, error: () => {} }),
+  useScheduler: () => ({
+    schedule: async (job: any) => {
+      scheduled.set(job.id, job)
+    },
+    unschedule: async (id: string) => {
+      scheduled.delete(id)
+    },
+  }),
+  useStreamTopics: () => ({
+    StoreSubjects: { sinkDeliveries: (name: string) => `nvent:sink:deliveries:${name}` },
+  }),
+}))
+
+let eventCounter = 0
+const persisted = (type: string, flowName: string) => ({
+  id: `evt-${++eventCounter}`,
+  ts: Date.now(),
+  type,
+  flowName,
+  runId: `run-${eventCounter}`,
+  data: { ok: type === 'flow.completed' },
+}) as any
+
+const mockFetch = (status: number) => {
+  const fetchMock = vi.fn(async () => new Response(status === 200 ? 'ok' : 'nope', { status }))
+  vi.stubGlobal('fetch', fetchMock)
+  return fetchMock
+}
+
+describe('event sinks', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals()
+  })
+
+  it('delivers matching events with a signature the standard webhook auth accepts', async () => {
+    const fetchMock = mockFetch(200)
+
+    await dispatchSinkEvent(persisted('flow.completed', 'invoice'))
+    await dispatchSinkEvent(persisted('step.completed', 'invoice'))
+    await dispatchSinkEvent(persisted('flow.failed', 'report'))
+
+    // ops: default events, invoice only; audit: flow.* of every flow
+    const urls = fetchMock.mock.calls.map(([url]: any) => url)
+    expect(urls).toEqual([
+      'https://hooks.example.com/nvent',
+      'https://audit.example.com/events',
+      'https://audit.example.com/events',
+    ])
+
+    const [, init]: any = fetchMock.mock.calls[0]
+    expect(JSON.parse(init.body)).toMatchObject({ type: 'flow.completed', flowName: 'invoice', data: { ok: true } })
+    const result = await verifyWebhookAuth(
+      { type: 'hmac', secret: 'OPS_SECRET' },
+      { headers: init.headers, rawBody: init.body },
+      { resolveSecret: ref => (ref === 'OPS_SECRET' ? 'shh' : undefined) },
+    )
+    expect(result).toEqual({ valid: true })
+
+    const { deliveries } = await listSinkDeliveries('ops')
+    expect(deliveries).toEqual([expect.objectContaining({ status: 'delivered', attempts: 1, eventType: 'flow.completed' })])
+  })
+
+  it('retries failed deliveries with backoff and dead-letters them after maxAttempts', async () => {
+    mockFetch(503)
+    await dispatchSinkEvent(persisted('flow.failed', 'invoice'))
+
+    let [delivery] = (await listSinkDeliveries('ops', { status: 'retrying' })).deliveries
+    expect(delivery).toMatchObject({ attempts: 1, statusCode: 503 })
+    const job = scheduled.get(`sink-retry-ops-${delivery!.id}`)
+    expect(job.metadata).toEqual({ component: 'event-sink', sinkName: 'ops', deliveryId: delivery!.id })
+    expect(job.executeAt - Date.now()).toBeGreaterThan(900)
+
+    await retrySinkDelivery('ops', delivery!.id)
+    ;[delivery] = (await listSinkDeliveries('ops', { status: 'dead' })).deliveries
+    expect(delivery).toMatchObject({ attempts: 2, lastError: 'HTTP 503: nope' })
+
+    // Redelivery after the receiver is fixed
+    mockFetch(200)
+    const redelivered = await redeliverSinkDelivery('ops', delivery!.id)
+    expect(redelivered).toMatchObject({ status: 'delivered', attempts: 1 })
+    expect(await redeliverSinkDelivery('ops', 'missing')).toBeNull()
+  })
+})
@@ -262,6 +262,19 @@ describe('FileQueueAdapter', () => {
     // The functionality is better tested in integration/e2e tests
   })
 
+  it('processes jobs enqueued while paused once resumed', async () => {
+    adapter.registerWorker('paused-queue', 'paused-job', async () => ({ ok: true }), { concurrency: 1 })
+    await adapter.pause('paused-queue')
+
+    const jobId = await adapter.enqueue('paused-queue', { name: 'paused-job', data: {} })
+    await new Promise(resolve => setTimeout(resolve, 50))
+    expect((await adapter.getJob('paused-queue', jobId))?.state).toBe('waiting')
+
+    await adapter.resume('paused-queue')
+    await new Promise(resolve => setTimeout(resolve, 100))
+    expect((await adapter.getJob('paused-queue', jobId))?.state).toBe('completed')
+  })
+
   it('handles job failures', async () => {
     adapter.registerWorker(
       'failing-queue',
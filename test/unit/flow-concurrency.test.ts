@@ -0,0 +1,71 @@
+import { describe, it, expect, vi } from 'vitest'
+import { MemoryStoreAdapter } from '../../packages/nvent/src/runtime/adapters/builtin/memory-store'
+import { acquireRunSlot, releaseRunSlot } from '../../packages/nvent/src/runtime/events/utils/flowConcurrency'
+
+const store = new MemoryStoreAdapter()
+
+vi.mock('#imports', () => ({
+  useStoreAdapter: () => store,
+  useStreamTopics: () => ({
+    StoreSubjects: {
+      flowRunIndex: (name: string) => `nvent:flow:runs:${name}`,
+      flowConcurrency: (name: string, key: string) => `nvent:flow:concurrency:${name}:${key}`,
+      flowConcurrencyLock: (name: string, key: string) => `nvent:flow:concurrency:lock:${name}:${key}`,
+    },
+  }),
+}))
+
+const run = (runId: string, input: any = {}) => ({ runId, input, queuedAt: Date.now() })
+
+describe('flow concurrency', () => {
+  it('queues starts per key and hands the slot to the oldest one', async () => {
+    const config = { key: 'customerId' }
+
+    expect(await acquireRunSlot('billing', config, run('a1', { customerId: 'a' })))
+      .toEqual({ status: 'started', key: 'a', cancel: [] })
+    expect(await acquireRunSlot('billing', config, run('b1', { customerId: 'b' })))
+      .toMatchObject({ status: 'started', key: 'b' })
+    expect(await acquireRunSlot('billing', config, run('a2', { customerId: 'a' })))
+      .toEqual({ status: 'queued', key: 'a', position: 1 })
+    expect(await acquireRunSlot('billing', config, run('a3', { customerId: 'a' })))
+      .toMatchObject({ status: 'queued', position: 2 })
+
+    const next = await releaseRunSlot('billing', config, 'a', 'a1')
+    expect(next.map(r => r.runId)).toEqual(['a2'])
+    // The dequeued start already holds the slot
+    expect(await acquireRunSlot('billing', config, run('a2', { customerId: 'a' })))
+      .toMatchObject({ status: 'started' })
+  })
+
+  it('rejects or cancels previous runs when the limit is reached', async () => {
+    expect(await acquireRunSlot('sync', { overflow: 'reject' }, run('s1'))).toMatchObject({ status: 'started' })
+    expect(await acquireRunSlot('sync', { overflow: 'reject' }, run('s2'))).toEqual({ status: 'rejected', key: '', active: 1 })
+
+    const config = { max: 2, overflow: 'cancel-previous' as const }
+    await acquireRunSlot('report', config, run('r1'))
+    await acquireRunSlot('report', config, run('r2'))
+    expect(await acquireRunSlot('report', config, run('r3'))).toEqual({ status: 'started', key: '', cancel: ['r1'] })
+  })
+
+  it('frees slots of runs that ended without releasing them', async () => {
+    await store.index.add('nvent:flow:runs:import', 'i1', Date.now(), { status: 'completed' })
+    await acquireRunSlot('import', {}, run('i1'))
+    expect(await acquireRunSlot('import', {}, run('i2'))).toMatchObject({ status: 'started' })
+  })
+
+  it('frees slots of runs that never showed up in the run index after a grace period', async () => {
+    const now = Date.now()
+    const clock = vi.spyOn(Date, 'now').mockReturnValue(now)
+    try {
+      const config = { overflow: 'reject' as const }
+      await acquireRunSlot('export', config, run('e1'))
+      expect(await acquireRunSlot('export', config, run('e2'))).toMatchObject({ status: 'rejected' })
+
+      clock.mockReturnValue(now + 6 * 60 * 1000)
+      expect(await acquireRunSlot('export', config, run('e2'))).toMatchObject({ status: 'started' })
+    }
+    finally {
+      clock.mockRestore()
+    }
+  })
+})
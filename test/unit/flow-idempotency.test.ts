@@ -0,0 +1,46 @@
+import { describe, it, expect, vi } from 'vitest'
+import { MemoryStoreAdapter } from '../../packages/nvent/src/runtime/adapters/builtin/memory-store'
+import { claimIdempotencyKey, getIdempotentRun, releaseIdempotencyKey } from '../../packages/nvent/src/runtime/events/utils/flowIdempotency'
+
+const store = new MemoryStoreAdapter()
+let idempotencyWindow = 60_000
+
+vi.mock('#imports', () => ({
+  useStoreAdapter: () => store,
+  useRuntimeConfig: () => ({ nvent: { flow: { idempotencyWindow } } }),
+  useStreamTopics: () => ({
+    StoreSubjects: { flowIdempotency: (name: string, key: string) => `nvent:flow:idempotency:${name}:${key}` },
+  }),
+}))
+
+describe('flow idempotency', () => {
+  it('returns the first run for duplicate keys', async () => {
+    const claims = await Promise.all([
+      claimIdempotencyKey('orders', 'evt_1', 'run-a'),
+      claimIdempotencyKey('orders', 'evt_1', 'run-b'),
+    ])
+    expect(claims).toEqual([null, 'run-a'])
+    expect(await getIdempotentRun('orders', 'evt_1')).toBe('run-a')
+
+    // Keys are scoped per flow
+    expect(await claimIdempotencyKey('invoices', 'evt_1', 'run-c')).toBeNull()
+  })
+
+  it('frees the key of a failed start', async () => {
+    await claimIdempotencyKey('orders', 'evt_2', 'run-a')
+    await releaseIdempotencyKey('orders', 'evt_2', 'run-other')
+    expect(await getIdempotentRun('orders', 'evt_2')).toBe('run-a')
+
+    await releaseIdempotencyKey('orders', 'evt_2', 'run-a')
+    expect(await claimIdempotencyKey('orders', 'evt_2', 'run-b')).toBeNull()
+  })
+
+  it('forgets keys after the window', async () => {
+    vi.useFakeTimers()
+    idempotencyWindow = 1000
+    await claimIdempotencyKey('orders', 'evt_3', 'run-a')
+    vi.advanceTimersByTime(1500)
+    expect(await claimIdempotencyKey('orders', 'evt_3', 'run-b')).toBeNull()
+    vi.useRealTimers()
+  })
+})
@@ -0,0 +1,47 @@
+import { describe, it, expect } from 'vitest'
+import { analyzeFlow } from '../../packages/nvent/src/registry/flowAnalyzer'
+import { collectMapResults, getMapConcurrency, getNextMapItem, resolveMapItems } from '../../packages/nvent/src/runtime/events/utils/flowMap'
+
+describe('Flow Map', () => {
+  it('resolves items from the input or the single subscribed payload', () => {
+    const records = [{ id: 1 }, { id: 2 }]
+    expect(resolveMapItems({}, records)).toEqual(records)
+    expect(resolveMapItems({ items: 'records' }, { records })).toEqual(records)
+    expect(resolveMapItems({ items: 'batch.records' }, { 'orders.imported': { batch: { records } } })).toEqual(records)
+    expect(resolveMapItems({}, { 'orders.imported': records })).toEqual(records)
+    expect(resolveMapItems({ items: 'records' }, { records: 'nope' })).toBeUndefined()
+  })
+
+  it('keeps at most `concurrency` items in flight', () => {
+    expect(getMapConcurrency({})).toBe(10)
+    expect(getMapConcurrency({ concurrency: 3 })).toBe(3)
+    expect(getMapConcurrency({ concurrency: 0 })).toBe(10)
+
+    // 3 in flight out of 5: settling the 1st and 2nd enqueues items 3 and 4, then nothing is left
+    expect(getNextMapItem(1, 3, 5)).toBe(3)
+    expect(getNextMapItem(2, 3, 5)).toBe(4)
+    expect(getNextMapItem(3, 3, 5)).toBeUndefined()
+    expect(getNextMapItem(1, 10, 5)).toBeUndefined()
+  })
+
+  it('collects results in item order according to onItemError', () => {
+    const outcomes = [
+      { index: 2, status: 'completed' as const, result: 'c' },
+      { index: 0, status: 'completed' as const, result: 'a' },
+      { index: 1, status: 'failed' as const, error: 'boom' },
+    ]
+    expect(collectMapResults(outcomes, 'skip')).toEqual({ results: ['a', 'c'] })
+    expect(collectMapResults(outcomes, 'collect')).toEqual({ results: ['a', 'c'], errors: [{ index: 1, error: 'boom' }] })
+  })
+
+  it('widens the stall window for map steps', () => {
+    const flow = (map?: any) => analyzeFlow({
+      id: 'import',
+      entry: { step: 'load', queue: 'q', workerId: 'w1', emits: ['loaded'] },
+      steps: {
+        process: { queue: 'q', workerId: 'w2', subscribes: ['loaded'], stepTimeout: 60 * 60 * 1000, map },
+      },
+    })
+    expect(flow({ items: 'records' }).stallTimeout).toBeGreaterThan(flow().stallTimeout)
+  })
+})
@@ -0,0 +1,41 @@
+import { describe, it, expect } from 'vitest'
+import { getReplayedEvents, getReplayedSteps, getStepLevel } from '../../packages/nvent/src/runtime/events/utils/flowReplay'
+
+const levels = [['start'], ['fetch', 'audit'], ['transform'], ['save']]
+
+const event = (id: string, type: string, stepName?: string, data: any = {}): any =>
+  ({ id, ts: Number(id), type, runId: 'r1', flowName: 'etl', stepName, data })
+
+const events = [
+  event('1', 'flow.start', undefined, { input: { source: 'a' } }),
+  event('2', 'step.started', 'start'),
+  event('3', 'emit', 'start', { name: 'started', payload: { ok: true } }),
+  event('4', 'step.completed', 'start', { result: 1 }),
+  event('5', 'step.started', 'fetch'),
+  event('6', 'state', 'fetch', { operation: 'set', key: 'rows', previous: null, value: 10 }),
+  event('7', 'step.completed', 'fetch', { result: 2 }),
+  event('8', 'step.started', 'audit'),
+  event('9', 'step.failed', 'audit', { error: 'boom' }),
+  event('10', 'step.started', 'transform'),
+  event('11', 'step.completed', 'transform', { result: 3 }),
+  event('12', 'flow.failed'),
+]
+
+describe('flow replay', () => {
+  it('finds the level of a step', () => {
+    expect(getStepLevel(levels, 'start')).toBe(0)
+    expect(getStepLevel(levels, 'transform')).toBe(2)
+    expect(getStepLevel(levels, 'missing')).toBe(-1)
+  })
+
+  it('takes over completed steps before the replay level', () => {
+    expect(getReplayedSteps(levels, 2, events)).toEqual(['start', 'fetch'])
+    expect(getReplayedSteps(levels, 3, events)).toEqual(['start', 'fetch', 'transform'])
+    expect(getReplayedSteps(levels, 0, events)).toEqual([])
+  })
+
+  it('copies the history of replayed steps in stream order', () => {
+    const replayed = getReplayedEvents(events, ['start', 'fetch'])
+    expect(replayed.map(e => e.id)).toEqual(['2', '3', '4', '5', '6', '7'])
+  })
+})
@@ -0,0 +1,60 @@
+import { describe, it, expect } from 'vitest'
+import { analyzeFlow } from '../../packages/nvent/src/registry/flowAnalyzer'
+import { resolveRouteDecisions, selectRouteTargets } from '../../packages/nvent/src/runtime/events/utils/flowRoutes'
+
+describe('Flow Routes', () => {
+  const routes = {
+    branches: [
+      { when: { '>=': [{ var: 'step.amount' }, 1000] }, to: 'manual-review', label: 'high value' },
+      { when: { '==': [{ var: 'step.country' }, 'DE'] }, to: ['vat-check', 'approve'] },
+    ],
+    default: 'approve',
+  } as const
+
+  const flow = {
+    id: 'order-flow',
+    entry: { step: 'receive', queue: 'orders', workerId: 'w1', emits: ['order.received'] },
+    steps: {
+      'score': { queue: 'orders', workerId: 'w2', subscribes: ['order.received'], routes: routes as any },
+      'manual-review': { queue: 'orders', workerId: 'w3' },
+      'vat-check': { queue: 'orders', workerId: 'w4' },
+      'approve': { queue: 'orders', workerId: 'w5' },
+      'ship': { queue: 'orders', workerId: 'w6', subscribes: ['step:manual-review'] },
+    },
+  }
+
+  it('selects the first matching branch, then the default', () => {
+    expect(selectRouteTargets(routes as any, { amount: 5000, country: 'DE' })).toEqual(['manual-review'])
+    expect(selectRouteTargets(routes as any, { amount: 10, country: 'DE' })).toEqual(['vat-check', 'approve'])
+    expect(selectRouteTargets(routes as any, { amount: 10, country: 'FR' })).toEqual(['approve'])
+  })
+
+  it('analyzes routes as labelled dependency edges', () => {
+    const analyzed = analyzeFlow(flow)
+
+    expect(analyzed.steps['manual-review']!.dependsOn).toEqual(['score'])
+    expect(analyzed.steps['approve']!.dependsOn).toEqual(['score'])
+    expect(analyzed.steps['score']!.triggers).toEqual(expect.arrayContaining(['manual-review', 'vat-check', 'approve']))
+    expect(analyzed.steps['score']!.branches).toEqual([
+      { to: 'manual-review', label: 'high value' },
+      { to: 'vat-check', label: 'step.country == "DE"' },
+      { to: 'approve', label: 'step.country == "DE"' },
+      { to: 'approve', label: 'default', default: true },
+    ])
+    expect(analyzed.levels[2]).toEqual(expect.arrayContaining(['manual-review', 'vat-check', 'approve']))
+  })
+
+  it('resolves selected and skipped targets from run events', () => {
+    const pending = resolveRouteDecisions(flow.steps, flow.entry, [])
+    expect(pending.sources['approve']).toEqual(['score'])
+    expect(pending.selected).toEqual({})
+    expect(pending.skipped.size).toBe(0)
+
+    const decided = resolveRouteDecisions(flow.steps, flow.entry, [
+      { type: 'step.completed', stepName: 'receive', data: { result: {} } },
+      { type: 'step.completed', stepName: 'score', data: { result: { amount: 20, country: 'FR' } } },
+    ])
+    expect(decided.selected['approve']).toEqual([{ router: 'score', result: { amount: 20, country: 'FR' } }])
+    expect(Array.from(decided.skipped).sort()).toEqual(['manual-review', 'vat-check'])
+  })
+})
@@ -0,0 +1,61 @@
+import { describe, it, expect, vi } from 'vitest'
+import { analyzeFlow, getFlowVersion } from '../../packages/nvent/src/registry/flowAnalyzer'
+import { MemoryStoreAdapter } from '../../packages/nvent/src/runtime/adapters/builtin/memory-store'
+import { loadFlowDefinition, saveFlowVersions } from '../../packages/nvent/src/runtime/events/utils/flowVersions'
+
+const store = new MemoryStoreAdapter()
+let analyzedFlows: any[] = []
+
+vi.mock('#imports', () => ({
+  $useAnalyzedFlows: () => analyzedFlows,
+  useStoreAdapter: () => store,
+  useStreamTopics: () => ({ StoreSubjects: { flowVersion: (name: string, version: string) => `nvent:flow:version:${name}:${version}` } }),
+  useNventLogger: () => ({ debug: () => {}, info: () => {}, warn: () => {}, error: () => {} }),
+}))
+
+const flow = (steps: Record<string, any>) => ({
+  id: 'orders',
+  entry: { step: 'receive', queue: 'orders', workerId: 'orders/receive', emits: ['received'] },
+  steps,
+})
+
+const v1 = flow({ charge: { queue: 'orders', workerId: 'orders/charge', subscribes: ['received'] } })
+const v2 = flow({ bill: { queue: 'orders', workerId: 'orders/bill', subscribes: ['received'] } })
+
+describe('flow versions', () => {
+  it('hashes the definition independent of key order', () => {
+    const reordered = { steps: v1.steps, id: 'orders', entry: { emits: ['received'], workerId: 'orders/receive', queue: 'orders', step: 'receive' } }
+    expect(getFlowVersion(v1)).toBe(getFlowVersion(reordered))
+    expect(getFlowVersion(v1)).not.toBe(getFlowVersion(v2))
+    expect(analyzeFlow(v1).version).toBe(getFlowVersion(v1))
+  })
+
+  it('keeps older versions loadable after the definition changed', async () => {
+    const def1 = { ...v1, version: getFlowVersion(v1) }
+    const def2 = { ...v2, version: getFlowVersion(v2) }
+
+    analyzedFlows = [def1]
+    await saveFlowVersions(store, analyzedFlows)
+
+    // Redeploy with a changed step graph
+    analyzedFlows = [def2]
+    await saveFlowVersions(store, analyzedFlows)
+
+    expect((await loadFlowDefinition('orders', def1.version))?.steps).toHaveProperty('charge')
+    expect((await loadFlowDefinition('orders', def2.version))?.steps).toHaveProperty('bill')
+    expect((await loadFlowDefinition('orders'))?.version).toBe(def2.version)
+    // Unknown versions fall back to the current definition
+    expect((await loadFlowDefinition('orders', 'unknown'))?.version).toBe(def2.version)
+  })
+
+  it('loads a version stored after it was first looked up', async () => {
+    const def3 = { ...v1, id: 'returns', version: 'v3' }
+    analyzedFlows = [{ ...v2, id: 'returns', version: 'v4' }]
+
+    // Not stored yet (e.g. the instance that deployed it hasn't saved it)
+    expect((await loadFlowDefinition('returns', 'v3'))?.version).toBe('v4')
+
+    await saveFlowVersions(store, [def3])
+    expect((await loadFlowDefinition('returns', 'v3'))?.version).toBe('v3')
+  })
+})
@@ -0,0 +1,33 @@
+import { describe, it, expect } from 'vitest'
+import { applyJobsQuery, encodeJobsCursor } from '../../packages/nvent/src/runtime/adapters/base/jobs-query'
+import type { Job } from '../../packages/nvent/src/runtime/adapters/interfaces/queue'
+
+describe('JobsQuery', () => {
+  const jobs: Job[] = [
+    { id: 'a', name: 'send', data: {}, state: 'completed', timestamp: 1000 },
+    { id: 'b', name: 'send', data: {}, state: 'failed', timestamp: 2000 },
+    { id: 'c', name: 'charge', data: {}, state: 'completed', timestamp: 2000 },
+    { id: 'd', name: 'send', data: {}, state: 'waiting', timestamp: 3000 },
+  ]
+  const ids = (list: Job[]) => list.map(job => job.id)
+
+  it('sorts newest first by default and paginates with offset', () => {
+    expect(ids(applyJobsQuery(jobs))).toEqual(['d', 'c', 'b', 'a'])
+    expect(ids(applyJobsQuery(jobs, { sort: 'asc', offset: 1, limit: 2 }))).toEqual(['b', 'c'])
+  })
+
+  it('filters by state, name and time range', () => {
+    expect(ids(applyJobsQuery(jobs, { state: ['completed'] }))).toEqual(['c', 'a'])
+    expect(ids(applyJobsQuery(jobs, { name: 'send', from: 2000 }))).toEqual(['d', 'b'])
+    expect(ids(applyJobsQuery(jobs, { to: 2000, sort: 'asc' }))).toEqual(['a', 'b', 'c'])
+  })
+
+  it('continues after the cursor job, also between jobs with the same timestamp', () => {
+    const first = applyJobsQuery(jobs, { limit: 2 })
+    expect(ids(first)).toEqual(['d', 'c'])
+
+    const cursor = encodeJobsCursor(first[1]!)
+    expect(ids(applyJobsQuery(jobs, { limit: 2, cursor, offset: 5 }))).toEqual(['b', 'a'])
+    expect(ids(applyJobsQuery(jobs, { sort: 'asc', cursor: encodeJobsCursor(jobs[1]!) }))).toEqual(['c', 'd'])
+  })
+})
@@ -0,0 +1,51 @@
+import { describe, it, expect, vi, afterEach } from 'vitest'
+import { MemoryStoreAdapter } from '../../packages/nvent/src/runtime/adapters/builtin/memory-store'
+import { LeaderElection } from '../../packages/nvent/src/runtime/leader/leader'
+
+vi.mock('#imports', () => ({
+  useNventLogger: () => ({ debug: () => {}, info: () => {}, warn: () => {}, error: () => {} }),
+}))
+
+describe('LeaderElection', () => {
+  const elections: LeaderElection[] = []
+  const create = (store: MemoryStoreAdapter, instanceId: string) => {
+    const election = new LeaderElection({ store, instanceId, leaseTTL: 1000, renewInterval: 50 })
+    elections.push(election)
+    return election
+  }
+
+  afterEach(async () => {
+    for (const election of elections.splice(0)) {
+      await election.stop()
+    }
+  })
+
+  it('elects exactly one leader', async () => {
+    const store = new MemoryStoreAdapter()
+    const a = create(store, 'a')
+    const b = create(store, 'b')
+    await Promise.all([a.start(), b.start()])
+
+    expect([a.isLeader(), b.isLeader()].filter(Boolean)).toHaveLength(1)
+    expect((await a.getLeader())?.instanceId).toBe(a.isLeader() ? 'a' : 'b')
+  })
+
+  it('hands over leadership when the leader resigns', async () => {
+    const store = new MemoryStoreAdapter()
+    const a = create(store, 'a')
+    await a.start()
+    const b = create(store, 'b')
+    await b.start()
+
+    const demoted = vi.fn()
+    a.onDemoted(demoted)
+    const elected = new Promise<void>(resolve => b.onElected(resolve))
+
+    await a.stop()
+    await elected
+
+    expect(demoted).toHaveBeenCalledOnce()
+    expect(b.isLeader()).toBe(true)
+    expect((await b.getLeader())?.instanceId).toBe('b')
+  })
+})
@@ -2,6 +2,7 @@ import { describe, it, expect, beforeEach, afterEach } from 'vitest'
 import { MemoryQueueAdapter } from '../../packages/nvent/src/runtime/adapters/builtin/memory-queue'
 import { MemoryStoreAdapter } from '../../packages/nvent/src/runtime/adapters/builtin/memory-store'
 import { MemoryStreamAdapter } from '../../packages/nvent/src/runtime/adapters/builtin/memory-stream'
+import { verifyAtomicKv } from '../../packages/nvent/src/runtime/adapters/base/store-validator'
 import type { JobInput } from '../../packages/nvent/src/runtime/adapters/interfaces/queue'
 import type { StreamEvent } from '../../packages/nvent/src/runtime/adapters/interfaces/stream'
 
@@ -201,6 +202,64 @@ describe('memory queue adapter', () => {
 
       expect(isPaused).toBe(false)
     })
+
+    it('processes jobs enqueued while paused once resumed', async () => {
+      adapter.registerWorker('test', 'job', async () => ({ ok: true }))
+      await adapter.pause('test')
+
+      const jobId = await adapter.enqueue('test', { name: 'job', data: {} })
+      await new Promise(resolve => setTimeout(resolve, 50))
+      expect((await adapter.getJob('test', jobId))?.state).toBe('waiting')
+
+      await adapter.resume('test')
+      await new Promise(resolve => setTimeout(resolve, 50))
+      expect((await adapter.getJob('test', jobId))?.state).toBe('completed')
+    })
+  })
+
+  describe('job management', () => {
+    it('retries a failed job', async () => {
+      let calls = 0
+      adapter.registerWorker('test', 'flaky', async () => {
+        calls++
+        if (calls === 1) throw new Error('boom')
+        return { ok: true }
+      })
+
+      const jobId = await adapter.enqueue('test', { name: 'flaky', data: {} })
+      await new Promise(resolve => setTimeout(resolve, 50))
+      expect((await adapter.getJob('test', jobId))?.state).toBe('failed')
+
+      expect(await adapter.retryJob('test', jobId)).toBe(true)
+      await new Promise(resolve => setTimeout(resolve, 50))
+
+      const job = await adapter.getJob('test', jobId)
+      expect(job?.state).toBe('completed')
+      expect(job?.failedReason).toBeUndefined()
+      expect(await adapter.retryJob('test', jobId)).toBe(false)
+    })
+
+    it('promotes a delayed job', async () => {
+      const jobId = await adapter.schedule('test', { name: 'later', data: {} }, { delay: 60_000 })
+
+      expect(await adapter.promoteJob('other', jobId)).toBe(false)
+      expect(await adapter.promoteJob('test', jobId)).toBe(true)
+      expect((await adapter.getJob('test', jobId))?.state).toBe('waiting')
+    })
+
+    it('removes jobs and drains waiting and delayed jobs', async () => {
+      const removed = await adapter.enqueue('test', { name: 'job1', data: {} })
+      await adapter.enqueue('test', { name: 'job2', data: {} })
+      await adapter.schedule('test', { name: 'job3', data: {} }, { delay: 60_000 })
+      await adapter.enqueue('other', { name: 'job4', data: {} })
+
+      expect(await adapter.removeJob('test', removed)).toBe(true)
+      expect(await adapter.getJob('test', removed)).toBeNull()
+
+      await adapter.drain('test')
+      expect(await adapter.getJobs('test')).toHaveLength(0)
+      expect(await adapter.getJobs('other')).toHaveLength(1)
+    })
   })
 
   describe('cleanup', () => {
@@ -418,6 +477,26 @@ describe('memory store adapter', () => {
       expect(await adapter.kv.get('test:2')).toBeNull()
       expect(await adapter.kv.get('other:1')).toBe('c')
     })
+
+    it('sets a key only if it does not exist', async () => {
+      expect(await adapter.kv.setNX('lock', { owner: 'a' })).toBe(true)
+      expect(await adapter.kv.setNX('lock', { owner: 'b' })).toBe(false)
+      expect(await adapter.kv.get('lock')).toEqual({ owner: 'a' })
+    })
+
+    it('compares and swaps values', async () => {
+      await adapter.kv.set('rev', { version: 1 })
+
+      expect(await adapter.kv.compareAndSwap('rev', { version: 0 }, { version: 2 })).toBe(false)
+      expect(await adapter.kv.compareAndSwap('rev', { version: 1 }, { version: 2 })).toBe(true)
+      expect(await adapter.kv.compareAndSwap('rev', { version: 2 }, null)).toBe(true)
+      expect(await adapter.kv.get('rev')).toBeNull()
+    })
+
+    it('passes the atomic kv conformance check', async () => {
+      const result = await verifyAtomicKv(adapter)
+      expect(result.violations).toEqual([])
+    })
   })
 
   describe('cleanup', () => {
@@ -0,0 +1,84 @@
+import { describe, it, expect, vi } from 'vitest'
+import { MemoryQueueAdapter } from '../../packages/nvent/src/runtime/adapters/builtin/memory-queue'
+import { MemoryStoreAdapter } from '../../packages/nvent/src/runtime/adapters/builtin/memory-store'
+import { createJobProcessor } from '../../packages/nvent/src/runtime/worker/node/runner'
+import { getDeadLetter } from '../../packages/nvent/src/runtime/deadLetter'
+
+const store = new MemoryStoreAdapter()
+const events: any[] = []
+
+vi.mock('#imports', () => ({
+  useEventManager: () => ({
+    publishBus: async (event: any) => {
+      events.push(event)
+    },
+  }),
+  useRuntimeConfig: () => ({ nvent: { queue: { deadLetter: { enabled: true } } } }),
+  useNventLogger: () => ({ info: () => {}, warn: () => {}, debug: () => {}, error: () => {} }),
+  useFlow: () => ({}),
+  useStateAdapter: () => store,
+  useStoreAdapter: () => store,
+  $useFunctionRegistry: () => ({ flows: {} }),
+  $useAnalyzedFlows: () => [],
+  useStreamTopics: () => ({
+    StoreSubjects: {
+      deadLetters: () => 'nvent:dlq',
+      deadLetterAttempts: (queue: string, jobId: string) => `nvent:dlq:attempts:${queue}:${jobId}`,
+    },
+  }),
+}))
+
+const waitForJob = async (adapter: MemoryQueueAdapter, jobId: string) => {
+  for (let i = 0; i < 50; i++) {
+    const state = (await adapter.getJob('orders', jobId))?.state
+    if (state === 'completed' || state === 'failed') return state
+    await new Promise(resolve => setTimeout(resolve, 10))
+  }
+}
+
+describe('createJobProcessor on the memory queue adapter', () => {
+  it('runs flow steps with the job name, run and input', async () => {
+    const adapter = new MemoryQueueAdapter()
+    const calls: any[] = []
+    adapter.registerWorker('orders', 'charge', createJobProcessor(async (input, ctx) => {
+      calls.push({ input, flowId: ctx.flowId, flowName: ctx.flowName, stepName: ctx.stepName, jobId: ctx.jobId })
+      return { charged: input.amount }
+    }, 'orders') as any)
+
+    const jobId = await adapter.enqueue('orders', {
+      name: 'charge',
+      data: { flowId: 'run-1', flowName: 'invoice', input: { amount: 5 } },
+    })
+    expect(await waitForJob(adapter, jobId)).toBe('completed')
+
+    expect(calls).toEqual([{ input: { amount: 5 }, flowId: 'run-1', flowName: 'invoice', stepName: 'charge', jobId }])
+    expect(events.map(e => [e.type, e.runId, e.flowName, e.stepName])).toEqual([
+      ['step.started', 'run-1', 'invoice', 'charge'],
+      ['step.completed', 'run-1', 'invoice', 'charge'],
+    ])
+    expect(events[0].data).toMatchObject({ jobId, name: 'charge', queue: 'orders' })
+    expect(events[1].data).toEqual({ result: { charged: 5 } })
+  })
+
+  it('fails steps on their only attempt and dead-letters them with their options', async () => {
+    events.length = 0
+    const adapter = new MemoryQueueAdapter()
+    adapter.registerWorker('orders', 'charge', createJobProcessor(async () => {
+      throw new Error('Card declined')
+    }, 'orders') as any)
+
+    const jobId = await adapter.enqueue('orders', {
+      name: 'charge',
+      data: { flowId: 'run-2', flowName: 'invoice', input: { amount: 5 } },
+      opts: { jobId: 'run-2__charge', attempts: 3, timeout: 1000 },
+    })
+    expect(await waitForJob(adapter, jobId)).toBe('failed')
+
+    expect(events.map(e => e.type)).toEqual(['step.started', 'step.failed'])
+    expect(await getDeadLetter('orders:run-2__charge')).toMatchObject({
+      jobName: 'charge',
+      runId: 'run-2',
+      opts: { attempts: 3, timeout: 1000 },
+    })
+  })
+})
@@ -0,0 +1,62 @@
+import { describe, it, expect, beforeEach } from 'vitest'
+import { z } from 'zod'
+import { validatePayload, toJsonSchema, PayloadValidationError } from '../../packages/nvent/src/runtime/nitro/utils/payloadSchema'
+import { useSchemaRegistry } from '../../packages/nvent/src/runtime/nitro/utils/useSchemaRegistry'
+
+const orderSchema = z.object({
+  orderId: z.string(),
+  amount: z.number().positive(),
+  priority: z.enum(['low', 'high']).default('low'),
+})
+
+describe('payload schema validation', () => {
+  const registry = useSchemaRegistry()
+
+  beforeEach(() => {
+    registry.clear()
+  })
+
+  it('returns the schema output for valid payloads', async () => {
+    const result = await validatePayload(orderSchema, { orderId: 'o-1', amount: 10 })
+    expect(result).toEqual({ success: true, value: { orderId: 'o-1', amount: 10, priority: 'low' } })
+  })
+
+  it('normalizes issues with dot paths', async () => {
+    const result = await validatePayload(z.object({ order: z.object({ id: z.string() }) }), { order: { id: 1 } })
+    expect(result.success).toBe(false)
+    if (!result.success) {
+      expect(result.issues).toHaveLength(1)
+      expect(result.issues[0]!.path).toBe('order.id')
+    }
+  })
+
+  it('throws a structured error for invalid flow input', async () => {
+    registry.registerFlow('orders', orderSchema)
+
+    const error = await registry.validateFlowInput('orders', { orderId: 'o-1', amount: -5 }).catch(e => e)
+    expect(error).toBeInstanceOf(PayloadValidationError)
+    expect(error.toJSON()).toMatchObject({
+      error: 'Validation failed',
+      target: { kind: 'flow', name: 'orders' },
+      issues: [{ path: 'amount' }],
+    })
+  })
+
+  it('passes payloads through when no schema is registered', async () => {
+    registry.registerTrigger('ignored', { not: 'a schema' })
+    await expect(registry.validateTriggerPayload('ignored', { any: 1 })).resolves.toEqual({ any: 1 })
+  })
+
+  it('exports a JSON schema for the manual trigger form', () => {
+    const jsonSchema = toJsonSchema(orderSchema)
+    expect(jsonSchema).toMatchObject({
+      type: 'object',
+      properties: {
+        orderId: { type: 'string' },
+        amount: { type: 'number' },
+        priority: { enum: ['low', 'high'] },
+      },
+      required: ['orderId', 'amount'],
+    })
+  })
+})
@@ -0,0 +1,105 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest'
+import { spawnSync } from 'node:child_process'
+import { mkdtemp, rm, writeFile } from 'node:fs/promises'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { fileURLToPath } from 'node:url'
+import { PythonProcessPool, PythonTimeoutError } from '../../packages/nvent/src/runtime/worker/python/pool'
+
+const script = fileURLToPath(new URL('../../packages/nvent/src/runtime/worker/python/runner.py', import.meta.url))
+const hasPython = spawnSync('python3', ['--version']).status === 0
+
+describe.skipIf(!hasPython)('python process pool', () => {
+  let dir: string
+  let pool: PythonProcessPool
+
+  beforeAll(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'nvent-py-'))
+
+    await writeFile(join(dir, 'async_step.py'), [
+      'async def handler(input, ctx):',
+      '    ctx.logger.info("processing", {"step": ctx.step_name})',
+      '    await ctx.state.set("count", input["count"] + 1)',
+      '    value = await ctx.state.get("count")',
+      '    await ctx.flow.emit("step.done", {"value": value})',
+      '    return {"value": value, "flowId": ctx.flow_id}',
+      '',
+    ].join('\n'))
+
+    await writeFile(join(dir, 'sync_step.py'), [
+      'def handler(input, ctx):',
+      '    return input * 2',
+      '',
+    ].join('\n'))
+
+    await writeFile(join(dir, 'failing_step.py'), [
+      'def handler(input, ctx):',
+      '    raise ValueError("boom")',
+      '',
+    ].join('\n'))
+
+    await writeFile(join(dir, 'hanging_step.py'), [
+      'import time',
+      '',
+      'def handler(input, ctx):',
+      '    time.sleep(60)',
+      '',
+    ].join('\n'))
+
+    pool = new PythonProcessPool({ script, size: 2 })
+  })
+
+  afterAll(async () => {
+    await pool?.close()
+    await rm(dir, { recursive: true, force: true })
+  })
+
+  it('invokes async handlers and proxies context calls', async () => {
+    const calls: Array<{ method: string, params: any }> = []
+    const state = new Map<string, any>()
+
+    const result = await pool.invoke(
+      join(dir, 'async_step.py'),
+      { count: 1 },
+      { flowId: 'run-1', stepName: 'async_step' },
+      async (method, params) => {
+        calls.push({ method, params })
+        if (method === 'state.set') state.set(params.key, params.value)
+        if (method === 'state.get') return state.get(params.key)
+        if (method === 'flow.emit') return []
+        return null
+      },
+    )
+
+    expect(result).toEqual({ value: 2, flowId: 'run-1' })
+    expect(calls.map(c => c.method)).toEqual(['logger.log', 'state.set', 'state.get', 'flow.emit'])
+    expect(calls[0]!.params).toMatchObject({ level: 'info', message: 'processing', meta: { step: 'async_step' } })
+    expect(calls[3]!.params).toEqual({ trigger: 'step.done', payload: { value: 2 } })
+  })
+
+  it('invokes sync handlers', async () => {
+    const result = await pool.invoke(join(dir, 'sync_step.py'), 21, {}, () => null)
+    expect(result).toBe(42)
+  })
+
+  it('rejects with the python error and traceback', async () => {
+    await expect(pool.invoke(join(dir, 'failing_step.py'), null, {}, () => null))
+      .rejects.toMatchObject({ name: 'PythonHandlerError', message: 'boom', pythonType: 'ValueError' })
+  })
+
+  it('kills handlers that exceed the timeout and keeps serving invocations', async () => {
+    await expect(pool.invoke(join(dir, 'hanging_step.py'), null, {}, () => null, { timeoutMs: 500 }))
+      .rejects.toBeInstanceOf(PythonTimeoutError)
+
+    const results = await Promise.all([1, 2, 3].map(i => pool.invoke(join(dir, 'sync_step.py'), i, {}, () => null)))
+    expect(results).toEqual([2, 4, 6])
+  })
+
+  it('limits the number of child processes', async () => {
+    const results = await Promise.all(
+      Array.from({ length: 5 }, (_, i) => pool.invoke(join(dir, 'sync_step.py'), i, {}, () => null)),
+    )
+    expect(results).toEqual([0, 2, 4, 6, 8])
+    expect(pool.processCount).toBeLessThanOrEqual(2)
+  })
+})
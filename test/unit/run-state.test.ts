@@ -0,0 +1,32 @@
+import { describe, it, expect, vi } from 'vitest'
+import { replayRunState } from '../../packages/nvent/src/runtime/nitro/utils/runState'
+
+vi.mock('#imports', () => ({
+  useEventManager: () => ({ publishBus: async () => {} }),
+  useRuntimeConfig: () => ({}),
+  useStateAdapter: () => ({}),
+}))
+
+const events: any[] = [
+  { id: '1', ts: 1000, type: 'flow.start', runId: 'r1', flowName: 'orders', data: {} },
+  { id: '2', ts: 1001, type: 'state', runId: 'r1', flowName: 'orders', stepName: 'a', data: { operation: 'set', key: 'count', previous: null, value: 1 } },
+  { id: '3', ts: 1002, type: 'step.completed', runId: 'r1', flowName: 'orders', stepName: 'a', data: {} },
+  { id: '4', ts: 1003, type: 'state', runId: 'r1', flowName: 'orders', stepName: 'b', data: { operation: 'set', key: 'count', previous: 1, value: 2 } },
+  { id: '5', ts: 1004, type: 'state', runId: 'r1', flowName: 'orders', stepName: 'b', data: { operation: 'set', key: 'tmp', previous: null, value: 'x' } },
+  { id: '6', ts: 1005, type: 'state', runId: 'r1', flowName: 'orders', stepName: 'b', data: { operation: 'delete', key: 'tmp', previous: 'x' } },
+]
+
+describe('replayRunState', () => {
+  it('folds all state changes into the latest state', () => {
+    const snapshot = replayRunState(events)
+    expect(snapshot.state).toEqual({ count: 2 })
+    expect(snapshot.at).toBe('6')
+    expect(snapshot.changes.map(c => `${c.stepName}:${c.operation}:${c.key}`)).toEqual(['a:set:count', 'b:set:count', 'b:set:tmp', 'b:delete:tmp'])
+  })
+
+  it('reconstructs the state at a given event', () => {
+    expect(replayRunState(events, '3')).toMatchObject({ state: { count: 1 }, at: '3' })
+    expect(replayRunState(events, '5').state).toEqual({ count: 2, tmp: 'x' })
+    expect(replayRunState(events, 'missing').at).toBe('6')
+  })
+})
@@ -0,0 +1,18 @@
+import { describe, it, expect } from 'vitest'
+import { MemoryStoreAdapter } from '../../packages/nvent/src/runtime/adapters/builtin/memory-store'
+import { readAllIndex } from '../../packages/nvent/src/runtime/events/utils/storeIndex'
+
+describe('readAllIndex', () => {
+  it('pages past the adapter default limit', async () => {
+    const store = new MemoryStoreAdapter()
+    for (let i = 0; i < 120; i++) {
+      await store.index.add('nvent:await:event:order.paid', `run-${i}:pay:after`, i, { runId: `run-${i}` })
+    }
+
+    expect(await store.index.read('nvent:await:event:order.paid')).toHaveLength(50)
+
+    const entries = await readAllIndex(store, 'nvent:await:event:order.paid', { pageSize: 50 })
+    expect(entries).toHaveLength(120)
+    expect(new Set(entries.map(e => e.id)).size).toBe(120)
+  })
+})
@@ -0,0 +1,23 @@
+import { describe, it, expect } from 'vitest'
+import { MemoryStoreAdapter } from '../../packages/nvent/src/runtime/adapters/builtin/memory-store'
+import { readAllStream } from '../../packages/nvent/src/runtime/events/utils/storeStream'
+
+describe('readAllStream', () => {
+  it('pages past the read limit, including pages sharing one timestamp', async () => {
+    const store = new MemoryStoreAdapter()
+    const subject = 'nvent:flow:run:run-1'
+    // 10 events per millisecond, and one millisecond with more events than a page
+    for (let i = 0; i < 120; i++) {
+      await store.stream.append(subject, { type: 'log', runId: 'run-1', flowName: 'import', ts: 1000 + Math.floor(i / 10), data: { i } } as any)
+    }
+    for (let i = 120; i < 200; i++) {
+      await store.stream.append(subject, { type: 'log', runId: 'run-1', flowName: 'import', ts: 2000, data: { i } } as any)
+    }
+    await store.stream.append(subject, { type: 'step.completed', runId: 'run-1', flowName: 'import', ts: 3000, stepName: 'load' } as any)
+
+    const events = await readAllStream(store, subject, { pageSize: 25 })
+    expect(events).toHaveLength(201)
+    expect(events.slice(0, 200).map(e => e.data.i)).toEqual(Array.from({ length: 200 }, (_, i) => i))
+    expect(events.at(-1)).toMatchObject({ type: 'step.completed', stepName: 'load' })
+  })
+})
@@ -0,0 +1,77 @@
+import { describe, it, expect, vi } from 'vitest'
+import { buildFlows } from '../../packages/nvent/src/registry/flowBuilder'
+import { SubflowError, getSubflowOutcome, resolveSubflowInput } from '../../packages/nvent/src/runtime/nitro/utils/subflow'
+import { resolveFlowAwait, resumeEndedSubflow } from '../../packages/nvent/src/runtime/nitro/utils/awaitPatterns/flow'
+import { getEventBus } from '../../packages/nvent/src/runtime/events/eventBus'
+import { MemoryStoreAdapter } from '../../packages/nvent/src/runtime/adapters/builtin/memory-store'
+
+const store = new MemoryStoreAdapter()
+
+vi.mock('#imports', () => ({
+  useStoreAdapter: () => store,
+  useScheduler: () => ({ unschedule: async () => {} }),
+  useNventLogger: () => ({ info: () => {}, warn: () => {}, debug: () => {}, error: () => {} }),
+  useStreamTopics: () => ({
+    StoreSubjects: {
+      flowRun: (runId: string) => `nvent:flow:run:${runId}`,
+      flowAwaitResolved: (runId: string, stepName: string, position: string) => `nvent:await:flow:resolved:${runId}:${stepName}:${position}`,
+    },
+  }),
+}))
+
+describe('Sub-flows', () => {
+  it('resolves the child input from the awaiting step', () => {
+    const order = { id: 'o-1', total: 42 }
+    expect(resolveSubflowInput({ 'order.created': order }, 'before')).toEqual(order)
+    expect(resolveSubflowInput({ 'order.created': order }, 'before', 'id')).toBe('o-1')
+    expect(resolveSubflowInput({ a: 1, b: 2 }, 'before')).toEqual({ a: 1, b: 2 })
+    expect(resolveSubflowInput({ flowId: 'r-1', result: { order } }, 'after', 'order')).toEqual(order)
+    expect(resolveSubflowInput(undefined, 'before')).toEqual({})
+  })
+
+  it('derives the outcome from the terminal event', () => {
+    expect(getSubflowOutcome('invoice', 'r-2', [{ type: 'flow.start' }])).toBeUndefined()
+    expect(getSubflowOutcome('invoice', 'r-2', [
+      { type: 'flow.start' },
+      { type: 'flow.completed', data: { result: { invoiceId: 7 } } },
+    ])).toEqual({ runId: 'r-2', flowName: 'invoice', status: 'completed', result: { invoiceId: 7 } })
+
+    const failed = getSubflowOutcome('invoice', 'r-2', [{ type: 'flow.failed', data: { error: 'boom' } }])!
+    expect(failed.status).toBe('failed')
+    expect(new SubflowError(failed).message).toBe(`Sub-flow 'invoice' (r-2) failed: boom`)
+    expect(getSubflowOutcome('invoice', 'r-2', [{ type: 'flow.cancel', data: {} }])?.status).toBe('canceled')
+  })
+
+  it('registers flow.subflow as a flow await before the step', () => {
+    const { flows } = buildFlows([
+      { id: 'w1', queue: 'orders', flow: { names: ['order'], role: 'entry', step: 'receive', emits: ['order.received'] } },
+      { id: 'w2', queue: 'orders', flow: { names: ['order'], role: 'step', step: 'bill', subscribes: ['order.received'], subflow: { flow: 'invoice', input: 'order' } } },
+    ] as any)
+
+    expect(flows.order!.steps.bill!.awaitBefore).toEqual({ type: 'flow', flow: 'invoice', input: 'order' })
+  })
+
+  it('resolves the await of a child that ended before it was stored, once', async () => {
+    const resolved: any[] = []
+    const unsubscribe = getEventBus().onType('await.resolved', e => resolved.push(e))
+
+    // Not ended yet: nothing to resolve
+    await resumeEndedSubflow('parent-1', 'bill', 'order', 'before', { runId: 'child-1', flowName: 'invoice' })
+    expect(resolved).toHaveLength(0)
+
+    await store.stream.append('nvent:flow:run:child-1', { type: 'flow.start', runId: 'child-1', flowName: 'invoice' })
+    await store.stream.append('nvent:flow:run:child-1', { type: 'flow.completed', runId: 'child-1', flowName: 'invoice', data: { result: { invoiceId: 7 } } })
+    await resumeEndedSubflow('parent-1', 'bill', 'order', 'before', { runId: 'child-1', flowName: 'invoice' })
+
+    // The child's terminal event resolving the same await is ignored
+    await resolveFlowAwait('parent-1', 'bill', 'order', 'before', { runId: 'child-1', flowName: 'invoice', status: 'completed', result: { invoiceId: 7 } })
+    unsubscribe()
+
+    expect(resolved).toHaveLength(1)
+    expect(resolved[0]).toMatchObject({
+      runId: 'parent-1',
+      stepName: 'bill',
+      triggerData: { runId: 'child-1', status: 'completed', result: { invoiceId: 7 } },
+    })
+  })
+})
@@ -0,0 +1,77 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest'
+import { mkdtemp, rm, writeFile } from 'node:fs/promises'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { fileURLToPath } from 'node:url'
+import { runInTask, TaskTimeoutError } from '../../packages/nvent/src/runtime/worker/node/task'
+
+const entry = fileURLToPath(new URL('../../packages/nvent/src/runtime/worker/node/task-entry.mjs', import.meta.url))
+
+describe('task runner (worker threads)', () => {
+  let dir: string
+
+  beforeAll(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'nvent-task-'))
+
+    await writeFile(join(dir, 'step.ts'), `
+import { defineFunction } from '#imports'
+
+export default defineFunction(async (input: { count: number }, ctx) => {
+  ctx.logger.log('info', 'processing', { count: input.count })
+  await ctx.state.set('count', input.count + 1)
+  const value = await ctx.state.get('count')
+  await ctx.flow.emit('step.done', { value })
+  return { value, flowId: ctx.flowId }
+})
+`)
+
+    await writeFile(join(dir, 'failing.ts'), `
+export default async () => {
+  throw new Error('boom')
+}
+`)
+
+    await writeFile(join(dir, 'busy.ts'), `
+export default async () => {
+  while (true) {}
+}
+`)
+  })
+
+  afterAll(async () => {
+    await rm(dir, { recursive: true, force: true })
+  })
+
+  it('runs the handler in a worker thread and proxies ctx calls', async () => {
+    const calls: Array<{ method: string, args: any[] }> = []
+    const state = new Map<string, any>()
+
+    const result = await runInTask({
+      entry,
+      file: join(dir, 'step.ts'),
+      input: { count: 1 },
+      context: { flowId: 'run-1' },
+      onRpc: (method, args) => {
+        calls.push({ method, args })
+        if (method === 'state.set') state.set(args[0], args[1])
+        if (method === 'state.get') return state.get(args[0])
+        if (method === 'flow.emit') return []
+        return undefined
+      },
+    })
+
+    expect(result).toEqual({ value: 2, flowId: 'run-1' })
+    expect(calls.map(c => c.method)).toEqual(['logger.log', 'state.set', 'state.get', 'flow.emit'])
+    expect(calls[3]!.args).toEqual(['step.done', { value: 2 }])
+  })
+
+  it('rejects with the handler error', async () => {
+    await expect(runInTask({ entry, file: join(dir, 'failing.ts'), input: null, context: {}, onRpc: () => undefined }))
+      .rejects.toThrow('boom')
+  })
+
+  it('terminates tasks that exceed the timeout', async () => {
+    await expect(runInTask({ entry, file: join(dir, 'busy.ts'), input: null, context: {}, timeoutMs: 1500, onRpc: () => undefined }))
+      .rejects.toBeInstanceOf(TaskTimeoutError)
+  })
+})
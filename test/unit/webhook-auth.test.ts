@@ -0,0 +1,118 @@
+import { describe, it, expect } from 'vitest'
+import { createHmac } from 'node:crypto'
+import { verifyWebhookAuth } from '../../packages/nvent/src/runtime/nitro/utils/webhookAuth'
+
+const secrets: Record<string, string> = {
+  HOOK_SECRET: 'whsec_test',
+  HOOK_TOKEN: 'token-1',
+  HOOK_TOKEN_NEXT: 'token-2',
+  HOOK_PASSWORD: 's3cret',
+}
+const resolveSecret = (ref: string) => secrets[ref]
+const sign = (payload: string, algorithm = 'sha256') => createHmac(algorithm, secrets.HOOK_SECRET!).update(payload).digest('hex')
+
+describe('webhook auth', () => {
+  const body = JSON.stringify({ orderId: 42 })
+  const now = 1_700_000_000_000
+  const ts = String(now / 1000)
+
+  describe('hmac', () => {
+    it('accepts a valid standard signature', async () => {
+      const result = await verifyWebhookAuth(
+        { type: 'hmac', secret: 'HOOK_SECRET' },
+        { headers: { 'X-Webhook-Signature': sign(`${ts}.${body}`), 'X-Webhook-Timestamp': ts }, rawBody: body },
+        { resolveSecret, now },
+      )
+      expect(result).toEqual({ valid: true })
+    })
+
+    it('rejects a tampered body', async () => {
+      const result = await verifyWebhookAuth(
+        { type: 'hmac', secret: 'HOOK_SECRET' },
+        { headers: { 'x-webhook-signature': sign(`${ts}.${body}`), 'x-webhook-timestamp': ts }, rawBody: '{"orderId":43}' },
+        { resolveSecret, now },
+      )
+      expect(result).toEqual({ valid: false, reason: 'Invalid signature' })
+    })
+
+    it('rejects timestamps outside the tolerance window', async () => {
+      const old = String(now / 1000 - 600)
+      const result = await verifyWebhookAuth(
+        { type: 'hmac', secret: 'HOOK_SECRET' },
+        { headers: { 'x-webhook-signature': sign(`${old}.${body}`), 'x-webhook-timestamp': old }, rawBody: body },
+        { resolveSecret, now },
+      )
+      expect(result).toEqual({ valid: false, reason: 'Signature timestamp outside tolerance' })
+    })
+
+    it('verifies github and stripe schemes', async () => {
+      const github = await verifyWebhookAuth(
+        { type: 'hmac', scheme: 'github', secret: 'HOOK_SECRET' },
+        { headers: { 'x-hub-signature-256': `sha256=${sign(body)}` }, rawBody: body },
+        { resolveSecret, now },
+      )
+      expect(github.valid).toBe(true)
+
+      const stripe = await verifyWebhookAuth(
+        { type: 'hmac', scheme: 'stripe', secret: 'HOOK_SECRET' },
+        { headers: { 'stripe-signature': `t=${ts},v1=deadbeef,v1=${sign(`${ts}.${body}`)}` }, rawBody: body },
+        { resolveSecret, now },
+      )
+      expect(stripe.valid).toBe(true)
+    })
+
+    it('rejects replayed signatures', async () => {
+      const seen = new Set<string>()
+      const checkReplay = async (key: string) => {
+        if (seen.has(key)) return true
+        seen.add(key)
+        return false
+      }
+      const req = { headers: { 'x-webhook-signature': sign(`${ts}.${body}`), 'x-webhook-timestamp': ts }, rawBody: body }
+
+      expect(await verifyWebhookAuth({ type: 'hmac', secret: 'HOOK_SECRET' }, req, { resolveSecret, checkReplay, now })).toEqual({ valid: true })
+      expect(await verifyWebhookAuth({ type: 'hmac', secret: 'HOOK_SECRET' }, req, { resolveSecret, checkReplay, now })).toEqual({ valid: false, reason: 'Replayed request' })
+    })
+
+    it('remembers github signatures for the replay window', async () => {
+      const ttls: number[] = []
+      const checkReplay = async (_key: string, ttl: number) => {
+        ttls.push(ttl)
+        return false
+      }
+      const req = { headers: { 'x-hub-signature-256': `sha256=${sign(body)}` }, rawBody: body }
+
+      await verifyWebhookAuth({ type: 'hmac', scheme: 'github', secret: 'HOOK_SECRET' }, req, { resolveSecret, checkReplay, now })
+      await verifyWebhookAuth({ type: 'hmac', scheme: 'github', secret: 'HOOK_SECRET', replayWindow: 3600 }, req, { resolveSecret, checkReplay, now })
+      expect(ttls).toEqual([259200, 3600])
+    })
+
+    it('fails closed when the secret reference is not configured', async () => {
+      const result = await verifyWebhookAuth(
+        { type: 'hmac', secret: 'MISSING' },
+        { headers: {}, rawBody: body },
+        { resolveSecret, now },
+      )
+      expect(result.valid).toBe(false)
+    })
+  })
+
+  describe('bearer', () => {
+    it('accepts any configured token', async () => {
+      const auth = { type: 'bearer' as const, token: ['HOOK_TOKEN', 'HOOK_TOKEN_NEXT'] }
+      expect(await verifyWebhookAuth(auth, { headers: { authorization: 'Bearer token-2' } }, { resolveSecret })).toEqual({ valid: true })
+      expect(await verifyWebhookAuth(auth, { headers: { authorization: 'Bearer nope' } }, { resolveSecret })).toEqual({ valid: false, reason: 'Invalid bearer token' })
+    })
+  })
+
+  describe('basic', () => {
+    it('checks username and password', async () => {
+      const auth = { type: 'basic' as const, username: 'hook', password: 'HOOK_PASSWORD' }
+      const header = (user: string, pass: string) => `Basic ${Buffer.from(`${user}:${pass}`).toString('base64')}`
+
+      expect(await verifyWebhookAuth(auth, { headers: { authorization: header('hook', 's3cret') } }, { resolveSecret })).toEqual({ valid: true })
+      expect((await verifyWebhookAuth(auth, { headers: { authorization: header('hook', 'wrong') } }, { resolveSecret })).valid).toBe(false)
+      expect((await verifyWebhookAuth(auth, { headers: {} }, { resolveSecret })).valid).toBe(false)
+    })
+  })
+})